@@ -0,0 +1,67 @@
+/**
+ * Command-line self-play simulator.
+ * Plays AI-versus-AI hands and prints per-seat results.
+ *
+ * Usage:
+ *   npm run simulate -- --hands 5000 --seats easy,medium,hard --seed 42
+ *
+ * Options:
+ *   --hands <n>        Number of hands to play (default 1000)
+ *   --seats <list>     Comma-separated difficulties, one per seat (default easy,medium,hard)
+ *   --stack <n>        Starting stack for every seat, reset each hand (default 100)
+ *   --blinds <sb/bb>   Blind sizes (default 5/10)
+ *   --seed <n>         Master seed to reproduce a run
+ */
+
+import { runSimulation, SimulationConfig, SeatResult } from '../src/utils/simulator';
+import { parseSimulationArgs, SIMULATION_USAGE } from '../src/utils/simulatorCli';
+
+/**
+ * Formats the per-seat results as a fixed-width table.
+ */
+function formatTable(seats: SeatResult[]): string {
+  const header = ['Seat', 'Win %', 'bb/100', 'VPIP %', 'AF', 'SD bb/100', 'Net chips'];
+  const rows = seats.map(seat => [
+    seat.name,
+    seat.winRate.toFixed(1),
+    seat.bbPer100.toFixed(1),
+    seat.vpip.toFixed(1),
+    seat.aggression.toFixed(1),
+    seat.stdDevBbPer100.toFixed(1),
+    String(seat.netChips),
+  ]);
+
+  const widths = header.map((title, col) =>
+    Math.max(title.length, ...rows.map(row => row[col].length))
+  );
+  const formatRow = (row: string[]) =>
+    row.map((cell, col) => (col === 0 ? cell.padEnd(widths[col]) : cell.padStart(widths[col]))).join('  ');
+
+  return [formatRow(header), widths.map(w => '-'.repeat(w)).join('  '), ...rows.map(formatRow)].join('\n');
+}
+
+function main(): void {
+  let config: SimulationConfig;
+  try {
+    config = parseSimulationArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${SIMULATION_USAGE}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const started = Date.now();
+  const result = runSimulation(config);
+  const seconds = (Date.now() - started) / 1000;
+
+  console.log(
+    `Played ${result.hands} hands (${config.smallBlind}/${config.bigBlind} blinds, ` +
+    `${config.startingChips} chip stacks) in ${seconds.toFixed(1)}s - seed ${result.seed}\n`
+  );
+  console.log(formatTable(result.seats));
+
+  const ranking = [...result.seats].sort((a, b) => b.bbPer100 - a.bbPer100);
+  console.log(`\nRanking by bb/100: ${ranking.map(seat => seat.name).join(' > ')}`);
+}
+
+main();
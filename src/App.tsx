@@ -1,6 +1,7 @@
 import './App.css'
-import { useState, useEffect, useRef, useCallback } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { useGameState } from './hooks/useGameState'
+import { useGameFlow } from './hooks/useGameFlow'
 import { useSoundEffects } from './hooks/useSoundEffects'
 import { PokerTable } from './components/PokerTable'
 import { CowboyPanel } from './components/CowboyPanel'
@@ -9,53 +10,37 @@ import { SoundToggle } from './components/SoundToggle'
 import { ConfirmDialog } from './components/ConfirmDialog'
 import { ModeSelection } from './components/ModeSelection'
 import { GameOverScreen } from './components/GameOverScreen'
-import { makeAIDecision } from './utils/ai'
-import { TIMING } from './constants/timing'
-import { getBestFiveCardHand, getBestHandFromSix, evaluateHand } from './utils/handEvaluator'
-import { evaluateHandStrength } from './utils/handStrength'
-import {
-  generateHandStartNarration,
-  generateAIActionNarration,
-  generateUserTurnNarration,
-  generateUserActionNarration,
-  generateShowdownNarration,
-} from './utils/cowboyNarration'
-import {
-  trackModeSelection,
-  trackHandStart,
-  trackUserAction,
-  trackSessionStart,
-} from './utils/analytics'
+import { readOpponent } from './utils/opponentModel'
+import { getFinishingPlaces } from './utils/tournament'
+import { resolveRaiseAmount } from './utils/bettingLimits'
+import { getBestHand } from './utils/handEvaluator'
+import { evaluateHandStrength, rateOmahaStartingHand } from './utils/handStrength'
+import { trackModeSelection, trackSessionStart } from './utils/analytics'
 import { incrementSessionCount } from './utils/statistics'
 import { audioService } from './utils/audio'
-
-// Delay before showing narrator after an action (let user see animation)
-const NARRATION_DELAY = 800
+import { GameMode, DifficultyLevel, GameState } from './types/game'
+import { GameSetup } from './types/setup'
 
 function App() {
+  const game = useGameState()
   const {
     state,
     startNewHand,
     handlePlayerAction,
-    isBettingComplete,
-    startPhaseAdvance,
-    advancePhase,
-    determineWinner,
-    resetForNextHand,
-    setPendingEvent,
-    addActionHistory,
-    setWaitingForNext,
     setMode,
     setDifficulty,
+    applySetup,
+    topUp,
+    cashOut,
     restartGame,
-  } = useGameState()
+    restoreGame,
+  } = game
+  // AI turns, narration and showdown pacing
+  const { next, dealNextHand } = useGameFlow(game)
 
   const [showFoldConfirm, setShowFoldConfirm] = useState(false)
+  const [showRebuyPrompt, setShowRebuyPrompt] = useState(false)
   const [modeSelected, setModeSelected] = useState(false)
-  const hasShownHandStart = useRef(false)
-  const isProcessingAI = useRef(false)
-  const lastPhaseRef = useRef<string>('')
-  const userActionTimestamp = useRef<number>(0)
 
   // Check if hand has been dealt
   const hasCards = state.players.some(p => p.holeCards.length > 0)
@@ -75,47 +60,30 @@ function App() {
   }, [])
 
   // Handle mode selection
-  const handleModeSelect = (mode: 'tutorial' | 'training', difficulty: 'easy' | 'medium' | 'hard') => {
+  const handleModeSelect = (mode: GameMode, difficulty: DifficultyLevel, setup: GameSetup) => {
+    applySetup(setup)
     setMode(mode)
     setDifficulty(difficulty)
     setModeSelected(true)
     trackModeSelection(mode)
   }
 
-  // Helper to get AI hand strength for narration
-  const getAIHandStrength = useCallback((playerId: string): number => {
-    const player = state.players.find(p => p.id === playerId)
-    if (!player || player.holeCards.length !== 2) return 0
-
-    if (state.communityCards.length === 0) {
-      const rankValues: Record<string, number> = {
-        '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8,
-        '9': 9, '10': 10, 'J': 11, 'Q': 12, 'K': 13, 'A': 14
-      }
-      const v1 = rankValues[player.holeCards[0].rank]
-      const v2 = rankValues[player.holeCards[1].rank]
-      if (v1 === v2) return Math.min(10, v1 / 2 + 3)
-      return (v1 + v2) / 4
-    }
-
-    if (state.communityCards.length === 3) {
-      const allCards = [...player.holeCards, ...state.communityCards]
-      return evaluateHand(allCards).rank
-    } else if (state.communityCards.length === 4) {
-      const allCards = [...player.holeCards, ...state.communityCards]
-      return getBestHandFromSix(allCards).rank
-    } else if (state.communityCards.length === 5) {
-      return getBestFiveCardHand(player.holeCards, state.communityCards).rank
-    }
-
-    return 0
-  }, [state.players, state.communityCards])
+  // Resume a game saved before a reload, mid-hand; its narration is restored
+  // with it, and restoring starts no hand, so the hand start is not announced again
+  const handleResumeGame = (saved: GameState) => {
+    restoreGame(saved)
+    setModeSelected(true)
+  }
 
   // Helper to evaluate current hand strength
   const evaluateCurrentHandStrength = useCallback((): 'weak' | 'medium' | 'strong' => {
     const userPlayer = state.players.find(p => p.isUser)
     if (!userPlayer || userPlayer.holeCards.length === 0) return 'weak'
 
+    if (state.communityCards.length === 0 && state.variant === 'omaha') {
+      return rateOmahaStartingHand(userPlayer.holeCards)
+    }
+
     if (state.communityCards.length === 0) {
       const card1 = userPlayer.holeCards[0]
       const card2 = userPlayer.holeCards[1]
@@ -131,278 +99,32 @@ function App() {
       return (hasHighCard && suited) ? 'medium' : 'weak'
     }
 
-    let evaluation
-    const totalCards = userPlayer.holeCards.length + state.communityCards.length
-
-    if (totalCards === 7) {
-      evaluation = getBestFiveCardHand(userPlayer.holeCards, state.communityCards)
-    } else if (totalCards === 6) {
-      const allCards = [...userPlayer.holeCards, ...state.communityCards]
-      evaluation = getBestHandFromSix(allCards)
-    } else if (totalCards === 5) {
-      const allCards = [...userPlayer.holeCards, ...state.communityCards]
-      evaluation = evaluateHand(allCards)
-    } else {
-      return 'weak'
-    }
-
-    return evaluateHandStrength(evaluation)
-  }, [state.players, state.communityCards])
+    if (state.communityCards.length < 3) return 'weak'
 
-  // Check active players
-  const getActivePlayers = useCallback(() => {
-    return state.players.filter(p => !p.isFolded)
-  }, [state.players])
+    return evaluateHandStrength(getBestHand(userPlayer.holeCards, state.communityCards, state.variant))
+  }, [state.players, state.communityCards, state.variant])
 
 
-  // Effect: Show hand start narration
-  useEffect(() => {
-    if (hasCards && !hasShownHandStart.current) {
-      hasShownHandStart.current = true
-
-      const dealerIdx = state.dealerPosition
-      const sbIdx = (dealerIdx + 1) % state.players.length
-      const bbIdx = (dealerIdx + 2) % state.players.length
-
-      const dealerName = state.players[dealerIdx]?.name || 'Dealer'
-      const sbName = state.players[sbIdx]?.name || 'Small Blind'
-      const bbName = state.players[bbIdx]?.name || 'Big Blind'
-
-      const message = generateHandStartNarration(
-        dealerName,
-        sbName,
-        bbName,
-        state.smallBlind,
-        state.bigBlind
-      )
-
-      setPendingEvent({
-        type: 'hand_start',
-        message,
-      })
-
-      // Track hand start
-      trackHandStart()
-    }
-  }, [hasCards, state.dealerPosition, state.players, state.smallBlind, state.bigBlind, setPendingEvent])
-
-  // Effect: Handle AI turns and phase transitions
-  useEffect(() => {
-    // Don't run if game not started, already processing, or hand complete
-    if (!hasCards || isProcessingAI.current || state.isHandComplete) {
-      return
-    }
-
-    const currentPlayer = state.players[state.currentPlayerIndex]
-
-    // Check for single player remaining
-    const activePlayers = getActivePlayers()
-    if (activePlayers.length === 1) {
-      determineWinner()
-      return
-    }
-
-    // Check if betting round is complete - need to advance phase
-    if (!state.isAdvancingPhase && isBettingComplete()) {
-      isProcessingAI.current = true
-      startPhaseAdvance()
-
-      // Advance phase first (deal cards), then show narration
-      setTimeout(() => {
-        const nextPhase =
-          state.currentPhase === 'pre-flop' ? 'flop' :
-          state.currentPhase === 'flop' ? 'turn' :
-          state.currentPhase === 'turn' ? 'river' : 'showdown'
-
-        advancePhase()
-
-        // After cards are dealt, show narration
-        setTimeout(() => {
-          if (nextPhase === 'showdown') {
-            setPendingEvent({
-              type: 'showdown',
-              message: generateShowdownNarration(),
-            })
-          } else {
-            const phaseMessages: Record<string, string> = {
-              'flop': "Three cards on the board! Take a look at what we're workin' with, partner.",
-              'turn': "The turn card is here! One more to come after this.",
-              'river': "And there's the river! This is it - make your move!",
-            }
-            setPendingEvent({
-              type: 'phase_advance',
-              message: phaseMessages[nextPhase] || "New cards on the table!",
-            })
-            // Require user to click Next before continuing
-            setWaitingForNext(true)
-          }
-          isProcessingAI.current = false
-        }, NARRATION_DELAY)
-      }, 100)
-
-      return
-    }
-
-    // If it's an AI player's turn and we're not already waiting for user to click Next
-    if (currentPlayer && !currentPlayer.isUser && !currentPlayer.isFolded && !currentPlayer.isAllIn && !state.isWaitingForNextAction) {
-      isProcessingAI.current = true
-
-      // Calculate delay based on game phase (longer in later rounds)
-      let baseDelay = TIMING.AI_TURN_BASE_DELAY
-      if (state.currentPhase === 'turn' || state.currentPhase === 'river') {
-        baseDelay += TIMING.AI_TURN_LATE_DELAY
-      }
-      const randomDelay = Math.random() * TIMING.AI_TURN_RANDOM_DELAY
-      let thinkingDelay = baseDelay + randomDelay
-
-      // Add extra delay if this follows a user action (to allow reading cowboy message)
-      const timeSinceUserAction = Date.now() - userActionTimestamp.current
-      if (timeSinceUserAction < TIMING.USER_ACTION_DELAY) {
-        thinkingDelay += TIMING.USER_ACTION_DELAY - timeSinceUserAction
-      }
-
-      setTimeout(() => {
-        // Calculate decision but DON'T execute yet - wait for user to click Next
-        const decision = makeAIDecision(currentPlayer, state)
-        const handStrength = getAIHandStrength(currentPlayer.id)
-
-        const narration = generateAIActionNarration(
-          currentPlayer,
-          decision.action,
-          decision.amount,
-          state,
-          handStrength
-        )
-
-        // Show narration with pending action stored
-        setPendingEvent({
-          type: 'ai_action',
-          message: narration.message,
-          playerName: currentPlayer.name,
-          action: decision.action,
-          reasoning: narration.reasoning,
-          pendingAction: {
-            playerId: currentPlayer.id,
-            action: decision.action,
-            amount: decision.amount,
-          },
-        })
-
-        // Set waiting state so user must click Next
-        setWaitingForNext(true)
-        isProcessingAI.current = false
-      }, thinkingDelay)
-
-      return
-    }
-
-    // If it's the user's turn, show advice only in tutorial mode
-    if (currentPlayer && currentPlayer.isUser && !currentPlayer.isFolded && !currentPlayer.isAllIn) {
-      const userPlayer = state.players.find(p => p.isUser)
-      if (userPlayer && state.mode === 'tutorial') {
-        const turnNarration = generateUserTurnNarration(userPlayer, state)
-        setPendingEvent({
-          type: 'user_turn',
-          message: turnNarration.message,
-          handStrength: turnNarration.handStrength,
-          advice: turnNarration.advice,
-        })
-      }
-    }
-  }, [
-    hasCards,
-    state.isHandComplete,
-    state.isAdvancingPhase,
-    state.isWaitingForNextAction,
-    state.currentPhase,
-    state.currentPlayerIndex,
-    state.players,
-    state.currentBet,
-    state.pot,
-    getActivePlayers,
-    getAIHandStrength,
-    isBettingComplete,
-    startPhaseAdvance,
-    advancePhase,
-    handlePlayerAction,
-    setPendingEvent,
-    setWaitingForNext,
-    determineWinner,
-  ])
-
-  // Effect: Handle showdown
-  useEffect(() => {
-    if (state.currentPhase === 'showdown' && !state.isHandComplete) {
-      const timer = setTimeout(() => {
-        determineWinner()
-      }, TIMING.SHOWDOWN_REVEAL_DELAY)
-      return () => clearTimeout(timer)
-    }
-  }, [state.currentPhase, state.isHandComplete, determineWinner])
-
-  // Reset flags when hand ends
-  useEffect(() => {
-    if (!hasCards) {
-      hasShownHandStart.current = false
-      isProcessingAI.current = false
-      lastPhaseRef.current = ''
-      userActionTimestamp.current = 0
+  // User action handlers; the engine records each action and the game flow narrates it
+  const foldUser = () => {
+    const userPlayer = state.players.find(p => p.isUser)
+    if (userPlayer) {
+      handlePlayerAction(userPlayer.id, 'fold')
     }
-  }, [hasCards])
+  }
 
-  // User action handlers
   const handleFold = () => {
-    const userPlayer = state.players.find(p => p.isUser)
-    if (userPlayer) {
-      const strength = evaluateCurrentHandStrength()
-
-      if (strength === 'medium' || strength === 'strong') {
-        setShowFoldConfirm(true)
-      } else {
-        handlePlayerAction(userPlayer.id, 'fold')
-        addActionHistory({
-          playerName: userPlayer.name,
-          playerId: userPlayer.id,
-          action: 'fold',
-          phase: state.currentPhase,
-          potAfter: state.pot,
-          isUser: true,
-        })
-        trackUserAction('fold', state.currentPhase)
-        setTimeout(() => {
-          setPendingEvent({
-            type: 'user_action',
-            message: generateUserActionNarration('fold'),
-            action: 'fold',
-          })
-          userActionTimestamp.current = Date.now()
-        }, NARRATION_DELAY)
-      }
+    const strength = evaluateCurrentHandStrength()
+
+    if (strength === 'medium' || strength === 'strong') {
+      setShowFoldConfirm(true)
+    } else {
+      foldUser()
     }
   }
 
   const confirmFold = () => {
-    const userPlayer = state.players.find(p => p.isUser)
-    if (userPlayer) {
-      handlePlayerAction(userPlayer.id, 'fold')
-      addActionHistory({
-        playerName: userPlayer.name,
-        playerId: userPlayer.id,
-        action: 'fold',
-        phase: state.currentPhase,
-        potAfter: state.pot,
-        isUser: true,
-      })
-      trackUserAction('fold', state.currentPhase)
-      setTimeout(() => {
-        setPendingEvent({
-          type: 'user_action',
-          message: generateUserActionNarration('fold'),
-          action: 'fold',
-        })
-        userActionTimestamp.current = Date.now()
-      }, NARRATION_DELAY)
-    }
+    foldUser()
     setShowFoldConfirm(false)
   }
 
@@ -414,128 +136,45 @@ function App() {
     const userPlayer = state.players.find(p => p.isUser)
     if (userPlayer) {
       const amountToCall = state.currentBet - userPlayer.currentBet
-      const action = amountToCall === 0 ? 'check' : 'call'
-
-      handlePlayerAction(userPlayer.id, action)
-      addActionHistory({
-        playerName: userPlayer.name,
-        playerId: userPlayer.id,
-        action,
-        amount: amountToCall > 0 ? amountToCall : undefined,
-        phase: state.currentPhase,
-        potAfter: state.pot + amountToCall,
-        isUser: true,
-      })
-      trackUserAction(action, state.currentPhase, amountToCall > 0 ? amountToCall : undefined)
-
-      setTimeout(() => {
-        setPendingEvent({
-          type: 'user_action',
-          message: generateUserActionNarration(action),
-          action,
-        })
-        userActionTimestamp.current = Date.now()
-      }, NARRATION_DELAY)
+      handlePlayerAction(userPlayer.id, amountToCall === 0 ? 'check' : 'call')
     }
   }
 
   const handleRaise = (customAmount?: number) => {
     const userPlayer = state.players.find(p => p.isUser)
     if (userPlayer) {
-      // Use custom amount if provided, otherwise use default minimum raise
-      const raiseAmount = customAmount !== undefined ? customAmount : (state.currentBet + state.bigBlind)
-      const additionalChips = raiseAmount - userPlayer.currentBet
-
-      handlePlayerAction(userPlayer.id, 'raise', raiseAmount)
-      addActionHistory({
-        playerName: userPlayer.name,
-        playerId: userPlayer.id,
-        action: 'raise',
-        amount: raiseAmount,
-        phase: state.currentPhase,
-        potAfter: state.pot + additionalChips,
-        isUser: true,
-      })
-      trackUserAction('raise', state.currentPhase, raiseAmount)
-
-      setTimeout(() => {
-        setPendingEvent({
-          type: 'user_action',
-          message: generateUserActionNarration('raise', raiseAmount),
-          action: 'raise',
-        })
-        userActionTimestamp.current = Date.now()
-      }, NARRATION_DELAY)
+      // Use custom amount if provided, otherwise the minimum raise, held to the betting structure's limits
+      handlePlayerAction(userPlayer.id, 'raise', resolveRaiseAmount(state, userPlayer, customAmount))
     }
   }
 
-  const handleStartNewHand = () => {
-    hasShownHandStart.current = false
-    isProcessingAI.current = false
-    lastPhaseRef.current = ''
-    startNewHand()
-  }
-
   const handleNextHand = () => {
     const userPlayer = state.players.find(p => p.isUser)
 
-    if (userPlayer && userPlayer.chips === 0) {
-      handleStartNewHand()
+    // A busted cash-game user chooses between rebuying and leaving the table
+    if (userPlayer && userPlayer.chips === 0 && state.cashSession) {
+      setShowRebuyPrompt(true)
       return
     }
 
-    resetForNextHand()
-    hasShownHandStart.current = false
-    isProcessingAI.current = false
-    lastPhaseRef.current = ''
-
-    setTimeout(() => {
+    // Outside tournaments and cash games a busted user is dealt straight back in
+    if (userPlayer && userPlayer.chips === 0 && !state.tournament) {
       startNewHand()
-    }, TIMING.NEW_HAND_DELAY)
-  }
-
-  const handlePlayAgain = () => {
-    restartGame()
-    hasShownHandStart.current = false
-    isProcessingAI.current = false
-    lastPhaseRef.current = ''
-    userActionTimestamp.current = 0
-  }
-
-  // Handle "Next" button click in tutorial mode - executes the pending AI action
-  const handleNext = () => {
-    const pendingAction = state.pendingEvent?.pendingAction
-    if (!pendingAction) {
-      // No pending action, just clear waiting state (e.g., for phase transitions)
-      setWaitingForNext(false)
       return
     }
 
-    const { playerId, action, amount } = pendingAction
-    const player = state.players.find(p => p.id === playerId)
-
-    if (player) {
-      // Execute the action
-      handlePlayerAction(playerId, action, amount)
-
-      // Record in action history
-      const amountForHistory = action === 'call'
-        ? state.currentBet - player.currentBet
-        : amount
-
-      addActionHistory({
-        playerName: player.name,
-        playerId: player.id,
-        action,
-        amount: amountForHistory,
-        phase: state.currentPhase,
-        potAfter: state.pot + (amountForHistory || 0),
-        isUser: player.isUser,
-      })
-    }
+    dealNextHand()
+  }
 
-    // Clear waiting state so game can continue
-    setWaitingForNext(false)
+  const confirmRebuy = () => {
+    setShowRebuyPrompt(false)
+    topUp()
+    dealNextHand()
+  }
+
+  const handleCashOut = () => {
+    setShowRebuyPrompt(false)
+    cashOut()
   }
 
   // Show mode selection if not yet selected
@@ -544,7 +183,7 @@ function App() {
       <>
         <MusicPlayer gameStarted={false} />
         <SoundToggle gameStarted={false} />
-        <ModeSelection onSelectMode={handleModeSelect} />
+        <ModeSelection onSelectMode={handleModeSelect} onResumeGame={handleResumeGame} />
       </>
     )
   }
@@ -591,7 +230,7 @@ function App() {
             </p>
 
             <button
-              onClick={handleStartNewHand}
+              onClick={() => startNewHand()}
               aria-label="Deal first hand"
               className="bg-gradient-to-b from-gold-400 to-gold-500 hover:from-gold-300 hover:to-gold-400 text-wood-900 font-body font-bold py-4 px-10 rounded-lg text-xl shadow-xl transition-all hover:scale-105 active:scale-95 border-4 border-gold-600"
               style={{
@@ -617,9 +256,22 @@ function App() {
         onFold={handleFold}
         onCall={handleCall}
         onRaise={handleRaise}
-        onNext={handleNext}
+        onNext={next}
         onNextHand={handleNextHand}
+        onTopUp={topUp}
+        onCashOut={handleCashOut}
       />
+      {state.cashSession && (
+        <ConfirmDialog
+          isOpen={showRebuyPrompt}
+          title="Out of Chips"
+          message={`You're busted, partner. Buy back in for $${state.cashSession.buyIn}, or cash out and call it a night?`}
+          confirmLabel={`Rebuy $${state.cashSession.buyIn}`}
+          cancelLabel="Cash Out"
+          onConfirm={confirmRebuy}
+          onCancel={handleCashOut}
+        />
+      )}
       <ConfirmDialog
         isOpen={showFoldConfirm}
         title="Fold a Good Hand?"
@@ -637,7 +289,11 @@ function App() {
             chips: state.gameWinner.chips,
             isUser: state.gameWinner.isUser,
           }}
-          onPlayAgain={handlePlayAgain}
+          onPlayAgain={restartGame}
+          opponentRead={state.userTendencies ? readOpponent(state.userTendencies) : undefined}
+          finishingPlaces={state.tournament ? getFinishingPlaces(state.tournament, state.players) : undefined}
+          cashSession={state.cashSession}
+          cashOut={state.players.find(p => p.isUser)?.chips}
         />
       )}
     </>
@@ -5,6 +5,7 @@
 
 import { useState, useEffect } from 'react';
 import { GameState } from '../types/game';
+import { getRaiseLimits, isRaisingOpen } from '../utils/bettingLimits';
 
 interface ActionButtonsProps {
   gameState: GameState;
@@ -14,7 +15,7 @@ interface ActionButtonsProps {
 }
 
 export function ActionButtons({ gameState, onFold, onCall, onRaise }: ActionButtonsProps) {
-  const { players, currentPlayerIndex, currentBet, minRaise, bigBlind } = gameState;
+  const { players, currentPlayerIndex, currentBet, bigBlind } = gameState;
   const currentPlayer = players[currentPlayerIndex];
 
   // Check if it's the user's turn
@@ -28,12 +29,11 @@ export function ActionButtons({ gameState, onFold, onCall, onRaise }: ActionButt
   // Calculate amounts
   const amountToCall = currentBet - userPlayer.currentBet;
   const canCall = userPlayer.chips >= amountToCall;
-  const canRaise = userPlayer.chips > amountToCall;
+  const canRaise = userPlayer.chips > amountToCall && isRaisingOpen(gameState, userPlayer);
 
-  // Calculate minimum and maximum raise amounts
-  const minRaiseAmount = Math.min(minRaise, userPlayer.currentBet + userPlayer.chips);
-  const maxRaiseAmount = userPlayer.currentBet + userPlayer.chips;
-  const hasEnoughForMinRaise = userPlayer.chips >= (minRaise - userPlayer.currentBet);
+  // Calculate minimum and maximum raise amounts under the betting structure
+  const { min: minRaiseAmount, max: maxRaiseAmount } = getRaiseLimits(gameState, userPlayer);
+  const hasEnoughForMinRaise = minRaiseAmount < userPlayer.currentBet + userPlayer.chips;
 
   // State for custom raise amount
   const [raiseAmount, setRaiseAmount] = useState(minRaiseAmount);
@@ -58,6 +58,9 @@ export function ActionButtons({ gameState, onFold, onCall, onRaise }: ActionButt
   } else if (hasEnoughForMinRaise) {
     if (showRaiseSlider) {
       raiseButtonText = `Raise to $${raiseAmount}`;
+    } else if (maxRaiseAmount === minRaiseAmount) {
+      // Fixed-limit: there is only one size to raise to
+      raiseButtonText = `Raise to $${minRaiseAmount}`;
     } else {
       raiseButtonText = 'Raise';
     }
@@ -28,6 +28,8 @@ function formatAction(entry: ActionHistoryEntry): string {
       return entry.amount ? `called $${entry.amount}` : 'called';
     case 'raise':
       return entry.amount ? `raised to $${entry.amount}` : 'raised';
+    case 'ante':
+      return entry.amount ? `posted ante $${entry.amount}` : 'posted ante';
     case 'smallBlind':
       return entry.amount ? `posted small blind $${entry.amount}` : 'posted small blind';
     case 'bigBlind':
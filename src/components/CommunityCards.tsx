@@ -1,6 +1,7 @@
 /**
  * Displays the 5 community cards in the center of the table.
  * Shows placeholders for unrevealed cards.
+ * A run-it-twice hand shows its second board underneath the first.
  * Responsive: smaller cards on mobile.
  */
 
@@ -9,9 +10,14 @@ import { Card } from './Card';
 
 interface CommunityCardsProps {
   cards: CardType[];
+  /** Second board of a run-it-twice hand */
+  secondBoard?: CardType[];
 }
 
-export function CommunityCards({ cards }: CommunityCardsProps) {
+/**
+ * One row of 5 card slots.
+ */
+function BoardRow({ cards }: { cards: CardType[] }) {
   // Always show 5 card slots
   const cardSlots = Array(5).fill(null);
 
@@ -51,3 +57,22 @@ export function CommunityCards({ cards }: CommunityCardsProps) {
     </div>
   );
 }
+
+export function CommunityCards({ cards, secondBoard }: CommunityCardsProps) {
+  if (!secondBoard) {
+    return <BoardRow cards={cards} />;
+  }
+
+  return (
+    <div className="flex flex-col gap-1 sm:gap-2">
+      <div>
+        <div className="text-sand-200 text-xs font-body text-center mb-0.5">Board 1</div>
+        <BoardRow cards={cards} />
+      </div>
+      <div>
+        <div className="text-sand-200 text-xs font-body text-center mb-0.5">Board 2</div>
+        <BoardRow cards={secondBoard} />
+      </div>
+    </div>
+  );
+}
@@ -9,9 +9,12 @@ import { GameState, NarratorEvent } from '../types/game';
 import { HandRankings } from './HandRankings';
 import { ActionHistory } from './ActionHistory';
 import { HandHistoryScreen } from './HandHistoryScreen';
-import { describeHand, evaluateHandStrength, describeHoleCards } from '../utils/handStrength';
-import { getBestFiveCardHand, getBestHandFromSix, evaluateHand } from '../utils/handEvaluator';
+import { describeHand, evaluateHandStrength, describeHoleCards, rateOmahaStartingHand } from '../utils/handStrength';
+import { getBestHand } from '../utils/handEvaluator';
 import { textToSpeechService } from '../utils/textToSpeech';
+import { useEquity } from '../hooks/useEquity';
+import { getTopUpAmount } from '../utils/cashGame';
+import { getRaiseLimits, isRaisingOpen } from '../utils/bettingLimits';
 
 interface CowboyPanelProps {
   gameState: GameState;
@@ -21,6 +24,10 @@ interface CowboyPanelProps {
   onRaise: (amount?: number) => void;
   onNext: () => void;
   onNextHand: () => void;
+  /** Tops the user's stack up to a full buy-in (cash games) */
+  onTopUp?: () => void;
+  /** Leaves a cash game and ends the session */
+  onCashOut?: () => void;
 }
 
 export function CowboyPanel({
@@ -31,14 +38,17 @@ export function CowboyPanel({
   onRaise,
   onNext,
   onNextHand,
+  onTopUp,
+  onCashOut,
 }: CowboyPanelProps) {
   const [showHandRankings, setShowHandRankings] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
   const [showHandHistory, setShowHandHistory] = useState(false);
   const [bubbleKey, setBubbleKey] = useState(0);
   const [voiceEnabled, setVoiceEnabled] = useState(() => textToSpeechService.isEnabled());
+  const equity = useEquity(gameState);
 
-  const { players, currentPlayerIndex, currentBet, minRaise, bigBlind, isHandComplete, actionHistory, isWaitingForNextAction } = gameState;
+  const { players, currentPlayerIndex, currentBet, bigBlind, isHandComplete, actionHistory, isWaitingForNextAction } = gameState;
   const currentPlayer = players[currentPlayerIndex];
   const userPlayer = players.find(p => p.isUser);
 
@@ -50,12 +60,11 @@ export function CowboyPanel({
   // Calculate action button states
   const amountToCall = currentBet - userPlayer.currentBet;
   const canCall = userPlayer.chips >= amountToCall;
-  const canRaise = userPlayer.chips > amountToCall;
+  const canRaise = userPlayer.chips > amountToCall && isRaisingOpen(gameState, userPlayer);
 
-  // Calculate minimum and maximum raise amounts
-  const minRaiseAmount = Math.min(minRaise, userPlayer.currentBet + userPlayer.chips);
-  const maxRaiseAmount = userPlayer.currentBet + userPlayer.chips;
-  const hasEnoughForMinRaise = userPlayer.chips >= (minRaise - userPlayer.currentBet);
+  // Calculate minimum and maximum raise amounts under the betting structure
+  const { min: minRaiseAmount, max: maxRaiseAmount } = getRaiseLimits(gameState, userPlayer);
+  const hasEnoughForMinRaise = minRaiseAmount < userPlayer.currentBet + userPlayer.chips;
 
   const isCheck = amountToCall === 0;
   const callButtonText = isCheck ? 'Check' : `Call $${amountToCall}`;
@@ -130,6 +139,9 @@ export function CowboyPanel({
   } else if (hasEnoughForMinRaise) {
     if (showRaiseSlider) {
       raiseButtonText = `Raise to $${raiseAmount}`;
+    } else if (maxRaiseAmount === minRaiseAmount) {
+      // Fixed-limit: there is only one size to raise to
+      raiseButtonText = `Raise to $${minRaiseAmount}`;
     } else {
       raiseButtonText = 'Raise';
     }
@@ -165,6 +177,8 @@ export function CowboyPanel({
   const isSplitPot = winners.length > 1;
   const handDescription = winningHands.length > 0 ? describeHand(winningHands[0]) : '';
   const isUserEliminated = userPlayer && userPlayer.chips === 0 && isHandComplete;
+  const { cashSession } = gameState;
+  const topUpAmount = cashSession ? getTopUpAmount(cashSession, userPlayer.chips) : 0;
 
   // Generate cowboy's end-of-hand message
   const getEndOfHandMessage = () => {
@@ -191,25 +205,17 @@ export function CowboyPanel({
     let strength: 'weak' | 'medium' | 'strong';
     let handDescription: string;
 
-    if (userPlayer.holeCards.length === 2 && gameState.communityCards.length === 5) {
-      // Full board (river) - evaluate best 5-card hand from all 7 cards
-      const evaluation = getBestFiveCardHand(userPlayer.holeCards, gameState.communityCards);
-      strength = evaluateHandStrength(evaluation);
-      handDescription = describeHand(evaluation);
-    } else if (userPlayer.holeCards.length === 2 && gameState.communityCards.length === 3) {
-      // Flop (exactly 5 cards) - evaluate as-is
-      const allCards = [...userPlayer.holeCards, ...gameState.communityCards];
-      const evaluation = evaluateHand(allCards);
-      strength = evaluateHandStrength(evaluation);
-      handDescription = describeHand(evaluation);
-    } else if (userPlayer.holeCards.length === 2 && gameState.communityCards.length === 4) {
-      // Turn (6 cards) - find best 5-card combination
-      const allCards = [...userPlayer.holeCards, ...gameState.communityCards];
-      const evaluation = getBestHandFromSix(allCards);
+    if (gameState.communityCards.length >= 3) {
+      // Flop onwards - best 5-card hand under the variant's rules
+      const evaluation = getBestHand(userPlayer.holeCards, gameState.communityCards, gameState.variant);
       strength = evaluateHandStrength(evaluation);
       handDescription = describeHand(evaluation);
+    } else if (gameState.variant === 'omaha') {
+      // Pre-flop Omaha - rate all four cards together
+      handDescription = describeHoleCards(userPlayer.holeCards);
+      strength = rateOmahaStartingHand(userPlayer.holeCards);
     } else {
-      // Pre-flop or unusual state - just evaluate starting hand strength
+      // Pre-flop - just evaluate starting hand strength
       handDescription = describeHoleCards(userPlayer.holeCards);
 
       // Simple pre-flop strength evaluation
@@ -455,14 +461,36 @@ export function CowboyPanel({
                   {/* Action Buttons Row */}
                   <div className="flex items-center gap-1.5 flex-wrap justify-center">
                     {isHandComplete && winners.length > 0 ? (
-                      <button
-                        onClick={onNextHand}
-                        aria-label={isUserEliminated ? "New game" : "Next hand"}
-                        className="poker-chip px-6 sm:px-8 py-2 sm:py-2.5 rounded-lg font-bold text-xs sm:text-sm transition-all bg-gradient-to-b from-amber-400 via-yellow-500 to-amber-600 hover:from-amber-300 hover:via-yellow-400 hover:to-amber-500 text-amber-950 hover:scale-105 active:scale-95 border border-amber-700"
-                        style={{ fontFamily: "'Playfair Display', serif" }}
-                      >
-                        {isUserEliminated ? 'NEW GAME' : 'NEXT HAND'}
-                      </button>
+                      <>
+                        {cashSession && onTopUp && !isUserEliminated && topUpAmount > 0 && (
+                          <button
+                            onClick={onTopUp}
+                            aria-label={`Top up $${topUpAmount}`}
+                            className="px-4 py-2 sm:py-2.5 rounded-lg font-bold text-xs sm:text-sm transition-all bg-gradient-to-b from-emerald-600 to-emerald-800 hover:from-emerald-500 hover:to-emerald-700 text-white hover:scale-105 active:scale-95 border border-emerald-900"
+                            style={{ fontFamily: "'Playfair Display', serif" }}
+                          >
+                            TOP UP ${topUpAmount}
+                          </button>
+                        )}
+                        <button
+                          onClick={onNextHand}
+                          aria-label={isUserEliminated ? (cashSession ? "Rebuy" : "New game") : "Next hand"}
+                          className="poker-chip px-6 sm:px-8 py-2 sm:py-2.5 rounded-lg font-bold text-xs sm:text-sm transition-all bg-gradient-to-b from-amber-400 via-yellow-500 to-amber-600 hover:from-amber-300 hover:via-yellow-400 hover:to-amber-500 text-amber-950 hover:scale-105 active:scale-95 border border-amber-700"
+                          style={{ fontFamily: "'Playfair Display', serif" }}
+                        >
+                          {isUserEliminated ? (cashSession ? 'REBUY' : 'NEW GAME') : 'NEXT HAND'}
+                        </button>
+                        {cashSession && onCashOut && (
+                          <button
+                            onClick={onCashOut}
+                            aria-label="Cash out"
+                            className="px-4 py-2 sm:py-2.5 rounded-lg font-bold text-xs sm:text-sm transition-all bg-gradient-to-b from-stone-500 to-stone-700 hover:from-stone-400 hover:to-stone-600 text-white hover:scale-105 active:scale-95 border border-stone-800"
+                            style={{ fontFamily: "'Playfair Display', serif" }}
+                          >
+                            CASH OUT
+                          </button>
+                        )}
+                      </>
                     ) : isWaitingForNextAction ? (
                       <button
                         onClick={onNext}
@@ -568,6 +596,15 @@ export function CowboyPanel({
                       >
                         {currentHandInfo.strength}
                       </span>
+                      {equity && (
+                        <span
+                          className={`text-[10px] sm:text-xs font-bold ${strengthBadge.text}`}
+                          style={{ fontFamily: "'Playfair Display', serif" }}
+                          title={`You win ${Math.round(equity.win)}% of the time (tie ${equity.tie}%, lose ${equity.lose}%)`}
+                        >
+                          · WIN {Math.round(equity.win)}%
+                        </span>
+                      )}
                     </div>
                   )}
 
@@ -666,7 +703,7 @@ export function CowboyPanel({
                 </svg>
               </button>
             </div>
-            <HandRankings />
+            <HandRankings variant={gameState.variant} />
           </div>
         </div>
       )}
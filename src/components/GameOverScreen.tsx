@@ -1,8 +1,31 @@
 /**
  * GameOverScreen component
- * Displays when the game ends (only 1 player with chips remaining)
+ * Displays when the game ends (only 1 player with chips remaining, or the
+ * user cashes out of a cash game)
  */
 
+import { OpponentRead, PlayingStyle } from '../types/opponentModel';
+import { FinishingPlace } from '../types/tournament';
+import { CashSession } from '../types/cashGame';
+import { getSessionProfit } from '../utils/cashGame';
+
+/**
+ * Formats a place as an ordinal, e.g. 1st, 2nd, 3rd, 4th.
+ */
+function formatPlace(place: number): string {
+  const suffix = place === 1 ? 'st' : place === 2 ? 'nd' : place === 3 ? 'rd' : 'th';
+  return `${place}${suffix}`;
+}
+
+/** Display names for the styles the AI can read */
+const STYLE_LABELS: Record<PlayingStyle, string> = {
+  unknown: 'Not enough hands to tell',
+  'tight-passive': 'Tight-Passive',
+  'tight-aggressive': 'Tight-Aggressive',
+  'loose-passive': 'Loose-Passive',
+  'loose-aggressive': 'Loose-Aggressive',
+};
+
 interface GameOverScreenProps {
   /** The winner of the game */
   winner: {
@@ -12,10 +35,26 @@ interface GameOverScreenProps {
   };
   /** Callback when user clicks to play again */
   onPlayAgain: () => void;
+  /** What the AI read in the user's play this session */
+  opponentRead?: OpponentRead;
+  /** Final standings (tournaments only) */
+  finishingPlaces?: FinishingPlace[];
+  /** Buy-ins for the session (cash games only) */
+  cashSession?: CashSession;
+  /** Chips the user cashed out with (cash games only) */
+  cashOut?: number;
 }
 
-export function GameOverScreen({ winner, onPlayAgain }: GameOverScreenProps) {
-  const isUserWinner = winner.isUser;
+export function GameOverScreen({
+  winner,
+  onPlayAgain,
+  opponentRead,
+  finishingPlaces,
+  cashSession,
+  cashOut = 0,
+}: GameOverScreenProps) {
+  const sessionProfit = cashSession ? getSessionProfit(cashSession, cashOut) : 0;
+  const isUserWinner = cashSession ? sessionProfit > 0 : winner.isUser;
 
   return (
     <div
@@ -51,9 +90,32 @@ export function GameOverScreen({ winner, onPlayAgain }: GameOverScreenProps) {
           Game Over
         </h1>
 
-        {/* Winner announcement */}
+        {/* Winner announcement, or the session result for a cash game */}
         <div className="mb-8">
-          {isUserWinner ? (
+          {cashSession ? (
+            <>
+              <div className="text-6xl mb-4">{sessionProfit > 0 ? '💰' : '🐴'}</div>
+              <p className="text-3xl font-display font-bold text-gold-400 mb-4">
+                You Cashed Out ${cashOut}
+              </p>
+              <div className="grid grid-cols-3 gap-2 text-sand-200 font-body">
+                <div>
+                  <div className="text-gold-300 text-xl font-bold">${cashSession.totalBuyIn}</div>
+                  <div className="text-xs">Bought In</div>
+                </div>
+                <div>
+                  <div className="text-gold-300 text-xl font-bold">{cashSession.rebuys + cashSession.topUps}</div>
+                  <div className="text-xs">Rebuys &amp; Top-Ups</div>
+                </div>
+                <div>
+                  <div className={`text-xl font-bold ${sessionProfit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {sessionProfit >= 0 ? `+$${sessionProfit}` : `-$${Math.abs(sessionProfit)}`}
+                  </div>
+                  <div className="text-xs">Session Profit</div>
+                </div>
+              </div>
+            </>
+          ) : isUserWinner ? (
             <>
               <div className="text-6xl mb-4">🎉</div>
               <p className="text-3xl font-display font-bold text-gold-400 mb-4">
@@ -84,6 +146,64 @@ export function GameOverScreen({ winner, onPlayAgain }: GameOverScreenProps) {
           )}
         </div>
 
+        {/* Tournament standings */}
+        {finishingPlaces && finishingPlaces.length > 0 && (
+          <div className="mb-8 bg-wood-800/60 border-2 border-wood-900 rounded-lg p-4">
+            <h2 className="text-xl font-display font-bold text-gold-400 mb-1">Final Standings</h2>
+            {finishingPlaces.some(f => f.isUser) && (
+              <p className="text-sand-200 font-body mb-3">
+                You finished {formatPlace(finishingPlaces.find(f => f.isUser)!.place)} of {finishingPlaces.length}.
+              </p>
+            )}
+            <ol className="space-y-1 font-body">
+              {finishingPlaces.map(finisher => (
+                <li
+                  key={finisher.id}
+                  className={`flex justify-between px-3 ${finisher.isUser ? 'text-gold-300 font-bold' : 'text-sand-200'}`}
+                >
+                  <span>{formatPlace(finisher.place)}</span>
+                  <span>{finisher.name}</span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        {/* Coaching: what the AI made of the user's play */}
+        {opponentRead && opponentRead.handsObserved > 0 && (
+          <div className="mb-8 text-left bg-wood-800/60 border-2 border-wood-900 rounded-lg p-4">
+            <h2 className="text-xl font-display font-bold text-gold-400 mb-3 text-center">
+              What the Table Learned About You
+            </h2>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-center mb-3">
+              {[
+                { label: 'VPIP', value: opponentRead.vpip },
+                { label: 'PFR', value: opponentRead.pfr },
+                { label: 'Fold to Bet', value: opponentRead.foldToBet },
+                { label: 'Showdown', value: opponentRead.wentToShowdown },
+              ].map(stat => (
+                <div key={stat.label} className="bg-wood-700 rounded p-2 border border-wood-900">
+                  <div className="text-gold-300 text-lg font-bold">{stat.value.toFixed(1)}%</div>
+                  <div className="text-sand-200 text-xs font-body">{stat.label}</div>
+                </div>
+              ))}
+            </div>
+            <p className="text-sand-200 text-sm font-body mb-2">
+              Over {opponentRead.handsObserved} hands, the table has you pegged as{' '}
+              <span className="font-bold text-gold-300">{STYLE_LABELS[opponentRead.style]}</span>.
+            </p>
+            {opponentRead.leaks.length > 0 && (
+              <ul className="text-sm font-body text-sand-200 space-y-1">
+                {opponentRead.leaks.map(leak => (
+                  <li key={leak.id}>
+                    <span className="text-gold-300">{leak.observation}</span> - the sharp players {leak.exploit.charAt(0).toLowerCase() + leak.exploit.slice(1)}.
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         {/* Play Again Button */}
         <button
           onClick={onPlayAgain}
@@ -0,0 +1,348 @@
+import { useState } from 'react'
+import { BettingStructure, DifficultyLevel, GameVariant, PersonalityId } from '../types/game'
+import { GameSetup, OpponentSetup } from '../types/setup'
+import { DIFFICULTY_LABELS } from '../constants/difficulty'
+import { BETTING_STRUCTURE_LABELS } from '../constants/betting'
+import { VARIANT_LABELS } from '../constants/variants'
+import { PERSONALITIES } from '../constants/personalities'
+import { AI_SEATS, MAX_TABLE_SIZE, MIN_TABLE_SIZE, MAX_PLAYER_NAME_LENGTH } from '../constants/table'
+import { getSetupErrors, createDefaultSetup } from '../utils/gameSetup'
+import { LevelAdvance } from '../types/tournament'
+import { BLIND_SCHEDULES, BLIND_SCHEDULE_LABELS, BlindScheduleId, DEFAULT_TOURNAMENT_CONFIG } from '../constants/tournament'
+
+interface GameSetupScreenProps {
+  /** Setup to start editing from */
+  initialSetup: GameSetup
+  /** Called with the edited setup when the user saves */
+  onSave: (setup: GameSetup) => void
+  /** Called when the user leaves without saving */
+  onCancel: () => void
+}
+
+const inputClass =
+  'w-full bg-wood-900 border-2 border-wood-700 rounded px-2 py-1 text-sand-100 font-body focus:border-gold-500 focus:outline-none'
+
+export function GameSetupScreen({ initialSetup, onSave, onCancel }: GameSetupScreenProps) {
+  const [setup, setSetup] = useState<GameSetup>(initialSetup)
+  const errors = getSetupErrors(setup)
+
+  // Number inputs give NaN while empty; validation reports it
+  const setNumber = (field: 'startingChips' | 'smallBlind' | 'bigBlind', value: string) => {
+    setSetup({ ...setup, [field]: parseInt(value, 10) })
+  }
+
+  const updateOpponent = (index: number, changes: Partial<OpponentSetup>) => {
+    setSetup({
+      ...setup,
+      opponents: setup.opponents.map((opponent, i) => (i === index ? { ...opponent, ...changes } : opponent)),
+    })
+  }
+
+  const addOpponent = () => {
+    // Offer the first stock opponent whose name isn't already at the table
+    const taken = new Set(setup.opponents.map(o => o.name.trim().toLowerCase()))
+    const seat = AI_SEATS.find(s => !taken.has(s.name.toLowerCase())) ?? AI_SEATS[0]
+    setSetup({ ...setup, opponents: [...setup.opponents, { ...seat }] })
+  }
+
+  const removeOpponent = (index: number) => {
+    setSetup({ ...setup, opponents: setup.opponents.filter((_, i) => i !== index) })
+  }
+
+  // Tournaments take their blinds from the first level of the schedule
+  const setTournament = (enabled: boolean) => {
+    if (!enabled) {
+      setSetup({ ...setup, tournament: undefined })
+      return
+    }
+    const tournament = setup.tournament ?? DEFAULT_TOURNAMENT_CONFIG
+    setSetup({
+      ...setup,
+      tournament,
+      cashGame: undefined,
+      smallBlind: tournament.levels[0].smallBlind,
+      bigBlind: tournament.levels[0].bigBlind,
+    })
+  }
+
+  const setSchedule = (id: BlindScheduleId) => {
+    const levels = BLIND_SCHEDULES[id]
+    setSetup({
+      ...setup,
+      tournament: { ...(setup.tournament ?? DEFAULT_TOURNAMENT_CONFIG), levels },
+      smallBlind: levels[0].smallBlind,
+      bigBlind: levels[0].bigBlind,
+    })
+  }
+
+  const scheduleId = (Object.keys(BLIND_SCHEDULES) as BlindScheduleId[])
+    .find(id => BLIND_SCHEDULES[id] === setup.tournament?.levels) ?? 'standard'
+
+  const tableSize = setup.opponents.length + 1
+
+  return (
+    <div
+      className="min-h-screen flex items-center justify-center relative overflow-hidden p-4"
+      style={{
+        background: 'linear-gradient(135deg, #3E2723 0%, #4E342E 50%, #3E2723 100%)',
+      }}
+    >
+      <div className="relative z-10 w-full max-w-3xl">
+        <div className="text-center mb-6">
+          <div className="text-5xl mb-3">🃏</div>
+          <h1 className="text-4xl font-display font-bold text-gold-400" style={{ textShadow: '2px 2px 4px rgba(0, 0, 0, 0.5)' }}>
+            SET UP YOUR TABLE
+          </h1>
+          <div className="h-1 w-32 bg-gold-500 mx-auto my-4" />
+        </div>
+
+        {/* Stakes */}
+        <div className="bg-wood-800 border-4 border-wood-900 rounded-lg p-4 mb-4 shadow-2xl">
+          <h2 className="text-gold-400 font-display font-bold text-lg mb-3">Stakes</h2>
+          <div className="grid grid-cols-3 gap-4">
+            <label className="text-sand-200 text-sm font-body">
+              Starting Chips
+              <input
+                type="number"
+                min={1}
+                value={Number.isNaN(setup.startingChips) ? '' : setup.startingChips}
+                onChange={e => setNumber('startingChips', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-sand-200 text-sm font-body">
+              Small Blind
+              <input
+                type="number"
+                min={1}
+                value={Number.isNaN(setup.smallBlind) ? '' : setup.smallBlind}
+                onChange={e => setNumber('smallBlind', e.target.value)}
+                disabled={setup.tournament !== undefined}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-sand-200 text-sm font-body">
+              Big Blind
+              <input
+                type="number"
+                min={1}
+                value={Number.isNaN(setup.bigBlind) ? '' : setup.bigBlind}
+                onChange={e => setNumber('bigBlind', e.target.value)}
+                disabled={setup.tournament !== undefined}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          {setup.bigBlind > 0 && setup.startingChips > 0 && (
+            <p className="text-sand-200 text-xs font-body mt-2">
+              Stacks are {Math.floor(setup.startingChips / setup.bigBlind)} big blinds deep.
+            </p>
+          )}
+          <label className="block text-sand-200 text-sm font-body mt-3">
+            Game
+            <select
+              value={setup.variant ?? 'holdem'}
+              onChange={e => {
+                const variant = e.target.value as GameVariant
+                // Omaha is almost always played pot-limit; a short deck has no low cards for hi-lo
+                setSetup({
+                  ...setup,
+                  variant,
+                  bettingStructure: variant === 'omaha' ? 'pot-limit' : setup.bettingStructure,
+                  hiLo: variant === 'short-deck' ? undefined : setup.hiLo,
+                })
+              }}
+              className={inputClass}
+            >
+              {(Object.keys(VARIANT_LABELS) as GameVariant[]).map(variant => (
+                <option key={variant} value={variant}>{VARIANT_LABELS[variant]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sand-200 text-sm font-body mt-3">
+            <input
+              type="checkbox"
+              checked={setup.hiLo === true}
+              onChange={e => setSetup({ ...setup, hiLo: e.target.checked || undefined })}
+              disabled={setup.variant === 'short-deck'}
+            />
+            Hi-lo: split each pot with the best low of five cards eight or under
+          </label>
+          <label className="flex items-center gap-2 text-sand-200 text-sm font-body mt-3">
+            <input
+              type="checkbox"
+              checked={setup.runItTwice === true}
+              onChange={e => setSetup({ ...setup, runItTwice: e.target.checked || undefined })}
+            />
+            Run it twice: deal two boards when everyone is all-in and split each pot between them
+          </label>
+          <label className="block text-sand-200 text-sm font-body mt-3">
+            Betting
+            <select
+              value={setup.bettingStructure ?? 'no-limit'}
+              onChange={e => setSetup({ ...setup, bettingStructure: e.target.value as BettingStructure })}
+              className={inputClass}
+            >
+              {(Object.keys(BETTING_STRUCTURE_LABELS) as BettingStructure[]).map(structure => (
+                <option key={structure} value={structure}>{BETTING_STRUCTURE_LABELS[structure]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sand-200 text-sm font-body mt-3">
+            <input
+              type="checkbox"
+              checked={setup.cashGame === true}
+              onChange={e => setSetup({
+                ...setup,
+                cashGame: e.target.checked || undefined,
+                tournament: e.target.checked ? undefined : setup.tournament,
+              })}
+            />
+            Cash game: rebuy or top up to ${Number.isNaN(setup.startingChips) ? 0 : setup.startingChips} between hands, and broke opponents are replaced
+          </label>
+        </div>
+
+        {/* Tournament */}
+        <div className="bg-wood-800 border-4 border-wood-900 rounded-lg p-4 mb-4 shadow-2xl">
+          <label className="flex items-center gap-2 text-gold-400 font-display font-bold text-lg">
+            <input
+              type="checkbox"
+              checked={setup.tournament !== undefined}
+              onChange={e => setTournament(e.target.checked)}
+            />
+            Tournament
+          </label>
+          {setup.tournament && (
+            <>
+              <div className="grid grid-cols-3 gap-4 mt-3">
+                <label className="text-sand-200 text-sm font-body">
+                  Blind Schedule
+                  <select
+                    value={scheduleId}
+                    onChange={e => setSchedule(e.target.value as BlindScheduleId)}
+                    className={inputClass}
+                  >
+                    {(Object.keys(BLIND_SCHEDULES) as BlindScheduleId[]).map(id => (
+                      <option key={id} value={id}>{BLIND_SCHEDULE_LABELS[id]}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-sand-200 text-sm font-body">
+                  Blinds Go Up Every
+                  <input
+                    type="number"
+                    min={1}
+                    value={Number.isNaN(setup.tournament.levelLength) ? '' : setup.tournament.levelLength}
+                    onChange={e => setSetup({ ...setup, tournament: { ...setup.tournament!, levelLength: parseInt(e.target.value, 10) } })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="text-sand-200 text-sm font-body">
+                  Counted In
+                  <select
+                    value={setup.tournament.advanceBy}
+                    onChange={e => setSetup({ ...setup, tournament: { ...setup.tournament!, advanceBy: e.target.value as LevelAdvance } })}
+                    className={inputClass}
+                  >
+                    <option value="hands">Hands</option>
+                    <option value="minutes">Minutes</option>
+                  </select>
+                </label>
+              </div>
+              <p className="text-sand-200 text-xs font-body mt-2">
+                {setup.tournament.levels
+                  .map(level => `${level.smallBlind}/${level.bigBlind}${level.ante > 0 ? ` (${level.ante})` : ''}`)
+                  .join(' → ')}
+              </p>
+            </>
+          )}
+        </div>
+
+        {/* Opponents */}
+        <div className="bg-wood-800 border-4 border-wood-900 rounded-lg p-4 mb-4 shadow-2xl">
+          <h2 className="text-gold-400 font-display font-bold text-lg mb-3">
+            Opponents ({tableSize} seats)
+          </h2>
+          <div className="space-y-2">
+            {setup.opponents.map((opponent, index) => (
+              <div key={index} className="grid grid-cols-[2fr_2fr_2fr_auto] gap-2 items-center">
+                <input
+                  type="text"
+                  value={opponent.name}
+                  maxLength={MAX_PLAYER_NAME_LENGTH}
+                  onChange={e => updateOpponent(index, { name: e.target.value })}
+                  aria-label={`Seat ${index + 1} name`}
+                  className={inputClass}
+                />
+                <select
+                  value={opponent.personality}
+                  onChange={e => updateOpponent(index, { personality: e.target.value as PersonalityId })}
+                  aria-label={`Seat ${index + 1} personality`}
+                  className={inputClass}
+                >
+                  {(Object.keys(PERSONALITIES) as PersonalityId[]).map(id => (
+                    <option key={id} value={id}>{PERSONALITIES[id].label}</option>
+                  ))}
+                </select>
+                <select
+                  value={opponent.difficulty ?? ''}
+                  onChange={e => updateOpponent(index, { difficulty: (e.target.value || undefined) as DifficultyLevel | undefined })}
+                  aria-label={`Seat ${index + 1} difficulty`}
+                  className={inputClass}
+                >
+                  <option value="">Table difficulty</option>
+                  {(Object.keys(DIFFICULTY_LABELS) as DifficultyLevel[]).map(level => (
+                    <option key={level} value={level}>{DIFFICULTY_LABELS[level]}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => removeOpponent(index)}
+                  disabled={tableSize <= MIN_TABLE_SIZE}
+                  aria-label={`Remove seat ${index + 1}`}
+                  className="text-red-400 hover:text-red-300 disabled:opacity-30 font-bold px-2"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={addOpponent}
+            disabled={tableSize >= MAX_TABLE_SIZE}
+            className="mt-3 bg-wood-700 hover:bg-wood-600 disabled:opacity-40 text-sand-100 font-body font-bold py-1 px-4 rounded border-2 border-wood-900"
+          >
+            + Add Opponent
+          </button>
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="bg-red-900/40 border-2 border-red-700 rounded-lg p-3 mb-4 text-red-300 text-sm font-body list-disc list-inside">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+
+        <div className="flex gap-4 justify-center">
+          <button
+            onClick={onCancel}
+            className="bg-gradient-to-b from-wood-600 to-wood-700 hover:from-wood-500 hover:to-wood-600 text-sand-100 font-body font-bold py-3 px-8 rounded-lg shadow-xl border-4 border-wood-800"
+          >
+            ← Back
+          </button>
+          <button
+            onClick={() => setSetup(createDefaultSetup())}
+            className="bg-gradient-to-b from-wood-600 to-wood-700 hover:from-wood-500 hover:to-wood-600 text-sand-100 font-body font-bold py-3 px-8 rounded-lg shadow-xl border-4 border-wood-800"
+          >
+            Reset
+          </button>
+          <button
+            onClick={() => onSave(setup)}
+            disabled={errors.length > 0}
+            className="bg-gradient-to-b from-green-500 to-green-600 hover:from-green-400 hover:to-green-500 disabled:opacity-50 text-white font-body font-bold py-3 px-8 rounded-lg shadow-xl border-4 border-green-700"
+          >
+            Save Table
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
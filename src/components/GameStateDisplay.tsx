@@ -1,17 +1,19 @@
 /**
  * Displays current game state information.
- * Shows pot, betting round, and whose turn it is.
+ * Shows pot, betting round, whose turn it is and, in tournaments, the blind level.
  */
 
 import { GameState } from '../types/game';
+import { getCurrentLevel, describeLevelProgress } from '../utils/tournament';
 
 interface GameStateDisplayProps {
   gameState: GameState;
 }
 
 export function GameStateDisplay({ gameState }: GameStateDisplayProps) {
-  const { pot, currentPhase, players, currentPlayerIndex } = gameState;
+  const { pot, currentPhase, players, currentPlayerIndex, tournament } = gameState;
   const currentPlayer = players[currentPlayerIndex];
+  const level = tournament ? getCurrentLevel(tournament) : null;
 
   // Format phase name
   const phaseNames: Record<string, string> = {
@@ -39,6 +41,20 @@ export function GameStateDisplay({ gameState }: GameStateDisplayProps) {
         <span className="text-green-400 text-lg font-bold">${pot}</span>
       </div>
 
+      {/* Tournament Level */}
+      {tournament && level && (
+        <div className="flex justify-between items-center">
+          <span className="text-gray-400 text-sm font-medium">Level {tournament.level + 1}:</span>
+          <span className="text-white text-sm font-semibold text-right">
+            ${level.smallBlind}/${level.bigBlind}
+            {level.ante > 0 && ` (ante $${level.ante})`}
+            <span className="block text-xs text-gray-500 font-normal">
+              {describeLevelProgress(tournament, Date.now())}
+            </span>
+          </span>
+        </div>
+      )}
+
       {/* Betting Round */}
       <div className="flex justify-between items-center">
         <span className="text-gray-400 text-sm font-medium">Round:</span>
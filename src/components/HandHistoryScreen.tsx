@@ -1,12 +1,15 @@
 /**
  * Hand History Screen component.
- * Displays the last 10 completed hands with full details.
+ * Displays completed hands with full details, searchable by date, result,
+ * hole cards, final phase, pot size and opponent.
  * Matches the Old West saloon aesthetic.
  */
 
-import { useState } from 'react';
-import { HandHistoryRecord } from '../types/handHistory';
-import { getHandHistory } from '../utils/handHistory';
+import { ReactNode, useEffect, useMemo, useState } from 'react';
+import { HandHistoryRecord, HandHistoryQuery, HandOutcome, HandTextParseResult } from '../types/handHistory';
+import { queryHandHistory, importHandHistoryText } from '../utils/handHistory';
+import { formatPokerStarsHistory } from '../utils/handHistoryText';
+import { buildHandReplay } from '../utils/handReplay';
 import { SUIT_SYMBOLS } from '../constants/cards';
 import { Card as CardType, GamePhase } from '../types/game';
 
@@ -23,6 +26,75 @@ const phaseLabels: Record<GamePhase, string> = {
   'showdown': 'Showdown',
 };
 
+/** Filter form values, as typed */
+interface HistoryFilters {
+  from: string;
+  to: string;
+  outcome: '' | HandOutcome;
+  holeCards: string;
+  finalPhase: '' | GamePhase;
+  minPot: string;
+  maxPot: string;
+  opponent: string;
+}
+
+const EMPTY_FILTERS: HistoryFilters = {
+  from: '',
+  to: '',
+  outcome: '',
+  holeCards: '',
+  finalPhase: '',
+  minPot: '',
+  maxPot: '',
+  opponent: '',
+};
+
+const inputClassName = 'w-full rounded border border-amber-300 bg-white/80 px-2 py-1 text-sm text-stone-800';
+
+function parseAmount(value: string): number | undefined {
+  const amount = Number(value);
+  return value.trim() === '' || Number.isNaN(amount) ? undefined : amount;
+}
+
+/**
+ * Turns the filter form into a query. Dates cover whole local days.
+ */
+function toQuery(filters: HistoryFilters): HandHistoryQuery {
+  return {
+    from: filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : undefined,
+    to: filters.to ? new Date(`${filters.to}T23:59:59.999`).getTime() : undefined,
+    outcome: filters.outcome || undefined,
+    holeCards: filters.holeCards.trim() || undefined,
+    finalPhase: filters.finalPhase || undefined,
+    minPot: parseAmount(filters.minPot),
+    maxPot: parseAmount(filters.maxPot),
+    opponent: filters.opponent.trim() || undefined,
+  };
+}
+
+/**
+ * Downloads hands as a PokerStars-style text file for trackers and replayers.
+ */
+function downloadHandsAsText(hands: HandHistoryRecord[]) {
+  // The list is newest first; hand history files run oldest first
+  const text = formatPokerStarsHistory([...hands].reverse());
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'poker-pardner-hands.txt';
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function FilterField({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="block text-xs font-semibold text-amber-800" style={{ fontFamily: "'Crimson Text', serif" }}>
+      {label}
+      <span className="block mt-1">{children}</span>
+    </label>
+  );
+}
+
 function formatCard(card: CardType): string {
   const symbol = SUIT_SYMBOLS[card.suit];
   return `${card.rank}${symbol}`;
@@ -34,8 +106,77 @@ function formatChipChange(change: number): string {
   return '$0';
 }
 
+/**
+ * Steps through a hand one street and action at a time, with the cowboy
+ * narrating as if it were being played.
+ */
+function HandReplayView({ hand }: { hand: HandHistoryRecord }) {
+  // Built once per hand so the narration holds still while stepping
+  const steps = useMemo(() => buildHandReplay(hand), [hand]);
+  const [stepIndex, setStepIndex] = useState(0);
+  const step = steps[stepIndex];
+  const boards = step.secondBoard ? [step.communityCards, step.secondBoard] : [step.communityCards];
+
+  return (
+    <div className="space-y-4" aria-label="Hand replay">
+      <div className="bg-white/60 rounded-lg p-4 border border-amber-200">
+        <div className="flex items-center justify-between mb-2 text-sm text-stone-600" style={{ fontFamily: "'Crimson Text', serif" }}>
+          <span className="font-bold text-amber-700 uppercase tracking-wider">{phaseLabels[step.phase]}</span>
+          <span>Pot: ${step.pot}</span>
+        </div>
+        {boards.map((board, boardIdx) => (
+          <div key={boardIdx} className="flex items-center gap-2 flex-wrap mb-2 last:mb-0 min-h-[2rem]">
+            {step.secondBoard && (
+              <span className="text-xs font-semibold text-stone-600 w-14" style={{ fontFamily: "'Crimson Text', serif" }}>
+                Board {boardIdx + 1}
+              </span>
+            )}
+            {board.map((card, idx) => (
+              <div
+                key={idx}
+                className="bg-white rounded border-2 border-stone-300 px-2 py-1 font-mono text-sm shadow-sm"
+              >
+                {formatCard(card)}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {/* Cowboy commentary */}
+      <div className="bg-amber-100/70 rounded-lg p-4 border-2 border-amber-400" style={{ fontFamily: "'Crimson Text', serif" }}>
+        <p className="text-stone-800" role="status">🤠 {step.narration}</p>
+        {step.advice && (
+          <p className="mt-2 text-sm text-emerald-800">
+            <span className="font-semibold">What I'd have told ya:</span> {step.advice}
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between" style={{ fontFamily: "'Crimson Text', serif" }}>
+        <button
+          onClick={() => setStepIndex(index => index - 1)}
+          disabled={stepIndex === 0}
+          className="text-sm font-semibold text-amber-800 hover:text-amber-950 border border-amber-400 rounded px-3 py-1 transition-colors disabled:opacity-40"
+        >
+          Previous
+        </button>
+        <span className="text-xs text-stone-600">Step {stepIndex + 1} of {steps.length}</span>
+        <button
+          onClick={() => setStepIndex(index => index + 1)}
+          disabled={stepIndex === steps.length - 1}
+          className="text-sm font-semibold text-amber-800 hover:text-amber-950 border border-amber-400 rounded px-3 py-1 transition-colors disabled:opacity-40"
+        >
+          Next
+        </button>
+      </div>
+    </div>
+  );
+}
+
 function HandDetailView({ hand, onBack }: { hand: HandHistoryRecord; onBack: () => void }) {
   const userPlayer = hand.players.find(p => p.isUser);
+  const [isReplaying, setIsReplaying] = useState(false);
 
   return (
     <div className="h-full flex flex-col">
@@ -57,185 +198,205 @@ function HandDetailView({ hand, onBack }: { hand: HandHistoryRecord; onBack: ()
         >
           Hand #{hand.handNumber}
         </h2>
-        <div className="w-16"></div>
+        <button
+          onClick={() => setIsReplaying(replaying => !replaying)}
+          className="w-16 text-xs font-semibold text-amber-800 hover:text-amber-950 border border-amber-400 rounded px-2 py-1 transition-colors"
+          style={{ fontFamily: "'Crimson Text', serif" }}
+          title={isReplaying ? 'Back to the hand summary' : 'Step through the hand with the cowboy'}
+        >
+          {isReplaying ? 'Details' : 'Replay'}
+        </button>
       </div>
 
       {/* Content */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {/* Result Summary */}
-        <div className={`rounded-lg p-4 border-2 ${
-          hand.userWon
-            ? 'bg-emerald-100/60 border-emerald-400'
-            : hand.userFolded
-            ? 'bg-gray-100/60 border-gray-300'
-            : 'bg-rose-100/60 border-rose-300'
-        }`}>
-          <div className="flex items-center justify-between mb-2">
-            <span
-              className="text-lg font-bold text-stone-800"
-              style={{ fontFamily: "'Playfair Display', serif" }}
-            >
-              {hand.userWon ? '🏆 You Won!' : hand.userFolded ? '📋 You Folded' : '❌ You Lost'}
-            </span>
-            <span
-              className={`text-xl font-black ${
-                hand.userChipChange > 0 ? 'text-emerald-700' :
-                hand.userChipChange < 0 ? 'text-rose-700' :
-                'text-stone-600'
-              }`}
-              style={{ fontFamily: "'Crimson Text', serif" }}
-            >
-              {formatChipChange(hand.userChipChange)}
-            </span>
-          </div>
-          <div className="flex items-center justify-between text-sm text-stone-600">
-            <span style={{ fontFamily: "'Crimson Text', serif" }}>Pot: ${hand.potSize}</span>
-            <span style={{ fontFamily: "'Crimson Text', serif" }}>Reached: {phaseLabels[hand.finalPhase]}</span>
-          </div>
-        </div>
-
-        {/* Community Cards */}
-        {hand.communityCards.length > 0 && (
-          <div className="bg-white/60 rounded-lg p-4 border border-amber-200">
-            <h3
-              className="text-sm font-bold text-amber-700 uppercase tracking-wider mb-2"
-              style={{ fontFamily: "'Playfair Display', serif" }}
-            >
-              Community Cards
-            </h3>
-            <div className="flex gap-2 flex-wrap">
-              {hand.communityCards.map((card, idx) => (
-                <div
-                  key={idx}
-                  className="bg-white rounded border-2 border-stone-300 px-2 py-1 font-mono text-sm shadow-sm"
+        {isReplaying ? (
+          <HandReplayView hand={hand} />
+        ) : (
+          <>
+            {/* Result Summary */}
+            <div className={`rounded-lg p-4 border-2 ${
+              hand.userWon
+                ? 'bg-emerald-100/60 border-emerald-400'
+                : hand.userFolded
+                ? 'bg-gray-100/60 border-gray-300'
+                : 'bg-rose-100/60 border-rose-300'
+            }`}>
+              <div className="flex items-center justify-between mb-2">
+                <span
+                  className="text-lg font-bold text-stone-800"
+                  style={{ fontFamily: "'Playfair Display', serif" }}
                 >
-                  {formatCard(card)}
-                </div>
-              ))}
+                  {hand.userWon ? '🏆 You Won!' : hand.userFolded ? '📋 You Folded' : '❌ You Lost'}
+                </span>
+                <span
+                  className={`text-xl font-black ${
+                    hand.userChipChange > 0 ? 'text-emerald-700' :
+                    hand.userChipChange < 0 ? 'text-rose-700' :
+                    'text-stone-600'
+                  }`}
+                  style={{ fontFamily: "'Crimson Text', serif" }}
+                >
+                  {formatChipChange(hand.userChipChange)}
+                </span>
+              </div>
+              <div className="flex items-center justify-between text-sm text-stone-600">
+                <span style={{ fontFamily: "'Crimson Text', serif" }}>Pot: ${hand.potSize}</span>
+                <span style={{ fontFamily: "'Crimson Text', serif" }}>Reached: {phaseLabels[hand.finalPhase]}</span>
+              </div>
             </div>
-          </div>
-        )}
 
-        {/* Your Hand */}
-        {userPlayer && (
-          <div className="bg-emerald-50/60 rounded-lg p-4 border border-emerald-300">
-            <h3
-              className="text-sm font-bold text-emerald-700 uppercase tracking-wider mb-2"
-              style={{ fontFamily: "'Playfair Display', serif" }}
-            >
-              Your Hand
-            </h3>
-            <div className="flex gap-2 mb-2">
-              {userPlayer.holeCards.map((card, idx) => (
-                <div
-                  key={idx}
-                  className="bg-white rounded border-2 border-emerald-400 px-2 py-1 font-mono text-sm shadow-sm"
+            {/* Community Cards (both boards of a run-it-twice hand) */}
+            {hand.communityCards.length > 0 && (
+              <div className="bg-white/60 rounded-lg p-4 border border-amber-200">
+                <h3
+                  className="text-sm font-bold text-amber-700 uppercase tracking-wider mb-2"
+                  style={{ fontFamily: "'Playfair Display', serif" }}
                 >
-                  {formatCard(card)}
-                </div>
-              ))}
-            </div>
-            {userPlayer.handEvaluation && !userPlayer.folded && (
-              <p className="text-xs text-emerald-800" style={{ fontFamily: "'Crimson Text', serif" }}>
-                {userPlayer.handEvaluation.description}
-              </p>
+                  {hand.secondBoard ? 'Community Cards (Run Twice)' : 'Community Cards'}
+                </h3>
+                {[hand.communityCards, ...(hand.secondBoard ? [hand.secondBoard] : [])].map((board, boardIdx) => (
+                  <div key={boardIdx} className="flex items-center gap-2 flex-wrap mb-2 last:mb-0">
+                    {hand.secondBoard && (
+                      <span className="text-xs font-semibold text-stone-600 w-14" style={{ fontFamily: "'Crimson Text', serif" }}>
+                        Board {boardIdx + 1}
+                      </span>
+                    )}
+                    {board.map((card, idx) => (
+                      <div
+                        key={idx}
+                        className="bg-white rounded border-2 border-stone-300 px-2 py-1 font-mono text-sm shadow-sm"
+                      >
+                        {formatCard(card)}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
             )}
-          </div>
-        )}
 
-        {/* Winners */}
-        <div className="bg-white/60 rounded-lg p-4 border border-amber-200">
-          <h3
-            className="text-sm font-bold text-amber-700 uppercase tracking-wider mb-2"
-            style={{ fontFamily: "'Playfair Display', serif" }}
-          >
-            {hand.winnerNames.length > 1 ? 'Winners' : 'Winner'}
-          </h3>
-          {hand.winnerNames.map((name, idx) => (
-            <div key={idx} className="mb-2 last:mb-0">
-              <p className="font-semibold text-stone-800" style={{ fontFamily: "'Crimson Text', serif" }}>
-                {name}
-              </p>
-              {hand.winningHands[idx] && (
-                <p className="text-xs text-stone-600" style={{ fontFamily: "'Crimson Text', serif" }}>
-                  {hand.winningHands[idx].description}
-                </p>
-              )}
-            </div>
-          ))}
-        </div>
+            {/* Your Hand */}
+            {userPlayer && (
+              <div className="bg-emerald-50/60 rounded-lg p-4 border border-emerald-300">
+                <h3
+                  className="text-sm font-bold text-emerald-700 uppercase tracking-wider mb-2"
+                  style={{ fontFamily: "'Playfair Display', serif" }}
+                >
+                  Your Hand
+                </h3>
+                <div className="flex gap-2 mb-2">
+                  {userPlayer.holeCards.map((card, idx) => (
+                    <div
+                      key={idx}
+                      className="bg-white rounded border-2 border-emerald-400 px-2 py-1 font-mono text-sm shadow-sm"
+                    >
+                      {formatCard(card)}
+                    </div>
+                  ))}
+                </div>
+                {userPlayer.handEvaluation && !userPlayer.folded && (
+                  <p className="text-xs text-emerald-800" style={{ fontFamily: "'Crimson Text', serif" }}>
+                    {userPlayer.handEvaluation.description}
+                  </p>
+                )}
+              </div>
+            )}
 
-        {/* All Players */}
-        <div className="bg-white/60 rounded-lg p-4 border border-amber-200">
-          <h3
-            className="text-sm font-bold text-amber-700 uppercase tracking-wider mb-2"
-            style={{ fontFamily: "'Playfair Display', serif" }}
-          >
-            All Players
-          </h3>
-          <div className="space-y-2">
-            {hand.players.map((player) => (
-              <div
-                key={player.id}
-                className={`flex items-center justify-between py-2 px-3 rounded ${
-                  player.isUser ? 'bg-emerald-50/80' : 'bg-gray-50/80'
-                }`}
+            {/* Winners */}
+            <div className="bg-white/60 rounded-lg p-4 border border-amber-200">
+              <h3
+                className="text-sm font-bold text-amber-700 uppercase tracking-wider mb-2"
+                style={{ fontFamily: "'Playfair Display', serif" }}
               >
-                <div className="flex-1">
-                  <p className={`font-semibold text-sm ${player.isUser ? 'text-emerald-800' : 'text-stone-700'}`} style={{ fontFamily: "'Crimson Text', serif" }}>
-                    {player.name} {player.isUser && '(You)'}
+                {hand.winnerNames.length > 1 ? 'Winners' : 'Winner'}
+              </h3>
+              {hand.winnerNames.map((name, idx) => (
+                <div key={idx} className="mb-2 last:mb-0">
+                  <p className="font-semibold text-stone-800" style={{ fontFamily: "'Crimson Text', serif" }}>
+                    {name}
                   </p>
-                  <div className="flex gap-2 mt-1">
-                    {player.holeCards.map((card, idx) => (
-                      <span key={idx} className="text-xs font-mono text-stone-600">
-                        {formatCard(card)}
-                      </span>
-                    ))}
-                  </div>
-                  {player.folded && (
-                    <p className="text-xs text-stone-500 italic mt-1">Folded</p>
+                  {hand.winningHands[idx] && (
+                    <p className="text-xs text-stone-600" style={{ fontFamily: "'Crimson Text', serif" }}>
+                      {hand.winningHands[idx].description}
+                    </p>
                   )}
                 </div>
-                <div className="text-right">
-                  <p className={`font-bold text-sm ${
-                    player.chipChange > 0 ? 'text-emerald-700' :
-                    player.chipChange < 0 ? 'text-rose-700' :
-                    'text-stone-600'
-                  }`}>
-                    {formatChipChange(player.chipChange)}
-                  </p>
-                  <p className="text-xs text-stone-500">${player.finalChips}</p>
-                </div>
+              ))}
+            </div>
+
+            {/* All Players */}
+            <div className="bg-white/60 rounded-lg p-4 border border-amber-200">
+              <h3
+                className="text-sm font-bold text-amber-700 uppercase tracking-wider mb-2"
+                style={{ fontFamily: "'Playfair Display', serif" }}
+              >
+                All Players
+              </h3>
+              <div className="space-y-2">
+                {hand.players.map((player) => (
+                  <div
+                    key={player.id}
+                    className={`flex items-center justify-between py-2 px-3 rounded ${
+                      player.isUser ? 'bg-emerald-50/80' : 'bg-gray-50/80'
+                    }`}
+                  >
+                    <div className="flex-1">
+                      <p className={`font-semibold text-sm ${player.isUser ? 'text-emerald-800' : 'text-stone-700'}`} style={{ fontFamily: "'Crimson Text', serif" }}>
+                        {player.name} {player.isUser && '(You)'}
+                      </p>
+                      <div className="flex gap-2 mt-1">
+                        {player.holeCards.map((card, idx) => (
+                          <span key={idx} className="text-xs font-mono text-stone-600">
+                            {formatCard(card)}
+                          </span>
+                        ))}
+                      </div>
+                      {player.folded && (
+                        <p className="text-xs text-stone-500 italic mt-1">Folded</p>
+                      )}
+                    </div>
+                    <div className="text-right">
+                      <p className={`font-bold text-sm ${
+                        player.chipChange > 0 ? 'text-emerald-700' :
+                        player.chipChange < 0 ? 'text-rose-700' :
+                        'text-stone-600'
+                      }`}>
+                        {formatChipChange(player.chipChange)}
+                      </p>
+                      <p className="text-xs text-stone-500">${player.finalChips}</p>
+                    </div>
+                  </div>
+                ))}
               </div>
-            ))}
-          </div>
-        </div>
+            </div>
 
-        {/* Action History */}
-        {hand.actions.length > 0 && (
-          <div className="bg-white/60 rounded-lg p-4 border border-amber-200">
-            <h3
-              className="text-sm font-bold text-amber-700 uppercase tracking-wider mb-2"
-              style={{ fontFamily: "'Playfair Display', serif" }}
-            >
-              Action History
-            </h3>
-            <div className="space-y-2 text-xs" style={{ fontFamily: "'Crimson Text', serif" }}>
-              {hand.actions.map((action, idx) => (
-                <div
-                  key={idx}
-                  className={`py-1 px-2 rounded ${
-                    action.isUser ? 'bg-emerald-50/60' : 'bg-gray-50/60'
-                  }`}
+            {/* Action History */}
+            {hand.actions.length > 0 && (
+              <div className="bg-white/60 rounded-lg p-4 border border-amber-200">
+                <h3
+                  className="text-sm font-bold text-amber-700 uppercase tracking-wider mb-2"
+                  style={{ fontFamily: "'Playfair Display', serif" }}
                 >
-                  <span className="font-semibold">{action.playerName}:</span>{' '}
-                  {action.action}
-                  {action.amount && ` $${action.amount}`}
-                  <span className="text-stone-500 ml-2">({phaseLabels[action.phase]})</span>
+                  Action History
+                </h3>
+                <div className="space-y-2 text-xs" style={{ fontFamily: "'Crimson Text', serif" }}>
+                  {hand.actions.map((action, idx) => (
+                    <div
+                      key={idx}
+                      className={`py-1 px-2 rounded ${
+                        action.isUser ? 'bg-emerald-50/60' : 'bg-gray-50/60'
+                      }`}
+                    >
+                      <span className="font-semibold">{action.playerName}:</span>{' '}
+                      {action.action}
+                      {action.amount && ` $${action.amount}`}
+                      <span className="text-stone-500 ml-2">({phaseLabels[action.phase]})</span>
+                    </div>
+                  ))}
                 </div>
-              ))}
-            </div>
-          </div>
+              </div>
+            )}
+          </>
         )}
       </div>
     </div>
@@ -245,18 +406,58 @@ function HandDetailView({ hand, onBack }: { hand: HandHistoryRecord; onBack: ()
 export function HandHistoryScreen({ isOpen, onClose }: HandHistoryScreenProps) {
   const [selectedHand, setSelectedHand] = useState<HandHistoryRecord | null>(null);
   const [history, setHistory] = useState<HandHistoryRecord[]>([]);
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_FILTERS);
+  const [filterError, setFilterError] = useState<string | null>(null);
+  const [importResult, setImportResult] = useState<HandTextParseResult | null>(null);
+  // Bumped after an import so the list is searched again
+  const [historyVersion, setHistoryVersion] = useState(0);
 
-  // Load history when opened
-  if (isOpen && history.length === 0 && !selectedHand) {
-    setHistory(getHandHistory());
-  }
+  // Search whenever opened, the filters change or hands are imported
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    queryHandHistory(toQuery(filters))
+      .then(hands => {
+        if (cancelled) return;
+        setHistory(hands);
+        setFilterError(null);
+      })
+      .catch((error: Error) => {
+        if (cancelled) return;
+        setHistory([]);
+        setFilterError(error.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, filters, historyVersion]);
 
   // Reset when closed
-  if (!isOpen && (history.length > 0 || selectedHand)) {
+  if (!isOpen && (history.length > 0 || selectedHand || filters !== EMPTY_FILTERS)) {
     setHistory([]);
     setSelectedHand(null);
+    setFilters(EMPTY_FILTERS);
+    setImportResult(null);
   }
 
+  const handleImportFile = (file: File | undefined) => {
+    if (!file) return;
+    file.text()
+      .then(importHandHistoryText)
+      .then(result => {
+        setImportResult(result);
+        setHistoryVersion(version => version + 1);
+      })
+      .catch((error: Error) => {
+        setImportResult({ hands: [], errors: [{ hand: 0, message: `The file could not be read: ${error.message}` }] });
+      });
+  };
+
+  const isFiltered = filters !== EMPTY_FILTERS;
+  const setFilter = <K extends keyof HistoryFilters>(key: K, value: HistoryFilters[K]) =>
+    setFilters(current => ({ ...current, [key]: value }));
+
   if (!isOpen) return null;
 
   // Detail view
@@ -298,28 +499,156 @@ export function HandHistoryScreen({ isOpen, onClose }: HandHistoryScreenProps) {
           >
             📜 Hand History
           </h2>
-          <button
-            onClick={onClose}
-            className="text-stone-600 hover:text-stone-900 p-1 transition-colors"
-            aria-label="Close"
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-            </svg>
-          </button>
+          <div className="flex items-center gap-2">
+            <label
+              className="text-xs font-semibold text-amber-800 hover:text-amber-950 border border-amber-400 rounded px-2 py-1 transition-colors cursor-pointer"
+              style={{ fontFamily: "'Crimson Text', serif" }}
+              title="Add hands from a PokerStars-format hand history file"
+            >
+              Import Text
+              <input
+                type="file"
+                accept=".txt,text/plain"
+                className="hidden"
+                onChange={(e) => {
+                  handleImportFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            {history.length > 0 && (
+              <button
+                onClick={() => downloadHandsAsText(history)}
+                className="text-xs font-semibold text-amber-800 hover:text-amber-950 border border-amber-400 rounded px-2 py-1 transition-colors"
+                style={{ fontFamily: "'Crimson Text', serif" }}
+                title="Download these hands in PokerStars format for trackers and replayers"
+              >
+                Export Text
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="text-stone-600 hover:text-stone-900 p-1 transition-colors"
+              aria-label="Close"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
         </div>
 
         {/* Content */}
         <div className="overflow-y-auto max-h-[calc(85vh-80px)] p-4">
+          {/* Import result */}
+          {importResult && (
+            <div
+              className={`rounded-lg p-3 border mb-4 text-sm ${
+                importResult.errors.length > 0 ? 'bg-amber-100/80 border-amber-400' : 'bg-emerald-100/60 border-emerald-300'
+              }`}
+              style={{ fontFamily: "'Crimson Text', serif" }}
+              role="status"
+            >
+              <div className="flex items-start justify-between gap-2">
+                <p className="font-semibold text-stone-800">
+                  Imported {importResult.hands.length} {importResult.hands.length === 1 ? 'hand' : 'hands'}
+                  {importResult.errors.length > 0 && `, skipped ${importResult.errors.length}`}
+                </p>
+                <button
+                  onClick={() => setImportResult(null)}
+                  className="text-stone-500 hover:text-stone-800 text-xs"
+                  aria-label="Dismiss import result"
+                >
+                  ✕
+                </button>
+              </div>
+              {importResult.errors.length > 0 && (
+                <ul className="mt-1 space-y-1 text-xs text-rose-800 max-h-32 overflow-y-auto">
+                  {importResult.errors.map((error, idx) => (
+                    <li key={idx}>
+                      {error.hand > 0 && `Hand ${error.hand}${error.handId ? ` (#${error.handId})` : ''}: `}
+                      {error.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {/* Filters */}
+          <div className="bg-white/60 rounded-lg p-3 border border-amber-200 mb-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <FilterField label="From">
+                <input type="date" className={inputClassName} value={filters.from}
+                  onChange={(e) => setFilter('from', e.target.value)} />
+              </FilterField>
+              <FilterField label="To">
+                <input type="date" className={inputClassName} value={filters.to}
+                  onChange={(e) => setFilter('to', e.target.value)} />
+              </FilterField>
+              <FilterField label="Result">
+                <select className={inputClassName} value={filters.outcome}
+                  onChange={(e) => setFilter('outcome', e.target.value as HistoryFilters['outcome'])}>
+                  <option value="">Any</option>
+                  <option value="won">Won</option>
+                  <option value="lost">Lost</option>
+                  <option value="folded">Folded</option>
+                </select>
+              </FilterField>
+              <FilterField label="Reached">
+                <select className={inputClassName} value={filters.finalPhase}
+                  onChange={(e) => setFilter('finalPhase', e.target.value as HistoryFilters['finalPhase'])}>
+                  <option value="">Any</option>
+                  {(Object.keys(phaseLabels) as GamePhase[]).map(phase => (
+                    <option key={phase} value={phase}>{phaseLabels[phase]}</option>
+                  ))}
+                </select>
+              </FilterField>
+              <FilterField label="Hole cards">
+                <input type="text" className={inputClassName} value={filters.holeCards} placeholder="AKs, 77+"
+                  onChange={(e) => setFilter('holeCards', e.target.value)} />
+              </FilterField>
+              <FilterField label="Opponent">
+                <input type="text" className={inputClassName} value={filters.opponent} placeholder="Name"
+                  onChange={(e) => setFilter('opponent', e.target.value)} />
+              </FilterField>
+              <FilterField label="Min pot">
+                <input type="number" min={0} className={inputClassName} value={filters.minPot}
+                  onChange={(e) => setFilter('minPot', e.target.value)} />
+              </FilterField>
+              <FilterField label="Max pot">
+                <input type="number" min={0} className={inputClassName} value={filters.maxPot}
+                  onChange={(e) => setFilter('maxPot', e.target.value)} />
+              </FilterField>
+            </div>
+            <div className="flex items-center justify-between mt-3 text-xs" style={{ fontFamily: "'Crimson Text', serif" }}>
+              {filterError ? (
+                <span className="text-rose-700" role="alert">{filterError}</span>
+              ) : (
+                <span className="text-stone-600">{history.length} {history.length === 1 ? 'hand' : 'hands'}</span>
+              )}
+              {isFiltered && (
+                <button
+                  onClick={() => setFilters(EMPTY_FILTERS)}
+                  className="text-amber-800 hover:text-amber-950 font-semibold underline"
+                >
+                  Clear filters
+                </button>
+              )}
+            </div>
+          </div>
+
           {history.length === 0 ? (
             <div className="text-center py-12">
               <div className="text-6xl mb-4">🎴</div>
               <p className="text-stone-600 text-lg" style={{ fontFamily: "'Crimson Text', serif" }}>
-                No hands played yet.
-              </p>
-              <p className="text-stone-500 text-sm mt-2" style={{ fontFamily: "'Crimson Text', serif" }}>
-                Your last 10 hands will appear here.
+                {isFiltered ? 'No hands match these filters.' : 'No hands played yet.'}
               </p>
+              {!isFiltered && (
+                <p className="text-stone-500 text-sm mt-2" style={{ fontFamily: "'Crimson Text', serif" }}>
+                  Every hand you play will appear here.
+                </p>
+              )}
             </div>
           ) : (
             <div className="space-y-3">
@@ -1,14 +1,22 @@
 /**
  * Collapsible hand rankings reference guide.
  * Educational component showing all poker hand rankings from best to worst.
+ * Short deck reorders them: a flush beats a full house.
  */
 
 import { useState } from 'react';
+import { GameVariant } from '../types/game';
 
-export function HandRankings() {
+interface HandRankingsProps {
+  /** Variant whose ranking order to show (Texas Hold'em when absent) */
+  variant?: GameVariant;
+}
+
+export function HandRankings({ variant }: HandRankingsProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const isShortDeck = variant === 'short-deck';
 
-  const rankings = [
+  const standardRankings = [
     {
       name: 'Royal Flush',
       description: 'A-K-Q-J-10, all same suit',
@@ -41,7 +49,7 @@ export function HandRankings() {
     },
     {
       name: 'Straight',
-      description: '5 cards in sequence, mixed suits',
+      description: isShortDeck ? '5 cards in sequence, mixed suits (A-6-7-8-9 is the lowest)' : '5 cards in sequence, mixed suits',
       example: '🂮 🃍 🃛 🂻 🂩',
       emoji: '📏',
     },
@@ -71,6 +79,16 @@ export function HandRankings() {
     },
   ];
 
+  // With no 2s-5s in the deck flushes are harder to make, so they move above full houses
+  const rankings = isShortDeck
+    ? [
+      ...standardRankings.slice(0, 3),
+      standardRankings[4],
+      standardRankings[3],
+      ...standardRankings.slice(5),
+    ]
+    : standardRankings;
+
   return (
     <div className="border-t border-gray-700">
       {/* Header - Always visible */}
@@ -103,7 +121,7 @@ export function HandRankings() {
       {isExpanded && (
         <div className="px-4 pb-4 space-y-2 animate-slideDown">
           <p className="text-gray-400 text-xs mb-3">
-            From best to worst:
+            {isShortDeck ? 'Short deck (6+), from best to worst:' : 'From best to worst:'}
           </p>
           {rankings.map((rank, index) => (
             <div
@@ -1,22 +1,48 @@
 import { useState } from 'react'
-import { GameMode, DifficultyLevel } from '../types/game'
+import { GameMode, DifficultyLevel, GameState } from '../types/game'
 import { DIFFICULTY_LABELS, DIFFICULTY_DESCRIPTIONS, DEFAULT_DIFFICULTY } from '../constants/difficulty'
+import { GameSetup } from '../types/setup'
+import { BETTING_STRUCTURE_LABELS } from '../constants/betting'
+import { VARIANT_LABELS } from '../constants/variants'
+import { loadGameSetup, saveGameSetup } from '../utils/gameSetup'
+import { loadSavedGame, clearSavedGame } from '../utils/savedGame'
+import { GameSetupScreen } from './GameSetupScreen'
 import { StatisticsScreen } from './StatisticsScreen'
 
 interface ModeSelectionProps {
-  onSelectMode: (mode: GameMode, difficulty: DifficultyLevel) => void
+  onSelectMode: (mode: GameMode, difficulty: DifficultyLevel, setup: GameSetup) => void
+  /** Called with the saved game when the user picks up where they left off */
+  onResumeGame: (saved: GameState) => void
 }
 
-export function ModeSelection({ onSelectMode }: ModeSelectionProps) {
+export function ModeSelection({ onSelectMode, onResumeGame }: ModeSelectionProps) {
   const [selectedMode, setSelectedMode] = useState<GameMode | null>(null)
   const [selectedDifficulty, setSelectedDifficulty] = useState<DifficultyLevel>(DEFAULT_DIFFICULTY)
+  const [setup, setSetup] = useState<GameSetup>(loadGameSetup)
+  const [showSetup, setShowSetup] = useState(false)
   const [showStats, setShowStats] = useState(false)
+  const [savedGame, setSavedGame] = useState<GameState | null>(loadSavedGame)
 
   // If showing statistics, render the statistics screen
   if (showStats) {
     return <StatisticsScreen onBack={() => setShowStats(false)} />
   }
 
+  // If customizing the table, render the setup screen
+  if (showSetup) {
+    return (
+      <GameSetupScreen
+        initialSetup={setup}
+        onSave={(saved) => {
+          setSetup(saved)
+          saveGameSetup(saved)
+          setShowSetup(false)
+        }}
+        onCancel={() => setShowSetup(false)}
+      />
+    )
+  }
+
   // If mode is selected, show difficulty selection
   if (selectedMode) {
     return (
@@ -50,7 +76,7 @@ export function ModeSelection({ onSelectMode }: ModeSelectionProps) {
           </p>
 
           <div className="flex flex-col gap-4 justify-center max-w-2xl mb-8">
-            {(['easy', 'medium', 'hard'] as DifficultyLevel[]).map((difficulty) => (
+            {(['easy', 'medium', 'hard', 'expert'] as DifficultyLevel[]).map((difficulty) => (
               <button
                 key={difficulty}
                 onClick={() => setSelectedDifficulty(difficulty)}
@@ -72,6 +98,30 @@ export function ModeSelection({ onSelectMode }: ModeSelectionProps) {
             ))}
           </div>
 
+          {/* Table setup summary */}
+          <div className="flex flex-wrap items-center justify-center gap-3 mb-8 text-sand-200 font-body">
+            <span>
+              {setup.opponents.length + 1} seats · ${setup.startingChips} stacks · ${setup.smallBlind}/${setup.bigBlind} {BETTING_STRUCTURE_LABELS[setup.bettingStructure ?? 'no-limit']} {VARIANT_LABELS[setup.variant ?? 'holdem']}{setup.hiLo ? ' Hi-Lo' : ''}{setup.runItTwice ? ' · Run it twice' : ''}
+            </span>
+            {setup.tournament && (
+              <span className="bg-gold-500 text-wood-900 text-xs font-bold py-0.5 px-2 rounded">
+                🏆 Tournament
+              </span>
+            )}
+            {setup.cashGame && (
+              <span className="bg-green-600 text-white text-xs font-bold py-0.5 px-2 rounded">
+                💵 Cash Game
+              </span>
+            )}
+            <button
+              onClick={() => setShowSetup(true)}
+              aria-label="Customize table setup"
+              className="bg-gradient-to-b from-wood-600 to-wood-700 hover:from-wood-500 hover:to-wood-600 text-sand-100 font-bold py-1 px-4 rounded border-2 border-wood-800"
+            >
+              Customize Table
+            </button>
+          </div>
+
           <div className="flex gap-4 justify-center">
             <button
               onClick={() => setSelectedMode(null)}
@@ -84,7 +134,11 @@ export function ModeSelection({ onSelectMode }: ModeSelectionProps) {
               ← Back
             </button>
             <button
-              onClick={() => onSelectMode(selectedMode, selectedDifficulty)}
+              onClick={() => {
+                // Remember this table for next time
+                saveGameSetup(setup)
+                onSelectMode(selectedMode, selectedDifficulty, setup)
+              }}
               aria-label="Start game with selected difficulty"
               className="bg-gradient-to-b from-green-500 to-green-600 hover:from-green-400 hover:to-green-500 text-white font-body font-bold py-3 px-8 rounded-lg shadow-xl transition-all hover:scale-105 active:scale-95 border-4 border-green-700"
               style={{
@@ -152,6 +206,37 @@ export function ModeSelection({ onSelectMode }: ModeSelectionProps) {
 
         <div className="text-6xl mb-12">🐴</div>
 
+        {/* Offer to pick up a game interrupted by a reload */}
+        {savedGame && (
+          <div className="bg-wood-800/80 border-4 border-gold-600 rounded-lg p-4 mb-8 max-w-xl mx-auto font-body text-sand-100">
+            <p className="text-gold-400 text-lg font-display font-bold mb-1">
+              Pick Up Where You Left Off?
+            </p>
+            <p className="text-sm mb-3">
+              {savedGame.mode === 'tutorial' ? 'Tutorial' : 'Play'} mode · {VARIANT_LABELS[savedGame.variant ?? 'holdem']} · {savedGame.players.length} players · your stack ${savedGame.players.find(p => p.isUser)?.chips ?? 0}
+            </p>
+            <div className="flex gap-3 justify-center">
+              <button
+                onClick={() => onResumeGame(savedGame)}
+                aria-label="Resume saved game"
+                className="bg-gradient-to-b from-green-500 to-green-600 hover:from-green-400 hover:to-green-500 text-white font-bold py-2 px-6 rounded-lg border-2 border-green-700"
+              >
+                Resume Game
+              </button>
+              <button
+                onClick={() => {
+                  clearSavedGame()
+                  setSavedGame(null)
+                }}
+                aria-label="Discard saved game"
+                className="bg-gradient-to-b from-wood-600 to-wood-700 hover:from-wood-500 hover:to-wood-600 text-sand-100 font-bold py-2 px-6 rounded-lg border-2 border-wood-800"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        )}
+
         <p className="text-gold-400 text-xl font-display font-bold mb-8 tracking-wide">
           Choose Your Path, Partner
         </p>
@@ -13,6 +13,7 @@ interface PlayerPositionProps {
   isCurrentTurn: boolean;
   showCards?: boolean;
   compact?: boolean; // Use compact layout for AI players
+  holeCardCount?: number; // Cards each player is dealt (4 in Omaha)
 }
 
 export function PlayerPosition({
@@ -21,10 +22,14 @@ export function PlayerPosition({
   isCurrentTurn,
   showCards = false,
   compact = false,
+  holeCardCount = 2,
 }: PlayerPositionProps) {
   const isFolded = player.isFolded;
   const isAllIn = player.isAllIn;
 
+  // More than two cards overlap so the seat keeps its width
+  const isFanned = holeCardCount > 2;
+
   // Determine card size based on compact mode and screen size
   // User (non-compact) gets medium cards, AI players (compact) get small cards
   const cardSize = compact ? 'small' : 'small';
@@ -119,24 +124,26 @@ export function PlayerPosition({
         )}
 
         {/* Hole Cards */}
-        <div className={`flex gap-0.5 sm:gap-1 justify-center ${compact ? 'mt-1' : 'mt-2'}`}>
+        <div className={`flex justify-center ${isFanned ? '' : 'gap-0.5 sm:gap-1'} ${compact ? 'mt-1' : 'mt-2'}`}>
           {player.holeCards.length > 0 ? (
             player.holeCards.map((card, index) => (
-              <Card
-                key={index}
-                card={card}
-                faceUp={showCards || player.isUser}
-                size={cardSize}
-                animate="deal"
-                animationDelay={index * 100}
-              />
+              <div key={index} className={isFanned && index > 0 ? '-ml-6' : ''}>
+                <Card
+                  card={card}
+                  faceUp={showCards || player.isUser}
+                  size={cardSize}
+                  animate="deal"
+                  animationDelay={index * 100}
+                />
+              </div>
             ))
           ) : (
             // Placeholder when no cards dealt
-            <>
-              <Card size={cardSize} />
-              <Card size={cardSize} />
-            </>
+            Array.from({ length: holeCardCount }, (_, index) => (
+              <div key={index} className={isFanned && index > 0 ? '-ml-6' : ''}>
+                <Card size={cardSize} />
+              </div>
+            ))
           )}
         </div>
       </div>
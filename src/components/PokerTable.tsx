@@ -7,11 +7,28 @@ import { GameState } from '../types/game';
 import { PlayerPosition } from './PlayerPosition';
 import { CommunityCards } from './CommunityCards';
 import { PotDisplay } from './PotDisplay';
+import { HOLE_CARD_COUNTS } from '../constants/variants';
 
 interface PokerTableProps {
   gameState: GameState;
 }
 
+/** Horizontal and vertical radius of the seat ellipse, in percent of the felt */
+const SEAT_RADIUS = { x: 46, y: 40 };
+
+/**
+ * Places a seat on an ellipse around the felt, starting from the user at the
+ * bottom and going clockwise. With four seats this gives bottom, left, top, right.
+ * @returns Centre of the seat, in percent of the felt's width and height
+ */
+function getSeatLayout(seatIndex: number, seatCount: number): { left: number; top: number } {
+  const angle = Math.PI / 2 + (seatIndex * 2 * Math.PI) / seatCount;
+  return {
+    left: 50 + SEAT_RADIUS.x * Math.cos(angle),
+    top: 50 + SEAT_RADIUS.y * Math.sin(angle),
+  };
+}
+
 export function PokerTable({ gameState }: PokerTableProps) {
   const { players, pot, communityCards, dealerPosition, currentPlayerIndex, currentPhase } =
     gameState;
@@ -19,11 +36,9 @@ export function PokerTable({ gameState }: PokerTableProps) {
   // Determine if cards should be shown (at showdown)
   const showAllCards = currentPhase === 'showdown';
 
-  // Arrange players by position (0=bottom/user, 1=left, 2=top, 3=right)
-  const bottomPlayer = players.find(p => p.position === 0);
-  const leftPlayer = players.find(p => p.position === 1);
-  const topPlayer = players.find(p => p.position === 2);
-  const rightPlayer = players.find(p => p.position === 3);
+  // Tables above six seats shrink the AI seats so they don't overlap
+  const isCrowded = players.length > 6;
+  const holeCardCount = HOLE_CARD_COUNTS[gameState.variant ?? 'holdem'];
 
   return (
     <div
@@ -95,58 +110,45 @@ export function PokerTable({ gameState }: PokerTableProps) {
               className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-32 h-32 rounded-full border border-felt-700/40 pointer-events-none"
             />
 
-            {/* Players positioned around the table */}
-
-            {/* Top Player (Position 2) */}
-            {topPlayer && (
-              <div className="absolute top-1 sm:top-2 md:top-4 left-1/2 -translate-x-1/2">
-                <PlayerPosition
-                  player={topPlayer}
-                  isDealer={dealerPosition === 2}
-                  isCurrentTurn={currentPlayerIndex === 2}
-                  showCards={showAllCards}
-                  compact={true}
-                />
-              </div>
-            )}
-
-            {/* Left Player (Position 1) */}
-            {leftPlayer && (
-              <div className="absolute top-1/2 left-1 sm:left-2 md:left-4 -translate-y-1/2">
-                <PlayerPosition
-                  player={leftPlayer}
-                  isDealer={dealerPosition === 1}
-                  isCurrentTurn={currentPlayerIndex === 1}
-                  showCards={showAllCards}
-                  compact={true}
-                />
-              </div>
-            )}
-
-            {/* Right Player (Position 3) */}
-            {rightPlayer && (
-              <div className="absolute top-1/2 right-1 sm:right-2 md:right-4 -translate-y-1/2">
-                <PlayerPosition
-                  player={rightPlayer}
-                  isDealer={dealerPosition === 3}
-                  isCurrentTurn={currentPlayerIndex === 3}
-                  showCards={showAllCards}
-                  compact={true}
-                />
-              </div>
-            )}
-
-            {/* Bottom Player - User (Position 0) - Positioned lower with higher z-index to stay visible */}
-            {bottomPlayer && (
-              <div className="absolute bottom-2 sm:bottom-4 md:bottom-6 left-1/2 -translate-x-1/2 z-10">
-                <PlayerPosition
-                  player={bottomPlayer}
-                  isDealer={dealerPosition === 0}
-                  isCurrentTurn={currentPlayerIndex === 0}
-                  showCards={true}
-                />
-              </div>
-            )}
+            {/* Players positioned around the table, seat 0 (the user) at the bottom */}
+            {players.map((player, index) => {
+              if (index === 0) {
+                // Bottom seat - positioned lower with higher z-index to stay visible
+                return (
+                  <div key={player.id} className="absolute bottom-2 sm:bottom-4 md:bottom-6 left-1/2 -translate-x-1/2 z-10">
+                    <PlayerPosition
+                      player={player}
+                      isDealer={dealerPosition === index}
+                      isCurrentTurn={currentPlayerIndex === index}
+                      showCards={true}
+                      holeCardCount={holeCardCount}
+                    />
+                  </div>
+                );
+              }
+
+              const seat = getSeatLayout(index, players.length);
+              return (
+                <div
+                  key={player.id}
+                  className="absolute"
+                  style={{
+                    left: `${seat.left}%`,
+                    top: `${seat.top}%`,
+                    transform: `translate(-50%, -50%)${isCrowded ? ' scale(0.8)' : ''}`,
+                  }}
+                >
+                  <PlayerPosition
+                    player={player}
+                    isDealer={dealerPosition === index}
+                    isCurrentTurn={currentPlayerIndex === index}
+                    showCards={showAllCards}
+                    compact={true}
+                    holeCardCount={holeCardCount}
+                  />
+                </div>
+              );
+            })}
 
             {/* Center Area - Community Cards and Pot */}
             <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 flex flex-col items-center gap-4 z-10">
@@ -156,7 +158,7 @@ export function PokerTable({ gameState }: PokerTableProps) {
               {/* Community Cards */}
               {communityCards.length > 0 && (
                 <div className="mt-2">
-                  <CommunityCards cards={communityCards} />
+                  <CommunityCards cards={communityCards} secondBoard={gameState.secondBoard} />
                 </div>
               )}
             </div>
@@ -23,13 +23,16 @@ export function ShowdownDisplay({ gameState, onNextHand }: ShowdownDisplayProps)
   const isSplit = winners.length > 1;
   const potShare = Math.floor(pot / winners.length);
 
-  // Determine if there are side pots
+  // Determine if there are side pots, hi-lo halves or run-it-twice boards to break down
   const hasSidePots = potResults && potResults.length > 1;
+  const isHiLo = potResults?.some(potResult => potResult.lowWinnerIds !== undefined);
+  const isRunTwice = potResults?.some(potResult => potResult.board !== undefined);
+  const showBreakdown = hasSidePots || isHiLo || isRunTwice;
 
   // Generate winner message
   let winnerMessage: string;
-  if (hasSidePots) {
-    // When there are side pots, just show the total pot amount
+  if (showBreakdown) {
+    // When the pot is broken down, just show the total pot amount
     winnerMessage = `Total pot: $${pot}`;
   } else if (isSplit) {
     const winnerNames = winners.map(w => w.name).join(', ');
@@ -90,28 +93,50 @@ export function ShowdownDisplay({ gameState, onNextHand }: ShowdownDisplayProps)
             <p className="text-wood-900 font-body text-base sm:text-lg font-semibold mb-2">
               {winnerMessage}
             </p>
-            {!hasSidePots && handDescription && (
+            {!showBreakdown && handDescription && (
               <p className="text-wood-800 font-body text-sm sm:text-base">
                 with {handDescription}
               </p>
             )}
-            {!hasSidePots && isSplit && (
+            {!showBreakdown && isSplit && (
               <p className="text-wood-700 font-body text-xs sm:text-sm mt-2">
                 Each player wins ${potShare}
               </p>
             )}
           </div>
 
-          {/* Side pot breakdown */}
-          {hasSidePots && potResults && (
+          {/* Side pot and hi-lo breakdown */}
+          {showBreakdown && potResults && (
             <div className="bg-wood-700/10 rounded-lg p-3 sm:p-4 mb-3 sm:mb-4 space-y-2">
               <p className="text-wood-900 font-body text-sm sm:text-base font-semibold mb-2">
                 Pot Distribution:
               </p>
               {potResults.map((potResult, index) => {
-                const potLabel = potResult.isSidePot
-                  ? `Side Pot ${index}`
-                  : 'Main Pot';
+                // Both halves of a run-it-twice pot share its number
+                const sidePotNumber = potResults
+                  .slice(0, index + 1)
+                  .filter(result => result.isSidePot && result.board !== 2).length;
+                const potLabel = (potResult.isSidePot ? `Side Pot ${sidePotNumber}` : 'Main Pot') +
+                  (potResult.board ? `, Board ${potResult.board}` : '');
+
+                if (potResult.lowWinnerIds !== undefined) {
+                  return (
+                    <div key={index} className="border-l-2 border-wood-700 pl-3">
+                      <p className="text-wood-800 font-body text-xs sm:text-sm">
+                        <span className="font-semibold">{potLabel}</span> (${potResult.amount})
+                      </p>
+                      <p className="text-wood-700 font-body text-xs sm:text-sm">
+                        High → {describeHalf(potResult.highWinnerNames ?? [], potResult.highAmount ?? 0)}
+                      </p>
+                      <p className="text-wood-700 font-body text-xs sm:text-sm">
+                        Low → {potResult.lowHand
+                          ? `${describeHalf(potResult.lowWinnerNames ?? [], potResult.lowAmount ?? 0)} with ${potResult.lowHand.description}`
+                          : 'no qualifying low, high takes it all'}
+                      </p>
+                    </div>
+                  );
+                }
+
                 const isMultipleWinners = potResult.winnerNames.length > 1;
                 const winnerDisplay = isMultipleWinners
                   ? potResult.winnerNames.join(', ')
@@ -171,3 +196,14 @@ export function ShowdownDisplay({ gameState, onNextHand }: ShowdownDisplayProps)
     </div>
   );
 }
+
+/**
+ * Describes who won one half of a hi-lo pot, e.g. "Doc wins $30" or
+ * "You, Doc (2 way split, $15 each)".
+ */
+function describeHalf(winnerNames: string[], amount: number): string {
+  if (winnerNames.length === 1) {
+    return `${winnerNames[0]} wins $${amount}`;
+  }
+  return `${winnerNames.join(', ')} (${winnerNames.length} way split, $${Math.floor(amount / winnerNames.length)} each)`;
+}
@@ -115,7 +115,7 @@ export function Sidebar({ gameState, lastAction }: SidebarProps) {
         </div>
 
         {/* Section 4: Hand Rankings Reference */}
-        <HandRankings />
+        <HandRankings variant={gameState.variant} />
       </div>
     </>
   );
@@ -1,6 +1,6 @@
 import { GameMode, DifficultyLevel } from '../types/game'
 import { GameModeStats } from '../types/statistics'
-import { getAllStatistics, calculateWinRate, calculateNetProfit } from '../utils/statistics'
+import { getAllStatistics, calculateWinRate, calculateNetProfit, calculateCashGameProfit } from '../utils/statistics'
 import { DIFFICULTY_LABELS } from '../constants/difficulty'
 
 interface StatisticsScreenProps {
@@ -122,6 +122,7 @@ export function StatisticsScreen({ onBack }: StatisticsScreenProps) {
             {statEntries.map(({ mode, difficulty, stats: modeStats }) => {
               const winRate = calculateWinRate(mode, difficulty)
               const netProfit = calculateNetProfit(mode, difficulty)
+              const cashProfit = calculateCashGameProfit(mode, difficulty)
               const modeLabel = mode === 'tutorial' ? 'Tutorial' : 'Play'
               const difficultyLabel = DIFFICULTY_LABELS[difficulty]
 
@@ -198,6 +199,28 @@ export function StatisticsScreen({ onBack }: StatisticsScreenProps) {
                       </div>
                       <div className="text-sand-200 text-xs font-body">Folds</div>
                     </div>
+                    {(modeStats.cashSessions ?? 0) > 0 && (
+                      <>
+                        <div className="bg-wood-700 rounded p-3 border-2 border-wood-900">
+                          <div className="text-gold-300 text-lg font-bold">
+                            {modeStats.cashSessions}
+                          </div>
+                          <div className="text-sand-200 text-xs font-body">Cash Sessions</div>
+                        </div>
+                        <div className="bg-wood-700 rounded p-3 border-2 border-wood-900">
+                          <div className="text-gold-300 text-lg font-bold">
+                            {formatCurrency(modeStats.cashBuyIns ?? 0)}
+                          </div>
+                          <div className="text-sand-200 text-xs font-body">Total Buy-Ins</div>
+                        </div>
+                        <div className="bg-wood-700 rounded p-3 border-2 border-wood-900">
+                          <div className={`text-lg font-bold ${cashProfit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                            {formatCurrency(cashProfit)}
+                          </div>
+                          <div className="text-sand-200 text-xs font-body">Cash Profit (net of buy-ins)</div>
+                        </div>
+                      </>
+                    )}
                   </div>
                 </div>
               )
@@ -4,9 +4,17 @@
  */
 
 import { GameState } from '../types/game';
-import { describeHand, evaluateHandStrength, getStrategicAdvice, describeHoleCards } from '../utils/handStrength';
-import { getBestFiveCardHand, getBestHandFromSix, evaluateHand } from '../utils/handEvaluator';
+import {
+  describeHand,
+  evaluateHandStrength,
+  getStrategicAdvice,
+  describeHoleCards,
+  rateOmahaStartingHand,
+} from '../utils/handStrength';
+import { getBestHand } from '../utils/handEvaluator';
 import { cardToString } from '../utils/cards';
+import { analyzeDraws, describeDraw, describeDraws } from '../utils/draws';
+import { useEquity } from '../hooks/useEquity';
 
 interface StrategicAdviceProps {
   gameState: GameState;
@@ -14,6 +22,7 @@ interface StrategicAdviceProps {
 
 export function StrategicAdvice({ gameState }: StrategicAdviceProps) {
   const userPlayer = gameState.players.find(p => p.isUser);
+  const equity = useEquity(gameState);
 
   if (!userPlayer) {
     return (
@@ -36,25 +45,17 @@ export function StrategicAdvice({ gameState }: StrategicAdviceProps) {
   let strength: 'weak' | 'medium' | 'strong';
   let handDescription: string;
 
-  if (userPlayer.holeCards.length === 2 && gameState.communityCards.length === 5) {
-    // Full board (river) - evaluate best 5-card hand from all 7 cards
-    const evaluation = getBestFiveCardHand(userPlayer.holeCards, gameState.communityCards);
-    strength = evaluateHandStrength(evaluation);
-    handDescription = describeHand(evaluation);
-  } else if (userPlayer.holeCards.length === 2 && gameState.communityCards.length === 3) {
-    // Flop (exactly 5 cards) - evaluate as-is
-    const allCards = [...userPlayer.holeCards, ...gameState.communityCards];
-    const evaluation = evaluateHand(allCards);
-    strength = evaluateHandStrength(evaluation);
-    handDescription = describeHand(evaluation);
-  } else if (userPlayer.holeCards.length === 2 && gameState.communityCards.length === 4) {
-    // Turn (6 cards) - find best 5-card combination
-    const allCards = [...userPlayer.holeCards, ...gameState.communityCards];
-    const evaluation = getBestHandFromSix(allCards);
+  if (gameState.communityCards.length >= 3) {
+    // Flop onwards - best 5-card hand under the variant's rules
+    const evaluation = getBestHand(userPlayer.holeCards, gameState.communityCards, gameState.variant);
     strength = evaluateHandStrength(evaluation);
     handDescription = describeHand(evaluation);
+  } else if (gameState.variant === 'omaha') {
+    // Pre-flop Omaha - rate all four cards together
+    handDescription = describeHoleCards(userPlayer.holeCards);
+    strength = rateOmahaStartingHand(userPlayer.holeCards);
   } else {
-    // Pre-flop or unusual state - just evaluate starting hand strength
+    // Pre-flop - just evaluate starting hand strength
     handDescription = describeHoleCards(userPlayer.holeCards);
 
     // Simple pre-flop strength evaluation
@@ -82,6 +83,8 @@ export function StrategicAdvice({ gameState }: StrategicAdviceProps) {
   }
 
   const advice = getStrategicAdvice(userPlayer, gameState);
+  const drawAnalysis = analyzeDraws(userPlayer.holeCards, gameState.communityCards, gameState.variant);
+  const drawSummary = describeDraws(drawAnalysis);
 
   // Color coding for strength
   const strengthColors: Record<string, string> = {
@@ -135,6 +138,57 @@ export function StrategicAdvice({ gameState }: StrategicAdviceProps) {
         </div>
       </div>
 
+      {/* Win/Tie/Lose Odds */}
+      {equity && (
+        <div>
+          <h4 className="text-gray-400 text-xs font-medium uppercase tracking-wide mb-2">
+            Your Odds
+          </h4>
+          <div className="bg-gray-700/50 rounded p-3">
+            <div className="text-white text-sm mb-2">
+              You win <span className="font-bold text-green-400">{Math.round(equity.win)}%</span> of the time
+            </div>
+            <div className="flex h-2 rounded overflow-hidden mb-2" aria-hidden="true">
+              <div className="bg-green-500" style={{ width: `${equity.win}%` }} />
+              <div className="bg-yellow-500" style={{ width: `${equity.tie}%` }} />
+              <div className="bg-red-500" style={{ width: `${equity.lose}%` }} />
+            </div>
+            <div className="flex justify-between text-xs text-gray-400">
+              <span>Win {equity.win}%</span>
+              <span>Tie {equity.tie}%</span>
+              <span>Lose {equity.lose}%</span>
+            </div>
+            <div className="text-gray-500 text-xs mt-1">
+              {equity.method === 'exact'
+                ? `Exact, over all ${equity.samples.toLocaleString()} deals`
+                : `Estimated from ${equity.samples.toLocaleString()} simulated deals`}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Draws and Outs */}
+      {drawAnalysis.draws.length > 0 && !userPlayer.isFolded && (
+        <div>
+          <h4 className="text-gray-400 text-xs font-medium uppercase tracking-wide mb-2">
+            Your Draws
+          </h4>
+          <div className="bg-gray-700/50 rounded p-3 space-y-2">
+            <div className="text-white text-sm">{drawSummary}</div>
+            {drawAnalysis.draws.map(draw => (
+              <div key={draw.type} className="text-xs">
+                <div className="text-gray-300">{describeDraw(draw)}</div>
+                {draw.outs.length > 0 && (
+                  <div className="text-gray-400 mt-0.5">
+                    {draw.outs.map(card => cardToString(card)).join(' ')}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Strategic Advice */}
       <div>
         <h4 className="text-gray-400 text-xs font-medium uppercase tracking-wide mb-2">
@@ -9,6 +9,8 @@ import { Card } from './Card';
 import { PotDisplay } from './PotDisplay';
 import { ActionButtons } from './ActionButtons';
 import { PlayerPosition } from './PlayerPosition';
+import { HandRankings } from './HandRankings';
+import { CommunityCards } from './CommunityCards';
 import { GameState, Player, Card as CardType } from '../types/game';
 
 // Helper to create a card
@@ -455,3 +457,42 @@ describe('PlayerPosition component', () => {
     expect(container.querySelector('.text-green-400')).toBeInTheDocument();
   });
 });
+
+describe('HandRankings component', () => {
+  const rankingNames = () => screen.getAllByText(/^\d+\. /).map(el => el.textContent);
+
+  it('should list full houses above flushes', () => {
+    render(<HandRankings />);
+    fireEvent.click(screen.getByRole('button', { name: /hand rankings/i }));
+
+    expect(rankingNames().slice(3, 5)).toEqual(['4. Full House', '5. Flush']);
+  });
+
+  it('should list flushes above full houses in short deck', () => {
+    render(<HandRankings variant="short-deck" />);
+    fireEvent.click(screen.getByRole('button', { name: /hand rankings/i }));
+
+    expect(rankingNames().slice(3, 5)).toEqual(['4. Flush', '5. Full House']);
+    expect(screen.getByText(/A-6-7-8-9 is the lowest/)).toBeInTheDocument();
+  });
+});
+
+describe('CommunityCards component', () => {
+  it('should label both boards of a run-it-twice hand', () => {
+    const flop: CardType[] = [
+      { rank: '2', suit: 'clubs' },
+      { rank: '7', suit: 'diamonds' },
+      { rank: '9', suit: 'clubs' },
+    ];
+    render(<CommunityCards cards={flop} secondBoard={flop} />);
+
+    expect(screen.getByText('Board 1')).toBeInTheDocument();
+    expect(screen.getByText('Board 2')).toBeInTheDocument();
+  });
+
+  it('should show a single unlabelled board otherwise', () => {
+    render(<CommunityCards cards={[]} />);
+
+    expect(screen.queryByText('Board 1')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * Betting structures.
+ *
+ * No-limit: Bet any amount up to your stack
+ * Pot-limit: Bet up to the size of the pot
+ * Fixed-limit: Small bets (one big blind) pre-flop and on the flop, big
+ * bets (two big blinds) on the turn and river, capped at four bets a street
+ */
+
+import { BettingStructure } from '../types/game';
+
+/** Display names for betting structures */
+export const BETTING_STRUCTURE_LABELS: Record<BettingStructure, string> = {
+  'no-limit': 'No-Limit',
+  'pot-limit': 'Pot-Limit',
+  'fixed-limit': 'Fixed-Limit',
+};
+
+/** Most bets allowed on one street in fixed-limit: a bet and three raises */
+export const FIXED_LIMIT_BET_CAP = 4;
+
+/** Big bets (turn and river) as a multiple of the big blind */
+export const FIXED_LIMIT_BIG_BET_MULTIPLIER = 2;
@@ -3,10 +3,18 @@
  *
  * Easy: More passive play, folds more often, raises less aggressively
  * Medium: Balanced play, moderate aggression
- * Hard: Aggressive play, calls and raises more frequently
+ * Hard: Aggressive play, calls and raises more frequently, exploits the user's leaks
+ * Expert: Position-aware pre-flop ranges, hard thresholds after the flop
  */
 
-export type DifficultyLevel = 'easy' | 'medium' | 'hard';
+export type DifficultyLevel = 'easy' | 'medium' | 'hard' | 'expert';
+
+/**
+ * How the AI picks its pre-flop action.
+ * threshold: hand strength score compared against the difficulty thresholds
+ * range: starting hand charts by position (see constants/preflopRanges.ts)
+ */
+export type AIStrategy = 'threshold' | 'range';
 
 /** Hand strength thresholds for AI decisions at different difficulty levels */
 interface DifficultyThresholds {
@@ -31,6 +39,10 @@ interface DifficultyConfig {
   };
   /** Pot odds threshold - call with weak hands if pot odds < this value */
   potOddsCallThreshold: number;
+  /** Pre-flop decision strategy */
+  strategy: AIStrategy;
+  /** Whether the AI adjusts to leaks in the user's play (see utils/opponentModel.ts) */
+  exploitsOpponents: boolean;
 }
 
 /**
@@ -60,6 +72,8 @@ export const DIFFICULTY_CONFIG: Record<DifficultyLevel, DifficultyConfig> = {
       RANGE: 0.4,
     },
     potOddsCallThreshold: 0.25, // Less likely to chase pot odds
+    strategy: 'threshold',
+    exploitsOpponents: false,
   },
 
   /**
@@ -79,6 +93,8 @@ export const DIFFICULTY_CONFIG: Record<DifficultyLevel, DifficultyConfig> = {
       RANGE: 0.4,
     },
     potOddsCallThreshold: 0.3, // Standard pot odds consideration
+    strategy: 'threshold',
+    exploitsOpponents: false,
   },
 
   /**
@@ -86,6 +102,7 @@ export const DIFFICULTY_CONFIG: Record<DifficultyLevel, DifficultyConfig> = {
    * - More aggressive betting
    * - Willing to play weaker hands
    * - Less variance makes them more consistent
+   * - Adjusts to leaks it reads in the user's play
    */
   hard: {
     thresholds: {
@@ -98,6 +115,28 @@ export const DIFFICULTY_CONFIG: Record<DifficultyLevel, DifficultyConfig> = {
       RANGE: 0.4,
     },
     potOddsCallThreshold: 0.35, // More likely to chase pot odds
+    strategy: 'threshold',
+    exploitsOpponents: true,
+  },
+
+  /**
+   * Expert difficulty - Plays like a competent regular
+   * - Opens, calls and 3-bets from position-aware pre-flop charts
+   * - Hard thresholds after the flop, with the least variance
+   */
+  expert: {
+    thresholds: {
+      FOLD: 1,    // Rarely folds post-flop once in the pot
+      CALL: 3,    // Calls at 3+ (any pair)
+      RAISE: 5,   // Raises at 5+ (pair with good kicker, two pair)
+    },
+    variance: {
+      MIN: 0.9,   // Least variance (90%-120% of strength)
+      RANGE: 0.3,
+    },
+    potOddsCallThreshold: 0.35, // Chases draws at a fair price
+    strategy: 'range',
+    exploitsOpponents: true,
   },
 } as const;
 
@@ -123,6 +162,7 @@ export const DIFFICULTY_LABELS: Record<DifficultyLevel, string> = {
   easy: 'Easy',
   medium: 'Medium',
   hard: 'Hard',
+  expert: 'Expert',
 } as const;
 
 /**
@@ -132,4 +172,5 @@ export const DIFFICULTY_DESCRIPTIONS: Record<DifficultyLevel, string> = {
   easy: 'AI opponents play cautiously and fold often. Good for learning the basics.',
   medium: 'AI opponents play with balanced strategy. Recommended for most players.',
   hard: 'AI opponents play aggressively and bluff more. A real challenge!',
+  expert: 'AI opponents play position-aware starting hand ranges like seasoned regulars.',
 } as const;
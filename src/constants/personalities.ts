@@ -0,0 +1,64 @@
+/**
+ * AI personality profiles.
+ * Each profile nudges the difficulty thresholds, bluffing, pot odds and bet
+ * sizing so opponents at the same difficulty still play recognisably
+ * different styles.
+ *
+ * Tight-passive: Plays few hands and rarely raises without the goods
+ * Loose-aggressive: Plays lots of hands, bets big and bluffs often
+ * Calling station: Calls far too much and seldom folds or raises
+ */
+
+import { PersonalityId } from '../types/game';
+
+/** A playing style and how it adjusts AI decisions */
+export interface PersonalityProfile {
+  /** Display name */
+  label: string;
+  /** Added to the difficulty's FOLD/CALL/RAISE thresholds (negative plays looser) */
+  thresholdShift: {
+    FOLD: number;
+    CALL: number;
+    RAISE: number;
+  };
+  /** Chance (0-1) of raising a hand that would not otherwise raise */
+  bluffFrequency: number;
+  /** Added to the difficulty's pot odds call threshold */
+  potOddsAdjustment: number;
+  /** Multiplier on post-flop bet sizes */
+  sizingScale: number;
+  /** The cowboy's advice for playing against this style */
+  counterTip: string;
+}
+
+/**
+ * Personality profiles, keyed by id.
+ * Tips use {name} as a placeholder for the player's name.
+ */
+export const PERSONALITIES: Record<PersonalityId, PersonalityProfile> = {
+  'tight-passive': {
+    label: 'Tight-Passive',
+    thresholdShift: { FOLD: 1, CALL: 1, RAISE: 1.5 },
+    bluffFrequency: 0.02,
+    potOddsAdjustment: -0.1,
+    sizingScale: 0.75,
+    counterTip: '{name} only bets with the goods - when {name} raises, believe it and get out of the way without a strong hand.',
+  },
+  'loose-aggressive': {
+    label: 'Loose-Aggressive',
+    thresholdShift: { FOLD: -1, CALL: -0.5, RAISE: -1.5 },
+    bluffFrequency: 0.2,
+    potOddsAdjustment: 0.05,
+    sizingScale: 1.25,
+    counterTip: '{name} bluffs a lot - call {name} down lighter and let those bluffs pay you.',
+  },
+  'calling-station': {
+    label: 'Calling Station',
+    thresholdShift: { FOLD: -1, CALL: -1.5, RAISE: 1 },
+    bluffFrequency: 0,
+    potOddsAdjustment: 0.15,
+    sizingScale: 0.9,
+    counterTip: '{name} calls with just about anything - don\'t bluff, just bet your good hands for value.',
+  },
+} as const;
+
@@ -0,0 +1,61 @@
+/**
+ * Pre-flop starting hand charts for the range-based AI.
+ *
+ * Ranges use standard shorthand, with ranks A K Q J T 9-2:
+ * - "77" a single pair, "77+" that pair and every higher pair, "TT-77" pairs between
+ * - "AKs" suited, "AKo" offsuit, "AK" both
+ * - "ATs+" raises the kicker up to one below the top card (ATs, AJs, AQs, AKs)
+ * - "A5s-A2s" a run of kickers
+ */
+
+/**
+ * Seat relative to the dealer button, which decides how wide a player can open.
+ *
+ * Early: first to act, tightest ranges
+ * Middle: seats between early and late
+ * Late: cutoff and button, widest opening ranges
+ * Small/big blind: already have chips in the pot
+ */
+export type TablePosition = 'early' | 'middle' | 'late' | 'small-blind' | 'big-blind';
+
+/** Ranges for one position */
+export interface PositionRanges {
+  /** Hands to raise with when no one has raised yet */
+  open: string;
+  /** Hands to call with when facing a raise */
+  call: string;
+  /** Hands to re-raise (3-bet) with when facing a raise */
+  threeBet: string;
+}
+
+/**
+ * Charts by position.
+ * Hands in threeBet are not repeated in call; anything in neither is folded to a raise.
+ */
+export const PREFLOP_RANGES: Record<TablePosition, PositionRanges> = {
+  early: {
+    open: '66+, A9s+, KTs+, QTs+, JTs, AJo+, KQo',
+    call: 'JJ-66, AQs-ATs, KQs, AQo',
+    threeBet: 'QQ+, AKs, AKo',
+  },
+  middle: {
+    open: '44+, A7s+, A5s, K9s+, Q9s+, J9s+, T9s, 98s, ATo+, KJo+, QJo',
+    call: 'TT-55, AQs-A9s, KJs+, QJs, JTs, T9s, AQo-AJo, KQo',
+    threeBet: 'JJ+, AKs, AQs, AKo',
+  },
+  late: {
+    open: '22+, A2s+, K7s+, Q8s+, J8s+, T8s+, 97s+, 86s+, 75s+, 65s, 54s, A7o+, K9o+, Q9o+, J9o+, T9o',
+    call: 'TT-33, AJs-A6s, KTs+, QTs+, J9s+, T9s, 98s, 87s, 76s, AJo-ATo, KJo+, QJo',
+    threeBet: 'JJ+, AQs+, AKo, A5s-A4s',
+  },
+  'small-blind': {
+    open: '22+, A2s+, K8s+, Q9s+, J9s+, T8s+, 98s, 87s, 76s, A8o+, KTo+, QTo+, JTo',
+    call: 'TT-22, AJs-A2s, KTs+, QTs+, JTs, T9s, 98s, AJo-ATo, KQo',
+    threeBet: 'JJ+, AQs+, AKo, A5s',
+  },
+  'big-blind': {
+    open: '77+, ATs+, KTs+, QJs, AJo+, KQo',
+    call: 'TT-22, AJs-A2s, K8s+, Q9s+, J9s+, T8s+, 97s+, 87s, 76s, 65s, AJo-A8o, KTo+, QTo+, JTo',
+    threeBet: 'JJ+, AQs+, AKo, A5s',
+  },
+};
@@ -0,0 +1,50 @@
+/**
+ * Table size limits, default stakes and the AI players who fill the seats.
+ *
+ * Heads-up (2 seats) teaches aggression and blind play; full ring (9 seats)
+ * teaches patience and position.
+ */
+
+import { PersonalityId } from '../types/game';
+
+/** Fewest seats at a table (heads-up) */
+export const MIN_TABLE_SIZE = 2;
+
+/** Most seats at a table (full ring) */
+export const MAX_TABLE_SIZE = 9;
+
+/** Seats at a new table */
+export const DEFAULT_TABLE_SIZE = 4;
+
+/** Chips each player starts with */
+export const DEFAULT_STARTING_CHIPS = 100;
+
+/** Small blind at a new table */
+export const DEFAULT_SMALL_BLIND = 5;
+
+/** Big blind at a new table */
+export const DEFAULT_BIG_BLIND = 10;
+
+/** Longest name an opponent can be given */
+export const MAX_PLAYER_NAME_LENGTH = 12;
+
+/** An AI opponent's name and playing style */
+export interface AISeat {
+  name: string;
+  personality: PersonalityId;
+}
+
+/**
+ * AI opponents in the order they take seats, left of the user.
+ * Personalities rotate so every table mixes styles.
+ */
+export const AI_SEATS: AISeat[] = [
+  { name: 'Doc', personality: 'tight-passive' },
+  { name: 'Slim', personality: 'loose-aggressive' },
+  { name: 'Annie', personality: 'calling-station' },
+  { name: 'Wyatt', personality: 'tight-passive' },
+  { name: 'Belle', personality: 'loose-aggressive' },
+  { name: 'Hank', personality: 'calling-station' },
+  { name: 'Rosa', personality: 'tight-passive' },
+  { name: 'Jesse', personality: 'loose-aggressive' },
+];
@@ -0,0 +1,44 @@
+/**
+ * Tournament blind schedules.
+ *
+ * Standard: Gentle climb, antes from level 4
+ * Turbo: Blinds double quickly, antes from level 3
+ */
+
+import { BlindLevel, TournamentConfig } from '../types/tournament';
+
+export type BlindScheduleId = 'standard' | 'turbo';
+
+/** Blind schedules, for 100-chip starting stacks */
+export const BLIND_SCHEDULES: Record<BlindScheduleId, BlindLevel[]> = {
+  standard: [
+    { smallBlind: 1, bigBlind: 2, ante: 0 },
+    { smallBlind: 2, bigBlind: 4, ante: 0 },
+    { smallBlind: 3, bigBlind: 6, ante: 0 },
+    { smallBlind: 5, bigBlind: 10, ante: 1 },
+    { smallBlind: 8, bigBlind: 16, ante: 2 },
+    { smallBlind: 10, bigBlind: 20, ante: 3 },
+    { smallBlind: 15, bigBlind: 30, ante: 4 },
+    { smallBlind: 25, bigBlind: 50, ante: 5 },
+  ],
+  turbo: [
+    { smallBlind: 2, bigBlind: 4, ante: 0 },
+    { smallBlind: 5, bigBlind: 10, ante: 0 },
+    { smallBlind: 10, bigBlind: 20, ante: 2 },
+    { smallBlind: 20, bigBlind: 40, ante: 4 },
+    { smallBlind: 40, bigBlind: 80, ante: 8 },
+  ],
+};
+
+/** Display names for blind schedules */
+export const BLIND_SCHEDULE_LABELS: Record<BlindScheduleId, string> = {
+  standard: 'Standard',
+  turbo: 'Turbo',
+};
+
+/** Tournament rules used when tournament play is first switched on */
+export const DEFAULT_TOURNAMENT_CONFIG: TournamentConfig = {
+  levels: BLIND_SCHEDULES.standard,
+  advanceBy: 'hands',
+  levelLength: 10,
+};
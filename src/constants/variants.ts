@@ -0,0 +1,41 @@
+/**
+ * Poker variants.
+ *
+ * Texas Hold'em: Two hole cards; the best five of the seven cards play
+ * Omaha: Four hole cards; a hand must use exactly two of them and three
+ * of the community cards
+ * Short Deck (6+): Hold'em with a 36-card deck of sixes and up. A-6-7-8-9
+ * is a straight, and a flush beats a full house
+ * Hi-lo (either game): Each pot is split between the best high hand and
+ * the best low of five different ranks eight or under
+ */
+
+import { GameVariant, Rank } from '../types/game';
+import { RANKS, RANK_VALUES } from './cards';
+
+/** Display names for variants */
+export const VARIANT_LABELS: Record<GameVariant, string> = {
+  holdem: "Texas Hold'em",
+  omaha: 'Omaha',
+  'short-deck': 'Short Deck (6+)',
+};
+
+/** Hole cards dealt to each player */
+export const HOLE_CARD_COUNTS: Record<GameVariant, number> = {
+  holdem: 2,
+  omaha: 4,
+  'short-deck': 2,
+};
+
+/** Ranks each variant's deck is built from */
+export const DECK_RANKS: Record<GameVariant, Rank[]> = {
+  holdem: RANKS,
+  omaha: RANKS,
+  'short-deck': RANKS.filter(rank => RANK_VALUES[rank] >= 6),
+};
+
+/** Hole cards an Omaha hand must use (the other three come from the board) */
+export const OMAHA_HOLE_CARDS_USED = 2;
+
+/** Highest card a low hand may hold ("eight or better") */
+export const LOW_HAND_QUALIFIER = 8;
@@ -0,0 +1,924 @@
+/**
+ * Pure game reducer for Texas Hold'em and Omaha.
+ * Holds every state transition of a hand with no React or browser dependencies,
+ * so the same rules drive the UI hook, the headless engine and tests.
+ * Persistence (statistics, hand history) is left to the caller.
+ */
+
+import { GameState, Player, BettingAction, NarratorEvent, ActionHistoryEntry, GameMode, DifficultyLevel } from '../types/game';
+import { createShuffledDeck, dealCards } from '../utils/cards';
+import { getBestHand } from '../utils/handEvaluator';
+import { getBestLowHand } from '../utils/lowHandEvaluator';
+import { handleShowdown } from '../utils/showdown';
+import { createRandomStream } from '../utils/random';
+import { addHandToTendencies, createEmptyTendencies } from '../utils/opponentModel';
+import { DEFAULT_TABLE_SIZE, MIN_TABLE_SIZE, MAX_TABLE_SIZE } from '../constants/table';
+import { createDefaultSetup, getSetupErrors } from '../utils/gameSetup';
+import { GameSetup } from '../types/setup';
+import {
+  createTournamentState,
+  startTournamentHand,
+  getCurrentLevel,
+  recordEliminations,
+} from '../utils/tournament';
+import { createCashSession, recordTopUp, createReplacementOpponent } from '../utils/cashGame';
+import { resolveRaiseAmount, getRaiseIncrement, isRaisingOpen } from '../utils/bettingLimits';
+import { HOLE_CARD_COUNTS } from '../constants/variants';
+
+/**
+ * Actions understood by the game reducer.
+ */
+export type GameAction =
+  | { type: 'START_NEW_HAND'; seed: number; now?: number }
+  | { type: 'PLAYER_ACTION'; playerId: string; action: BettingAction; amount?: number }
+  | { type: 'START_PHASE_ADVANCE' }
+  | { type: 'ADVANCE_PHASE' }
+  | { type: 'DETERMINE_WINNER' }
+  | { type: 'RESET_FOR_NEXT_HAND' }
+  | { type: 'ELIMINATE_PLAYER'; playerId: string }
+  | { type: 'SET_PENDING_EVENT'; event: NarratorEvent | null }
+  | { type: 'CLEAR_PENDING_EVENT' }
+  | { type: 'ADD_ACTION_HISTORY'; entry: Omit<ActionHistoryEntry, 'id' | 'timestamp'> }
+  | { type: 'SET_WAITING_FOR_NEXT'; waiting: boolean }
+  | { type: 'SET_RNG_POSITION'; position: number }
+  | { type: 'SET_MODE'; mode: GameMode }
+  | { type: 'SET_DIFFICULTY'; difficulty: DifficultyLevel }
+  | { type: 'SET_TABLE_SIZE'; tableSize: number }
+  | { type: 'APPLY_SETUP'; setup: GameSetup }
+  | { type: 'TOP_UP' }
+  | { type: 'CASH_OUT' }
+  | { type: 'RESTART_GAME' }
+  | { type: 'RESTORE_GAME'; state: GameState };
+
+/**
+ * Creates the initial game state with the standard stakes and AI line-up:
+ * the user in seat 0 and AI opponents in the rest.
+ * @param tableSize - Number of seats, from 2 (heads-up) to 9 (full ring)
+ * @throws Error if the table size is out of range
+ */
+export function createInitialState(tableSize: number = DEFAULT_TABLE_SIZE): GameState {
+  if (!Number.isInteger(tableSize) || tableSize < MIN_TABLE_SIZE || tableSize > MAX_TABLE_SIZE) {
+    throw new Error(`Table size must be ${MIN_TABLE_SIZE}-${MAX_TABLE_SIZE} seats, got ${tableSize}`);
+  }
+  return createStateFromSetup(createDefaultSetup(tableSize));
+}
+
+/**
+ * Creates the initial game state from a custom setup.
+ * @param setup - Stacks, blinds and opponents
+ * @throws Error if the setup is invalid
+ */
+export function createStateFromSetup(setup: GameSetup): GameState {
+  const errors = getSetupErrors(setup);
+  if (errors.length > 0) {
+    throw new Error(`Invalid game setup: ${errors.join('; ')}`);
+  }
+
+  const user: Player = {
+    id: 'user',
+    name: 'You',
+    chips: setup.startingChips,
+    holeCards: [],
+    isFolded: false,
+    isUser: true,
+    position: 0,
+    currentBet: 0,
+    totalBet: 0,
+    hasActed: false,
+    isAllIn: false,
+  };
+
+  const opponents: Player[] = setup.opponents.map((seat, index) => ({
+    ...user,
+    id: `ai${index + 1}`,
+    name: seat.name.trim(),
+    isUser: false,
+    position: index + 1,
+    personality: seat.personality,
+    difficulty: seat.difficulty,
+  }));
+
+  const players = [user, ...opponents];
+  const tournament = setup.tournament ? createTournamentState(setup.tournament) : undefined;
+  const blinds = tournament ? getCurrentLevel(tournament) : setup;
+
+  return {
+    players,
+    pot: 0,
+    communityCards: [],
+    currentPhase: 'pre-flop',
+    dealerPosition: 0,
+    currentPlayerIndex: 0,
+    currentBet: 0,
+    minRaise: blinds.bigBlind,
+    smallBlind: blinds.smallBlind,
+    bigBlind: blinds.bigBlind,
+    bettingStructure: setup.bettingStructure,
+    variant: setup.variant,
+    hiLo: setup.hiLo,
+    runItTwice: setup.runItTwice,
+    deck: [],
+    mode: 'tutorial',
+    difficulty: 'medium',
+    isHandComplete: false,
+    winners: [],
+    winningHands: [],
+    isAdvancingPhase: false,
+    isWaitingForContinue: false,
+    pendingEvent: null,
+    actionHistory: [],
+    isWaitingForNextAction: false,
+    isGameOver: false,
+    setup,
+    tournament,
+    cashSession: setup.cashGame ? createCashSession(setup.startingChips) : undefined,
+  };
+}
+
+/**
+ * Whether no hand is in progress: before the first deal or once a hand is complete.
+ */
+function isBetweenHands(state: GameState): boolean {
+  return !state.isGameOver && (state.actionHistory.length === 0 || state.isHandComplete);
+}
+
+/**
+ * Gets the seats that post the blinds.
+ * Heads-up, the dealer posts the small blind; otherwise the two seats after
+ * the dealer post.
+ */
+export function getBlindPositions(state: GameState): { smallBlind: number; bigBlind: number } {
+  const playerCount = state.players.length;
+  const smallBlind = playerCount === 2
+    ? state.dealerPosition
+    : (state.dealerPosition + 1) % playerCount;
+  return { smallBlind, bigBlind: (smallBlind + 1) % playerCount };
+}
+
+/**
+ * Posts antes (when the game has them) and blinds for the small blind and
+ * big blind positions. Antes go into the pot but don't count towards the
+ * bet to call. The player after the big blind acts first pre-flop, which
+ * heads-up is the dealer.
+ */
+export function postBlinds(state: GameState): GameState {
+  const newState = { ...state };
+  const activePlayers = newState.players.filter(p => p.chips > 0);
+
+  if (activePlayers.length < 2) {
+    throw new Error(`Not enough players to post blinds: ${activePlayers.length}`);
+  }
+
+  // Post antes
+  const ante = newState.ante ?? 0;
+  if (ante > 0) {
+    activePlayers.forEach(player => {
+      const anteAmount = Math.min(player.chips, ante);
+      player.chips -= anteAmount;
+      player.totalBet += anteAmount;
+      newState.pot += anteAmount;
+      if (player.chips === 0) {
+        player.isAllIn = true;
+      }
+    });
+  }
+
+  const { smallBlind: smallBlindPos, bigBlind: bigBlindPos } = getBlindPositions(newState);
+
+  // Post small blind
+  const sbPlayer = newState.players[smallBlindPos];
+  const sbAmount = Math.min(sbPlayer.chips, newState.smallBlind);
+  sbPlayer.chips -= sbAmount;
+  sbPlayer.currentBet = sbAmount;
+  sbPlayer.totalBet += sbAmount;
+  newState.pot += sbAmount;
+
+  if (sbPlayer.chips === 0) {
+    sbPlayer.isAllIn = true;
+  }
+
+  // Post big blind
+  const bbPlayer = newState.players[bigBlindPos];
+  const bbAmount = Math.min(bbPlayer.chips, newState.bigBlind);
+  bbPlayer.chips -= bbAmount;
+  bbPlayer.currentBet = bbAmount;
+  bbPlayer.totalBet += bbAmount;
+  newState.pot += bbAmount;
+  newState.currentBet = bbAmount;
+
+  if (bbPlayer.chips === 0) {
+    bbPlayer.isAllIn = true;
+  }
+
+  // The big blind is the round's first bet, so the first raise must add at least a big blind
+  newState.lastRaiseSize = newState.bigBlind;
+  newState.minRaise = newState.currentBet + newState.bigBlind;
+  newState.betsThisRound = 1;
+  newState.raiseLockedPlayerIds = [];
+
+  // First to act is player after big blind (pre-flop)
+  newState.currentPlayerIndex = (bigBlindPos + 1) % newState.players.length;
+
+  return newState;
+}
+
+/**
+ * Deals hole cards to all players.
+ */
+export function dealHoleCards(state: GameState): GameState {
+  const newState = { ...state };
+  const holeCardCount = HOLE_CARD_COUNTS[newState.variant ?? 'holdem'];
+
+  // Deal the variant's hole cards to each player who is still in the hand
+  // This includes players who went all-in on blinds (chips === 0 but isAllIn === true)
+  for (const player of newState.players) {
+    if (player.chips > 0 || player.isAllIn) {
+      player.holeCards = dealCards(newState.deck, holeCardCount);
+    }
+  }
+
+  return newState;
+}
+
+/**
+ * Gets the next player index who can act (not folded, not all-in, has chips).
+ */
+export function getNextPlayerIndex(state: GameState, currentIndex: number): number {
+  let nextIndex = (currentIndex + 1) % state.players.length;
+  let attempts = 0;
+
+  while (attempts < state.players.length) {
+    const player = state.players[nextIndex];
+    if (!player.isFolded && !player.isAllIn && player.chips > 0) {
+      return nextIndex;
+    }
+    nextIndex = (nextIndex + 1) % state.players.length;
+    attempts++;
+  }
+
+  return -1; // No valid player found
+}
+
+/**
+ * Checks whether the rest of the hand is a runout: two or more players are
+ * still in, someone is all-in, and at most one player could still bet.
+ */
+export function isAllInRunout(state: GameState): boolean {
+  const activePlayers = state.players.filter(p => !p.isFolded);
+  const canBet = activePlayers.filter(p => !p.isAllIn && p.chips > 0);
+  return activePlayers.length >= 2 && canBet.length <= 1 && activePlayers.some(p => p.isAllIn);
+}
+
+/**
+ * Checks if the betting round is complete.
+ * Round is complete when all active players have acted and matched the current bet.
+ */
+export function isBettingRoundComplete(state: GameState): boolean {
+  const activePlayers = state.players.filter(p => !p.isFolded && p.chips > 0);
+
+  // If only one player remains, round is complete
+  if (activePlayers.filter(p => !p.isAllIn).length <= 1) {
+    return true;
+  }
+
+  // All active players must have acted and matched the current bet
+  for (const player of activePlayers) {
+    if (player.isAllIn) continue; // All-in players don't need to act
+    if (!player.hasActed || player.currentBet < state.currentBet) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Game state reducer - handles all state transitions.
+ */
+export function gameReducer(state: GameState, action: GameAction): GameState {
+  switch (action.type) {
+    case 'START_NEW_HAND': {
+      // No more hands once the game is over
+      if (state.isGameOver) {
+        return state;
+      }
+      // A broke cash-game user has to rebuy before being dealt in
+      if (state.cashSession && state.players.some(p => p.isUser && p.chips === 0)) {
+        return state;
+      }
+
+      const newState = { ...state };
+
+      // Start the hand's own random stream so the whole hand can be replayed
+      newState.seed = action.seed;
+      const stream = createRandomStream(action.seed);
+
+      // Create and shuffle deck
+      newState.deck = createShuffledDeck(stream.next, newState.variant);
+      newState.rngPosition = stream.position();
+
+      // Reset player states
+      newState.players = newState.players.map(p => ({
+        ...p,
+        holeCards: [],
+        isFolded: false,
+        currentBet: 0,
+        totalBet: 0,
+        hasActed: false,
+        isAllIn: false,
+      }));
+
+      // Reset hand state
+      newState.pot = 0;
+      newState.communityCards = [];
+      newState.secondBoard = undefined;
+      newState.currentPhase = 'pre-flop';
+      newState.currentBet = 0;
+      newState.minRaise = newState.bigBlind;
+      newState.isHandComplete = false;
+      newState.winners = [];
+      newState.winningHands = [];
+      newState.isAdvancingPhase = false;
+      newState.isWaitingForContinue = false;
+      newState.pendingEvent = null;
+      newState.actionHistory = [];
+      newState.isWaitingForNextAction = false;
+      newState.potResults = undefined;
+
+      // Track user's starting chips for statistics
+      const userPlayer = newState.players.find(p => p.isUser);
+      newState.userStartingChips = userPlayer?.chips || 0;
+      newState.userFoldedThisHand = false;
+      newState.userWentAllInThisHand = false;
+
+      // Tournaments move up the blind schedule between hands
+      if (newState.tournament) {
+        newState.tournament = startTournamentHand(newState.tournament, action.now ?? Date.now());
+        const level = getCurrentLevel(newState.tournament);
+        newState.smallBlind = level.smallBlind;
+        newState.bigBlind = level.bigBlind;
+        newState.ante = level.ante;
+      }
+
+      // Track all players' starting chips for hand history
+      newState.playersStartingChips = new Map();
+      newState.players.forEach(player => {
+        newState.playersStartingChips!.set(player.id, player.chips);
+      });
+
+      // Post blinds
+      const stateWithBlinds = postBlinds(newState);
+
+      // Add ante and blind entries to action history
+      const blindPositions = getBlindPositions(stateWithBlinds);
+      const sbPlayer = stateWithBlinds.players[blindPositions.smallBlind];
+      const bbPlayer = stateWithBlinds.players[blindPositions.bigBlind];
+      const sbAmount = sbPlayer.currentBet;
+      const bbAmount = bbPlayer.currentBet;
+      const timestamp = Date.now();
+
+      const history: ActionHistoryEntry[] = [];
+      let potAfter = 0;
+      stateWithBlinds.players.forEach(player => {
+        // Whatever went in beyond the blind was the ante
+        const anteAmount = player.totalBet - player.currentBet;
+        if (anteAmount > 0) {
+          potAfter += anteAmount;
+          history.push({
+            id: history.length + 1,
+            playerName: player.name,
+            playerId: player.id,
+            action: 'ante',
+            amount: anteAmount,
+            phase: 'pre-flop',
+            potAfter,
+            timestamp,
+            isUser: player.isUser,
+          });
+        }
+      });
+
+      history.push({
+        id: history.length + 1,
+        playerName: sbPlayer.name,
+        playerId: sbPlayer.id,
+        action: 'smallBlind',
+        amount: sbAmount,
+        phase: 'pre-flop',
+        potAfter: potAfter + sbAmount,
+        timestamp,
+        isUser: sbPlayer.isUser,
+      });
+      history.push({
+        id: history.length + 1,
+        playerName: bbPlayer.name,
+        playerId: bbPlayer.id,
+        action: 'bigBlind',
+        amount: bbAmount,
+        phase: 'pre-flop',
+        potAfter: potAfter + sbAmount + bbAmount,
+        timestamp,
+        isUser: bbPlayer.isUser,
+      });
+      stateWithBlinds.actionHistory = history;
+
+      // Deal hole cards
+      const stateWithCards = dealHoleCards(stateWithBlinds);
+
+      return stateWithCards;
+    }
+
+    case 'PLAYER_ACTION': {
+      const { playerId, action: playerAction, amount } = action;
+      const playerIndex = state.players.findIndex(p => p.id === playerId);
+
+      if (playerIndex === -1) {
+        throw new Error(`Player not found: ${playerId}`);
+      }
+
+      // Validate it's the player's turn
+      if (state.players[state.currentPlayerIndex].id !== playerId) {
+        throw new Error(
+          `Not player's turn: expected ${state.players[state.currentPlayerIndex].id}, got ${playerId}`
+        );
+      }
+
+      // Create new state with properly cloned players array
+      const newState = {
+        ...state,
+        players: state.players.map((p, idx) =>
+          idx === playerIndex ? { ...p } : p
+        )
+      };
+
+      const player = newState.players[playerIndex];
+      player.hasActed = true;
+
+      switch (playerAction) {
+        case 'fold':
+          player.isFolded = true;
+          // Track if user folded
+          if (player.isUser) {
+            newState.userFoldedThisHand = true;
+          }
+          break;
+
+        case 'check':
+          // Check is only valid if current bet is 0 or player has matched it
+          if (newState.currentBet > player.currentBet) {
+            throw new Error('Cannot check - must call or fold');
+          }
+          break;
+
+        case 'call': {
+          const amountToCall = newState.currentBet - player.currentBet;
+          const actualCall = Math.min(amountToCall, player.chips);
+
+          player.chips -= actualCall;
+          player.currentBet += actualCall;
+          player.totalBet += actualCall;
+          newState.pot += actualCall;
+
+          if (player.chips === 0) {
+            player.isAllIn = true;
+            // Track if user went all-in
+            if (player.isUser) {
+              newState.userWentAllInThisHand = true;
+            }
+          }
+          break;
+        }
+
+        case 'raise': {
+          if (!isRaisingOpen(newState)) {
+            throw new Error('Cannot raise - betting is capped for this round');
+          }
+          if (!isRaisingOpen(newState, player)) {
+            throw new Error('Cannot raise - a short all-in does not reopen the betting');
+          }
+
+          // The 'amount' parameter is the new total bet amount (e.g., 20 if raising from 10 to 20).
+          // Fixed-limit raises are always one bet; pot-limit raises stop at the pot.
+          const newTotalBet = resolveRaiseAmount(newState, player, amount);
+          // Calculate how much the player needs to add to reach the new total bet
+          const additionalChips = newTotalBet - player.currentBet;
+          const actualRaise = Math.min(additionalChips, player.chips);
+
+          player.chips -= actualRaise;
+          player.currentBet += actualRaise;
+          player.totalBet += actualRaise;
+          newState.pot += actualRaise;
+
+          if (player.chips === 0) {
+            player.isAllIn = true;
+            // Track if user went all-in
+            if (player.isUser) {
+              newState.userWentAllInThisHand = true;
+            }
+          }
+
+          // An all-in for no more than the current bet is just a call
+          const raiseSize = player.currentBet - newState.currentBet;
+          if (raiseSize <= 0) {
+            break;
+          }
+
+          // A full raise (or any opening bet) sets the new minimum raise and
+          // reopens the betting for everyone. A short all-in raise only makes
+          // players who already acted call the difference; they may not re-raise.
+          const lastRaiseSize = newState.lastRaiseSize ?? newState.bigBlind;
+          const isOpeningBet = newState.currentBet === 0;
+          const isFullRaise = raiseSize >= lastRaiseSize;
+
+          if (isFullRaise) {
+            newState.lastRaiseSize = raiseSize;
+            newState.betsThisRound = (newState.betsThisRound ?? 0) + 1;
+          }
+          if (isFullRaise || isOpeningBet) {
+            newState.raiseLockedPlayerIds = [];
+          } else {
+            const alreadyActed = newState.players
+              .filter(p => p.id !== playerId && p.hasActed && !p.isFolded && !p.isAllIn)
+              .map(p => p.id);
+            newState.raiseLockedPlayerIds = [...(newState.raiseLockedPlayerIds ?? []), ...alreadyActed];
+          }
+
+          newState.currentBet = player.currentBet;
+          newState.minRaise = newState.currentBet + (newState.lastRaiseSize ?? newState.bigBlind);
+
+          // Reset hasActed for other players (they must respond to raise)
+          newState.players.forEach(p => {
+            if (p.id !== playerId && !p.isFolded && !p.isAllIn) {
+              p.hasActed = false;
+            }
+          });
+          break;
+        }
+      }
+
+      // Check if betting round is complete
+      if (isBettingRoundComplete(newState)) {
+        // Move to next phase will be handled by separate action
+      } else {
+        // Move to next player
+        const nextPlayer = getNextPlayerIndex(newState, newState.currentPlayerIndex);
+        if (nextPlayer !== -1) {
+          newState.currentPlayerIndex = nextPlayer;
+        }
+      }
+
+      return newState;
+    }
+
+    case 'START_PHASE_ADVANCE': {
+      // Mark that we're starting to advance phase (prevents re-triggering)
+      return { ...state, isAdvancingPhase: true };
+    }
+
+    case 'ADVANCE_PHASE': {
+      const newState = { ...state };
+
+      // Reset betting round state
+      newState.currentBet = 0;
+      newState.betsThisRound = 0;
+      newState.raiseLockedPlayerIds = [];
+      newState.players.forEach(p => {
+        p.currentBet = 0;
+        p.hasActed = false;
+      });
+
+      // Mark that phase advancement is complete
+      newState.isAdvancingPhase = false;
+
+      // Once nobody can bet any more, a run-it-twice game starts a second board
+      // from the cards already out; each street is then dealt to both boards
+      if (newState.runItTwice && !newState.secondBoard && newState.currentPhase !== 'river' && isAllInRunout(newState)) {
+        newState.secondBoard = [...newState.communityCards];
+      }
+      const dealToSecondBoard = (count: number) => {
+        if (newState.secondBoard) {
+          newState.secondBoard = [...newState.secondBoard, ...dealCards(newState.deck, count)];
+        }
+      };
+
+      // Advance to next phase
+      switch (newState.currentPhase) {
+        case 'pre-flop':
+          // Deal flop (3 cards)
+          newState.communityCards = dealCards(newState.deck, 3);
+          dealToSecondBoard(3);
+          newState.currentPhase = 'flop';
+          break;
+
+        case 'flop':
+          // Deal turn (1 card) - create new array to avoid mutation
+          newState.communityCards = [...newState.communityCards, ...dealCards(newState.deck, 1)];
+          dealToSecondBoard(1);
+          newState.currentPhase = 'turn';
+          break;
+
+        case 'turn':
+          // Deal river (1 card) - create new array to avoid mutation
+          newState.communityCards = [...newState.communityCards, ...dealCards(newState.deck, 1)];
+          dealToSecondBoard(1);
+          newState.currentPhase = 'river';
+          break;
+
+        case 'river':
+          // Move to showdown
+          newState.currentPhase = 'showdown';
+          newState.isAdvancingPhase = false;
+          return newState;
+
+        default:
+          return newState;
+      }
+
+      // The first bet of a street must be at least a big blind (one bet in fixed-limit)
+      newState.lastRaiseSize = getRaiseIncrement(newState);
+      newState.minRaise = newState.lastRaiseSize;
+
+      // Set first player to act (first active player after dealer).
+      // When everyone left is all-in there is nobody to act and the board runs out.
+      const firstToAct = getNextPlayerIndex(newState, newState.dealerPosition);
+      if (firstToAct !== -1) {
+        newState.currentPlayerIndex = firstToAct;
+      }
+
+      return newState;
+    }
+
+    case 'DETERMINE_WINNER': {
+      const newState = { ...state };
+      const activePlayers = newState.players.filter(p => !p.isFolded);
+
+      if (activePlayers.length === 0) {
+        throw new Error('Cannot determine winner - no active players');
+      }
+
+      // If only one player remains, they win
+      if (activePlayers.length === 1) {
+        const winner = activePlayers[0];
+        winner.chips += newState.pot;
+        newState.winners = [winner];
+        newState.winningHands = [];
+        newState.isHandComplete = true;
+
+        return newState;
+      }
+
+      // Evaluate all active players' hands under the variant's rules
+      const variant = newState.variant ?? 'holdem';
+      const handEvaluations = activePlayers.map(player => {
+        if (player.holeCards.length !== HOLE_CARD_COUNTS[variant]) {
+          throw new Error(
+            `Player ${player.id} has ${player.holeCards.length} hole cards (expected ${HOLE_CARD_COUNTS[variant]}). ` +
+            `Phase: ${newState.currentPhase}, Community cards: ${newState.communityCards.length}`
+          );
+        }
+
+        if (newState.communityCards.length !== 5) {
+          throw new Error(
+            `Cannot evaluate hands at showdown - expected 5 community cards but got ${newState.communityCards.length}. ` +
+            `Phase: ${newState.currentPhase}, Active players: ${activePlayers.length}, ` +
+            `Total players: ${newState.players.length}`
+          );
+        }
+
+        return getBestHand(player.holeCards, newState.communityCards, variant);
+      });
+
+      // Hi-lo games also find each player's best eight-or-better low
+      const lowHands = newState.hiLo
+        ? activePlayers.map(player => getBestLowHand(player.holeCards, newState.communityCards, variant))
+        : undefined;
+
+      // A run-it-twice hand settles half of each pot on the second board
+      const secondBoard = newState.secondBoard;
+      if (secondBoard && secondBoard.length !== 5) {
+        throw new Error(`Cannot evaluate hands at showdown - expected 5 cards on the second board but got ${secondBoard.length}`);
+      }
+      const secondBoardEvaluations = secondBoard
+        ? {
+            handEvaluations: activePlayers.map(player => getBestHand(player.holeCards, secondBoard, variant)),
+            lowHands: newState.hiLo
+              ? activePlayers.map(player => getBestLowHand(player.holeCards, secondBoard, variant))
+              : undefined,
+          }
+        : undefined;
+
+      // Handle showdown with side pot distribution
+      const showdownResult = handleShowdown(newState.players, newState.dealerPosition, handEvaluations, lowHands, secondBoardEvaluations);
+
+      // Get winning hands for display (from the second board for a player who won only there)
+      const winningHands = showdownResult.winners.map(winner => {
+        const playerIndex = activePlayers.findIndex(p => p.id === winner.id);
+        const wonFirstBoard = showdownResult.pots.some(pot => pot.board !== 2 && pot.winnerIds.includes(winner.id));
+        return wonFirstBoard || !secondBoardEvaluations
+          ? handEvaluations[playerIndex]
+          : secondBoardEvaluations.handEvaluations[playerIndex];
+      });
+
+      newState.winners = showdownResult.winners;
+      newState.winningHands = winningHands;
+      newState.potResults = showdownResult.pots;
+      newState.isHandComplete = true;
+
+      return newState;
+    }
+
+    case 'RESET_FOR_NEXT_HAND': {
+      const newState = { ...state };
+
+      // Fold the finished hand into what the AI knows about the user
+      const user = newState.players.find(p => p.isUser);
+      if (user && newState.isHandComplete) {
+        newState.userTendencies = addHandToTendencies(
+          newState.userTendencies ?? createEmptyTendencies(),
+          newState.actionHistory,
+          user.id,
+          newState.currentPhase === 'showdown' && !user.isFolded
+        );
+      }
+
+      // Cash games refill busted AI seats; the user stays seated to rebuy
+      if (newState.cashSession) {
+        let session = newState.cashSession;
+        const players = [...newState.players];
+        players.forEach((p, index) => {
+          if (p.isUser || p.chips > 0) return;
+          players[index] = createReplacementOpponent(p, players, session);
+          session = { ...session, seatsRefilled: session.seatsRefilled + 1 };
+        });
+        newState.players = players;
+        newState.cashSession = session;
+        newState.dealerPosition = (newState.dealerPosition + 1) % newState.players.length;
+        return newState;
+      }
+
+      // Eliminate players with no chips first
+      if (newState.tournament) {
+        newState.tournament = recordEliminations(
+          newState.tournament,
+          newState.players.filter(p => p.chips === 0),
+          newState.playersStartingChips
+        );
+      }
+      newState.players = newState.players.filter(p => p.chips > 0);
+
+      // Check if game is over (only 1 player remaining, or the user is out of a tournament)
+      const userBustedOut = newState.tournament !== undefined && !newState.players.some(p => p.isUser);
+      if (newState.players.length === 1 || userBustedOut) {
+        newState.isGameOver = true;
+        newState.gameWinner = newState.players.reduce((leader, p) => (p.chips > leader.chips ? p : leader));
+        return newState;
+      }
+
+      // Re-assign positions
+      newState.players.forEach((p, index) => {
+        p.position = index;
+      });
+
+      // Rotate dealer button after eliminations (so it's within valid range)
+      newState.dealerPosition = (newState.dealerPosition + 1) % newState.players.length;
+
+      return newState;
+    }
+
+    case 'ELIMINATE_PLAYER': {
+      const newState = { ...state };
+      newState.players = newState.players.filter(p => p.id !== action.playerId);
+
+      // Re-assign positions
+      newState.players.forEach((p, index) => {
+        p.position = index;
+      });
+
+      return newState;
+    }
+
+    case 'SET_PENDING_EVENT': {
+      return {
+        ...state,
+        pendingEvent: action.event,
+        isWaitingForContinue: action.event !== null,
+      };
+    }
+
+    case 'CLEAR_PENDING_EVENT': {
+      return {
+        ...state,
+        pendingEvent: null,
+        isWaitingForContinue: false,
+      };
+    }
+
+    case 'ADD_ACTION_HISTORY': {
+      const newEntry: ActionHistoryEntry = {
+        ...action.entry,
+        id: state.actionHistory.length + 1,
+        timestamp: Date.now(),
+      };
+      return {
+        ...state,
+        actionHistory: [...state.actionHistory, newEntry],
+      };
+    }
+
+    case 'SET_WAITING_FOR_NEXT': {
+      return {
+        ...state,
+        isWaitingForNextAction: action.waiting,
+      };
+    }
+
+    case 'SET_RNG_POSITION': {
+      return {
+        ...state,
+        rngPosition: action.position,
+      };
+    }
+
+    case 'SET_MODE': {
+      return {
+        ...state,
+        mode: action.mode,
+      };
+    }
+
+    case 'SET_DIFFICULTY': {
+      return {
+        ...state,
+        difficulty: action.difficulty,
+      };
+    }
+
+    case 'SET_TABLE_SIZE': {
+      // Reseat the table; only meaningful before the first hand is dealt
+      const seated = createInitialState(action.tableSize);
+      return {
+        ...seated,
+        mode: state.mode,
+        difficulty: state.difficulty,
+      };
+    }
+
+    case 'APPLY_SETUP': {
+      // Reseat the table with custom stacks, blinds and opponents
+      const seated = createStateFromSetup(action.setup);
+      return {
+        ...seated,
+        mode: state.mode,
+        difficulty: state.difficulty,
+      };
+    }
+
+    case 'TOP_UP': {
+      // Cash games only, and only between hands
+      if (!state.cashSession || !isBetweenHands(state)) {
+        return state;
+      }
+      const user = state.players.find(p => p.isUser);
+      if (!user) return state;
+
+      return {
+        ...state,
+        cashSession: recordTopUp(state.cashSession, user.chips),
+        players: state.players.map(p =>
+          p.isUser ? { ...p, chips: Math.max(p.chips, state.cashSession!.buyIn) } : p
+        ),
+      };
+    }
+
+    case 'CASH_OUT': {
+      // Leaving a cash game ends the session; only allowed between hands
+      if (!state.cashSession || !isBetweenHands(state)) {
+        return state;
+      }
+      return {
+        ...state,
+        isGameOver: true,
+        gameWinner: state.players.reduce((leader, p) => (p.chips > leader.chips ? p : leader)),
+      };
+    }
+
+    case 'RESTART_GAME': {
+      // Reset the entire game to initial state, preserving mode, difficulty and setup
+      const initialState = state.setup ? createStateFromSetup(state.setup) : createInitialState();
+      return {
+        ...initialState,
+        mode: state.mode,
+        difficulty: state.difficulty,
+      };
+    }
+
+    case 'RESTORE_GAME': {
+      // Pick up a saved game exactly where it left off, resuming the hand's
+      // random stream from its saved position
+      return action.state;
+    }
+
+    default:
+      return state;
+  }
+}
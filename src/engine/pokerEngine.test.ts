@@ -0,0 +1,198 @@
+/**
+ * Tests for the headless poker engine.
+ * Runs complete hands with no React involved.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PokerEngine, getNextStep } from './pokerEngine';
+import { createInitialState, createStateFromSetup } from './gameReducer';
+import { makeAIDecision } from '../utils/ai';
+import { random } from '../utils/random';
+import { DecisionProvider, EngineEvent } from '../types/engine';
+
+const aiDecides: DecisionProvider = (player, state, rng) => makeAIDecision(player, state, undefined, rng);
+const alwaysCall: DecisionProvider = (player, state) =>
+  state.currentBet > player.currentBet ? { action: 'call' } : { action: 'check' };
+const alwaysShove: DecisionProvider = player =>
+  ({ action: 'raise', amount: player.currentBet + player.chips });
+
+function totalChips(engine: PokerEngine): number {
+  return engine.getState().players.reduce((sum, p) => sum + p.chips, 0);
+}
+
+describe('getNextStep', () => {
+  it('should ask for a deal before any cards are dealt', () => {
+    expect(getNextStep(createInitialState())).toEqual({ type: 'deal' });
+  });
+
+  it('should ask the first player after the big blind to act', () => {
+    const engine = new PokerEngine();
+    engine.execute({ type: 'start_hand', seed: 1 });
+    expect(engine.getNextStep()).toEqual({ type: 'player_turn', playerIndex: 3 });
+  });
+});
+
+describe('PokerEngine', () => {
+  it('should emit hand_started with the seed', () => {
+    const engine = new PokerEngine();
+    const events = engine.execute({ type: 'start_hand', seed: 42 });
+    expect(events).toEqual([{ type: 'hand_started', seed: 42, dealerPosition: 0 }]);
+    expect(engine.getState().seed).toBe(42);
+  });
+
+  it('should record an action history entry for each act command', () => {
+    const engine = new PokerEngine();
+    engine.execute({ type: 'start_hand', seed: 1 });
+    const player = engine.getState().players[3];
+
+    const events = engine.execute({ type: 'act', playerId: player.id, action: 'call' });
+
+    expect(events).toHaveLength(1);
+    const event = events[0] as Extract<EngineEvent, { type: 'player_acted' }>;
+    expect(event.type).toBe('player_acted');
+    expect(event.entry.amount).toBe(10);
+    expect(event.entry.potAfter).toBe(25);
+    expect(engine.getState().actionHistory).toHaveLength(3);
+  });
+
+  it('should play a full hand headlessly and conserve chips', () => {
+    const engine = new PokerEngine();
+    const events = engine.playHand(alwaysCall, 7);
+
+    const state = engine.getState();
+    expect(state.isHandComplete).toBe(true);
+    expect(state.communityCards).toHaveLength(5);
+    expect(events[events.length - 1].type).toBe('hand_completed');
+    expect(totalChips(engine)).toBe(400);
+  });
+
+  it('should play full-ring and heads-up hands and conserve chips', () => {
+    [9, 2].forEach(tableSize => {
+      const engine = new PokerEngine(createInitialState(tableSize));
+      engine.playHand(aiDecides, 11);
+
+      expect(engine.getState().isHandComplete).toBe(true);
+      expect(totalChips(engine)).toBe(tableSize * 100);
+    });
+  });
+
+  it('should run out the board when everyone is all-in', () => {
+    const engine = new PokerEngine();
+    engine.playHand(alwaysShove, 3);
+
+    const state = engine.getState();
+    expect(state.isHandComplete).toBe(true);
+    expect(state.communityCards).toHaveLength(5);
+    expect(totalChips(engine)).toBe(400);
+  });
+
+  it('should replay a hand identically from the same seed', () => {
+    const first = new PokerEngine();
+    const second = new PokerEngine();
+
+    first.playHand(aiDecides, 2024);
+    second.playHand(aiDecides, 2024);
+
+    const strip = (engine: PokerEngine) =>
+      engine.getState().actionHistory.map(({ timestamp: _t, ...rest }) => rest);
+    expect(strip(first)).toEqual(strip(second));
+    expect(first.getState().players.map(p => p.chips))
+      .toEqual(second.getState().players.map(p => p.chips));
+  });
+
+  it('should replay a hand from its seed whatever else draws random numbers', () => {
+    const first = new PokerEngine();
+    const second = new PokerEngine();
+
+    first.playHand(aiDecides, 2024);
+    // Narration and UI pacing draw from the shared service mid-hand
+    second.playHand((player, state, rng) => {
+      random();
+      return aiDecides(player, state, rng);
+    }, 2024);
+
+    const strip = (engine: PokerEngine) =>
+      engine.getState().actionHistory.map(({ timestamp: _t, ...rest }) => rest);
+    expect(strip(first)).toEqual(strip(second));
+    expect(second.getState().rngPosition).toBe(first.getState().rngPosition);
+  });
+
+  it('should play many hands until the game is over', () => {
+    const engine = new PokerEngine();
+    let hands = 0;
+
+    while (!engine.getState().isGameOver && hands < 500) {
+      engine.playHand(alwaysShove, hands + 1);
+      engine.execute({ type: 'next_hand' });
+      hands++;
+    }
+
+    expect(engine.getState().isGameOver).toBe(true);
+    expect(engine.getState().players).toHaveLength(1);
+    expect(engine.getState().players[0].chips).toBe(400);
+  });
+
+  it('should track the user\'s tendencies across hands', () => {
+    const engine = new PokerEngine();
+    engine.playHand(alwaysCall, 7);
+    engine.execute({ type: 'next_hand' });
+    engine.playHand(alwaysCall, 8);
+    engine.execute({ type: 'next_hand' });
+
+    expect(engine.getState().userTendencies).toMatchObject({ hands: 2, pfrHands: 0, sawFlopHands: 2 });
+  });
+
+  it('should notify subscribers with events and state', () => {
+    const engine = new PokerEngine();
+    const received: EngineEvent[] = [];
+    const unsubscribe = engine.subscribe(events => received.push(...events));
+
+    engine.execute({ type: 'start_hand', seed: 5 });
+    unsubscribe();
+    engine.execute({ type: 'restart' });
+
+    expect(received.map(e => e.type)).toEqual(['hand_started']);
+  });
+
+  it('should keep narration and pacing in the engine state', () => {
+    const engine = new PokerEngine();
+    const event = { type: 'hand_start' as const, message: 'Howdy!' };
+
+    expect(engine.execute({ type: 'narrate', event })).toEqual([]);
+    engine.execute({ type: 'wait_for_next', waiting: true });
+    expect(engine.getState()).toMatchObject({ pendingEvent: event, isWaitingForNextAction: true });
+
+    engine.execute({ type: 'narrate', event: null });
+    expect(engine.getState().pendingEvent).toBeNull();
+  });
+
+  it('should report the end of a cash game once, when the user cashes out', () => {
+    const engine = new PokerEngine(createStateFromSetup({
+      startingChips: 100,
+      smallBlind: 5,
+      bigBlind: 10,
+      opponents: [{ name: 'Doc', personality: 'tight-passive' }],
+      cashGame: true,
+    }));
+
+    const events = engine.execute({ type: 'cash_out' });
+    expect(events.map(e => e.type)).toEqual(['game_over']);
+    expect(engine.getState().isGameOver).toBe(true);
+    expect(engine.execute({ type: 'cash_out' })).toEqual([]);
+  });
+
+  it('should not report a hand started once the game is over', () => {
+    const engine = new PokerEngine(createStateFromSetup({
+      startingChips: 100,
+      smallBlind: 5,
+      bigBlind: 10,
+      opponents: [{ name: 'Doc', personality: 'tight-passive' }],
+      cashGame: true,
+    }));
+    engine.execute({ type: 'cash_out' });
+    const state = engine.getState();
+
+    expect(engine.execute({ type: 'start_hand', seed: 1 })).toEqual([]);
+    expect(engine.getState()).toBe(state);
+  });
+});
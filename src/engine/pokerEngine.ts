@@ -0,0 +1,325 @@
+/**
+ * Headless poker engine.
+ * Wraps the pure game reducer with a typed command/event API and the hand
+ * orchestration (whose turn, when to deal, when to settle) so a full hand can
+ * run with no React - from the UI hook, Node scripts, workers or tests.
+ */
+
+import { BettingAction, GameState, ActionHistoryEntry } from '../types/game';
+import {
+  EngineCommand,
+  EngineEvent,
+  EngineStep,
+  EngineListener,
+  DecisionProvider,
+  EngineDecision,
+} from '../types/engine';
+import { createInitialState, gameReducer, GameAction, isBettingRoundComplete } from './gameReducer';
+import { createRandomStream, generateSeed } from '../utils/random';
+
+/** Safety limit on steps per hand so a faulty decision provider cannot loop forever */
+const MAX_STEPS_PER_HAND = 1000;
+
+/**
+ * Determines what the game is waiting on next.
+ * @param state - Current game state
+ * @returns The next step needed to move the hand forward
+ */
+export function getNextStep(state: GameState): EngineStep {
+  if (state.isGameOver) {
+    return { type: 'game_over' };
+  }
+
+  if (state.isHandComplete) {
+    return { type: 'hand_complete' };
+  }
+
+  const hasCards = state.players.some(p => p.holeCards.length > 0);
+  if (!hasCards) {
+    return { type: 'deal' };
+  }
+
+  const activePlayers = state.players.filter(p => !p.isFolded);
+  if (activePlayers.length === 1 || state.currentPhase === 'showdown') {
+    return { type: 'determine_winner' };
+  }
+
+  if (isBettingRoundComplete(state)) {
+    return { type: 'advance_phase' };
+  }
+
+  return { type: 'player_turn', playerIndex: state.currentPlayerIndex };
+}
+
+/**
+ * Builds the action history entry for a betting action from the states
+ * before and after it was applied.
+ */
+function createActionEntry(
+  before: GameState,
+  after: GameState,
+  playerId: string,
+  action: BettingAction
+): Omit<ActionHistoryEntry, 'id' | 'timestamp'> {
+  const playerBefore = before.players.find(p => p.id === playerId)!;
+  const playerAfter = after.players.find(p => p.id === playerId)!;
+
+  let amount: number | undefined;
+  if (action === 'call') {
+    amount = playerAfter.currentBet - playerBefore.currentBet;
+  } else if (action === 'raise') {
+    amount = playerAfter.currentBet;
+  }
+
+  return {
+    playerName: playerAfter.name,
+    playerId,
+    action,
+    amount,
+    phase: before.currentPhase,
+    potAfter: after.pot,
+    isUser: playerAfter.isUser,
+  };
+}
+
+/**
+ * Framework-free poker engine.
+ * Holds a GameState, applies commands through the pure reducer and reports
+ * what happened as events.
+ */
+export class PokerEngine {
+  private state: GameState;
+  private listeners = new Set<EngineListener>();
+
+  constructor(initialState: GameState = createInitialState()) {
+    this.state = initialState;
+  }
+
+  /**
+   * Gets the current game state.
+   */
+  getState(): GameState {
+    return this.state;
+  }
+
+  /**
+   * Gets what the game is waiting on next.
+   */
+  getNextStep(): EngineStep {
+    return getNextStep(this.state);
+  }
+
+  /**
+   * Registers a listener for engine events.
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: EngineListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Executes a command and returns the events it produced.
+   * @throws Error if the command is illegal in the current state
+   */
+  execute(command: EngineCommand): EngineEvent[] {
+    const events: EngineEvent[] = [];
+
+    switch (command.type) {
+      case 'start_hand': {
+        const seed = command.seed ?? generateSeed();
+        const before = this.state;
+        this.apply({ type: 'START_NEW_HAND', seed, now: command.now });
+        // No hand is dealt once the game is over or a cash user is broke
+        if (this.state !== before) {
+          events.push({ type: 'hand_started', seed, dealerPosition: this.state.dealerPosition });
+        }
+        break;
+      }
+
+      case 'act': {
+        const before = this.state;
+        this.apply({
+          type: 'PLAYER_ACTION',
+          playerId: command.playerId,
+          action: command.action,
+          amount: command.amount,
+        });
+        this.apply({
+          type: 'ADD_ACTION_HISTORY',
+          entry: createActionEntry(before, this.state, command.playerId, command.action),
+        });
+        const entry = this.state.actionHistory[this.state.actionHistory.length - 1];
+        events.push({ type: 'player_acted', entry });
+        break;
+      }
+
+      case 'begin_phase_advance': {
+        this.apply({ type: 'START_PHASE_ADVANCE' });
+        break;
+      }
+
+      case 'advance_phase': {
+        this.apply({ type: 'ADVANCE_PHASE' });
+        events.push({
+          type: 'phase_advanced',
+          phase: this.state.currentPhase,
+          communityCards: [...this.state.communityCards],
+        });
+        break;
+      }
+
+      case 'determine_winner': {
+        this.apply({ type: 'DETERMINE_WINNER' });
+        events.push({
+          type: 'hand_completed',
+          winners: this.state.winners,
+          potResults: this.state.potResults ?? [],
+        });
+        break;
+      }
+
+      case 'next_hand': {
+        this.apply({ type: 'RESET_FOR_NEXT_HAND' });
+        if (this.state.isGameOver && this.state.gameWinner) {
+          events.push({ type: 'game_over', winner: this.state.gameWinner });
+        }
+        break;
+      }
+
+      case 'restart': {
+        this.apply({ type: 'RESTART_GAME' });
+        break;
+      }
+
+      case 'eliminate_player': {
+        this.apply({ type: 'ELIMINATE_PLAYER', playerId: command.playerId });
+        break;
+      }
+
+      case 'top_up': {
+        this.apply({ type: 'TOP_UP' });
+        break;
+      }
+
+      case 'cash_out': {
+        const wasOver = this.state.isGameOver;
+        this.apply({ type: 'CASH_OUT' });
+        if (!wasOver && this.state.isGameOver && this.state.gameWinner) {
+          events.push({ type: 'game_over', winner: this.state.gameWinner });
+        }
+        break;
+      }
+
+      case 'set_mode': {
+        this.apply({ type: 'SET_MODE', mode: command.mode });
+        break;
+      }
+
+      case 'set_difficulty': {
+        this.apply({ type: 'SET_DIFFICULTY', difficulty: command.difficulty });
+        break;
+      }
+
+      case 'set_table_size': {
+        this.apply({ type: 'SET_TABLE_SIZE', tableSize: command.tableSize });
+        break;
+      }
+
+      case 'apply_setup': {
+        this.apply({ type: 'APPLY_SETUP', setup: command.setup });
+        break;
+      }
+
+      case 'restore': {
+        this.apply({ type: 'RESTORE_GAME', state: command.state });
+        break;
+      }
+
+      case 'narrate': {
+        this.apply({ type: 'SET_PENDING_EVENT', event: command.event });
+        break;
+      }
+
+      case 'wait_for_next': {
+        this.apply({ type: 'SET_WAITING_FOR_NEXT', waiting: command.waiting });
+        break;
+      }
+    }
+
+    this.listeners.forEach(listener => listener(events, this.state));
+    return events;
+  }
+
+  /**
+   * Asks a decision provider for the action of the player whose turn it is,
+   * drawing on the hand's random stream. The stream's new position is kept
+   * in the state, so the rest of the hand - or a restored game - draws on
+   * from there.
+   * @param decide - Chooses the action
+   * @returns The provider's decision, not yet acted on
+   */
+  decide<D extends EngineDecision>(decide: (...args: Parameters<DecisionProvider>) => D): D {
+    const player = this.state.players[this.state.currentPlayerIndex];
+    const stream = createRandomStream(this.state.rngPosition ?? this.state.seed ?? generateSeed());
+    const decision = decide(player, this.state, stream.next);
+    this.apply({ type: 'SET_RNG_POSITION', position: stream.position() });
+    this.listeners.forEach(listener => listener([], this.state));
+    return decision;
+  }
+
+  /**
+   * Plays one complete hand, asking the decision provider for every action.
+   * @param decide - Chooses actions for whichever player is to act
+   * @param seed - Optional seed for the hand (random if omitted)
+   * @returns All events produced during the hand
+   * @throws Error if the hand does not finish within the step limit
+   */
+  playHand(decide: DecisionProvider, seed?: number): EngineEvent[] {
+    const events = this.execute({ type: 'start_hand', seed });
+
+    for (let steps = 0; steps < MAX_STEPS_PER_HAND; steps++) {
+      const step = this.getNextStep();
+
+      switch (step.type) {
+        case 'hand_complete':
+        case 'game_over':
+          return events;
+
+        case 'determine_winner':
+          events.push(...this.execute({ type: 'determine_winner' }));
+          break;
+
+        case 'advance_phase':
+          events.push(...this.execute({ type: 'advance_phase' }));
+          break;
+
+        case 'player_turn': {
+          const player = this.state.players[step.playerIndex];
+          const decision = this.decide(decide);
+          events.push(...this.execute({
+            type: 'act',
+            playerId: player.id,
+            action: decision.action,
+            amount: decision.amount,
+          }));
+          break;
+        }
+
+        case 'deal':
+          throw new Error('Hand has no cards dealt after start_hand');
+      }
+    }
+
+    throw new Error(`Hand did not complete within ${MAX_STEPS_PER_HAND} steps`);
+  }
+
+  /**
+   * Applies a raw reducer action to the engine state.
+   */
+  private apply(action: GameAction): void {
+    this.state = gameReducer(this.state, action);
+  }
+}
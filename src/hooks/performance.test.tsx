@@ -445,6 +445,12 @@ describe('Performance Tests', () => {
     it('should properly clean up state between hands', async () => {
       const { result } = renderHook(() => useGameState());
 
+      // Count the actions the engine accepted
+      let actionsTaken = 0;
+      result.current.subscribe(events => {
+        actionsTaken += events.filter(e => e.type === 'player_acted').length;
+      });
+
       // Play 10 hands and verify cleanup
       for (let i = 0; i < 10; i++) {
         await act(async () => {
@@ -456,6 +462,12 @@ describe('Performance Tests', () => {
           communityCards: result.current.state.communityCards.length,
           pot: result.current.state.pot,
         };
+        actionsTaken = 0;
+
+        // The last hand's actions are cleared when the next hand is dealt,
+        // leaving only the forced bets
+        const forcedBets = ['ante', 'smallBlind', 'bigBlind'];
+        expect(result.current.state.actionHistory.every(e => forcedBets.includes(e.action))).toBe(true);
 
         // Quick fold through hand
         for (let j = 0; j < 10; j++) {
@@ -489,7 +501,9 @@ describe('Performance Tests', () => {
 
         // These should be cleared/reset between hands
         expect(afterReset.communityCards.length).toBe(0);
-        expect(afterReset.actionHistory.length).toBeLessThanOrEqual(afterStart.actionHistory);
+        // Each accepted action adds one entry to the hand's history, which
+        // lasts until the next deal
+        expect(afterReset.actionHistory.length).toBe(afterStart.actionHistory + actionsTaken);
 
         if (result.current.state.isGameOver) break;
       }
@@ -0,0 +1,31 @@
+/**
+ * Custom React hook for the user's current hand equity.
+ * Recalculates only when the user's cards, the board or the number of
+ * live opponents change.
+ */
+
+import { useMemo } from 'react';
+import { GameState } from '../types/game';
+import { calculateEquity, EquityResult } from '../utils/equity';
+
+/**
+ * Hook returning the user's win/tie/lose percentages against the live opponents
+ * @param gameState - Current game state
+ * @returns Equity result, or null when the user has no live hand
+ */
+export function useEquity(gameState: GameState): EquityResult | null {
+  const userPlayer = gameState.players.find(p => p.isUser);
+  // Odds are worked out against a full Hold'em deck and rankings
+  const isLive = !!userPlayer && (gameState.variant ?? 'holdem') === 'holdem' &&
+    userPlayer.holeCards.length === 2 && !userPlayer.isFolded && !gameState.isHandComplete;
+  const holeCards = isLive ? userPlayer.holeCards : null;
+  const { communityCards } = gameState;
+  const opponents = gameState.players.filter(p => !p.isUser && !p.isFolded).length;
+
+  // The engine only replaces the card arrays when cards are dealt, so the memo
+  // can be keyed on the arrays themselves
+  return useMemo(
+    () => (holeCards ? calculateEquity(holeCards, communityCards, opponents) : null),
+    [holeCards, communityCards, opponents]
+  );
+}
@@ -0,0 +1,140 @@
+/**
+ * Tests for useGameFlow hook.
+ * Runs the table's pacing on fake timers against a real engine.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useGameState } from './useGameState';
+import { useGameFlow } from './useGameFlow';
+
+function renderGame() {
+  return renderHook(() => {
+    const game = useGameState();
+    const flow = useGameFlow(game);
+    return { ...game, ...flow };
+  });
+}
+
+type Game = ReturnType<typeof renderGame>['result'];
+
+// Lets AI players think and clicks Next until it is the user's turn
+function playUntilUserTurn(result: Game) {
+  for (let i = 0; i < 10 && !result.current.getCurrentPlayer().isUser; i++) {
+    act(() => {
+      vi.advanceTimersByTime(10_000);
+    });
+    act(() => {
+      result.current.next();
+    });
+  }
+}
+
+describe('useGameFlow', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should announce each new hand', () => {
+    const { result } = renderGame();
+
+    act(() => {
+      result.current.startNewHand(1);
+    });
+
+    expect(result.current.state.pendingEvent).toMatchObject({ type: 'hand_start' });
+    expect(result.current.state.pendingEvent?.message).toContain('has the dealer button');
+  });
+
+  it('should narrate an AI action and wait for Next before taking it', () => {
+    const { result } = renderGame();
+
+    act(() => {
+      result.current.startNewHand(1);
+    });
+    const aiPlayer = result.current.getCurrentPlayer();
+    expect(aiPlayer.isUser).toBe(false);
+
+    act(() => {
+      vi.advanceTimersByTime(10_000);
+    });
+
+    const pending = result.current.state.pendingEvent;
+    expect(pending).toMatchObject({ type: 'ai_action', playerName: aiPlayer.name });
+    expect(pending?.pendingAction?.playerId).toBe(aiPlayer.id);
+    expect(result.current.state.isWaitingForNextAction).toBe(true);
+    expect(result.current.state.actionHistory).toHaveLength(2);
+
+    act(() => {
+      result.current.next();
+    });
+
+    expect(result.current.state.isWaitingForNextAction).toBe(false);
+    expect(result.current.state.actionHistory[2]).toMatchObject({
+      playerId: aiPlayer.id,
+      action: pending?.pendingAction?.action,
+    });
+  });
+
+  it("should narrate the user's action after it lands", () => {
+    const { result } = renderGame();
+
+    act(() => {
+      result.current.startNewHand(1);
+    });
+    playUntilUserTurn(result);
+    const user = result.current.getCurrentPlayer();
+    expect(user.isUser).toBe(true);
+
+    act(() => {
+      result.current.handlePlayerAction(user.id, 'fold');
+    });
+    expect(result.current.state.pendingEvent?.type).not.toBe('user_action');
+
+    act(() => {
+      vi.advanceTimersByTime(800);
+    });
+
+    expect(result.current.state.pendingEvent).toMatchObject({ type: 'user_action', action: 'fold' });
+  });
+
+  it('should clear the finished hand and deal the next one after a pause', () => {
+    const { result } = renderGame();
+
+    act(() => {
+      result.current.startNewHand(1);
+    });
+    playUntilUserTurn(result);
+    act(() => {
+      result.current.handlePlayerAction(result.current.getCurrentPlayer().id, 'fold');
+    });
+    // Let the rest of the table play the hand out
+    for (let i = 0; i < 40 && !result.current.state.isHandComplete; i++) {
+      act(() => {
+        vi.advanceTimersByTime(10_000);
+      });
+      act(() => {
+        result.current.next();
+      });
+    }
+    expect(result.current.state.isHandComplete).toBe(true);
+
+    const dealer = result.current.state.dealerPosition;
+
+    act(() => {
+      result.current.dealNextHand();
+    });
+    expect(result.current.state.dealerPosition).toBe((dealer + 1) % 4);
+    expect(result.current.state.isHandComplete).toBe(true);
+
+    act(() => {
+      vi.advanceTimersByTime(500);
+    });
+    expect(result.current.state.isHandComplete).toBe(false);
+    expect(result.current.state.actionHistory.map(e => e.action)).toEqual(['smallBlind', 'bigBlind']);
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Custom React hook that paces a hand for the table UI.
+ * Drives the engine behind useGameState at human speed: AI players think
+ * before acting and wait for Next, streets are dealt with a pause, the
+ * showdown is revealed before it is settled, and the cowboy narrates each
+ * engine event as it happens.
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { GameState, Player } from '../types/game';
+import { EngineEvent } from '../types/engine';
+import { useGameState } from './useGameState';
+import { getNextStep } from '../engine/pokerEngine';
+import { getBlindPositions } from '../engine/gameReducer';
+import { makeAIDecision } from '../utils/ai';
+import { getBestHand } from '../utils/handEvaluator';
+import { scoreOmahaStartingHand } from '../utils/handStrength';
+import {
+  generateHandStartNarration,
+  generateAIActionNarration,
+  generateUserTurnNarration,
+  generateUserActionNarration,
+  generateShowdownNarration,
+  generateRunItTwiceNarration,
+} from '../utils/cowboyNarration';
+import { trackHandStart, trackUserAction } from '../utils/analytics';
+import { TIMING } from '../constants/timing';
+
+/** Delay before showing narrator after an action (let user see animation) */
+const NARRATION_DELAY = 800;
+
+/** What the cowboy says as each street is dealt */
+const PHASE_MESSAGES: Record<string, string> = {
+  'flop': "Three cards on the board! Take a look at what we're workin' with, partner.",
+  'turn': "The turn card is here! One more to come after this.",
+  'river': "And there's the river! This is it - make your move!",
+};
+
+/**
+ * Estimates an AI player's hand strength for narrating its reasoning.
+ */
+function estimateHandStrength(player: Player, state: GameState): number {
+  if (player.holeCards.length === 0) return 0;
+
+  if (state.communityCards.length >= 3) {
+    return getBestHand(player.holeCards, state.communityCards, state.variant).rank;
+  }
+
+  if (state.variant === 'omaha') return scoreOmahaStartingHand(player.holeCards);
+
+  if (state.communityCards.length === 0) {
+    const rankValues: Record<string, number> = {
+      '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8,
+      '9': 9, '10': 10, 'J': 11, 'Q': 12, 'K': 13, 'A': 14
+    };
+    const v1 = rankValues[player.holeCards[0].rank];
+    const v2 = rankValues[player.holeCards[1].rank];
+    if (v1 === v2) return Math.min(10, v1 / 2 + 3);
+    return (v1 + v2) / 4;
+  }
+
+  return 0;
+}
+
+/**
+ * Generates the hand start narration, announcing a new tournament level on
+ * its first hand.
+ */
+function narrateHandStart(state: GameState): string {
+  const { smallBlind: sbIdx, bigBlind: bbIdx } = getBlindPositions(state);
+
+  return generateHandStartNarration(
+    state.players[state.dealerPosition]?.name || 'Dealer',
+    state.players[sbIdx]?.name || 'Small Blind',
+    state.players[bbIdx]?.name || 'Big Blind',
+    state.smallBlind,
+    state.bigBlind,
+    state.ante,
+    state.tournament && state.tournament.level > 0 && state.tournament.handsThisLevel === 1
+      ? state.tournament.level + 1
+      : undefined
+  );
+}
+
+/**
+ * Hook that runs the hand flow for a game from useGameState.
+ * Returns the actions the table's Next and Next Hand buttons take.
+ */
+export function useGameFlow(game: ReturnType<typeof useGameState>) {
+  const {
+    state,
+    subscribe,
+    decide,
+    startNewHand,
+    handlePlayerAction,
+    startPhaseAdvance,
+    advancePhase,
+    determineWinner,
+    resetForNextHand,
+    setPendingEvent,
+    setWaitingForNext,
+  } = game;
+  const isProcessingAI = useRef(false);
+  const userActionTimestamp = useRef(0);
+
+  // Check if hand has been dealt
+  const hasCards = state.players.some(p => p.holeCards.length > 0);
+
+  // Narrate engine events as they happen
+  useEffect(() => subscribe((events: EngineEvent[], next: GameState) => {
+    events.forEach(event => {
+      switch (event.type) {
+        case 'hand_started':
+          isProcessingAI.current = false;
+          setPendingEvent({ type: 'hand_start', message: narrateHandStart(next) });
+          trackHandStart();
+          break;
+
+        case 'player_acted': {
+          const { entry } = event;
+          if (!entry.isUser || entry.action === 'ante' || entry.action === 'smallBlind' || entry.action === 'bigBlind') {
+            break;
+          }
+          const action = entry.action;
+          trackUserAction(action, entry.phase, entry.amount);
+          setTimeout(() => {
+            setPendingEvent({
+              type: 'user_action',
+              message: generateUserActionNarration(action, entry.amount),
+              action,
+            });
+            userActionTimestamp.current = Date.now();
+          }, NARRATION_DELAY);
+          break;
+        }
+
+        case 'phase_advanced':
+          // Let the new cards land before the cowboy talks about them
+          setTimeout(() => {
+            if (event.phase === 'showdown') {
+              setPendingEvent({
+                type: 'showdown',
+                message: next.secondBoard ? generateRunItTwiceNarration(next) : generateShowdownNarration(),
+              });
+            } else {
+              setPendingEvent({
+                type: 'phase_advance',
+                message: PHASE_MESSAGES[event.phase] || "New cards on the table!",
+              });
+              // Require user to click Next before continuing
+              setWaitingForNext(true);
+            }
+            isProcessingAI.current = false;
+          }, NARRATION_DELAY);
+          break;
+      }
+    });
+  }), [subscribe, setPendingEvent, setWaitingForNext]);
+
+  // Handle AI turns and phase transitions
+  useEffect(() => {
+    // Don't run if game not started, already processing, or hand complete
+    if (!hasCards || isProcessingAI.current || state.isHandComplete) {
+      return;
+    }
+
+    const currentPlayer = state.players[state.currentPlayerIndex];
+    const step = getNextStep(state);
+
+    // Settle the hand once only one player remains (showdown reveals are
+    // settled by the showdown effect after a delay)
+    if (step.type === 'determine_winner') {
+      if (state.currentPhase !== 'showdown') {
+        determineWinner();
+      }
+      return;
+    }
+
+    // Betting round is complete - deal the next street; the narration
+    // follows the phase_advanced event
+    if (step.type === 'advance_phase') {
+      if (state.isAdvancingPhase) {
+        return;
+      }
+      isProcessingAI.current = true;
+      startPhaseAdvance();
+      setTimeout(() => {
+        advancePhase();
+      }, 100);
+      return;
+    }
+
+    // If it's an AI player's turn and we're not already waiting for user to click Next
+    if (currentPlayer && !currentPlayer.isUser && !currentPlayer.isFolded && !currentPlayer.isAllIn && !state.isWaitingForNextAction) {
+      isProcessingAI.current = true;
+
+      // Calculate delay based on game phase (longer in later rounds)
+      let baseDelay = TIMING.AI_TURN_BASE_DELAY;
+      if (state.currentPhase === 'turn' || state.currentPhase === 'river') {
+        baseDelay += TIMING.AI_TURN_LATE_DELAY;
+      }
+      // Pacing has its own randomness, kept off the hand's random stream
+      const randomDelay = Math.random() * TIMING.AI_TURN_RANDOM_DELAY;
+      let thinkingDelay = baseDelay + randomDelay;
+
+      // Add extra delay if this follows a user action (to allow reading cowboy message)
+      const timeSinceUserAction = Date.now() - userActionTimestamp.current;
+      if (timeSinceUserAction < TIMING.USER_ACTION_DELAY) {
+        thinkingDelay += TIMING.USER_ACTION_DELAY - timeSinceUserAction;
+      }
+
+      setTimeout(() => {
+        // Calculate decision but DON'T execute yet - wait for user to click Next
+        const decision = decide((player, current, rng) =>
+          makeAIDecision(player, current, player.difficulty ?? current.difficulty, rng)
+        );
+        const narration = generateAIActionNarration(
+          currentPlayer,
+          decision.action,
+          decision.amount,
+          state,
+          estimateHandStrength(currentPlayer, state),
+          decision.sizing
+        );
+
+        // Show narration with pending action stored
+        setPendingEvent({
+          type: 'ai_action',
+          message: narration.message,
+          playerName: currentPlayer.name,
+          action: decision.action,
+          reasoning: narration.reasoning,
+          pendingAction: {
+            playerId: currentPlayer.id,
+            action: decision.action,
+            amount: decision.amount,
+          },
+        });
+
+        // Set waiting state so user must click Next
+        setWaitingForNext(true);
+        isProcessingAI.current = false;
+      }, thinkingDelay);
+
+      return;
+    }
+
+    // If it's the user's turn, show advice only in tutorial mode (once - the
+    // narration itself changes the state this effect watches)
+    if (
+      currentPlayer && currentPlayer.isUser && !currentPlayer.isFolded && !currentPlayer.isAllIn &&
+      state.mode === 'tutorial' && state.pendingEvent?.type !== 'user_turn'
+    ) {
+      const turnNarration = generateUserTurnNarration(currentPlayer, state);
+      setPendingEvent({
+        type: 'user_turn',
+        message: turnNarration.message,
+        handStrength: turnNarration.handStrength,
+        advice: turnNarration.advice,
+      });
+    }
+  }, [hasCards, state, decide, startPhaseAdvance, advancePhase, setPendingEvent, setWaitingForNext, determineWinner]);
+
+  // Settle the showdown once the cards have been on show for a moment
+  useEffect(() => {
+    if (state.currentPhase === 'showdown' && !state.isHandComplete) {
+      const timer = setTimeout(() => {
+        determineWinner();
+      }, TIMING.SHOWDOWN_REVEAL_DELAY);
+      return () => clearTimeout(timer);
+    }
+  }, [state.currentPhase, state.isHandComplete, determineWinner]);
+
+  // Reset flags when hand ends
+  useEffect(() => {
+    if (!hasCards) {
+      isProcessingAI.current = false;
+      userActionTimestamp.current = 0;
+    }
+  }, [hasCards]);
+
+  // Next in tutorial pacing: carry out the AI action the cowboy just
+  // described, or move on from a new street's narration
+  const next = useCallback(() => {
+    const pendingAction = state.pendingEvent?.pendingAction;
+    if (pendingAction && state.players.some(p => p.id === pendingAction.playerId)) {
+      handlePlayerAction(pendingAction.playerId, pendingAction.action, pendingAction.amount);
+    }
+
+    // Clear waiting state so game can continue
+    setWaitingForNext(false);
+  }, [state, handlePlayerAction, setWaitingForNext]);
+
+  // Clear the finished hand and deal the next one after a pause
+  const dealNextHand = useCallback(() => {
+    resetForNextHand();
+    isProcessingAI.current = false;
+    setTimeout(() => {
+      startNewHand();
+    }, TIMING.NEW_HAND_DELAY);
+  }, [resetForNextHand, startNewHand]);
+
+  return {
+    next,
+    dealNextHand,
+  };
+}
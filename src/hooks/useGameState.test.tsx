@@ -6,6 +6,11 @@
 import { describe, it, expect } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useGameState } from './useGameState';
+import { createInitialState, createStateFromSetup, gameReducer, isBettingRoundComplete } from '../engine/gameReducer';
+import { GameSetup } from '../types/setup';
+import { BettingAction, GameState, Player } from '../types/game';
+import { isRaisingOpen } from '../utils/bettingLimits';
+import { loadSavedGame } from '../utils/savedGame';
 
 describe('useGameState', () => {
   describe('Initial State', () => {
@@ -113,6 +118,60 @@ describe('useGameState', () => {
     });
   });
 
+  describe('Seeded hands', () => {
+    it('should store the seed on the game state', () => {
+      const { result } = renderHook(() => useGameState());
+
+      act(() => {
+        result.current.startNewHand(1234);
+      });
+
+      expect(result.current.state.seed).toBe(1234);
+    });
+
+    it('should deal identical hands for the same seed', () => {
+      const first = renderHook(() => useGameState());
+      const second = renderHook(() => useGameState());
+
+      act(() => {
+        first.result.current.startNewHand(2024);
+      });
+      act(() => {
+        second.result.current.startNewHand(2024);
+      });
+
+      act(() => {
+        first.result.current.advancePhase();
+        first.result.current.advancePhase();
+        first.result.current.advancePhase();
+      });
+      act(() => {
+        second.result.current.advancePhase();
+        second.result.current.advancePhase();
+        second.result.current.advancePhase();
+      });
+
+      expect(first.result.current.state.players.map(p => p.holeCards))
+        .toEqual(second.result.current.state.players.map(p => p.holeCards));
+      expect(first.result.current.state.communityCards)
+        .toEqual(second.result.current.state.communityCards);
+    });
+
+    it('should deal different hands for different seeds', () => {
+      const first = renderHook(() => useGameState());
+      const second = renderHook(() => useGameState());
+
+      act(() => {
+        first.result.current.startNewHand(1);
+      });
+      act(() => {
+        second.result.current.startNewHand(2);
+      });
+
+      expect(first.result.current.state.deck).not.toEqual(second.result.current.state.deck);
+    });
+  });
+
   describe('handlePlayerAction - Fold', () => {
     it('should mark player as folded', () => {
       const { result } = renderHook(() => useGameState());
@@ -130,6 +189,63 @@ describe('useGameState', () => {
       const foldedPlayer = result.current.state.players.find(p => p.id === currentPlayer.id);
       expect(foldedPlayer?.isFolded).toBe(true);
     });
+
+    it('should record the action in the hand history', () => {
+      const { result } = renderHook(() => useGameState());
+
+      act(() => {
+        result.current.startNewHand(1);
+      });
+
+      const currentPlayer = result.current.getCurrentPlayer();
+
+      act(() => {
+        result.current.handlePlayerAction(currentPlayer.id, 'fold');
+      });
+
+      expect(result.current.state.actionHistory.map(e => e.action)).toEqual(['smallBlind', 'bigBlind', 'fold']);
+      expect(result.current.state.actionHistory[2]).toMatchObject({ playerId: currentPlayer.id, phase: 'pre-flop' });
+    });
+  });
+
+  describe('Engine events', () => {
+    it('should pass engine events to subscribers', () => {
+      const { result } = renderHook(() => useGameState());
+      const received: string[] = [];
+      const unsubscribe = result.current.subscribe(events => received.push(...events.map(e => e.type)));
+
+      act(() => {
+        result.current.startNewHand(1);
+      });
+      act(() => {
+        result.current.handlePlayerAction(result.current.getCurrentPlayer().id, 'fold');
+      });
+      unsubscribe();
+      act(() => {
+        result.current.handlePlayerAction(result.current.getCurrentPlayer().id, 'fold');
+      });
+
+      expect(received).toEqual(['hand_started', 'player_acted']);
+    });
+
+    it('should ignore an action the engine rejects instead of throwing', () => {
+      const { result } = renderHook(() => useGameState());
+      const received: string[] = [];
+      result.current.subscribe(events => received.push(...events.map(e => e.type)));
+
+      act(() => {
+        result.current.startNewHand(1);
+      });
+      const before = result.current.state;
+      const waiting = result.current.state.players.find(p => p.id !== before.players[before.currentPlayerIndex].id)!;
+
+      act(() => {
+        result.current.handlePlayerAction(waiting.id, 'fold');
+      });
+
+      expect(result.current.state).toBe(before);
+      expect(received).toEqual(['hand_started']);
+    });
   });
 
   describe('handlePlayerAction - Call', () => {
@@ -778,12 +894,13 @@ describe('useGameState', () => {
       // Verify blinds were posted
       expect(result.current.state.pot).toBe(15);
 
-      // With 2 players, positions wrap around correctly
-      const sbPos = (result.current.state.dealerPosition + 1) % 2;
-      const bbPos = (result.current.state.dealerPosition + 2) % 2;
+      // Heads-up, the dealer posts the small blind and acts first pre-flop
+      const sbPos = result.current.state.dealerPosition;
+      const bbPos = (result.current.state.dealerPosition + 1) % 2;
 
       expect(result.current.state.players[sbPos].currentBet).toBe(5);
       expect(result.current.state.players[bbPos].currentBet).toBe(10);
+      expect(result.current.state.currentPlayerIndex).toBe(sbPos);
     });
 
     it('should handle dealer button rotation with 2 players', () => {
@@ -808,6 +925,617 @@ describe('useGameState', () => {
     });
   });
 
+  describe('Table size', () => {
+    it('should seat a full ring of nine with every AI given a personality', () => {
+      const { result } = renderHook(() => useGameState());
+
+      act(() => {
+        result.current.setTableSize(9);
+      });
+
+      const players = result.current.state.players;
+      expect(players).toHaveLength(9);
+      expect(players.map(p => p.position)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8]);
+      expect(new Set(players.map(p => p.id)).size).toBe(9);
+      expect(players.filter(p => !p.isUser).every(p => p.personality)).toBe(true);
+    });
+
+    it('should let the non-dealer act first after the flop heads-up', () => {
+      const { result } = renderHook(() => useGameState());
+
+      act(() => {
+        result.current.setTableSize(2);
+      });
+      act(() => {
+        result.current.startNewHand(42);
+      });
+
+      const dealer = result.current.state.dealerPosition;
+      expect(result.current.state.currentPlayerIndex).toBe(dealer);
+
+      act(() => {
+        result.current.handlePlayerAction(result.current.state.players[dealer].id, 'call');
+      });
+      act(() => {
+        result.current.handlePlayerAction(result.current.state.players[(dealer + 1) % 2].id, 'check');
+      });
+      act(() => {
+        result.current.advancePhase();
+      });
+
+      expect(result.current.state.currentPhase).toBe('flop');
+      expect(result.current.state.currentPlayerIndex).toBe((dealer + 1) % 2);
+    });
+
+    it('should keep the table size when the game restarts', () => {
+      const { result } = renderHook(() => useGameState());
+
+      act(() => {
+        result.current.setTableSize(6);
+      });
+      act(() => {
+        result.current.restartGame();
+      });
+
+      expect(result.current.state.players).toHaveLength(6);
+    });
+
+    it('should seat a custom setup with its stacks, blinds and opponents', () => {
+      const { result } = renderHook(() => useGameState());
+
+      act(() => {
+        result.current.applySetup({
+          startingChips: 400,
+          smallBlind: 10,
+          bigBlind: 20,
+          opponents: [
+            { name: 'Kid', personality: 'loose-aggressive', difficulty: 'expert' },
+            { name: 'Ma', personality: 'tight-passive' },
+          ],
+        });
+      });
+      act(() => {
+        result.current.startNewHand(42);
+      });
+
+      const { players, pot, bigBlind } = result.current.state;
+      expect(players.map(p => p.name)).toEqual(['You', 'Kid', 'Ma']);
+      expect(players[1].difficulty).toBe('expert');
+      expect(players[2].difficulty).toBeUndefined();
+      expect(bigBlind).toBe(20);
+      expect(pot).toBe(30);
+      expect(players.reduce((sum, p) => sum + p.chips + p.currentBet, 0)).toBe(1200);
+
+      act(() => {
+        result.current.restartGame();
+      });
+      expect(result.current.state.players.map(p => p.chips)).toEqual([400, 400, 400]);
+    });
+
+    it('should reject table sizes outside 2-9 seats', () => {
+      expect(() => createInitialState(1)).toThrow('Table size must be 2-9 seats, got 1');
+      expect(() => createInitialState(10)).toThrow('Table size must be 2-9 seats, got 10');
+    });
+  });
+
+  describe('Tournament', () => {
+    const tournamentSetup: GameSetup = {
+      startingChips: 100,
+      smallBlind: 5,
+      bigBlind: 10,
+      opponents: [
+        { name: 'Doc', personality: 'tight-passive' },
+        { name: 'Slim', personality: 'loose-aggressive' },
+      ],
+      tournament: {
+        levels: [
+          { smallBlind: 5, bigBlind: 10, ante: 0 },
+          { smallBlind: 10, bigBlind: 20, ante: 2 },
+        ],
+        advanceBy: 'hands',
+        levelLength: 1,
+      },
+    };
+
+    it('should raise the blinds and post antes into the pot once a level is over', () => {
+      let state = createStateFromSetup(tournamentSetup);
+      state = gameReducer(state, { type: 'START_NEW_HAND', seed: 1, now: 0 });
+      expect(state.pot).toBe(15);
+
+      state = gameReducer({ ...state, isHandComplete: true }, { type: 'RESET_FOR_NEXT_HAND' });
+      state = gameReducer(state, { type: 'START_NEW_HAND', seed: 2, now: 0 });
+
+      expect(state.tournament?.level).toBe(1);
+      expect(state.bigBlind).toBe(20);
+      expect(state.minRaise).toBe(40);
+      expect(state.pot).toBe(36);
+      expect(state.actionHistory.map(e => e.action)).toEqual(['ante', 'ante', 'ante', 'smallBlind', 'bigBlind']);
+      expect(state.actionHistory.map(e => e.potAfter)).toEqual([2, 4, 6, 16, 36]);
+      state.players.forEach(p => {
+        expect(p.chips + p.totalBet).toBe(state.playersStartingChips?.get(p.id));
+      });
+    });
+
+    it('should record eliminations and end the game when the user busts', () => {
+      let state = createStateFromSetup(tournamentSetup);
+      state = gameReducer(state, { type: 'START_NEW_HAND', seed: 1, now: 0 });
+      state = {
+        ...state,
+        isHandComplete: true,
+        players: state.players.map(p => ({ ...p, chips: p.name === 'Slim' ? 200 : p.isUser ? 0 : 100 })),
+      };
+
+      state = gameReducer(state, { type: 'RESET_FOR_NEXT_HAND' });
+
+      expect(state.isGameOver).toBe(true);
+      expect(state.gameWinner?.name).toBe('Slim');
+      expect(state.tournament?.eliminated.map(p => p.name)).toEqual(['You']);
+      expect(gameReducer(state, { type: 'START_NEW_HAND', seed: 3 })).toBe(state);
+    });
+  });
+
+  describe('Cash game', () => {
+    const cashSetup: GameSetup = {
+      startingChips: 100,
+      smallBlind: 5,
+      bigBlind: 10,
+      opponents: [
+        { name: 'Doc', personality: 'tight-passive' },
+        { name: 'Slim', personality: 'loose-aggressive', difficulty: 'expert' },
+      ],
+      cashGame: true,
+    };
+
+    const finishHand = (chips: Record<string, number>) => (state: GameState): GameState => ({
+      ...state,
+      isHandComplete: true,
+      players: state.players.map(p => ({ ...p, chips: chips[p.name] ?? p.chips })),
+    });
+
+    it('should refill a busted AI seat instead of ending the game', () => {
+      let state = createStateFromSetup(cashSetup);
+      state = gameReducer(state, { type: 'START_NEW_HAND', seed: 1 });
+      state = finishHand({ You: 100, Doc: 200, Slim: 0 })(state);
+
+      state = gameReducer(state, { type: 'RESET_FOR_NEXT_HAND' });
+
+      expect(state.isGameOver).toBe(false);
+      expect(state.players.map(p => p.name)).toEqual(['You', 'Doc', 'Annie']);
+      expect(state.players[2]).toMatchObject({ chips: 100, difficulty: 'expert', personality: 'calling-station' });
+      expect(state.cashSession?.seatsRefilled).toBe(1);
+    });
+
+    it('should wait for a busted user to rebuy, and count the rebuy as a buy-in', () => {
+      let state = createStateFromSetup(cashSetup);
+      state = gameReducer(state, { type: 'START_NEW_HAND', seed: 1 });
+      state = finishHand({ You: 0, Doc: 200, Slim: 100 })(state);
+      state = gameReducer(state, { type: 'RESET_FOR_NEXT_HAND' });
+
+      expect(state.isGameOver).toBe(false);
+      expect(gameReducer(state, { type: 'START_NEW_HAND', seed: 2 })).toBe(state);
+
+      state = gameReducer(state, { type: 'TOP_UP' });
+      expect(state.players[0].chips).toBe(100);
+      expect(state.cashSession).toMatchObject({ totalBuyIn: 200, rebuys: 1 });
+
+      state = gameReducer(state, { type: 'START_NEW_HAND', seed: 2 });
+      expect(state.players[0].holeCards).toHaveLength(2);
+    });
+
+    it('should not top up or cash out in the middle of a hand', () => {
+      const state = gameReducer(createStateFromSetup(cashSetup), { type: 'START_NEW_HAND', seed: 1 });
+
+      expect(gameReducer(state, { type: 'TOP_UP' })).toBe(state);
+      expect(gameReducer(state, { type: 'CASH_OUT' })).toBe(state);
+    });
+
+    it('should end the session when the user cashes out', () => {
+      let state = createStateFromSetup(cashSetup);
+      state = gameReducer(state, { type: 'START_NEW_HAND', seed: 1 });
+      state = finishHand({ You: 160, Doc: 40, Slim: 100 })(state);
+
+      state = gameReducer(state, { type: 'CASH_OUT' });
+
+      expect(state.isGameOver).toBe(true);
+      expect(state.gameWinner?.name).toBe('You');
+    });
+  });
+
+  describe('Betting structures', () => {
+    const structuredSetup = (bettingStructure: GameSetup['bettingStructure']): GameSetup => ({
+      startingChips: 1000,
+      smallBlind: 5,
+      bigBlind: 10,
+      bettingStructure,
+      opponents: [
+        { name: 'Doc', personality: 'tight-passive' },
+        { name: 'Slim', personality: 'loose-aggressive' },
+      ],
+    });
+
+    const actingId = (state: GameState) => state.players[state.currentPlayerIndex].id;
+
+    it('should hold a pot-limit raise to the size of the pot', () => {
+      let state = gameReducer(createStateFromSetup(structuredSetup('pot-limit')), { type: 'START_NEW_HAND', seed: 1 });
+
+      // Pot is 15; calling 10 makes it 25, so the most is 10 + 25
+      state = gameReducer(state, { type: 'PLAYER_ACTION', playerId: actingId(state), action: 'raise', amount: 1000 });
+
+      expect(state.currentBet).toBe(35);
+      expect(state.pot).toBe(50);
+    });
+
+    it('should raise fixed-limit by one bet and stop at the cap', () => {
+      let state = gameReducer(createStateFromSetup(structuredSetup('fixed-limit')), { type: 'START_NEW_HAND', seed: 1 });
+
+      for (const expectedBet of [20, 30, 40]) {
+        state = gameReducer(state, { type: 'PLAYER_ACTION', playerId: actingId(state), action: 'raise', amount: 500 });
+        expect(state.currentBet).toBe(expectedBet);
+      }
+
+      expect(state.betsThisRound).toBe(4);
+      expect(() => gameReducer(state, { type: 'PLAYER_ACTION', playerId: actingId(state), action: 'raise' }))
+        .toThrow('Cannot raise - betting is capped for this round');
+    });
+  });
+
+  describe('Raise rules', () => {
+    // Four seats, dealer You: Doc posts the small blind, Slim the big blind, Annie acts first
+    const dealt = (chips: Record<string, number> = {}): GameState => {
+      const state = gameReducer(createInitialState(4), { type: 'START_NEW_HAND', seed: 1 });
+      return { ...state, players: state.players.map(p => ({ ...p, chips: chips[p.name] ?? p.chips })) };
+    };
+
+    const act = (state: GameState, name: string, action: BettingAction, amount?: number): GameState => {
+      const player = state.players.find(p => p.name === name)!;
+      expect(state.players[state.currentPlayerIndex].name).toBe(name);
+      return gameReducer(state, { type: 'PLAYER_ACTION', playerId: player.id, action, amount });
+    };
+
+    const seat = (state: GameState, name: string) => state.players.find(p => p.name === name)!;
+
+    it('should set the minimum raise from the size of the last raise, not the big blind', () => {
+      let state = act(dealt({ You: 500, Doc: 500, Slim: 500, Annie: 500 }), 'Annie', 'raise', 35);
+      expect(state.minRaise).toBe(60);
+
+      state = act(state, 'You', 'raise', 100);
+      expect(state.lastRaiseSize).toBe(65);
+      expect(state.minRaise).toBe(165);
+    });
+
+    it('should lift a raise below the minimum up to the minimum', () => {
+      const state = act(dealt(), 'Annie', 'raise', 15);
+      expect(state.currentBet).toBe(20);
+    });
+
+    it('should reset the minimum bet to a big blind on each new street', () => {
+      let state = act(dealt({ You: 500, Doc: 500, Slim: 500, Annie: 500 }), 'Annie', 'raise', 50);
+      state = act(state, 'You', 'fold');
+      state = act(state, 'Doc', 'fold');
+      state = act(state, 'Slim', 'call');
+      state = gameReducer(state, { type: 'ADVANCE_PHASE' });
+
+      expect(state.minRaise).toBe(10);
+      expect(state.lastRaiseSize).toBe(10);
+
+      state = act(state, 'Slim', 'raise', 30);
+      expect(state.minRaise).toBe(60);
+    });
+
+    it('should not let players who already acted re-raise a short all-in', () => {
+      let state = act(dealt({ Doc: 35 }), 'Annie', 'raise', 30);
+      state = act(state, 'You', 'call');
+
+      // Doc's all-in to 40 adds 10, short of the 20 needed for a full raise
+      state = act(state, 'Doc', 'raise', 40);
+      expect(state.currentBet).toBe(40);
+      expect(state.minRaise).toBe(60);
+      expect(state.raiseLockedPlayerIds).toEqual(['user', 'ai3']);
+
+      // Slim hasn't acted yet, so may still raise
+      expect(isRaisingOpen(state, seat(state, 'Slim'))).toBe(true);
+      state = act(state, 'Slim', 'call');
+
+      // Annie and You must call the extra 10 but may not raise
+      expect(isRaisingOpen(state, seat(state, 'Annie'))).toBe(false);
+      expect(() => act(state, 'Annie', 'raise', 100)).toThrow('Cannot raise - a short all-in does not reopen the betting');
+      state = act(state, 'Annie', 'call');
+      state = act(state, 'You', 'call');
+
+      expect(isBettingRoundComplete(state)).toBe(true);
+    });
+
+    it('should reopen the betting when short all-ins add up to a full raise', () => {
+      let state = act(dealt({ Doc: 35, Slim: 40 }), 'Annie', 'raise', 30);
+      state = act(state, 'You', 'call');
+      state = act(state, 'Doc', 'raise', 40);
+      state = act(state, 'Slim', 'raise', 50);
+
+      // Annie matched 30 and now faces 20 more: a full raise in total
+      expect(isRaisingOpen(state, seat(state, 'Annie'))).toBe(true);
+      state = act(state, 'Annie', 'raise', 70);
+      expect(state.raiseLockedPlayerIds).toEqual([]);
+      expect(state.minRaise).toBe(90);
+    });
+
+    it('should treat an all-in for less than the bet as a call', () => {
+      let state = act(dealt({ You: 5 }), 'Annie', 'raise', 40);
+      state = act(state, 'You', 'raise', 40);
+
+      expect(seat(state, 'You').isAllIn).toBe(true);
+      expect(state.currentBet).toBe(40);
+      expect(state.minRaise).toBe(70);
+      expect(seat(state, 'Annie').hasActed).toBe(true);
+    });
+  });
+
+  describe('Omaha', () => {
+    const omahaSetup: GameSetup = {
+      startingChips: 1000,
+      smallBlind: 5,
+      bigBlind: 10,
+      bettingStructure: 'pot-limit',
+      variant: 'omaha',
+      opponents: [
+        { name: 'Doc', personality: 'tight-passive' },
+        { name: 'Slim', personality: 'loose-aggressive' },
+      ],
+    };
+
+    it('should deal four hole cards to each player', () => {
+      const state = gameReducer(createStateFromSetup(omahaSetup), { type: 'START_NEW_HAND', seed: 1 });
+
+      state.players.forEach(player => expect(player.holeCards).toHaveLength(4));
+      expect(state.deck).toHaveLength(52 - 4 * 3);
+    });
+
+    it('should settle the showdown using exactly two hole cards', () => {
+      const dealt = gameReducer(createStateFromSetup(omahaSetup), { type: 'START_NEW_HAND', seed: 1 });
+      const holeCards: Record<string, GameState['communityCards']> = {
+        // One heart in hand: a Hold'em flush, but only a pair of aces in Omaha
+        Doc: [{ rank: 'A', suit: 'hearts' }, { rank: 'A', suit: 'clubs' }, { rank: '7', suit: 'spades' }, { rank: '2', suit: 'diamonds' }],
+        Slim: [{ rank: '6', suit: 'hearts' }, { rank: '5', suit: 'hearts' }, { rank: '8', suit: 'clubs' }, { rank: '8', suit: 'diamonds' }],
+      };
+      const state: GameState = {
+        ...dealt,
+        currentPhase: 'river',
+        communityCards: [
+          { rank: 'K', suit: 'hearts' },
+          { rank: 'Q', suit: 'hearts' },
+          { rank: '9', suit: 'hearts' },
+          { rank: '4', suit: 'hearts' },
+          { rank: '3', suit: 'clubs' },
+        ],
+        players: dealt.players.map(p => p.isUser
+          ? { ...p, isFolded: true }
+          : { ...p, holeCards: holeCards[p.name] }),
+      };
+
+      const result = gameReducer(state, { type: 'DETERMINE_WINNER' });
+
+      expect(result.winners.map(p => p.name)).toEqual(['Slim']);
+      expect(result.winningHands[0].description).toContain('Flush');
+    });
+  });
+
+  describe('Short deck', () => {
+    it('should deal from a 36-card deck and rank a flush over a full house', () => {
+      const dealt = gameReducer(createStateFromSetup({
+        startingChips: 1000,
+        smallBlind: 5,
+        bigBlind: 10,
+        variant: 'short-deck',
+        opponents: [{ name: 'Doc', personality: 'tight-passive' }],
+      }), { type: 'START_NEW_HAND', seed: 1 });
+
+      expect(dealt.deck).toHaveLength(36 - 2 * 2);
+      expect([...dealt.deck, ...dealt.players.flatMap(p => p.holeCards)].some(card => ['2', '3', '4', '5'].includes(card.rank)))
+        .toBe(false);
+
+      const holeCards: Record<string, GameState['communityCards']> = {
+        You: [{ rank: 'A', suit: 'hearts' }, { rank: '6', suit: 'hearts' }],
+        Doc: [{ rank: 'K', suit: 'spades' }, { rank: 'K', suit: 'clubs' }],
+      };
+      const state: GameState = {
+        ...dealt,
+        currentPhase: 'river',
+        communityCards: [
+          { rank: 'K', suit: 'hearts' },
+          { rank: '9', suit: 'hearts' },
+          { rank: '9', suit: 'clubs' },
+          { rank: '7', suit: 'hearts' },
+          { rank: 'J', suit: 'diamonds' },
+        ],
+        pot: 20,
+        players: dealt.players.map(p => ({ ...p, holeCards: holeCards[p.name], totalBet: 10 })),
+      };
+
+      const result = gameReducer(state, { type: 'DETERMINE_WINNER' });
+
+      expect(result.winners.map(p => p.name)).toEqual(['You']);
+      expect(result.winningHands[0].description).toBe('Flush, A-high');
+    });
+  });
+
+  describe('Hi-lo', () => {
+    it('should split each side pot between its own high and low winners', () => {
+      const dealt = gameReducer(createStateFromSetup({
+        startingChips: 1000,
+        smallBlind: 5,
+        bigBlind: 10,
+        variant: 'omaha',
+        hiLo: true,
+        opponents: [
+          { name: 'Doc', personality: 'tight-passive' },
+          { name: 'Slim', personality: 'loose-aggressive' },
+        ],
+      }), { type: 'START_NEW_HAND', seed: 1 });
+      const hands: Record<string, Partial<Player>> = {
+        // Pair of 9s high, 7-4-3-2-A low
+        You: {
+          holeCards: [{ rank: '3', suit: 'hearts' }, { rank: '4', suit: 'hearts' }, { rank: '9', suit: 'spades' }, { rank: '9', suit: 'diamonds' }],
+          totalBet: 100,
+          isAllIn: true,
+        },
+        // Three kings high, 7-6-5-2-A low
+        Doc: {
+          holeCards: [{ rank: 'K', suit: 'spades' }, { rank: 'K', suit: 'diamonds' }, { rank: '5', suit: 'clubs' }, { rank: '6', suit: 'clubs' }],
+          totalBet: 300,
+          isAllIn: false,
+        },
+        // Pair of jacks high, 8-7-3-2-A low
+        Slim: {
+          holeCards: [{ rank: '3', suit: 'diamonds' }, { rank: '8', suit: 'clubs' }, { rank: 'J', suit: 'spades' }, { rank: 'J', suit: 'hearts' }],
+          totalBet: 300,
+          isAllIn: false,
+        },
+      };
+      const state: GameState = {
+        ...dealt,
+        currentPhase: 'river',
+        pot: 700,
+        communityCards: [
+          { rank: 'A', suit: 'clubs' },
+          { rank: '2', suit: 'diamonds' },
+          { rank: '7', suit: 'spades' },
+          { rank: 'K', suit: 'hearts' },
+          { rank: 'Q', suit: 'clubs' },
+        ],
+        players: dealt.players.map(p => ({ ...p, chips: 0, ...hands[p.name] })),
+      };
+
+      const result = gameReducer(state, { type: 'DETERMINE_WINNER' });
+      const chips = Object.fromEntries(result.players.map(p => [p.name, p.chips]));
+
+      // Main pot 300: Doc's high and the user's low split it; side pot 400: Doc scoops
+      expect(chips).toEqual({ You: 150, Doc: 550, Slim: 0 });
+      expect(result.potResults?.[0]).toMatchObject({
+        highWinnerNames: ['Doc'],
+        lowWinnerNames: ['You'],
+        highAmount: 150,
+        lowAmount: 150,
+      });
+      expect(result.potResults?.[0].lowHand?.description).toBe('7-4-3-2-A low');
+      expect(result.potResults?.[1]).toMatchObject({ highWinnerNames: ['Doc'], lowWinnerNames: ['Doc'], winnerNames: ['Doc'] });
+    });
+  });
+
+  describe('Run it twice', () => {
+    const runItTwiceTable = () => gameReducer(createStateFromSetup({
+      startingChips: 1000,
+      smallBlind: 5,
+      bigBlind: 10,
+      runItTwice: true,
+      opponents: [{ name: 'Doc', personality: 'tight-passive' }],
+    }), { type: 'START_NEW_HAND', seed: 1 });
+
+    it('should deal a second board from the cards out when everyone is all-in', () => {
+      const dealt = runItTwiceTable();
+      let state: GameState = {
+        ...dealt,
+        pot: 2000,
+        players: dealt.players.map(p => ({ ...p, chips: 0, totalBet: 1000, isAllIn: true })),
+      };
+
+      state = gameReducer(state, { type: 'ADVANCE_PHASE' });
+      expect(state.secondBoard).toHaveLength(3);
+      state = gameReducer(gameReducer(gameReducer(state, { type: 'ADVANCE_PHASE' }), { type: 'ADVANCE_PHASE' }), { type: 'ADVANCE_PHASE' });
+
+      expect(state.currentPhase).toBe('showdown');
+      expect(state.communityCards).toHaveLength(5);
+      expect(state.secondBoard).toHaveLength(5);
+      const boards = [...state.communityCards, ...state.secondBoard!].map(card => `${card.rank}${card.suit}`);
+      expect(new Set(boards).size).toBe(10);
+
+      const result = gameReducer(state, { type: 'DETERMINE_WINNER' });
+      expect(result.potResults?.map(pot => [pot.board, pot.amount])).toEqual([[1, 1000], [2, 1000]]);
+      expect(result.players.reduce((sum, p) => sum + p.chips, 0)).toBe(2000);
+
+      expect(gameReducer(result, { type: 'START_NEW_HAND', seed: 2 }).secondBoard).toBeUndefined();
+    });
+
+    it('should share the cards dealt before a later all-in and leave betting hands alone', () => {
+      const dealt = runItTwiceTable();
+      const flop = gameReducer(dealt, { type: 'ADVANCE_PHASE' });
+      expect(flop.secondBoard).toBeUndefined();
+
+      const allIn: GameState = {
+        ...flop,
+        players: flop.players.map(p => ({ ...p, chips: 0, totalBet: 1000, isAllIn: true })),
+      };
+      const turn = gameReducer(allIn, { type: 'ADVANCE_PHASE' });
+
+      expect(turn.secondBoard).toHaveLength(4);
+      expect(turn.secondBoard!.slice(0, 3)).toEqual(turn.communityCards.slice(0, 3));
+      expect(turn.secondBoard![3]).not.toEqual(turn.communityCards[3]);
+    });
+
+    it('should split the pot between the winners of each board', () => {
+      const dealt = runItTwiceTable();
+      const holeCards: Record<string, GameState['communityCards']> = {
+        You: [{ rank: 'A', suit: 'hearts' }, { rank: 'A', suit: 'spades' }],
+        Doc: [{ rank: 'K', suit: 'hearts' }, { rank: 'K', suit: 'spades' }],
+      };
+      const flop: GameState['communityCards'] = [
+        { rank: '2', suit: 'clubs' },
+        { rank: '7', suit: 'diamonds' },
+        { rank: '9', suit: 'clubs' },
+      ];
+      const state: GameState = {
+        ...dealt,
+        currentPhase: 'showdown',
+        pot: 2001,
+        communityCards: [...flop, { rank: '3', suit: 'hearts' }, { rank: '4', suit: 'spades' }],
+        secondBoard: [...flop, { rank: 'K', suit: 'clubs' }, { rank: '5', suit: 'diamonds' }],
+        players: dealt.players.map(p => ({
+          ...p,
+          holeCards: holeCards[p.name],
+          chips: 0,
+          totalBet: p.isUser ? 1001 : 1000,
+          isAllIn: true,
+        })),
+      };
+
+      const result = gameReducer(state, { type: 'DETERMINE_WINNER' });
+      const chips = Object.fromEntries(result.players.map(p => [p.name, p.chips]));
+
+      // The user's extra chip comes back as an uncalled side pot; the odd chip goes to board 1
+      expect(chips).toEqual({ You: 1001, Doc: 1000 });
+      expect(result.potResults).toMatchObject([
+        { board: 1, amount: 1000, winnerNames: ['You'], isSidePot: false },
+        { board: 2, amount: 1000, winnerNames: ['Doc'], isSidePot: false },
+        { board: 1, amount: 1, winnerNames: ['You'], isSidePot: true },
+      ]);
+      expect(result.winningHands.map(hand => hand.description)).toEqual(['Pair of As', 'Three of a Kind, Ks']);
+    });
+  });
+
+  describe('Saved games', () => {
+    it('should save after every change and restore the game mid-hand', () => {
+      localStorage.clear();
+      const { result } = renderHook(() => useGameState());
+      expect(loadSavedGame()).toBeNull();
+
+      act(() => {
+        result.current.startNewHand(7);
+      });
+      act(() => {
+        const current = result.current.state.players[result.current.state.currentPlayerIndex];
+        result.current.handlePlayerAction(current.id, 'call');
+      });
+      const saved = loadSavedGame()!;
+      expect(saved.pot).toBe(result.current.state.pot);
+      expect(saved.deck).toEqual(result.current.state.deck);
+
+      const { result: reloaded } = renderHook(() => useGameState());
+      act(() => {
+        reloaded.current.restoreGame(saved);
+      });
+      expect(reloaded.current.state.players).toEqual(result.current.state.players);
+      expect(reloaded.current.state.currentPlayerIndex).toBe(result.current.state.currentPlayerIndex);
+    });
+  });
+
   describe('Hand Integrity - Phase Progression', () => {
     it('should proceed through all phases in correct order: pre-flop → flop → turn → river → showdown', () => {
       const { result } = renderHook(() => useGameState());
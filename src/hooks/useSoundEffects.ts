@@ -48,8 +48,8 @@ export function useSoundEffects(gameState: GameState) {
     if (currentActionHistoryLength > prevActionHistoryLengthRef.current) {
       const latestAction = gameState.actionHistory[currentActionHistoryLength - 1];
 
-      // Skip blind actions (they're automatic)
-      if (latestAction.action === 'smallBlind' || latestAction.action === 'bigBlind') {
+      // Skip ante and blind actions (they're automatic)
+      if (latestAction.action === 'ante' || latestAction.action === 'smallBlind' || latestAction.action === 'bigBlind') {
         prevActionHistoryLengthRef.current = currentActionHistoryLength;
         return;
       }
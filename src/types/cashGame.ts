@@ -0,0 +1,21 @@
+/**
+ * Type definitions for cash-game sessions.
+ * In a cash game the blinds never rise, the user can rebuy or top up
+ * between hands, and busted AI seats are refilled with fresh opponents.
+ */
+
+/**
+ * Buy-ins and seat changes over one cash-game session.
+ */
+export interface CashSession {
+  /** Chips in a full buy-in; top-ups bring the user back to this */
+  buyIn: number;
+  /** Total chips the user has bought, including the first buy-in */
+  totalBuyIn: number;
+  /** Times the user bought back in after going broke */
+  rebuys: number;
+  /** Times the user topped up a short stack */
+  topUps: number;
+  /** AI seats refilled after their player went broke */
+  seatsRefilled: number;
+}
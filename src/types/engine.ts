@@ -0,0 +1,87 @@
+/**
+ * Type definitions for the headless poker engine.
+ * Commands go in, events come out; no React or browser APIs are involved.
+ */
+
+import {
+  ActionHistoryEntry,
+  BettingAction,
+  Card,
+  DifficultyLevel,
+  GameMode,
+  GamePhase,
+  GameState,
+  NarratorEvent,
+  Player,
+  PotResult,
+} from './game';
+import { GameSetup } from './setup';
+
+/**
+ * Commands accepted by the poker engine.
+ * The last group sets up the table and carries the UI's pacing (narration
+ * and waiting for Next) so a front end can keep all its state in the engine.
+ */
+export type EngineCommand =
+  | { type: 'start_hand'; seed?: number; now?: number }
+  | { type: 'act'; playerId: string; action: BettingAction; amount?: number }
+  | { type: 'begin_phase_advance' }
+  | { type: 'advance_phase' }
+  | { type: 'determine_winner' }
+  | { type: 'next_hand' }
+  | { type: 'restart' }
+  | { type: 'eliminate_player'; playerId: string }
+  | { type: 'top_up' }
+  | { type: 'cash_out' }
+  | { type: 'set_mode'; mode: GameMode }
+  | { type: 'set_difficulty'; difficulty: DifficultyLevel }
+  | { type: 'set_table_size'; tableSize: number }
+  | { type: 'apply_setup'; setup: GameSetup }
+  | { type: 'restore'; state: GameState }
+  | { type: 'narrate'; event: NarratorEvent | null }
+  | { type: 'wait_for_next'; waiting: boolean };
+
+/**
+ * Events emitted by the poker engine after a command is executed.
+ */
+export type EngineEvent =
+  | { type: 'hand_started'; seed: number; dealerPosition: number }
+  | { type: 'player_acted'; entry: ActionHistoryEntry }
+  | { type: 'phase_advanced'; phase: GamePhase; communityCards: Card[] }
+  | { type: 'hand_completed'; winners: Player[]; potResults: PotResult[] }
+  | { type: 'game_over'; winner: Player };
+
+/**
+ * What the game is waiting on next.
+ * Used by the UI and headless runners to drive a hand forward.
+ */
+export type EngineStep =
+  | { type: 'deal' }
+  | { type: 'player_turn'; playerIndex: number }
+  | { type: 'advance_phase' }
+  | { type: 'determine_winner' }
+  | { type: 'hand_complete' }
+  | { type: 'game_over' };
+
+/**
+ * A betting decision for the player whose turn it is.
+ */
+export interface EngineDecision {
+  /** The action to take */
+  action: BettingAction;
+  /** Total bet amount for raises (optional) */
+  amount?: number;
+}
+
+/**
+ * Chooses an action for a player when it is their turn.
+ * Headless runners supply one of these for every seat, including the user's.
+ * Any randomness should come from rng, which draws floats in [0, 1) from the
+ * hand's own random stream, so the hand replays from its seed.
+ */
+export type DecisionProvider = (player: Player, state: GameState, rng: () => number) => EngineDecision;
+
+/**
+ * Listener notified with the events produced by each command.
+ */
+export type EngineListener = (events: EngineEvent[], state: GameState) => void;
@@ -3,6 +3,11 @@
  * These types define the structure of all game entities and state.
  */
 
+import { PlayerTendencies } from './opponentModel';
+import { GameSetup } from './setup';
+import { TournamentState } from './tournament';
+import { CashSession } from './cashGame';
+
 /**
  * Card suits in a standard deck.
  */
@@ -37,9 +42,9 @@ export type BettingAction = 'fold' | 'call' | 'raise' | 'check';
 
 /**
  * Actions that can appear in the action history log.
- * Includes betting actions plus blind postings.
+ * Includes betting actions plus ante and blind postings.
  */
-export type ActionHistoryAction = BettingAction | 'smallBlind' | 'bigBlind';
+export type ActionHistoryAction = BettingAction | 'ante' | 'smallBlind' | 'bigBlind';
 
 /**
  * Rankings of poker hands from weakest to strongest.
@@ -71,6 +76,21 @@ export interface HandEvaluation {
   description: string;
   /** The high card values used for comparison (e.g., for pair, includes pair rank and kickers) */
   values: number[];
+  /** Single comparable score from the fast evaluator (higher wins, equal ties) */
+  score?: number;
+}
+
+/**
+ * Evaluation of an eight-or-better low hand in a hi-lo game.
+ * Lower wins: the highest cards are compared first, then the next.
+ */
+export interface LowHandEvaluation {
+  /** The five cards that make up the low */
+  cards: Card[];
+  /** Card values from highest to lowest, aces counting 1 (e.g., [8, 6, 4, 2, 1]) */
+  values: number[];
+  /** Human-readable description (e.g., "8-6-4-2-A low") */
+  description: string;
 }
 
 /**
@@ -89,7 +109,7 @@ export interface Player {
   isFolded: boolean;
   /** Whether this is the human user (vs AI) */
   isUser: boolean;
-  /** Player's position at the table (0-3) */
+  /** Player's seat at the table (0 to table size - 1; the user sits in seat 0) */
   position: number;
   /** Amount the player has bet in the current betting round */
   currentBet: number;
@@ -99,8 +119,33 @@ export interface Player {
   hasActed: boolean;
   /** Whether the player is all-in */
   isAllIn: boolean;
+  /** Playing style for AI players (the user has none) */
+  personality?: PersonalityId;
+  /** Difficulty for this AI player, overriding the game's difficulty */
+  difficulty?: DifficultyLevel;
 }
 
+/**
+ * Playing styles for AI opponents.
+ */
+export type PersonalityId = 'tight-passive' | 'loose-aggressive' | 'calling-station';
+
+/**
+ * How much a player may bet or raise.
+ * no-limit: up to the whole stack
+ * pot-limit: up to the size of the pot after calling
+ * fixed-limit: exactly one bet size per street, with a cap on raises
+ */
+export type BettingStructure = 'no-limit' | 'pot-limit' | 'fixed-limit';
+
+/**
+ * Which poker game is dealt.
+ * holdem: two hole cards, best five of the seven
+ * omaha: four hole cards, using exactly two of them with three from the board
+ * short-deck: Hold'em with the 2s through 5s removed; flushes beat full houses
+ */
+export type GameVariant = 'holdem' | 'omaha' | 'short-deck';
+
 /**
  * Mode of gameplay.
  */
@@ -109,7 +154,7 @@ export type GameMode = 'tutorial' | 'training';
 /**
  * AI difficulty level.
  */
-export type DifficultyLevel = 'easy' | 'medium' | 'hard';
+export type DifficultyLevel = 'easy' | 'medium' | 'hard' | 'expert';
 
 /**
  * Complete state of the poker game.
@@ -136,8 +181,34 @@ export interface GameState {
   smallBlind: number;
   /** Big blind amount */
   bigBlind: number;
+  /** Ante each player posts before the blinds (absent or 0 for none) */
+  ante?: number;
+  /** Betting structure (absent for no-limit) */
+  bettingStructure?: BettingStructure;
+  /** Poker variant (absent for Texas Hold'em) */
+  variant?: GameVariant;
+  /** Hi-lo split pots: the best eight-or-better low takes half of each pot (absent for high only) */
+  hiLo?: boolean;
+  /** Deal the rest of the board twice when everyone is all-in, splitting each pot between the boards */
+  runItTwice?: boolean;
+  /** The second board of a run-it-twice hand, sharing the cards dealt before the all-in */
+  secondBoard?: Card[];
+  /** Bets made this betting round, counting the big blind pre-flop (for the fixed-limit cap) */
+  betsThisRound?: number;
+  /** Size of the last full bet or raise this round; the next raise must add at least this much */
+  lastRaiseSize?: number;
+  /** Players who acted before a short all-in raise and so may not re-raise it */
+  raiseLockedPlayerIds?: string[];
+  /** Tournament progress (absent outside tournaments) */
+  tournament?: TournamentState;
+  /** Buy-ins and refilled seats (absent outside cash games) */
+  cashSession?: CashSession;
   /** The deck of remaining cards */
   deck: Card[];
+  /** Seed of the current hand's random stream (deck order, AI decisions) */
+  seed?: number;
+  /** Position reached in the current hand's random stream, so the hand can resume it */
+  rngPosition?: number;
   /** Current game mode */
   mode: GameMode;
   /** AI difficulty level */
@@ -170,6 +241,10 @@ export interface GameState {
   userWentAllInThisHand?: boolean;
   /** Pot results from showdown (main and side pots) */
   potResults?: PotResult[];
+  /** Table configuration the game started from (players drop out as they bust) */
+  setup?: GameSetup;
+  /** The user's tendencies over the hands played so far (read by the AI) */
+  userTendencies?: PlayerTendencies;
   /** Whether the game is over (only 1 player with chips remaining) */
   isGameOver: boolean;
   /** The winner of the entire game (if game is over) */
@@ -267,4 +342,20 @@ export interface PotResult {
   winnerNames: string[];
   /** Whether this is a side pot (false = main pot) */
   isSidePot: boolean;
+  /** Which board this half of the pot was settled on (run-it-twice hands only) */
+  board?: 1 | 2;
+  /** IDs of players who won the high half (hi-lo games only) */
+  highWinnerIds?: string[];
+  /** Names of players who won the high half (hi-lo games only) */
+  highWinnerNames?: string[];
+  /** IDs of players who won the low half; empty when no hand qualified and high took it all (hi-lo games only) */
+  lowWinnerIds?: string[];
+  /** Names of players who won the low half (hi-lo games only) */
+  lowWinnerNames?: string[];
+  /** Chips paid to the high half (hi-lo games only) */
+  highAmount?: number;
+  /** Chips paid to the low half (hi-lo games only) */
+  lowAmount?: number;
+  /** The winning low hand (hi-lo games with a qualifying low only) */
+  lowHand?: LowHandEvaluation;
 }
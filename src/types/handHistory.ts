@@ -3,7 +3,7 @@
  * Stores completed hands for review and learning purposes.
  */
 
-import { Card, GamePhase, HandEvaluation, ActionHistoryEntry } from './game';
+import { Card, GamePhase, HandEvaluation, ActionHistoryEntry, GameVariant, BettingStructure } from './game';
 
 /**
  * Player state at showdown.
@@ -39,8 +39,24 @@ export interface HandHistoryRecord {
   timestamp: number;
   /** Hand number in sequence (for display) */
   handNumber: number;
+  /** Seed the hand was dealt from (absent for hands recorded before seeding existed) */
+  seed?: number;
+  /** Poker variant (absent for Texas Hold'em and hands recorded before variants existed) */
+  variant?: GameVariant;
+  /** Betting structure (absent for no-limit) */
+  bettingStructure?: BettingStructure;
+  /** Whether pots were split hi-lo (absent for high only) */
+  hiLo?: boolean;
+  /** Small blind for the hand (absent for hands recorded before blinds were kept) */
+  smallBlind?: number;
+  /** Big blind for the hand (absent for hands recorded before blinds were kept) */
+  bigBlind?: number;
+  /** ID of the player on the dealer button (absent for hands recorded before it was kept) */
+  dealerId?: string;
   /** Community cards dealt */
   communityCards: Card[];
+  /** Second board of a run-it-twice hand, sharing the cards dealt before the all-in (absent otherwise) */
+  secondBoard?: Card[];
   /** Final phase reached before hand ended */
   finalPhase: GamePhase;
   /** Total pot size */
@@ -98,3 +114,73 @@ export interface HandHistoryStats {
   /** Showdown percentage (0-100) */
   showdownRate: number;
 }
+
+/**
+ * How a hand ended for the user.
+ */
+export type HandOutcome = 'won' | 'lost' | 'folded';
+
+/**
+ * Filters for searching hand history. Every filter given must match;
+ * omitted filters match every hand.
+ */
+export interface HandHistoryQuery {
+  /** Earliest completion time (ms since epoch, inclusive) */
+  from?: number;
+  /** Latest completion time (ms since epoch, inclusive) */
+  to?: number;
+  /** How the hand ended for the user */
+  outcome?: HandOutcome;
+  /** The user's hole cards as range shorthand, e.g. "AKs, 77+" (Hold'em hands only) */
+  holeCards?: string;
+  /** Final phase reached */
+  finalPhase?: GamePhase;
+  /** Smallest pot (inclusive) */
+  minPot?: number;
+  /** Largest pot (inclusive) */
+  maxPot?: number;
+  /** Name of an opponent who was dealt in (case-insensitive) */
+  opponent?: string;
+}
+
+/**
+ * A hand that could not be read from a text hand history.
+ */
+export interface HandTextError {
+  /** Position of the hand in the text (1 for the first) */
+  hand: number;
+  /** The room's hand number, when the header could be read */
+  handId?: string;
+  /** What was unreadable or unsupported */
+  message: string;
+}
+
+/**
+ * Hands read from a text hand history, and the ones that could not be.
+ */
+export interface HandTextParseResult {
+  /** Hands read successfully, in the order they appear */
+  hands: HandHistoryRecord[];
+  /** One error for each hand that was skipped */
+  errors: HandTextError[];
+}
+
+/**
+ * One step of a hand replay: the table after a street is dealt or a player acts.
+ */
+export interface HandReplayStep {
+  /** Street the step happens on */
+  phase: GamePhase;
+  /** Community cards showing */
+  communityCards: Card[];
+  /** Second board, shown at the showdown of a run-it-twice hand */
+  secondBoard?: Card[];
+  /** The action taken (absent for the deal, new streets and the showdown) */
+  action?: ActionHistoryEntry;
+  /** Pot after the step */
+  pot: number;
+  /** The cowboy's narration of the step */
+  narration: string;
+  /** The cowboy's advice for the user's decision, on the user's own actions */
+  advice?: string;
+}
@@ -0,0 +1,79 @@
+/**
+ * Type definitions for opponent modelling.
+ * The AI keeps counts of what the user has done across hands and turns them
+ * into a read of the user's style and leaks.
+ */
+
+/**
+ * Raw counts of a player's tendencies, accumulated hand by hand.
+ */
+export interface PlayerTendencies {
+  /** Hands observed */
+  hands: number;
+  /** Hands where the player voluntarily put chips in pre-flop (blinds don't count) */
+  vpipHands: number;
+  /** Hands where the player raised pre-flop */
+  pfrHands: number;
+  /** Times the player faced a bet after the flop */
+  facedBets: number;
+  /** Times the player folded to a bet after the flop */
+  foldsToBet: number;
+  /** Hands where the player saw the flop */
+  sawFlopHands: number;
+  /** Hands where the player went to showdown */
+  showdownHands: number;
+}
+
+/**
+ * Overall playing style, from how many hands a player plays and how often they raise.
+ * unknown: too few hands observed to tell
+ */
+export type PlayingStyle =
+  | 'unknown'
+  | 'tight-passive'
+  | 'tight-aggressive'
+  | 'loose-passive'
+  | 'loose-aggressive';
+
+/**
+ * Exploitable habits the AI looks for.
+ */
+export type LeakId =
+  | 'folds-too-often'      // Gives up to most bets after the flop
+  | 'calls-too-often'      // Rarely folds, goes to showdown with weak hands
+  | 'plays-too-many-hands' // Enters most pots pre-flop
+  | 'too-passive'          // Plays hands but seldom raises
+  | 'too-tight';           // Enters very few pots
+
+/**
+ * A leak the AI has spotted, with how it plays against it.
+ */
+export interface OpponentLeak {
+  /** Which leak */
+  id: LeakId;
+  /** What the AI has seen, e.g. "Folds to 70% of bets after the flop" */
+  observation: string;
+  /** How the AI adjusts, e.g. "Bluffs you more often" */
+  exploit: string;
+}
+
+/**
+ * What the AI thinks of a player.
+ * Frequencies are percentages (0-100), rounded to one decimal place.
+ */
+export interface OpponentRead {
+  /** Hands observed */
+  handsObserved: number;
+  /** Voluntarily put chips in pot pre-flop */
+  vpip: number;
+  /** Pre-flop raise frequency */
+  pfr: number;
+  /** Fold to a bet after the flop */
+  foldToBet: number;
+  /** Went to showdown after seeing the flop */
+  wentToShowdown: number;
+  /** Overall style */
+  style: PlayingStyle;
+  /** Leaks spotted, most exploitable first */
+  leaks: OpponentLeak[];
+}
@@ -0,0 +1,28 @@
+/**
+ * Type definitions for saved games.
+ * An in-progress game is saved after every state change so a reload can
+ * pick up mid-hand, with the same deck order and narrator event showing.
+ */
+
+import { GameState } from './game';
+
+/**
+ * GameState in a form that survives JSON: the starting-chips Map becomes
+ * a list of [player ID, chips] pairs.
+ */
+export type SerializedGameState = Omit<GameState, 'playersStartingChips'> & {
+  /** All players' chip counts at the start of the current hand */
+  playersStartingChips?: [string, number][];
+};
+
+/**
+ * A versioned snapshot of an in-progress game.
+ */
+export interface SavedGame {
+  /** Snapshot format version; snapshots from other versions are not restored */
+  version: number;
+  /** When the snapshot was taken (ms since epoch) */
+  savedAt: number;
+  /** The game state at that moment */
+  state: SerializedGameState;
+}
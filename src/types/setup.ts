@@ -0,0 +1,46 @@
+/**
+ * Type definitions for custom game setup.
+ * A setup describes the table before the first hand: stacks, blinds and who
+ * sits in each AI seat. The last one used is persisted to localStorage.
+ */
+
+import { BettingStructure, DifficultyLevel, GameVariant, PersonalityId } from './game';
+import { TournamentConfig } from './tournament';
+
+/**
+ * One AI opponent's seat.
+ */
+export interface OpponentSetup {
+  /** Display name */
+  name: string;
+  /** Playing style */
+  personality: PersonalityId;
+  /** Difficulty for this seat (uses the game's difficulty when absent) */
+  difficulty?: DifficultyLevel;
+}
+
+/**
+ * Complete table configuration for a new game.
+ */
+export interface GameSetup {
+  /** Chips each player starts with */
+  startingChips: number;
+  /** Small blind amount */
+  smallBlind: number;
+  /** Big blind amount */
+  bigBlind: number;
+  /** Betting structure (no-limit when absent) */
+  bettingStructure?: BettingStructure;
+  /** Poker variant (Texas Hold'em when absent) */
+  variant?: GameVariant;
+  /** Split each pot between the best high hand and the best eight-or-better low */
+  hiLo?: boolean;
+  /** Run the board twice when everyone is all-in */
+  runItTwice?: boolean;
+  /** AI opponents, in seat order left of the user (1-8) */
+  opponents: OpponentSetup[];
+  /** Tournament rules; the blinds then follow the schedule (absent for a fixed-blind game) */
+  tournament?: TournamentConfig;
+  /** Cash game: the user can rebuy or top up and busted AI seats refill */
+  cashGame?: boolean;
+}
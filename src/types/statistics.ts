@@ -27,6 +27,12 @@ export interface GameModeStats {
   allInsCount: number;
   /** Number of times the player folded */
   foldCount: number;
+  /** Cash-game sessions finished (absent in statistics saved before cash games) */
+  cashSessions?: number;
+  /** Chips bought across all cash-game sessions */
+  cashBuyIns?: number;
+  /** Chips taken away when cashing out */
+  cashOuts?: number;
 }
 
 /**
@@ -64,3 +70,17 @@ export interface HandResult {
   /** Current difficulty level */
   difficulty: DifficultyLevel;
 }
+
+/**
+ * Data from a finished cash-game session to update statistics.
+ */
+export interface CashSessionResult {
+  /** Total chips bought, including rebuys and top-ups */
+  totalBuyIn: number;
+  /** Chips the user left the table with */
+  cashOut: number;
+  /** Current game mode */
+  mode: GameMode;
+  /** Current difficulty level */
+  difficulty: DifficultyLevel;
+}
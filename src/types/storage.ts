@@ -0,0 +1,50 @@
+/**
+ * Type definitions for versioned browser storage.
+ * Each store is saved as an envelope holding its schema version, so data
+ * written by an older release can be migrated forward before it is used.
+ */
+
+/**
+ * Upgrades stored data by one schema version.
+ */
+export type Migration = (data: unknown) => unknown;
+
+/**
+ * Field types understood by the record validators. A trailing "?" marks
+ * a field that may be absent.
+ */
+export type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+/**
+ * Expected type of each field of a stored record.
+ */
+export type FieldSchema = Record<string, FieldType | `${FieldType}?`>;
+
+/**
+ * Everything the storage layer needs to know about one localStorage entry.
+ */
+export interface StoreDefinition<T> {
+  /** LocalStorage key */
+  key: string;
+  /** Current schema version (1 or more) */
+  version: number;
+  /**
+   * Upgrades, keyed by the version they upgrade from. Version 0 is data
+   * saved before versioning, without an envelope.
+   */
+  migrations: Record<number, Migration>;
+  /** Checks data at the current version; returns one message per problem */
+  validate: (data: unknown) => string[];
+  /** Makes data smaller when storage is full (null when it cannot shrink further) */
+  shrink?: (data: T) => T | null;
+}
+
+/**
+ * What is actually written to localStorage.
+ */
+export interface StoredEnvelope {
+  /** Schema version of the data */
+  version: number;
+  /** The stored data */
+  data: unknown;
+}
@@ -0,0 +1,78 @@
+/**
+ * Type definitions for tournament play.
+ * Blinds rise on a schedule, antes may be posted, and players are ranked by
+ * the order they bust out.
+ */
+
+/**
+ * One level of the blind schedule.
+ */
+export interface BlindLevel {
+  /** Small blind amount */
+  smallBlind: number;
+  /** Big blind amount */
+  bigBlind: number;
+  /** Ante every player posts before the blinds (0 for none) */
+  ante: number;
+}
+
+/**
+ * What moves the tournament to its next level.
+ * hands: a fixed number of hands per level
+ * minutes: a fixed number of minutes per level
+ */
+export type LevelAdvance = 'hands' | 'minutes';
+
+/**
+ * Tournament rules chosen at setup.
+ */
+export interface TournamentConfig {
+  /** Blind levels in order; the last level repeats once reached */
+  levels: BlindLevel[];
+  /** Whether levels last a number of hands or a number of minutes */
+  advanceBy: LevelAdvance;
+  /** Hands or minutes per level */
+  levelLength: number;
+}
+
+/**
+ * A player knocked out of the tournament.
+ */
+export interface EliminatedPlayer {
+  /** Player ID */
+  id: string;
+  /** Player name */
+  name: string;
+  /** Whether this is the user */
+  isUser: boolean;
+}
+
+/**
+ * Progress through a running tournament.
+ */
+export interface TournamentState {
+  /** Rules in play */
+  config: TournamentConfig;
+  /** Index of the current level in config.levels */
+  level: number;
+  /** Hands dealt at the current level */
+  handsThisLevel: number;
+  /** Time the current level started (ms since epoch; unset until the first hand) */
+  levelStartedAt?: number;
+  /** Players knocked out, first out first */
+  eliminated: EliminatedPlayer[];
+}
+
+/**
+ * A player's final place.
+ */
+export interface FinishingPlace {
+  /** 1 for the winner */
+  place: number;
+  /** Player ID */
+  id: string;
+  /** Player name */
+  name: string;
+  /** Whether this is the user */
+  isUser: boolean;
+}
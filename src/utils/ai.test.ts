@@ -5,6 +5,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { makeAIDecision } from './ai';
 import { Player, GameState, Card } from '../types/game';
+import { PlayerTendencies } from '../types/opponentModel';
 
 // Helper to create a card
 const c = (rank: Card['rank'], suit: Card['suit']): Card => ({ rank, suit });
@@ -98,7 +99,9 @@ describe('makeAIDecision', () => {
 
       const decision = makeAIDecision(player, gameState);
       expect(decision.action).toBe('raise');
-      expect(decision.amount).toBe(20);
+      // Opens to 3 big blinds rather than the minimum
+      expect(decision.amount).toBe(30);
+      expect(decision.sizing?.reason).toBe('open');
     });
   });
 
@@ -272,6 +275,26 @@ describe('makeAIDecision', () => {
       expect(decision.action).toBe('call');
     });
 
+    it('should call instead of raising once fixed-limit betting is capped', () => {
+      mockRandom.mockReturnValue(0.8);
+
+      const player = createPlayer({
+        holeCards: [c('A', 'spades'), c('A', 'hearts')],
+        currentBet: 0,
+        chips: 100,
+      });
+      const gameState = createGameState({
+        currentBet: 40,
+        minRaise: 50,
+        pot: 100,
+        communityCards: [],
+        bettingStructure: 'fixed-limit',
+        betsThisRound: 4,
+      });
+
+      expect(makeAIDecision(player, gameState).action).toBe('call');
+    });
+
     it('should fold when cannot afford to call weak hand', () => {
       mockRandom.mockReturnValue(0.0); // Force low strength
 
@@ -325,7 +348,7 @@ describe('makeAIDecision', () => {
       // If raise, amount should be defined
       if (decision.action === 'raise') {
         expect(decision.amount).toBeDefined();
-        expect(decision.amount).toBe(20);
+        expect(decision.amount).toBeGreaterThanOrEqual(20);
       }
     });
   });
@@ -357,4 +380,121 @@ describe('makeAIDecision', () => {
       expect(['fold', 'call', 'raise']).toContain(highDecision.action);
     });
   });
+
+  describe('expert (range-based) pre-flop play', () => {
+    // Four-handed table with the dealer in seat 0: seat 3 is the cutoff (late)
+    const seats = () => [0, 1, 2, 3].map(position => createPlayer({ id: `p${position}`, position }));
+
+    function decide(seat: number, holeCards: Card[], overrides: Partial<GameState> = {}) {
+      const players = seats();
+      players[seat] = { ...players[seat], holeCards };
+      const gameState = createGameState({
+        players,
+        currentBet: 10,
+        minRaise: 20,
+        pot: 15,
+        ...overrides,
+      });
+      return makeAIDecision(players[seat], gameState, 'expert');
+    }
+
+    it('should open a suited ace from late position', () => {
+      const decision = decide(3, [c('A', 'clubs'), c('4', 'clubs')]);
+      expect(decision).toMatchObject({ action: 'raise', amount: 25 });
+    });
+
+    it('should fold offsuit trash from late position', () => {
+      expect(decide(3, [c('9', 'clubs'), c('3', 'hearts')]).action).toBe('fold');
+    });
+
+    it('should call a raise with a hand in its calling range', () => {
+      const decision = decide(3, [c('8', 'spades'), c('8', 'hearts')], { currentBet: 30, minRaise: 50 });
+      expect(decision.action).toBe('call');
+    });
+
+    it('should 3-bet premium hands facing a raise', () => {
+      const decision = decide(3, [c('K', 'spades'), c('K', 'hearts')], { currentBet: 30, minRaise: 50 });
+      // A 3-bet to 90 would leave only 10 behind, so it shoves instead
+      expect(decision).toMatchObject({ action: 'raise', amount: 100 });
+      expect(decision.sizing?.reason).toBe('all-in');
+    });
+
+    it('should fold hands outside its calling range to a raise', () => {
+      const decision = decide(3, [c('K', 'spades'), c('9', 'hearts')], { currentBet: 30, minRaise: 50 });
+      expect(decision.action).toBe('fold');
+    });
+
+    it('should check the big blind with a hand it would not raise', () => {
+      const players = seats();
+      players[2] = { ...players[2], holeCards: [c('7', 'clubs'), c('2', 'hearts')], currentBet: 10 };
+      const gameState = createGameState({ players, currentBet: 10, minRaise: 20, pot: 30 });
+
+      expect(makeAIDecision(players[2], gameState, 'expert').action).toBe('check');
+    });
+
+    it('should ignore randomness when playing from charts', () => {
+      const cards = [c('Q', 'spades'), c('J', 'spades')];
+      mockRandom.mockReturnValue(0.0);
+      const low = decide(3, cards);
+      mockRandom.mockReturnValue(0.99);
+      const high = decide(3, cards);
+      expect(low).toEqual(high);
+    });
+  });
+
+  describe('personalities', () => {
+    const facingBet = () => createGameState({ currentBet: 20, minRaise: 30, pot: 30 });
+
+    it('should let a calling station call where a default player folds', () => {
+      const cards = [c('9', 'hearts'), c('5', 'clubs')];
+
+      expect(makeAIDecision(createPlayer({ holeCards: cards }), facingBet()).action).toBe('fold');
+      expect(makeAIDecision(createPlayer({ holeCards: cards, personality: 'calling-station' }), facingBet()).action)
+        .toBe('call');
+    });
+
+    it('should make a tight-passive player fold a hand a default player calls', () => {
+      const cards = [c('J', 'hearts'), c('8', 'clubs')];
+
+      expect(makeAIDecision(createPlayer({ holeCards: cards }), facingBet()).action).toBe('call');
+      expect(makeAIDecision(createPlayer({ holeCards: cards, personality: 'tight-passive' }), facingBet()).action)
+        .toBe('fold');
+    });
+
+    it('should let a loose-aggressive player bluff with a weak hand', () => {
+      mockRandom.mockReturnValue(0.1);
+      const cards = [c('7', 'hearts'), c('2', 'clubs')];
+      const gameState = createGameState({ currentBet: 0, minRaise: 10, pot: 30 });
+
+      expect(makeAIDecision(createPlayer({ holeCards: cards }), gameState).action).toBe('check');
+      expect(makeAIDecision(createPlayer({ holeCards: cards, personality: 'loose-aggressive' }), gameState).action)
+        .toBe('raise');
+    });
+  });
+
+  describe('opponent modelling', () => {
+    // A user who has folded to every bet after the flop over 20 hands
+    const folder: PlayerTendencies = {
+      hands: 20, vpipHands: 6, pfrHands: 3, facedBets: 10, foldsToBet: 9, sawFlopHands: 6, showdownHands: 1,
+    };
+
+    it('should bluff a user who folds too often on hard', () => {
+      mockRandom.mockReturnValue(0.1);
+      const user = createPlayer({ id: 'user', isUser: true });
+      const gameState = createGameState({ players: [user], currentBet: 0, minRaise: 10, pot: 30, userTendencies: folder });
+      const player = createPlayer({ holeCards: [c('7', 'hearts'), c('2', 'clubs')] });
+
+      expect(makeAIDecision(player, gameState, 'hard').action).toBe('raise');
+      expect(makeAIDecision(player, gameState, 'medium').action).toBe('check');
+    });
+
+    it('should not exploit a user who has folded this hand', () => {
+      mockRandom.mockReturnValue(0.1);
+      const user = createPlayer({ id: 'user', isUser: true, isFolded: true });
+      const gameState = createGameState({ players: [user], currentBet: 0, minRaise: 10, pot: 30, userTendencies: folder });
+      const player = createPlayer({ holeCards: [c('7', 'hearts'), c('2', 'clubs')] });
+
+      expect(makeAIDecision(player, gameState, 'hard').action).toBe('check');
+    });
+  });
 });
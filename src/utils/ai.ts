@@ -3,56 +3,76 @@
  * Uses basic strategy suitable for educational purposes.
  */
 
-import { Player, GameState, BettingAction, Card, Rank } from '../types/game';
-import { getBestFiveCardHand, getBestHandFromSix, evaluateHand } from './handEvaluator';
+import { Player, GameState, BettingAction, Card, GameVariant, Rank } from '../types/game';
+import { getBestHand } from './handEvaluator';
+import { scoreOmahaStartingHand } from './handStrength';
 import { DifficultyLevel, getDifficultyConfig, DEFAULT_DIFFICULTY } from '../constants/difficulty';
+import { random, RandomSource } from './random';
+import { PREFLOP_RANGES } from '../constants/preflopRanges';
+import { parseRange, isInRange, getTablePosition } from './ranges';
+import { chooseBetSize, BetSize } from './betSizing';
+import { isRaisingOpen } from './bettingLimits';
+import { PERSONALITIES } from '../constants/personalities';
+import { readOpponent, getExploitAdjustments, ExploitAdjustments } from './opponentModel';
 
 /**
- * Evaluates the strength of a hand for AI decision-making.
- * Returns a score from 0-10 (higher is better).
- * Uses the same evaluation logic as shown to the user.
+ * An AI player's chosen action.
  */
-function evaluateHandStrength(player: Player, communityCards: Card[]): number {
-  if (player.holeCards.length !== 2) return 0;
+export interface AIDecision {
+  /** The action to take */
+  action: BettingAction;
+  /** Total bet to raise to (raises only) */
+  amount?: number;
+  /** How the raise was sized (raises only) */
+  sizing?: BetSize;
+}
 
-  // Pre-flop: Simple evaluation based on hole cards only
-  if (communityCards.length === 0) {
-    const card1Value = getCardValue(player.holeCards[0].rank);
-    const card2Value = getCardValue(player.holeCards[1].rank);
+/** Share of the final pot a call can cost and still be cheap enough to call with any opening hand */
+const CHEAP_CALL_PRICE = 0.25;
 
-    // Pocket pair
-    if (card1Value === card2Value) {
-      return Math.min(10, card1Value / 2 + 3); // Pairs are strong
-    }
+/** Parsed pre-flop charts, keyed by their shorthand */
+const parsedRanges = new Map<string, Set<string>>();
 
-    // High cards
-    const avgValue = (card1Value + card2Value) / 2;
-    return avgValue / 2;
+/**
+ * Gets a parsed range, parsing and caching it on first use.
+ */
+function getRange(notation: string): Set<string> {
+  let range = parsedRanges.get(notation);
+  if (!range) {
+    range = parseRange(notation);
+    parsedRanges.set(notation, range);
   }
+  return range;
+}
 
-  // Flop: 3 community cards (5 total) - evaluate as-is
-  if (communityCards.length === 3) {
-    const allCards = [...player.holeCards, ...communityCards];
-    const evaluation = evaluateHand(allCards);
-    return evaluation.rank;
-  }
+/**
+ * Evaluates the strength of a hand for AI decision-making.
+ * Returns a score from 0-10 (higher is better).
+ * Uses the same evaluation logic as shown to the user.
+ */
+function evaluateHandStrength(player: Player, communityCards: Card[], variant?: GameVariant): number {
+  if (player.holeCards.length === 0) return 0;
 
-  // Turn: 4 community cards (6 total) - find best 5 from 6
-  if (communityCards.length === 4) {
-    const allCards = [...player.holeCards, ...communityCards];
-    const evaluation = getBestHandFromSix(allCards);
-    return evaluation.rank;
+  // Flop onwards: best 5-card hand under the variant's rules
+  if (communityCards.length >= 3) {
+    return getBestHand(player.holeCards, communityCards, variant).rank;
   }
 
-  // River: 5 community cards (7 total) - find best 5 from 7
-  if (communityCards.length === 5) {
-    const evaluation = getBestFiveCardHand(player.holeCards, communityCards);
-    return evaluation.rank;
+  // Pre-flop Omaha: rate all four cards together
+  if (variant === 'omaha') {
+    return scoreOmahaStartingHand(player.holeCards);
   }
 
-  // Fallback for unexpected card counts
+  // Pre-flop: Simple evaluation based on hole cards only
   const card1Value = getCardValue(player.holeCards[0].rank);
   const card2Value = getCardValue(player.holeCards[1].rank);
+
+  // Pocket pair
+  if (card1Value === card2Value) {
+    return Math.min(10, card1Value / 2 + 3); // Pairs are strong
+  }
+
+  // High cards
   const avgValue = (card1Value + card2Value) / 2;
   return avgValue / 2;
 }
@@ -69,29 +89,125 @@ function getCardValue(rank: Rank): number {
   return values[rank];
 }
 
+/**
+ * Builds a raise decision sized by the bet sizing model.
+ * When the player may not raise (fixed-limit cap, or a short all-in that
+ * did not reopen the betting), calls instead.
+ */
+function raiseDecision(
+  player: Player,
+  gameState: GameState,
+  handStrength: number,
+  difficulty: DifficultyLevel
+): AIDecision {
+  if (!isRaisingOpen(gameState, player)) {
+    return { action: gameState.currentBet > player.currentBet ? 'call' : 'check' };
+  }
+  const sizingScale = player.personality ? PERSONALITIES[player.personality].sizingScale : 1;
+  const sizing = chooseBetSize(player, gameState, handStrength, difficulty, sizingScale);
+  return { action: 'raise', amount: sizing.amount, sizing };
+}
+
+/**
+ * Gets the adjustments against the user when this difficulty exploits
+ * opponents and the user is still in the hand.
+ */
+function getUserExploits(gameState: GameState, exploitsOpponents: boolean): ExploitAdjustments | null {
+  const user = gameState.players.find(p => p.isUser && !p.isFolded);
+  if (!exploitsOpponents || !user || !gameState.userTendencies) return null;
+
+  const userIsAggressor = gameState.actionHistory.some(entry =>
+    entry.playerId === user.id && entry.action === 'raise' && entry.phase === gameState.currentPhase
+  );
+  return getExploitAdjustments(readOpponent(gameState.userTendencies), userIsAggressor);
+}
+
+/**
+ * Makes a pre-flop decision from the starting hand charts for the player's position.
+ * Unraised pots are opened with the open range; facing a raise, the player
+ * 3-bets, calls or folds according to the threeBet and call ranges.
+ */
+function makeRangeDecision(
+  player: Player,
+  gameState: GameState,
+  difficulty: DifficultyLevel
+): AIDecision {
+  const { currentBet, bigBlind } = gameState;
+  const playerIndex = gameState.players.findIndex(p => p.id === player.id);
+  const ranges = PREFLOP_RANGES[getTablePosition(gameState, playerIndex)];
+
+  const amountToCall = currentBet - player.currentBet;
+  const canRaise = player.chips > amountToCall;
+  const facingRaise = currentBet > bigBlind;
+  const passOrFold: { action: BettingAction } = amountToCall === 0 ? { action: 'check' } : { action: 'fold' };
+
+  const inOpenRange = isInRange(getRange(ranges.open), player.holeCards);
+  const inCallRange = isInRange(getRange(ranges.call), player.holeCards);
+
+  if (!facingRaise) {
+    if (inOpenRange && canRaise) {
+      return raiseDecision(player, gameState, evaluateHandStrength(player, []), difficulty);
+    }
+    // Limp behind (or complete the small blind) with hands worth seeing a flop
+    return inCallRange && amountToCall > 0 ? { action: 'call' } : passOrFold;
+  }
+
+  if (isInRange(getRange(ranges.threeBet), player.holeCards)) {
+    return canRaise
+      ? raiseDecision(player, gameState, evaluateHandStrength(player, []), difficulty)
+      : { action: 'call' };
+  }
+
+  // Small raises offer a good price, so any hand worth opening can call them
+  const price = amountToCall / (gameState.pot + amountToCall);
+  if (inCallRange || (inOpenRange && price <= CHEAP_CALL_PRICE)) {
+    return { action: 'call' };
+  }
+
+  return passOrFold;
+}
+
 /**
  * Makes a decision for an AI player.
- * Returns the action and optional raise amount.
+ * Returns the action, plus the raise amount and its sizing for raises.
  *
  * @param player - The AI player making the decision
  * @param gameState - Current game state
- * @param difficulty - AI difficulty level (easy/medium/hard), defaults to medium
+ * @param difficulty - AI difficulty level (easy/medium/hard/expert), defaults to medium
+ * @param rng - Random source for decision variance (defaults to the shared random service)
  */
 export function makeAIDecision(
   player: Player,
   gameState: GameState,
-  difficulty: DifficultyLevel = DEFAULT_DIFFICULTY
-): { action: BettingAction; amount?: number } {
-  const { currentBet, communityCards, minRaise } = gameState;
+  difficulty: DifficultyLevel = DEFAULT_DIFFICULTY,
+  rng: RandomSource = random
+): AIDecision {
+  const { currentBet, communityCards } = gameState;
 
-  // Get difficulty-specific configuration
+  // Get difficulty-specific configuration, adjusted for the player's
+  // personality and for any leaks the AI has read in the user's play
   const config = getDifficultyConfig(difficulty);
-  const thresholds = config.thresholds;
+  const personality = player.personality ? PERSONALITIES[player.personality] : null;
+  const exploits = getUserExploits(gameState, config.exploitsOpponents);
+  const thresholds = { ...config.thresholds };
+  [personality?.thresholdShift, exploits?.thresholdShift].forEach(shift => {
+    if (shift) {
+      thresholds.FOLD += shift.FOLD;
+      thresholds.CALL += shift.CALL;
+      thresholds.RAISE += shift.RAISE;
+    }
+  });
+  const bluffFrequency = exploits?.bluffFrequency ?? personality?.bluffFrequency ?? 0;
   const variance = config.variance;
-  const potOddsThreshold = config.potOddsCallThreshold;
+  const potOddsThreshold = config.potOddsCallThreshold + (personality?.potOddsAdjustment ?? 0);
+
+  // Range-based difficulties play pre-flop from position charts
+  if (config.strategy === 'range' && communityCards.length === 0 && player.holeCards.length === 2) {
+    return makeRangeDecision(player, gameState, difficulty);
+  }
 
   // Calculate hand strength
-  const handStrength = evaluateHandStrength(player, communityCards);
+  const handStrength = evaluateHandStrength(player, communityCards, gameState.variant);
 
   // Calculate amount needed to call
   const amountToCall = currentBet - player.currentBet;
@@ -102,15 +218,22 @@ export function makeAIDecision(
   const potOdds = gameState.pot > 0 ? amountToCall / gameState.pot : 0;
 
   // Add randomness for unpredictability (using difficulty-specific variance)
-  const randomFactor = variance.MIN + Math.random() * variance.RANGE;
+  const randomFactor = variance.MIN + rng() * variance.RANGE;
   const adjustedStrength = handStrength * randomFactor;
 
+  // Bluffing personalities, and AIs exploiting a user who folds too much,
+  // sometimes raise hands that don't merit it
+  if (bluffFrequency > 0 && canRaise &&
+      adjustedStrength < thresholds.RAISE && rng() < bluffFrequency) {
+    return raiseDecision(player, gameState, handStrength, difficulty);
+  }
+
   // Decision logic
   if (amountToCall === 0) {
     // No bet to call - we can check for free
     if (adjustedStrength >= thresholds.RAISE && canRaise) {
       // Strong hand - bet/raise
-      return { action: 'raise', amount: minRaise };
+      return raiseDecision(player, gameState, handStrength, difficulty);
     }
     // Weak/medium hand - check
     return { action: 'check' };
@@ -124,7 +247,7 @@ export function makeAIDecision(
 
   if (adjustedStrength >= thresholds.RAISE && canRaise) {
     // Strong hand - raise
-    return { action: 'raise', amount: minRaise };
+    return raiseDecision(player, gameState, handStrength, difficulty);
   }
 
   if (adjustedStrength >= thresholds.CALL && canCall) {
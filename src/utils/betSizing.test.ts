@@ -0,0 +1,136 @@
+/**
+ * Unit tests for the AI bet sizing model.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { chooseBetSize, getBoardTexture } from './betSizing';
+import { createInitialState } from '../engine/gameReducer';
+import { Card, GameState, Player } from '../types/game';
+
+// Helper to create a card
+const c = (rank: Card['rank'], suit: Card['suit']): Card => ({ rank, suit });
+
+const DRY_FLOP = [c('K', 'spades'), c('7', 'hearts'), c('2', 'clubs')];
+const WET_FLOP = [c('9', 'hearts'), c('8', 'hearts'), c('6', 'clubs')];
+
+function setup(overrides: Partial<GameState> = {}, playerOverrides: Partial<Player> = {}) {
+  const base = createInitialState();
+  const player: Player = { ...base.players[1], chips: 1000, currentBet: 0, ...playerOverrides };
+  const gameState: GameState = {
+    ...base,
+    players: [base.players[0], player, base.players[2], base.players[3]],
+    pot: 100,
+    currentBet: 0,
+    minRaise: 10,
+    ...overrides,
+  };
+  return { player, gameState };
+}
+
+describe('getBoardTexture', () => {
+  it('should call rainbow, unconnected boards dry', () => {
+    expect(getBoardTexture(DRY_FLOP)).toBe('dry');
+  });
+
+  it('should call suited or connected boards wet', () => {
+    expect(getBoardTexture(WET_FLOP)).toBe('wet');
+    expect(getBoardTexture([c('Q', 'hearts'), c('J', 'clubs'), c('10', 'spades')])).toBe('wet');
+    expect(getBoardTexture([c('2', 'hearts'), c('8', 'hearts'), c('K', 'hearts')])).toBe('wet');
+  });
+
+  it('should treat the ace as low for straights', () => {
+    expect(getBoardTexture([c('A', 'spades'), c('2', 'hearts'), c('4', 'clubs')])).toBe('wet');
+  });
+});
+
+describe('chooseBetSize', () => {
+  it('should bet bigger on wet boards than dry ones', () => {
+    const dry = setup({ communityCards: DRY_FLOP });
+    const wet = setup({ communityCards: WET_FLOP });
+
+    const drySize = chooseBetSize(dry.player, dry.gameState, 3, 'medium');
+    const wetSize = chooseBetSize(wet.player, wet.gameState, 3, 'medium');
+
+    expect(drySize).toMatchObject({ amount: 50, reason: 'value' });
+    expect(wetSize).toMatchObject({ amount: 75, reason: 'protection' });
+  });
+
+  it('should bet bigger with stronger hands', () => {
+    const { player, gameState } = setup({ communityCards: DRY_FLOP });
+    const weak = chooseBetSize(player, gameState, 1, 'medium');
+    const monster = chooseBetSize(player, gameState, 7, 'medium');
+
+    expect(weak.reason).toBe('bluff');
+    expect(weak.amount).toBeLessThan(monster.amount);
+    expect(monster.potFraction).toBeCloseTo(0.75);
+  });
+
+  it('should size raises from the pot after calling', () => {
+    const { player, gameState } = setup({ communityCards: DRY_FLOP, pot: 150, currentBet: 50, minRaise: 100 });
+    const size = chooseBetSize(player, gameState, 3, 'medium');
+
+    // Call 50 makes the pot 200; half of that on top of the 50 bet
+    expect(size.amount).toBe(150);
+  });
+
+  it('should overbet the river with a monster at hard difficulty', () => {
+    const river = [...DRY_FLOP, c('4', 'diamonds'), c('9', 'clubs')];
+    const { player, gameState } = setup({ communityCards: river });
+
+    expect(chooseBetSize(player, gameState, 7, 'hard')).toMatchObject({ amount: 150, reason: 'overbet' });
+    expect(chooseBetSize(player, gameState, 7, 'medium').reason).not.toBe('overbet');
+  });
+
+  it('should bet smaller at easy difficulty', () => {
+    const { player, gameState } = setup({ communityCards: DRY_FLOP });
+
+    expect(chooseBetSize(player, gameState, 7, 'easy').amount)
+      .toBeLessThan(chooseBetSize(player, gameState, 7, 'medium').amount);
+  });
+
+  it('should shove when the stack is small next to the pot', () => {
+    const { player, gameState } = setup({ communityCards: DRY_FLOP }, { chips: 120 });
+    const size = chooseBetSize(player, gameState, 7, 'medium');
+
+    expect(size).toMatchObject({ amount: 120, reason: 'all-in', isAllIn: true });
+  });
+
+  it('should not shove a bluff just because the stack is short', () => {
+    const { player, gameState } = setup({ communityCards: DRY_FLOP }, { chips: 120 });
+
+    expect(chooseBetSize(player, gameState, 0, 'medium')).toMatchObject({ amount: 35, reason: 'bluff' });
+  });
+
+  it('should open pre-flop to a few big blinds plus one per limper', () => {
+    const { player, gameState } = setup({ pot: 25, currentBet: 10, minRaise: 20 });
+    gameState.players[0] = { ...gameState.players[0], currentBet: 10, hasActed: true };
+
+    expect(chooseBetSize(player, gameState, 6, 'medium')).toMatchObject({ amount: 40, reason: 'open' });
+  });
+
+  it('should 3-bet to three times the raise', () => {
+    const { player, gameState } = setup({ pot: 45, currentBet: 30, minRaise: 40 });
+
+    expect(chooseBetSize(player, gameState, 9, 'hard')).toMatchObject({ amount: 90, reason: 'three-bet' });
+  });
+
+  it('should never go below the minimum raise', () => {
+    const { player, gameState } = setup({ communityCards: DRY_FLOP, pot: 10, minRaise: 10 });
+
+    expect(chooseBetSize(player, gameState, 0, 'easy').amount).toBe(10);
+  });
+
+  it('should hold a pot-limit overbet to the size of the pot', () => {
+    const river = [...DRY_FLOP, c('4', 'diamonds'), c('9', 'clubs')];
+    const { player, gameState } = setup({ communityCards: river, bettingStructure: 'pot-limit' });
+
+    expect(chooseBetSize(player, gameState, 7, 'hard')).toMatchObject({ amount: 100, isAllIn: false });
+  });
+
+  it('should bet exactly one big bet on the turn in fixed-limit', () => {
+    const turn = [...DRY_FLOP, c('4', 'diamonds')];
+    const { player, gameState } = setup({ communityCards: turn, currentPhase: 'turn', bettingStructure: 'fixed-limit' });
+
+    expect(chooseBetSize(player, gameState, 7, 'medium').amount).toBe(20);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Bet sizing model for AI players.
+ * Picks a raise size from fractions of the pot using hand strength, board
+ * texture, stack-to-pot ratio and difficulty, and records why it was chosen
+ * so the narration can explain it. Sizes are kept inside the limits of the
+ * game's betting structure.
+ */
+
+import { Card, GameState, Player } from '../types/game';
+import { RANKS } from '../constants/cards';
+import { DifficultyLevel } from '../constants/difficulty';
+import { getRaiseLimits } from './bettingLimits';
+
+/**
+ * How coordinated the board is.
+ * Wet boards offer flush and straight draws; dry boards offer few.
+ */
+export type BoardTexture = 'dry' | 'wet';
+
+/**
+ * Why a bet size was chosen.
+ */
+export type BetSizeReason =
+  | 'open'        // Pre-flop raise into an unraised pot
+  | 'three-bet'   // Pre-flop re-raise
+  | 'value'       // Strong hand, wants calls
+  | 'protection'  // Strong hand on a wet board, charges draws
+  | 'overbet'     // Monster on the river, bets more than the pot
+  | 'bluff'       // Weak hand, small bet to take the pot away
+  | 'all-in';     // Stack is small compared to the pot, shoves
+
+/**
+ * A chosen raise size.
+ */
+export interface BetSize {
+  /** New total bet to raise to */
+  amount: number;
+  /** Chips added beyond a call, as a fraction of the pot after calling */
+  potFraction: number;
+  /** Why this size was chosen */
+  reason: BetSizeReason;
+  /** Whether the raise puts the player all-in */
+  isAllIn: boolean;
+}
+
+/** Post-flop pot fractions by hand strength band and board texture */
+const POT_FRACTIONS: Record<'monster' | 'strong' | 'weak', Record<BoardTexture, number>> = {
+  monster: { dry: 0.75, wet: 1 },
+  strong: { dry: 0.5, wet: 0.75 },
+  weak: { dry: 0.33, wet: 0.5 },
+};
+
+/** Pot fraction for a river overbet with a monster */
+const OVERBET_FRACTION = 1.5;
+
+/** Pre-flop open size in big blinds, before adding one per limper */
+const OPEN_SIZE_BB: Record<DifficultyLevel, number> = {
+  easy: 2,
+  medium: 3,
+  hard: 3,
+  expert: 2.5,
+};
+
+/** Pre-flop re-raise size as a multiple of the current bet */
+const THREE_BET_MULTIPLIER: Record<DifficultyLevel, number> = {
+  easy: 2,
+  medium: 3,
+  hard: 3,
+  expert: 3,
+};
+
+/** Post-flop size scaling; easy players bet smaller than the model suggests */
+const DIFFICULTY_SCALE: Record<DifficultyLevel, number> = {
+  easy: 0.67,
+  medium: 1,
+  hard: 1,
+  expert: 1,
+};
+
+/**
+ * Shove when the stack left after a bet would be less than this share of
+ * the pot - the player is committed either way.
+ */
+const COMMIT_RATIO = 0.5;
+
+/**
+ * Classifies the board as dry or wet.
+ * Wet boards have three of a suit, three ranks inside a five-rank window,
+ * or two of a suit alongside two close ranks.
+ */
+export function getBoardTexture(communityCards: Card[]): BoardTexture {
+  if (communityCards.length === 0) return 'dry';
+
+  const suitCounts = new Map<Card['suit'], number>();
+  communityCards.forEach(card => suitCounts.set(card.suit, (suitCounts.get(card.suit) || 0) + 1));
+  const maxSuit = Math.max(...suitCounts.values());
+
+  // Ace counts low as well as high for straights
+  const values = new Set<number>();
+  communityCards.forEach(card => {
+    const value = RANKS.indexOf(card.rank) + 2;
+    values.add(value);
+    if (value === 14) values.add(1);
+  });
+  const sorted = [...values].sort((a, b) => a - b);
+
+  let straightPossible = false;
+  let connected = false;
+  for (let i = 0; i < sorted.length; i++) {
+    if (i + 2 < sorted.length && sorted[i + 2] - sorted[i] <= 4) straightPossible = true;
+    if (i + 1 < sorted.length && sorted[i + 1] - sorted[i] <= 2) connected = true;
+  }
+
+  if (maxSuit >= 3 || straightPossible || (maxSuit >= 2 && connected)) {
+    return 'wet';
+  }
+  return 'dry';
+}
+
+/**
+ * Chooses how much an AI player should raise to.
+ * @param player - The player raising
+ * @param gameState - Current game state
+ * @param handStrength - Hand strength on the AI's 0-10 scale
+ * @param difficulty - AI difficulty level
+ * @param sizingScale - Multiplier on post-flop sizes (from the player's personality)
+ * @returns The raise-to amount and the reason for it
+ */
+export function chooseBetSize(
+  player: Player,
+  gameState: GameState,
+  handStrength: number,
+  difficulty: DifficultyLevel,
+  sizingScale: number = 1
+): BetSize {
+  const { currentBet, bigBlind, smallBlind, pot, communityCards } = gameState;
+  const amountToCall = Math.max(0, currentBet - player.currentBet);
+  const potAfterCall = pot + amountToCall;
+  const maxTotal = player.currentBet + player.chips;
+
+  let target: number;
+  let reason: BetSizeReason;
+
+  if (communityCards.length === 0) {
+    if (currentBet <= bigBlind) {
+      // Open: a few big blinds, plus one for every player who limped in
+      const limpers = gameState.players.filter(p =>
+        p.id !== player.id && !p.isFolded && p.currentBet === bigBlind && p.hasActed
+      ).length;
+      target = (OPEN_SIZE_BB[difficulty] + limpers) * bigBlind;
+      reason = 'open';
+    } else {
+      target = currentBet * THREE_BET_MULTIPLIER[difficulty];
+      reason = 'three-bet';
+    }
+  } else {
+    const texture = getBoardTexture(communityCards);
+    const band = handStrength >= 6 ? 'monster' : handStrength >= 3 ? 'strong' : 'weak';
+    let fraction = POT_FRACTIONS[band][texture] * DIFFICULTY_SCALE[difficulty] * sizingScale;
+
+    if (band === 'weak') {
+      reason = 'bluff';
+    } else if (band === 'monster' && communityCards.length === 5 &&
+               (difficulty === 'hard' || difficulty === 'expert')) {
+      fraction = OVERBET_FRACTION;
+      reason = 'overbet';
+    } else {
+      reason = texture === 'wet' ? 'protection' : 'value';
+    }
+
+    target = currentBet + fraction * potAfterCall;
+  }
+
+  // Round to the smallest chip unit and keep within the structure's limits
+  const limits = getRaiseLimits(gameState, player);
+  const unit = smallBlind > 0 ? smallBlind : 1;
+  let amount = Math.min(limits.max, Math.max(limits.min, Math.round(target / unit) * unit));
+
+  // Stack-to-pot ratio: if what's left after betting is small next to the
+  // pot, a player with a real hand is committed and moves all-in
+  const potAfterBet = potAfterCall + (amount - currentBet) * 2;
+  const leftBehind = maxTotal - amount;
+  if (amount >= maxTotal || (reason !== 'bluff' && leftBehind < potAfterBet * COMMIT_RATIO)) {
+    // Pot-limit and fixed-limit may not allow the whole stack yet
+    amount = limits.max;
+    if (amount >= maxTotal) {
+      reason = 'all-in';
+    }
+  }
+
+  return {
+    amount,
+    potFraction: potAfterCall > 0 ? (amount - currentBet) / potAfterCall : 0,
+    reason,
+    isAllIn: amount >= maxTotal,
+  };
+}
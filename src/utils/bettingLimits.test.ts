@@ -0,0 +1,78 @@
+/**
+ * Unit tests for betting structure limits.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getRaiseLimits, getFixedLimitBetSize, isRaisingOpen, resolveRaiseAmount } from './bettingLimits';
+import { createInitialState } from '../engine/gameReducer';
+import { GameState, Player } from '../types/game';
+
+function setup(overrides: Partial<GameState> = {}, playerOverrides: Partial<Player> = {}) {
+  const base = createInitialState();
+  const player: Player = { ...base.players[1], chips: 1000, currentBet: 0, ...playerOverrides };
+  const gameState: GameState = {
+    ...base,
+    currentPhase: 'flop',
+    pot: 60,
+    currentBet: 20,
+    minRaise: 30,
+    ...overrides,
+  };
+  return { player, gameState };
+}
+
+describe('getRaiseLimits', () => {
+  it('should allow no-limit raises up to the whole stack', () => {
+    const { player, gameState } = setup();
+    expect(getRaiseLimits(gameState, player)).toEqual({ min: 30, max: 1000 });
+  });
+
+  it('should cap pot-limit raises at the current bet plus the pot after calling', () => {
+    // Call 20 makes the pot 80; raising by 80 on top of the 20 bet is 100
+    const { player, gameState } = setup({ bettingStructure: 'pot-limit' });
+    expect(getRaiseLimits(gameState, player)).toEqual({ min: 30, max: 100 });
+  });
+
+  it('should count chips the player already has in when sizing a pot-limit raise', () => {
+    // Pot 60 includes the player's 10; calling 10 more makes it 70, so the raise goes to 20 + 70
+    const { player, gameState } = setup({ bettingStructure: 'pot-limit' }, { currentBet: 10 });
+    expect(getRaiseLimits(gameState, player).max).toBe(90);
+  });
+
+  it('should fix limit raises at one bet for the street', () => {
+    const { player, gameState } = setup({ bettingStructure: 'fixed-limit', bigBlind: 10 });
+    expect(getRaiseLimits(gameState, player)).toEqual({ min: 30, max: 30 });
+
+    const river = { ...gameState, currentPhase: 'river' as const };
+    expect(getFixedLimitBetSize(river)).toBe(20);
+    expect(getRaiseLimits(river, player)).toEqual({ min: 40, max: 40 });
+  });
+
+  it('should leave a short stack only the all-in', () => {
+    const { player, gameState } = setup({ bettingStructure: 'pot-limit' }, { chips: 25 });
+    expect(getRaiseLimits(gameState, player)).toEqual({ min: 25, max: 25 });
+  });
+});
+
+describe('isRaisingOpen', () => {
+  it('should cap fixed-limit at four bets a street', () => {
+    const { gameState } = setup({ bettingStructure: 'fixed-limit', betsThisRound: 3 });
+    expect(isRaisingOpen(gameState)).toBe(true);
+    expect(isRaisingOpen({ ...gameState, betsThisRound: 4 })).toBe(false);
+  });
+
+  it('should never cap no-limit or pot-limit', () => {
+    const { gameState } = setup({ betsThisRound: 10 });
+    expect(isRaisingOpen(gameState)).toBe(true);
+    expect(isRaisingOpen({ ...gameState, bettingStructure: 'pot-limit' })).toBe(true);
+  });
+});
+
+describe('resolveRaiseAmount', () => {
+  it('should hold requests to the structure and default to the minimum raise', () => {
+    const { player, gameState } = setup({ bettingStructure: 'pot-limit' });
+    expect(resolveRaiseAmount(gameState, player, 500)).toBe(100);
+    expect(resolveRaiseAmount(gameState, player)).toBe(30);
+    expect(resolveRaiseAmount({ ...gameState, bettingStructure: 'fixed-limit' }, player, 500)).toBe(30);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Raise limits for each betting structure.
+ * The reducer enforces these limits, the AI sizes its raises inside them,
+ * and the action buttons offer only the amounts they allow.
+ */
+
+import { GameState, Player } from '../types/game';
+import { FIXED_LIMIT_BET_CAP, FIXED_LIMIT_BIG_BET_MULTIPLIER } from '../constants/betting';
+
+/**
+ * The range of totals a player may raise to.
+ * Both ends are capped at the player's stack, so a short stack's only
+ * option is to move all-in.
+ */
+export interface RaiseLimits {
+  /** Smallest total bet the player may raise to */
+  min: number;
+  /** Largest total bet the player may raise to */
+  max: number;
+}
+
+/**
+ * Gets the fixed-limit bet size for the current street: the small bet
+ * (one big blind) pre-flop and on the flop, the big bet on the turn and river.
+ */
+export function getFixedLimitBetSize(state: GameState): number {
+  const isBigBetStreet = state.currentPhase === 'turn' || state.currentPhase === 'river';
+  return isBigBetStreet ? state.bigBlind * FIXED_LIMIT_BIG_BET_MULTIPLIER : state.bigBlind;
+}
+
+/**
+ * Gets how far each raise must go above the current bet.
+ * Fixed-limit raises by the street's bet size; the big-bet games by the big blind.
+ */
+export function getRaiseIncrement(state: GameState): number {
+  return state.bettingStructure === 'fixed-limit' ? getFixedLimitBetSize(state) : state.bigBlind;
+}
+
+/**
+ * Whether the betting round still allows another raise.
+ * Fixed-limit caps the number of bets a street. A player who acted before
+ * an all-in too small to be a full raise may only call or fold, unless the
+ * short all-ins together add up to a full raise over what they matched.
+ *
+ * @param state - Current game state
+ * @param player - The player who wants to raise (omit to check only the cap)
+ */
+export function isRaisingOpen(state: GameState, player?: Player): boolean {
+  if (state.bettingStructure === 'fixed-limit' && (state.betsThisRound ?? 0) >= FIXED_LIMIT_BET_CAP) {
+    return false;
+  }
+  if (player && state.raiseLockedPlayerIds?.includes(player.id)) {
+    const lastRaiseSize = state.lastRaiseSize ?? state.bigBlind;
+    return state.currentBet - player.currentBet >= lastRaiseSize;
+  }
+  return true;
+}
+
+/**
+ * Gets the totals a player may raise to under the game's betting structure.
+ * Pot-limit allows a raise to the current bet plus the pot after calling.
+ *
+ * @param state - Current game state
+ * @param player - The player raising
+ * @returns Raise-to bounds, capped at the player's stack
+ */
+export function getRaiseLimits(state: GameState, player: Player): RaiseLimits {
+  const stackTotal = player.currentBet + player.chips;
+  const amountToCall = Math.max(0, state.currentBet - player.currentBet);
+
+  let min = state.minRaise;
+  let max = stackTotal;
+  if (state.bettingStructure === 'fixed-limit') {
+    min = state.currentBet + getFixedLimitBetSize(state);
+    max = min;
+  } else if (state.bettingStructure === 'pot-limit') {
+    max = state.currentBet + state.pot + amountToCall;
+  }
+
+  max = Math.min(max, stackTotal);
+  return { min: Math.min(min, max), max };
+}
+
+/**
+ * Gets the total a raise actually goes to.
+ * Fixed-limit raises are always one bet; otherwise the requested amount
+ * (the minimum raise when none is given) is held between the minimum raise
+ * and the structure's maximum.
+ *
+ * @param state - Current game state
+ * @param player - The player raising
+ * @param requested - Total the player asked to raise to
+ */
+export function resolveRaiseAmount(state: GameState, player: Player, requested?: number): number {
+  const limits = getRaiseLimits(state, player);
+  if (state.bettingStructure === 'fixed-limit') {
+    return limits.max;
+  }
+  return Math.min(Math.max(requested || limits.min, limits.min), limits.max);
+}
@@ -39,6 +39,12 @@ describe('createDeck', () => {
     const uniqueCards = new Set(cardStrings);
     expect(uniqueCards.size).toBe(52);
   });
+
+  it('should strip the 2s through 5s from a short deck', () => {
+    const deck = createDeck('short-deck');
+    expect(deck).toHaveLength(36);
+    expect(deck.some(card => ['2', '3', '4', '5'].includes(card.rank))).toBe(false);
+  });
 });
 
 describe('shuffleDeck', () => {
@@ -3,18 +3,21 @@
  * Handles creating, shuffling, dealing, and displaying cards.
  */
 
-import { Card } from '../types/game';
-import { RANKS, SUITS, SUIT_SYMBOLS } from '../constants/cards';
+import { Card, GameVariant } from '../types/game';
+import { SUITS, SUIT_SYMBOLS } from '../constants/cards';
+import { DECK_RANKS } from '../constants/variants';
+import { random, RandomSource } from './random';
 
 /**
- * Creates a standard 52-card deck.
- * @returns An array of 52 cards (unshuffled)
+ * Creates a deck for the variant: the standard 52 cards, or 36 for short deck.
+ * @param variant - Poker variant (Texas Hold'em by default)
+ * @returns An array of cards (unshuffled)
  */
-export function createDeck(): Card[] {
+export function createDeck(variant: GameVariant = 'holdem'): Card[] {
   const deck: Card[] = [];
 
   for (const suit of SUITS) {
-    for (const rank of RANKS) {
+    for (const rank of DECK_RANKS[variant]) {
       deck.push({ rank, suit });
     }
   }
@@ -26,12 +29,13 @@ export function createDeck(): Card[] {
  * Shuffles a deck using the Fisher-Yates algorithm.
  * This is an in-place shuffle that modifies the original array.
  * @param deck - The deck to shuffle
+ * @param rng - Random source to draw from (defaults to the shared random service)
  * @returns The shuffled deck (same reference as input)
  */
-export function shuffleDeck(deck: Card[]): Card[] {
+export function shuffleDeck(deck: Card[], rng: RandomSource = random): Card[] {
   for (let i = deck.length - 1; i > 0; i--) {
     // Generate random index from 0 to i
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(rng() * (i + 1));
 
     // Swap elements at i and j
     [deck[i], deck[j]] = [deck[j], deck[i]];
@@ -88,9 +92,11 @@ export function cardsEqual(card1: Card, card2: Card): boolean {
 /**
  * Creates a new shuffled deck ready for play.
  * Convenience function that combines createDeck and shuffleDeck.
- * @returns A shuffled 52-card deck
+ * @param rng - Random source to draw from (defaults to the shared random service)
+ * @param variant - Poker variant (Texas Hold'em by default)
+ * @returns A shuffled deck
  */
-export function createShuffledDeck(): Card[] {
-  const deck = createDeck();
-  return shuffleDeck(deck);
+export function createShuffledDeck(rng: RandomSource = random, variant: GameVariant = 'holdem'): Card[] {
+  const deck = createDeck(variant);
+  return shuffleDeck(deck, rng);
 }
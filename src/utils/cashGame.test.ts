@@ -0,0 +1,74 @@
+/**
+ * Unit tests for cash-game sessions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createCashSession,
+  getTopUpAmount,
+  recordTopUp,
+  getSessionProfit,
+  createReplacementOpponent,
+} from './cashGame';
+import { Player } from '../types/game';
+
+const player = (id: string, name: string, chips: number): Player => ({
+  id,
+  name,
+  chips,
+  holeCards: [],
+  isFolded: true,
+  isUser: false,
+  position: 0,
+  currentBet: 0,
+  totalBet: 40,
+  hasActed: true,
+  isAllIn: true,
+  personality: 'tight-passive',
+});
+
+describe('buying chips', () => {
+  it('should count a buy from an empty stack as a rebuy', () => {
+    const session = recordTopUp(createCashSession(100), 0);
+
+    expect(session).toMatchObject({ totalBuyIn: 200, rebuys: 1, topUps: 0 });
+  });
+
+  it('should only buy the chips a short stack is missing', () => {
+    const session = createCashSession(100);
+    expect(getTopUpAmount(session, 35)).toBe(65);
+
+    expect(recordTopUp(session, 35)).toMatchObject({ totalBuyIn: 165, rebuys: 0, topUps: 1 });
+  });
+
+  it('should leave a full stack alone', () => {
+    const session = createCashSession(100);
+    expect(getTopUpAmount(session, 140)).toBe(0);
+    expect(recordTopUp(session, 140)).toBe(session);
+  });
+
+  it('should report profit net of every buy-in', () => {
+    const session = recordTopUp(createCashSession(100), 0);
+    expect(getSessionProfit(session, 250)).toBe(50);
+    expect(getSessionProfit(session, 120)).toBe(-80);
+  });
+});
+
+describe('createReplacementOpponent', () => {
+  it('should seat the first stock opponent not at the table with a fresh stack', () => {
+    const busted = player('ai1', 'Doc', 0);
+    const table = [busted, player('ai2', 'Slim', 80), player('ai3', 'Annie', 120)];
+
+    const replacement = createReplacementOpponent(busted, table, createCashSession(100));
+
+    expect(replacement).toMatchObject({
+      id: 'refill1',
+      name: 'Wyatt',
+      personality: 'tight-passive',
+      chips: 100,
+      totalBet: 0,
+      isFolded: false,
+      isAllIn: false,
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Cash-game sessions: buy-ins, top-ups and refilling busted AI seats.
+ * Pure functions over CashSession; the reducer calls them between hands.
+ */
+
+import { Player } from '../types/game';
+import { CashSession } from '../types/cashGame';
+import { AI_SEATS } from '../constants/table';
+
+/**
+ * Creates a session for a user who has just bought in once.
+ *
+ * @param buyIn - Chips in a full buy-in
+ */
+export function createCashSession(buyIn: number): CashSession {
+  return {
+    buyIn,
+    totalBuyIn: buyIn,
+    rebuys: 0,
+    topUps: 0,
+    seatsRefilled: 0,
+  };
+}
+
+/**
+ * Gets how many chips it takes to bring a stack back to a full buy-in.
+ *
+ * @param session - The session being played
+ * @param chips - The user's current stack
+ * @returns Chips to add (0 if the stack is already full)
+ */
+export function getTopUpAmount(session: CashSession, chips: number): number {
+  return Math.max(0, session.buyIn - chips);
+}
+
+/**
+ * Records the user buying chips up to a full buy-in.
+ * Buying from an empty stack counts as a rebuy, otherwise as a top-up.
+ *
+ * @param session - The session being played
+ * @param chips - The user's stack before buying
+ * @returns Updated session (the input is not modified)
+ */
+export function recordTopUp(session: CashSession, chips: number): CashSession {
+  const amount = getTopUpAmount(session, chips);
+  if (amount === 0) return session;
+
+  return {
+    ...session,
+    totalBuyIn: session.totalBuyIn + amount,
+    rebuys: session.rebuys + (chips === 0 ? 1 : 0),
+    topUps: session.topUps + (chips > 0 ? 1 : 0),
+  };
+}
+
+/**
+ * Gets the user's profit for the session, net of every buy-in.
+ *
+ * @param session - The session being played
+ * @param chips - The user's current stack
+ */
+export function getSessionProfit(session: CashSession, chips: number): number {
+  return chips - session.totalBuyIn;
+}
+
+/**
+ * Seats a fresh opponent in place of one who went broke.
+ * The newcomer is the first stock opponent not already at the table, so
+ * the table keeps mixing playing styles; the seat keeps its difficulty.
+ *
+ * @param busted - The player leaving the seat
+ * @param players - Everyone at the table, including the busted player
+ * @param session - The session being played (numbers the new player's ID)
+ * @returns The new player, holding a full buy-in
+ */
+export function createReplacementOpponent(busted: Player, players: Player[], session: CashSession): Player {
+  const seated = new Set(players.map(p => p.name.toLowerCase()));
+  const seat = AI_SEATS.find(s => !seated.has(s.name.toLowerCase())) ??
+    { name: busted.name, personality: busted.personality ?? AI_SEATS[0].personality };
+
+  return {
+    ...busted,
+    id: `refill${session.seatsRefilled + 1}`,
+    name: seat.name,
+    personality: seat.personality,
+    chips: session.buyIn,
+    holeCards: [],
+    isFolded: false,
+    currentBet: 0,
+    totalBet: 0,
+    hasActed: false,
+    isAllIn: false,
+  };
+}
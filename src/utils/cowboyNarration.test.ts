@@ -0,0 +1,96 @@
+/**
+ * Unit tests for cowboy narration.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getPersonalityTip, generateUserTurnNarration, generateAIActionNarration, generateRunItTwiceNarration } from './cowboyNarration';
+import { createInitialState } from '../engine/gameReducer';
+import { Card, GameState } from '../types/game';
+
+// Helper to create a card
+const c = (rank: Card['rank'], suit: Card['suit']): Card => ({ rank, suit });
+
+describe('getPersonalityTip', () => {
+  it('should name the player in the tip for their style', () => {
+    const slim = createInitialState().players.find(p => p.name === 'Slim')!;
+    expect(getPersonalityTip(slim)).toBe('Slim bluffs a lot - call Slim down lighter and let those bluffs pay you.');
+  });
+
+  it('should return nothing for players without a personality', () => {
+    const user = createInitialState().players.find(p => p.isUser)!;
+    expect(getPersonalityTip(user)).toBe('');
+  });
+});
+
+describe('generateUserTurnNarration', () => {
+  it('should include a tip about the player who raised', () => {
+    const base = createInitialState();
+    const players = base.players.map(p =>
+      p.isUser ? { ...p, holeCards: [c('K', 'hearts'), c('9', 'clubs')] } : p
+    );
+    const state: GameState = {
+      ...base,
+      players,
+      currentBet: 40,
+      pot: 55,
+      actionHistory: [{
+        id: 1,
+        playerName: 'Slim',
+        playerId: 'ai2',
+        action: 'raise',
+        amount: 40,
+        phase: 'pre-flop',
+        potAfter: 55,
+        timestamp: 0,
+        isUser: false,
+      }],
+    };
+
+    const narration = generateUserTurnNarration(players[0], state);
+    expect(narration.advice).toContain('Slim bluffs a lot');
+  });
+});
+
+describe('generateAIActionNarration', () => {
+  it('should add a personality remark mentioning the player', () => {
+    const state = createInitialState();
+    const annie = state.players.find(p => p.name === 'Annie')!;
+
+    const narration = generateAIActionNarration(annie, 'call', undefined, state, 3);
+    expect(narration.message.split('Annie').length).toBeGreaterThan(2);
+  });
+});
+
+describe('generateRunItTwiceNarration', () => {
+  // Aces against kings all-in on the flop; the kings spike a set on the second board
+  const flop = [c('2', 'clubs'), c('7', 'diamonds'), c('9', 'clubs')];
+  const runItTwiceState = (): GameState => {
+    const base = createInitialState();
+    const holeCards: Record<string, Card[]> = {
+      You: [c('A', 'spades'), c('A', 'hearts')],
+      Doc: [c('K', 'spades'), c('K', 'hearts')],
+    };
+    return {
+      ...base,
+      communityCards: [...flop, c('3', 'hearts'), c('4', 'spades')],
+      secondBoard: [...flop, c('K', 'clubs'), c('5', 'diamonds')],
+      players: base.players.map(p => ({ ...p, holeCards: holeCards[p.name] ?? [], isFolded: !holeCards[p.name] })),
+    };
+  };
+
+  it('should weigh the equity when the chips went in against the boards won', () => {
+    const message = generateRunItTwiceNarration(runItTwiceState());
+
+    expect(message).toMatch(/about 9\d% equity/);
+    expect(message).toContain('You took one of the two boards.');
+    expect(message).toContain("don't change your equity");
+  });
+
+  it('should call losing both boards as the favorite variance', () => {
+    const state = runItTwiceState();
+    const message = generateRunItTwiceNarration({ ...state, communityCards: [...flop, c('K', 'diamonds'), c('3', 'hearts')] });
+
+    expect(message).toContain('You took neither of the two boards.');
+    expect(message).toContain('variance');
+  });
+});
@@ -3,9 +3,14 @@
  * Generates personality-filled narration text for game events.
  */
 
-import { Player, GameState, BettingAction, Card, GamePhase, HandEvaluation } from '../types/game';
-import { getBestFiveCardHand, getBestHandFromSix, evaluateHand } from './handEvaluator';
-import { describeHand, evaluateHandStrength } from './handStrength';
+import { Player, GameState, BettingAction, Card, GamePhase, PersonalityId } from '../types/game';
+import { getBestHand, determineWinners } from './handEvaluator';
+import { describeHand, evaluateHandStrength, describeHoleCards, rateOmahaStartingHand } from './handStrength';
+import { analyzeDraws, describeDraws } from './draws';
+import { randomElement } from './random';
+import { BetSize } from './betSizing';
+import { calculateShowdownEquity } from './equity';
+import { PERSONALITIES } from '../constants/personalities';
 
 // Cowboy phrases for variety
 const GREETINGS = [
@@ -24,25 +29,103 @@ const TRANSITIONS = [
   "Here's the thing:",
 ];
 
+// Personality flavour for AI actions ({name} is replaced with the player's name)
+const PERSONALITY_PHRASES: Record<PersonalityId, Record<BettingAction, string[]>> = {
+  'tight-passive': {
+    fold: [
+      "{name} lets another one go - patient as a fence post.",
+      "No surprise there. {name} waits for the real goods.",
+    ],
+    check: ["{name} keeps it quiet, as usual."],
+    call: ["A call from {name} usually means a real hand."],
+    raise: [
+      "When {name} raises, you'd best believe it!",
+      "Uh oh - {name} don't raise without the goods.",
+    ],
+  },
+  'loose-aggressive': {
+    fold: ["Well I'll be, {name} actually let one go."],
+    check: ["{name} checkin'? Might be settin' a trap."],
+    call: ["{name} wants in on the action, like always."],
+    raise: [
+      "{name}'s firin' chips again - half the time it's nothin' but air!",
+      "There goes {name}, pushin' folks around.",
+    ],
+  },
+  'calling-station': {
+    fold: ["Mark the calendar - {name} folded!"],
+    check: ["{name} is happy to see a free card."],
+    call: [
+      "{name} just can't resist seein' another card.",
+      "Another call from {name}. Bluffin' this one is throwin' money away.",
+    ],
+    raise: ["{name} raisin'? That's rare - take it serious!"],
+  },
+};
+
 /**
- * Gets a random element from an array.
+ * Gets a random element from an array using the shared random service.
  */
 function randomFrom<T>(arr: T[]): T {
-  return arr[Math.floor(Math.random() * arr.length)];
+  return randomElement(arr);
 }
 
 /**
  * Generates narration for the start of a new hand.
+ * Mentions antes when there are any, and announces a new tournament level.
  */
 export function generateHandStartNarration(
   dealerName: string,
   smallBlindName: string,
   bigBlindName: string,
   smallBlindAmount: number,
-  bigBlindAmount: number
+  bigBlindAmount: number,
+  anteAmount: number = 0,
+  newLevel?: number
 ): string {
   const greeting = randomFrom(GREETINGS);
-  return `${greeting} New hand starting! ${dealerName} has the dealer button. ${smallBlindName} posts the small blind of $${smallBlindAmount}, and ${bigBlindName} posts the big blind of $${bigBlindAmount}. Cards are dealt - take a look at your hand!`;
+  const levelUp = newLevel !== undefined
+    ? ` Blinds are goin' up - welcome to level ${newLevel}!`
+    : '';
+  const antes = anteAmount > 0 ? ` Everybody antes $${anteAmount}.` : '';
+  return `${greeting}${levelUp} New hand starting! ${dealerName} has the dealer button.${antes} ${smallBlindName} posts the small blind of $${smallBlindAmount}, and ${bigBlindName} posts the big blind of $${bigBlindAmount}. Cards are dealt - take a look at your hand!`;
+}
+
+/**
+ * Describes a pot fraction in plain words.
+ */
+function describePotFraction(fraction: number): string {
+  if (fraction >= 1.25) return 'an overbet, bigger than the pot itself';
+  if (fraction >= 0.9) return 'a pot-sized bet';
+  if (fraction >= 0.6) return 'about three-quarters of the pot';
+  if (fraction >= 0.4) return 'about half the pot';
+  return 'about a third of the pot';
+}
+
+/**
+ * Explains why an AI player chose its raise size.
+ */
+function explainBetSize(sizing: BetSize, gameState: GameState): string {
+  const size = describePotFraction(sizing.potFraction);
+
+  switch (sizing.reason) {
+    case 'open': {
+      const bigBlinds = Math.round((sizing.amount / gameState.bigBlind) * 10) / 10;
+      return `Openin' to ${bigBlinds} big blinds is a standard raise - enough to thin the field without riskin' too much.`;
+    }
+    case 'three-bet':
+      return `Re-raisin' to about ${Math.round(sizing.amount / gameState.currentBet)} times the bet puts the first raiser to a real decision.`;
+    case 'value':
+      return `That's ${size}. On a dry board like this there ain't many draws, so a modest bet keeps worse hands payin'.`;
+    case 'protection':
+      return `That's ${size}. With draws all over this board, they're chargin' the chasers a steep price.`;
+    case 'overbet':
+      return `That's ${size}! With a monster on the river, they're goin' for every last chip.`;
+    case 'bluff':
+      return `That's ${size} - a cheap bet that only needs a fold now and then to pay off.`;
+    case 'all-in':
+      return `Their stack is small next to the pot, so they're committin' the whole lot rather than leavin' scraps behind.`;
+  }
 }
 
 /**
@@ -53,7 +136,8 @@ function generateAIReasoning(
   player: Player,
   action: BettingAction,
   gameState: GameState,
-  handStrength: number
+  handStrength: number,
+  sizing?: BetSize
 ): string {
   const { communityCards, pot, currentBet } = gameState;
   const amountToCall = currentBet - player.currentBet;
@@ -92,19 +176,39 @@ function generateAIReasoning(
   }
 
   if (action === 'raise') {
+    const sizeNote = sizing ? ` ${explainBetSize(sizing, gameState)}` : '';
     if (handStrength >= 6) {
-      return `They've got ${strengthDesc}! They're lookin' to build that pot.`;
+      return `They've got ${strengthDesc}! They're lookin' to build that pot.${sizeNote}`;
     }
     if (handStrength >= 4) {
-      return `With ${strengthDesc}, they're sendin' a message - back off or pay up!`;
+      return `With ${strengthDesc}, they're sendin' a message - back off or pay up!${sizeNote}`;
     }
     // Bluff
-    return `Hmm, raisin' with ${strengthDesc}? Either they know somethin' we don't, or they're bluffin'!`;
+    return `Hmm, raisin' with ${strengthDesc}? Either they know somethin' we don't, or they're bluffin'!${sizeNote}`;
   }
 
   return "Interestin' move there.";
 }
 
+/**
+ * Gets a personality-flavoured remark about an AI player's action.
+ * Returns an empty string for players without a personality.
+ */
+function getPersonalityPhrase(player: Player, action: BettingAction): string {
+  if (!player.personality) return '';
+  return randomFrom(PERSONALITY_PHRASES[player.personality][action]).split('{name}').join(player.name);
+}
+
+/**
+ * Gets the cowboy's tip for playing against an AI player's style.
+ * Example: "Slim bluffs a lot - call Slim down lighter and let those bluffs pay you."
+ * Returns an empty string for players without a personality.
+ */
+export function getPersonalityTip(player: Player): string {
+  if (!player.personality) return '';
+  return PERSONALITIES[player.personality].counterTip.split('{name}').join(player.name);
+}
+
 /**
  * Generates narration for an AI player's action.
  */
@@ -113,7 +217,8 @@ export function generateAIActionNarration(
   action: BettingAction,
   amount: number | undefined,
   gameState: GameState,
-  handStrength: number
+  handStrength: number,
+  sizing?: BetSize
 ): { message: string; reasoning: string } {
   const transition = randomFrom(TRANSITIONS);
   let actionText: string;
@@ -131,16 +236,19 @@ export function generateAIActionNarration(
       break;
     }
     case 'raise':
-      actionText = `${player.name} raises to $${amount}! Things are heatin' up!`;
+      actionText = sizing?.isAllIn
+        ? `${player.name} shoves all-in for $${amount}! That's the whole stack!`
+        : `${player.name} raises to $${amount}! Things are heatin' up!`;
       break;
     default:
       actionText = `${player.name} makes their move.`;
   }
 
-  const reasoning = generateAIReasoning(player, action, gameState, handStrength);
+  const reasoning = generateAIReasoning(player, action, gameState, handStrength, sizing);
+  const personalityPhrase = getPersonalityPhrase(player, action);
 
   return {
-    message: `${transition} ${actionText}`,
+    message: personalityPhrase ? `${transition} ${actionText} ${personalityPhrase}` : `${transition} ${actionText}`,
     reasoning,
   };
 }
@@ -187,8 +295,13 @@ export function generateUserTurnNarration(
   // Evaluate hand strength
   let handDescription: string;
   let strengthLevel: 'weak' | 'medium' | 'strong';
+  let drawSummary = '';
 
-  if (communityCards.length === 0) {
+  if (communityCards.length === 0 && gameState.variant === 'omaha') {
+    // Pre-flop Omaha
+    handDescription = describeHoleCards(player.holeCards);
+    strengthLevel = rateOmahaStartingHand(player.holeCards);
+  } else if (communityCards.length === 0) {
     // Pre-flop
     const card1 = player.holeCards[0];
     const card2 = player.holeCards[1];
@@ -212,21 +325,11 @@ export function generateUserTurnNarration(
     }
   } else {
     // Post-flop - evaluate actual hand
-    let evaluation: HandEvaluation;
-    const totalCards = player.holeCards.length + communityCards.length;
-
-    if (totalCards === 7) {
-      evaluation = getBestFiveCardHand(player.holeCards, communityCards);
-    } else if (totalCards === 6) {
-      const allCards = [...player.holeCards, ...communityCards];
-      evaluation = getBestHandFromSix(allCards);
-    } else {
-      const allCards = [...player.holeCards, ...communityCards];
-      evaluation = evaluateHand(allCards);
-    }
+    const evaluation = getBestHand(player.holeCards, communityCards, gameState.variant);
 
     handDescription = describeHand(evaluation);
     strengthLevel = evaluateHandStrength(evaluation);
+    drawSummary = describeDraws(analyzeDraws(player.holeCards, communityCards, gameState.variant));
   }
 
   // Generate cowboy-style advice
@@ -263,6 +366,23 @@ export function generateUserTurnNarration(
     }
   }
 
+  // Facing a raise, tell the user how the raiser tends to play
+  if (amountToCall > 0) {
+    const lastRaise = [...gameState.actionHistory]
+      .reverse()
+      .find(entry => entry.phase === gameState.currentPhase && entry.action === 'raise');
+    const raiser = lastRaise && gameState.players.find(p => p.id === lastRaise.playerId);
+    const tip = raiser ? getPersonalityTip(raiser) : '';
+    if (tip) {
+      advice += ` ${tip}`;
+    }
+  }
+
+  // Teach countin' outs whenever there's somethin' to draw to
+  if (drawSummary) {
+    advice += ` Count your outs: ${drawSummary}.`;
+  }
+
   const strengthEmoji = strengthLevel === 'strong' ? 'strong' : strengthLevel === 'medium' ? 'medium' : 'weak';
 
   return {
@@ -300,6 +420,63 @@ export function generateShowdownNarration(): string {
   return `Time to show 'em what you got! All cards on the table, folks. Let's see who rides away with the pot!`;
 }
 
+/**
+ * Generates narration for the showdown of a run-it-twice hand, teaching the
+ * difference between equity and variance: the user's share of the pot when
+ * the chips went in (hold'em only) against how the two boards actually fell.
+ */
+export function generateRunItTwiceNarration(gameState: GameState): string {
+  const { communityCards: firstBoard, secondBoard } = gameState;
+  const closing = `Runnin' it twice don't change your equity one bit - it just takes some of the swing out of the result.`;
+  const user = gameState.players.find(p => p.isUser);
+  if (!secondBoard || !user || user.isFolded) {
+    return `Two boards for one pot - each board plays for half! ${closing}`;
+  }
+
+  // The boards share the cards dealt before the all-in and differ after
+  let sharedCount = 0;
+  while (
+    sharedCount < firstBoard.length &&
+    firstBoard[sharedCount].rank === secondBoard[sharedCount]?.rank &&
+    firstBoard[sharedCount].suit === secondBoard[sharedCount]?.suit
+  ) {
+    sharedCount++;
+  }
+
+  const variant = gameState.variant ?? 'holdem';
+  const contenders = [user, ...gameState.players.filter(p => !p.isUser && !p.isFolded)];
+  const boardsWon = [firstBoard, secondBoard].filter(board => {
+    const winners = determineWinners(contenders.map(p => getBestHand(p.holeCards, board, variant)));
+    return winners.includes(0);
+  }).length;
+  const result = `You took ${boardsWon === 1 ? 'one' : boardsWon === 2 ? 'both' : 'neither'} of the two boards.`;
+
+  if (variant !== 'holdem') {
+    return `We ran it twice! ${result} ${closing}`;
+  }
+
+  const equity = calculateShowdownEquity(
+    user.holeCards,
+    contenders.slice(1).map(p => p.holeCards),
+    firstBoard.slice(0, sharedCount)
+  );
+  const share = Math.round(equity.win + equity.tie / 2);
+  const expected = `When the chips went in you had about ${share}% equity - that's what this pot owes you over the long haul.`;
+
+  let lesson: string;
+  if (boardsWon === 1) {
+    lesson = `Splittin' the boards is just what runnin' it twice is for.`;
+  } else if (boardsWon === 2 && share < 50) {
+    lesson = `Winnin' both as the underdog is variance smilin' on you, partner - don't go countin' on it.`;
+  } else if (boardsWon === 0 && share > 50) {
+    lesson = `Losin' both as the favorite is variance, plain and simple. Gettin' the money in was still the right play.`;
+  } else {
+    lesson = `The cards went about the way the numbers said they would.`;
+  }
+
+  return `We ran it twice! ${expected} ${result} ${lesson} ${closing}`;
+}
+
 /**
  * Generates narration for betting round completion.
  */
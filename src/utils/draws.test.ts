@@ -0,0 +1,181 @@
+/**
+ * Unit tests for draw detection and outs counting.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeDraws, describeDraws, describeDraw, ruleOfTwoAndFour } from './draws';
+import { Card } from '../types/game';
+
+// Helper to create a card
+const c = (rank: Card['rank'], suit: Card['suit']): Card => ({ rank, suit });
+
+describe('ruleOfTwoAndFour', () => {
+  it('should multiply by 2 with one card to come', () => {
+    expect(ruleOfTwoAndFour(9, 1)).toBe(18);
+  });
+
+  it('should multiply by 4 with two cards to come, trimming big draws', () => {
+    expect(ruleOfTwoAndFour(8, 2)).toBe(32);
+    expect(ruleOfTwoAndFour(9, 2)).toBe(35);
+    expect(ruleOfTwoAndFour(15, 2)).toBe(53);
+  });
+
+  it('should be zero with nothing to come', () => {
+    expect(ruleOfTwoAndFour(9, 0)).toBe(0);
+  });
+});
+
+describe('analyzeDraws', () => {
+  it('should find a flush draw with 9 outs on the flop', () => {
+    const analysis = analyzeDraws(
+      [c('7', 'hearts'), c('6', 'hearts')],
+      [c('K', 'hearts'), c('2', 'hearts'), c('10', 'clubs')]
+    );
+
+    const flush = analysis.draws.find(draw => draw.type === 'flush');
+    expect(flush?.outs).toHaveLength(9);
+    expect(flush?.outs.every(card => card.suit === 'hearts')).toBe(true);
+    expect(analysis.byRiver).toBe(35);
+    expect(describeDraws(analysis)).toBe('9 outs to a flush, about 35% by the river');
+  });
+
+  it('should find an open-ended straight draw with 8 outs', () => {
+    const analysis = analyzeDraws(
+      [c('9', 'spades'), c('8', 'hearts')],
+      [c('7', 'clubs'), c('6', 'diamonds'), c('K', 'spades')]
+    );
+
+    expect(analysis.draws.map(draw => draw.type)).toContain('open-ended');
+    expect(analysis.outs).toHaveLength(8);
+    expect(new Set(analysis.outs.map(card => card.rank))).toEqual(new Set(['10', '5']));
+  });
+
+  it('should find a gutshot with 4 outs', () => {
+    const analysis = analyzeDraws(
+      [c('9', 'spades'), c('8', 'hearts')],
+      [c('6', 'clubs'), c('5', 'diamonds'), c('K', 'spades')]
+    );
+
+    const gutshot = analysis.draws.find(draw => draw.type === 'gutshot');
+    expect(gutshot?.outs.map(card => card.rank)).toEqual(['7', '7', '7', '7']);
+  });
+
+  it('should call two gutshots a gutshot, not an open-ended draw', () => {
+    const analysis = analyzeDraws(
+      [c('9', 'spades'), c('3', 'hearts')],
+      [c('7', 'clubs'), c('6', 'diamonds'), c('5', 'spades')]
+    );
+
+    const straight = analysis.draws.find(draw => draw.type === 'gutshot');
+    expect(analysis.draws.map(draw => draw.type)).not.toContain('open-ended');
+    expect(new Set(straight?.outs.map(card => card.rank))).toEqual(new Set(['8', '4']));
+  });
+
+  it('should call a draw open-ended at both ends of the wheel', () => {
+    const analysis = analyzeDraws(
+      [c('2', 'spades'), c('3', 'hearts')],
+      [c('4', 'clubs'), c('5', 'diamonds'), c('K', 'spades')]
+    );
+
+    expect(analysis.draws.map(draw => draw.type)).toContain('open-ended');
+    expect(new Set(analysis.outs.map(card => card.rank))).toEqual(new Set(['A', '6']));
+  });
+
+  it('should count the wheel gutshot', () => {
+    const analysis = analyzeDraws(
+      [c('A', 'spades'), c('2', 'hearts')],
+      [c('3', 'clubs'), c('5', 'diamonds'), c('K', 'spades')]
+    );
+
+    expect(analysis.draws.find(draw => draw.type === 'gutshot')?.outs).toHaveLength(4);
+  });
+
+  it('should not double count outs shared by a flush and straight draw', () => {
+    const analysis = analyzeDraws(
+      [c('J', 'hearts'), c('10', 'hearts')],
+      [c('Q', 'hearts'), c('9', 'hearts'), c('3', 'clubs')]
+    );
+
+    expect(analysis.outs).toHaveLength(15);
+    expect(describeDraws(analysis)).toBe('15 outs to a flush or an open-ended straight, about 53% by the river');
+  });
+
+  it('should count overcards when the hand has not paired', () => {
+    const analysis = analyzeDraws(
+      [c('A', 'spades'), c('K', 'diamonds')],
+      [c('9', 'clubs'), c('6', 'hearts'), c('2', 'spades')]
+    );
+
+    const overcards = analysis.draws.find(draw => draw.type === 'overcards');
+    expect(overcards?.outs).toHaveLength(6);
+  });
+
+  it('should leave overcards that make a flush to the flush draw', () => {
+    const analysis = analyzeDraws(
+      [c('A', 'hearts'), c('K', 'diamonds')],
+      [c('9', 'hearts'), c('6', 'hearts'), c('2', 'hearts')]
+    );
+
+    const overcards = analysis.draws.find(draw => draw.type === 'overcards');
+    expect(overcards?.outs.some(card => card.suit === 'hearts')).toBe(false);
+    expect(overcards?.outs).toHaveLength(5);
+    expect(analysis.draws.reduce((sum, draw) => sum + draw.outs.length, 0)).toBe(analysis.outs.length);
+    expect(analysis.outs).toHaveLength(14);
+  });
+
+  it('should flag backdoor draws on the flop without counting them as outs', () => {
+    const analysis = analyzeDraws(
+      [c('Q', 'hearts'), c('J', 'hearts')],
+      [c('10', 'hearts'), c('4', 'clubs'), c('Q', 'spades')]
+    );
+
+    const types = analysis.draws.map(draw => draw.type);
+    expect(types).toContain('backdoor-flush');
+    expect(analysis.draws.find(draw => draw.type === 'backdoor-flush')?.outs).toEqual([]);
+  });
+
+  it('should use the rule of 2 on the turn', () => {
+    const analysis = analyzeDraws(
+      [c('7', 'hearts'), c('6', 'hearts')],
+      [c('K', 'hearts'), c('2', 'hearts'), c('10', 'clubs'), c('J', 'spades')]
+    );
+
+    expect(analysis.cardsToCome).toBe(1);
+    expect(analysis.draws.some(draw => draw.type.startsWith('backdoor'))).toBe(false);
+    expect(describeDraws(analysis)).toBe('9 outs to a flush, about 18% on the river');
+  });
+
+  it('should not report draws to a hand already made', () => {
+    const analysis = analyzeDraws(
+      [c('A', 'hearts'), c('7', 'hearts')],
+      [c('K', 'hearts'), c('2', 'hearts'), c('9', 'hearts')]
+    );
+
+    expect(analysis.draws.find(draw => draw.type === 'flush')).toBeUndefined();
+  });
+
+  it('should ignore a straight the board makes on its own', () => {
+    const analysis = analyzeDraws(
+      [c('2', 'spades'), c('2', 'hearts')],
+      [c('9', 'clubs'), c('8', 'diamonds'), c('7', 'spades'), c('6', 'hearts')]
+    );
+
+    expect(analysis.draws.find(draw => draw.type === 'open-ended')).toBeUndefined();
+    expect(analysis.draws.find(draw => draw.type === 'gutshot')).toBeUndefined();
+  });
+
+  it('should return no draws pre-flop or on the river', () => {
+    const hole = [c('A', 'hearts'), c('7', 'hearts')];
+    expect(analyzeDraws(hole, []).draws).toEqual([]);
+    expect(analyzeDraws(hole, [
+      c('K', 'hearts'), c('2', 'hearts'), c('9', 'clubs'), c('4', 'spades'), c('5', 'diamonds'),
+    ]).draws).toEqual([]);
+  });
+});
+
+describe('describeDraw', () => {
+  it('should label a draw with its out count', () => {
+    const outs = [c('7', 'spades'), c('7', 'hearts'), c('7', 'clubs'), c('7', 'diamonds')];
+    expect(describeDraw({ type: 'gutshot', outs })).toBe('Gutshot straight draw (4 outs)');
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Draw detection and outs counting.
+ * Finds flush draws, straight draws, overcards and backdoor draws for a
+ * hand on the flop or turn, lists the exact out cards and estimates the
+ * chance of hitting with the rule of 2 and 4.
+ */
+
+import { Card, GameVariant, HandRank } from '../types/game';
+import { RANKS } from '../constants/cards';
+import { createDeck } from './cards';
+import { scoreHand, getHandRankFromScore } from './fastHandEvaluator';
+
+/**
+ * Kinds of draw the analysis recognises.
+ */
+export type DrawType =
+  | 'flush'
+  | 'open-ended'
+  | 'gutshot'
+  | 'overcards'
+  | 'backdoor-flush'
+  | 'backdoor-straight';
+
+/**
+ * A single draw and the unseen cards that complete it.
+ */
+export interface Draw {
+  /** Kind of draw */
+  type: DrawType;
+  /** Unseen cards that complete the draw (empty for backdoor draws) */
+  outs: Card[];
+}
+
+/**
+ * Result of analysing a hand's draws.
+ */
+export interface DrawAnalysis {
+  /** Every draw found, strongest first */
+  draws: Draw[];
+  /** Distinct out cards across all draws */
+  outs: Card[];
+  /** Number of board cards still to come (0, 1 or 2) */
+  cardsToCome: number;
+  /** Approximate chance (0-100) of hitting an out on the next card */
+  nextCard: number;
+  /** Approximate chance (0-100) of hitting an out by the river */
+  byRiver: number;
+}
+
+/** What each draw is drawing to, for descriptions */
+const DRAW_TARGETS: Record<DrawType, string> = {
+  'flush': 'a flush',
+  'open-ended': 'an open-ended straight',
+  'gutshot': 'a gutshot straight',
+  'overcards': 'a pair above the board',
+  'backdoor-flush': 'a backdoor flush',
+  'backdoor-straight': 'a backdoor straight',
+};
+
+/** Rank index lookup (2 = 0 ... A = 12) */
+const RANK_VALUE = new Map<Card['rank'], number>(RANKS.map((rank, index) => [rank, index]));
+
+/**
+ * Builds a rank bitmask (bit n set for rank index n).
+ */
+function rankMask(cards: Card[]): number {
+  return cards.reduce((mask, card) => mask | (1 << RANK_VALUE.get(card.rank)!), 0);
+}
+
+/**
+ * Shifts a rank mask up one bit and copies the ace into bit 0, so
+ * A-2-3-4-5 lines up like any other five-rank window.
+ */
+function withLowAce(mask: number): number {
+  return (mask << 1) | ((mask >> 12) & 1);
+}
+
+/**
+ * Checks whether a rank mask contains five consecutive ranks.
+ */
+function hasStraight(mask: number): boolean {
+  const bits = withLowAce(mask);
+  for (let low = 0; low <= 9; low++) {
+    if (((bits >> low) & 0x1f) === 0x1f) return true;
+  }
+  return false;
+}
+
+/**
+ * Checks whether a straight draw is open-ended: four ranks in a row with
+ * both the rank below and the rank above completing the straight. Two
+ * completing ranks without such a run make a double gutshot.
+ * @param mask - Rank mask of the hole and board cards
+ * @param completing - Rank indexes that complete a straight
+ */
+function isOpenEnded(mask: number, completing: number[]): boolean {
+  const bits = withLowAce(mask);
+  const ends = withLowAce(completing.reduce((m, value) => m | (1 << value), 0));
+  for (let low = 1; low <= 9; low++) {
+    if (((bits >> low) & 0xf) === 0xf && ((ends >> (low - 1)) & 1) && ((ends >> (low + 4)) & 1)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Counts set bits in a small mask.
+ */
+function bitCount(mask: number): number {
+  let count = 0;
+  for (let m = mask; m; m &= m - 1) count++;
+  return count;
+}
+
+/**
+ * Estimates the chance of hitting one of `outs` with the rule of 2 and 4.
+ * With two cards to come, outs beyond 8 are trimmed by one each, which keeps
+ * big draws close to the true odds.
+ * @param outs - Number of outs
+ * @param cardsToCome - Board cards still to be dealt
+ * @returns Approximate percentage (0-100)
+ */
+export function ruleOfTwoAndFour(outs: number, cardsToCome: number): number {
+  if (cardsToCome <= 0) return 0;
+  const estimate = cardsToCome >= 2 ? outs * 4 - Math.max(0, outs - 8) : outs * 2;
+  return Math.min(100, estimate);
+}
+
+/**
+ * Finds the hand's draws and out cards.
+ * Only the flop and turn have draws; pre-flop and river return an empty analysis.
+ * Outs are counted against a full Hold'em deck, so other variants return an
+ * empty analysis too.
+ * @param holeCards - The player's two hole cards
+ * @param communityCards - Board cards dealt so far
+ * @param variant - Poker variant (Texas Hold'em by default)
+ * @returns Draws, distinct outs and rule-of-2-and-4 percentages
+ */
+export function analyzeDraws(holeCards: Card[], communityCards: Card[], variant: GameVariant = 'holdem'): DrawAnalysis {
+  const cardsToCome = communityCards.length >= 3 ? 5 - communityCards.length : 0;
+  if (variant !== 'holdem' || holeCards.length !== 2 || cardsToCome === 0) {
+    return { draws: [], outs: [], cardsToCome, nextCard: 0, byRiver: 0 };
+  }
+
+  const allCards = [...holeCards, ...communityCards];
+  const madeRank = getHandRankFromScore(scoreHand(allCards));
+  const seen = new Set(allCards.map(card => `${card.rank}-${card.suit}`));
+  const unseen = createDeck().filter(card => !seen.has(`${card.rank}-${card.suit}`));
+  const draws: Draw[] = [];
+
+  // Flush draws: four (or, on the flop, three) of a suit including a hole card
+  let hasFlushDraw = false;
+  if (madeRank < HandRank.Flush) {
+    for (const suit of new Set(holeCards.map(card => card.suit))) {
+      const suitCount = allCards.filter(card => card.suit === suit).length;
+      if (suitCount === 4) {
+        draws.push({ type: 'flush', outs: unseen.filter(card => card.suit === suit) });
+        hasFlushDraw = true;
+      } else if (suitCount === 3 && cardsToCome === 2) {
+        draws.push({ type: 'backdoor-flush', outs: [] });
+      }
+    }
+  }
+
+  // Straight draws: ranks that complete a straight the board does not make by itself
+  let hasStraightDraw = false;
+  if (madeRank < HandRank.Straight) {
+    const allMask = rankMask(allCards);
+    const boardMask = rankMask(communityCards);
+    const completing: number[] = [];
+    for (let value = 0; value < RANKS.length; value++) {
+      const bit = 1 << value;
+      if (hasStraight(allMask | bit) && !hasStraight(boardMask | bit)) {
+        completing.push(value);
+      }
+    }
+
+    if (completing.length > 0) {
+      const ranks = new Set(completing.map(value => RANKS[value]));
+      draws.push({
+        type: isOpenEnded(allMask, completing) ? 'open-ended' : 'gutshot',
+        outs: unseen.filter(card => ranks.has(card.rank)),
+      });
+      hasStraightDraw = true;
+    } else if (cardsToCome === 2) {
+      // Backdoor: three ranks of a five-rank window, one of them a hole card
+      const bits = withLowAce(allMask);
+      const holeBits = withLowAce(rankMask(holeCards));
+      for (let low = 0; low <= 9; low++) {
+        const window = 0x1f << low;
+        if (bitCount(bits & window) >= 3 && (holeBits & window)) {
+          draws.push({ type: 'backdoor-straight', outs: [] });
+          break;
+        }
+      }
+    }
+  }
+
+  // Overcards: with no made hand, hole cards above every board card
+  if (madeRank === HandRank.HighCard) {
+    const topBoard = Math.max(...communityCards.map(card => RANK_VALUE.get(card.rank)!));
+    const overRanks = new Set(
+      holeCards.filter(card => RANK_VALUE.get(card.rank)! > topBoard).map(card => card.rank)
+    );
+    // Cards that already complete a flush or straight are that draw's outs
+    const counted = new Set(draws.flatMap(draw => draw.outs));
+    const overOuts = unseen.filter(card => overRanks.has(card.rank) && !counted.has(card));
+    if (overOuts.length > 0) {
+      draws.push({ type: 'overcards', outs: overOuts });
+    }
+  }
+
+  // Keep backdoor draws last, behind anything with direct outs
+  draws.sort((a, b) => Number(a.outs.length === 0) - Number(b.outs.length === 0));
+
+  const outKeys = new Set<string>();
+  const outs: Card[] = [];
+  for (const draw of draws) {
+    for (const card of draw.outs) {
+      const key = `${card.rank}-${card.suit}`;
+      if (!outKeys.has(key)) {
+        outKeys.add(key);
+        outs.push(card);
+      }
+    }
+  }
+
+  // A made straight or flush draw already covers what a backdoor draw adds
+  const filtered = draws.filter(draw =>
+    !(draw.type === 'backdoor-flush' && hasFlushDraw) &&
+    !(draw.type === 'backdoor-straight' && hasStraightDraw)
+  );
+
+  return {
+    draws: filtered,
+    outs,
+    cardsToCome,
+    nextCard: ruleOfTwoAndFour(outs.length, 1),
+    byRiver: ruleOfTwoAndFour(outs.length, cardsToCome),
+  };
+}
+
+/**
+ * Gets a short label for a draw.
+ * Example: "Flush draw (9 outs)"
+ */
+export function describeDraw(draw: Draw): string {
+  switch (draw.type) {
+    case 'flush':
+      return `Flush draw (${draw.outs.length} outs)`;
+    case 'open-ended':
+      return `Open-ended straight draw (${draw.outs.length} outs)`;
+    case 'gutshot':
+      return `Gutshot straight draw (${draw.outs.length} outs)`;
+    case 'overcards':
+      return `Overcards (${draw.outs.length} outs)`;
+    case 'backdoor-flush':
+      return 'Backdoor flush draw (needs two more cards of the suit)';
+    case 'backdoor-straight':
+      return 'Backdoor straight draw (needs two more cards)';
+  }
+}
+
+/**
+ * Summarises an analysis as a single sentence for beginners.
+ * Example: "9 outs to a flush, about 35% by the river"
+ * @returns The summary, or an empty string when there is nothing to draw to
+ */
+export function describeDraws(analysis: DrawAnalysis): string {
+  const live = analysis.draws.filter(draw => draw.outs.length > 0);
+
+  if (live.length === 0) {
+    const backdoor = analysis.draws[0];
+    return backdoor ? `Only ${DRAW_TARGETS[backdoor.type]} draw - you'd need help on both the turn and river` : '';
+  }
+
+  const targets = live.map(draw => DRAW_TARGETS[draw.type]).join(' or ');
+  const odds = analysis.cardsToCome >= 2
+    ? `about ${analysis.byRiver}% by the river`
+    : `about ${analysis.nextCard}% on the river`;
+
+  return `${analysis.outs.length} outs to ${targets}, ${odds}`;
+}
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for the equity calculator.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateEquity, calculateShowdownEquity } from './equity';
+import { createSeededRandom } from './random';
+import { Card } from '../types/game';
+
+// Helper to create a card
+const c = (rank: Card['rank'], suit: Card['suit']): Card => ({ rank, suit });
+
+describe('calculateEquity', () => {
+  it('should enumerate every opponent holding on the river', () => {
+    const result = calculateEquity(
+      [c('A', 'spades'), c('A', 'hearts')],
+      [c('2', 'clubs'), c('7', 'diamonds'), c('9', 'spades'), c('J', 'hearts'), c('4', 'clubs')],
+      1
+    );
+
+    expect(result.method).toBe('exact');
+    expect(result.samples).toBe(990);
+    expect(result.win + result.tie + result.lose).toBeCloseTo(100, 0);
+    expect(result.win).toBeGreaterThan(80);
+  });
+
+  it('should enumerate every river card and opponent holding on the turn', () => {
+    const result = calculateEquity(
+      [c('K', 'hearts'), c('Q', 'hearts')],
+      [c('2', 'hearts'), c('7', 'hearts'), c('9', 'spades'), c('3', 'clubs')],
+      1
+    );
+
+    expect(result.method).toBe('exact');
+    expect(result.samples).toBe(46 * 990);
+  });
+
+  it('should report a certain win with the nuts on the river', () => {
+    const result = calculateEquity(
+      [c('A', 'spades'), c('K', 'spades')],
+      [c('Q', 'spades'), c('J', 'spades'), c('10', 'spades'), c('2', 'hearts'), c('3', 'clubs')],
+      1
+    );
+
+    expect(result).toMatchObject({ win: 100, tie: 0, lose: 0 });
+  });
+
+  it('should report a certain tie when the board plays', () => {
+    const result = calculateEquity(
+      [c('2', 'hearts'), c('3', 'diamonds')],
+      [c('A', 'spades'), c('K', 'spades'), c('Q', 'spades'), c('J', 'spades'), c('10', 'spades')],
+      1
+    );
+
+    expect(result).toMatchObject({ win: 0, tie: 100, lose: 0 });
+  });
+
+  it('should sample before the turn', () => {
+    const result = calculateEquity([c('A', 'spades'), c('A', 'hearts')], [], 1, {
+      iterations: 3000,
+      rng: createSeededRandom(7),
+    });
+
+    expect(result.method).toBe('monte-carlo');
+    expect(result.samples).toBe(3000);
+    // Pocket aces win about 85% heads-up
+    expect(result.win).toBeGreaterThan(81);
+    expect(result.win).toBeLessThan(89);
+  });
+
+  it('should count every opponent holding on the river against several opponents', () => {
+    const result = calculateEquity(
+      [c('A', 'spades'), c('A', 'hearts')],
+      [c('2', 'clubs'), c('7', 'diamonds'), c('9', 'spades'), c('J', 'hearts'), c('4', 'clubs')],
+      3
+    );
+
+    expect(result.method).toBe('exact');
+    expect(result.samples).toBe(990 * 903 * 820);
+    expect(result.win + result.tie + result.lose).toBeCloseTo(100, 0);
+  });
+
+  it('should count every deal on the turn against a full table', () => {
+    // A royal flush on the turn cannot be beaten or tied
+    const result = calculateEquity(
+      [c('A', 'hearts'), c('K', 'hearts')],
+      [c('Q', 'hearts'), c('J', 'hearts'), c('10', 'hearts'), c('2', 'clubs')],
+      5
+    );
+
+    expect(result).toMatchObject({ win: 100, tie: 0, lose: 0, method: 'exact' });
+    expect(result.samples).toBe(46 * 990 * 903 * 820 * 741 * 666);
+  });
+
+  it('should lose equity against more opponents', () => {
+    const hole = [c('A', 'spades'), c('K', 'spades')];
+    const headsUp = calculateEquity(hole, [], 1);
+    const fourWay = calculateEquity(hole, [], 3);
+
+    expect(fourWay.win).toBeLessThan(headsUp.win);
+  });
+
+  it('should give the same answer for the same spot', () => {
+    const hole = [c('8', 'diamonds'), c('9', 'diamonds')];
+    const board = [c('10', 'diamonds'), c('J', 'clubs'), c('2', 'diamonds')];
+
+    expect(calculateEquity(hole, board, 2)).toEqual(calculateEquity(hole, board, 2));
+  });
+
+  it('should win outright with no opponents left', () => {
+    expect(calculateEquity([c('2', 'hearts'), c('7', 'clubs')], [], 0))
+      .toMatchObject({ win: 100, tie: 0, lose: 0 });
+  });
+
+  it('should throw for invalid cards', () => {
+    expect(() => calculateEquity([c('A', 'spades')], [], 1)).toThrow('2 hole cards');
+    expect(() => calculateEquity([c('A', 'spades'), c('A', 'spades')], [], 1)).toThrow('distinct');
+  });
+});
+
+describe('calculateShowdownEquity', () => {
+  it('should enumerate every runout against known hands from the flop', () => {
+    const result = calculateShowdownEquity(
+      [c('A', 'spades'), c('A', 'hearts')],
+      [[c('K', 'spades'), c('K', 'hearts')]],
+      [c('2', 'clubs'), c('7', 'diamonds'), c('9', 'clubs')]
+    );
+
+    expect(result.method).toBe('exact');
+    expect(result.samples).toBe(990);
+    expect(result.win).toBeGreaterThan(85);
+  });
+
+  it('should sample an all-in before the flop', () => {
+    const result = calculateShowdownEquity(
+      [c('A', 'spades'), c('A', 'hearts')],
+      [[c('K', 'spades'), c('K', 'hearts')]],
+      [],
+      { iterations: 3000, rng: createSeededRandom(7) }
+    );
+
+    expect(result.method).toBe('monte-carlo');
+    expect(result.win).toBeGreaterThan(75);
+    expect(result.win).toBeLessThan(88);
+  });
+
+  it('should reject duplicated cards', () => {
+    expect(() => calculateShowdownEquity(
+      [c('A', 'spades'), c('A', 'hearts')],
+      [[c('A', 'spades'), c('K', 'hearts')]],
+      []
+    )).toThrow('distinct');
+  });
+});
@@ -0,0 +1,660 @@
+/**
+ * Equity calculator for Texas Hold'em.
+ * Works out how often a hand wins, ties or loses against a number of
+ * opponents holding unknown cards, exactly on the turn and river and by
+ * Monte Carlo sampling earlier in the hand. Once hands are
+ * turned over for an all-in, it can also work out equity against known hands.
+ */
+
+import { Card } from '../types/game';
+import { createDeck } from './cards';
+import { encodeCard, scoreCodes } from './fastHandEvaluator';
+import { createSeededRandom, RandomSource } from './random';
+
+/**
+ * Win/tie/lose breakdown for a hand.
+ */
+export interface EquityResult {
+  /** Percentage of deals the hand wins outright (0-100) */
+  win: number;
+  /** Percentage of deals the hand splits the pot (0-100) */
+  tie: number;
+  /** Percentage of deals the hand loses (0-100) */
+  lose: number;
+  /** How the result was produced */
+  method: 'exact' | 'monte-carlo';
+  /** Number of deals evaluated */
+  samples: number;
+}
+
+/**
+ * Options for calculateEquity.
+ */
+export interface EquityOptions {
+  /** Monte Carlo sample count (default DEFAULT_EQUITY_ITERATIONS) */
+  iterations?: number;
+  /** Random source for sampling (defaults to a stream seeded from the cards) */
+  rng?: RandomSource;
+}
+
+/** Monte Carlo samples used when no iteration count is given */
+export const DEFAULT_EQUITY_ITERATIONS = 2000;
+
+/**
+ * Largest number of runouts enumerated exactly against known hands. All-ins
+ * with more runouts than this (before the flop) are sampled instead.
+ */
+export const MAX_EXACT_DEALS = 100000;
+
+/** Running win/tie/lose counts */
+interface EquityTally {
+  win: number;
+  tie: number;
+  lose: number;
+}
+
+/**
+ * Number of ways to choose k items from n.
+ */
+function choose(n: number, k: number): number {
+  if (k < 0 || k > n) return 0;
+  let result = 1;
+  for (let i = 0; i < k; i++) {
+    result = (result * (n - i)) / (i + 1);
+  }
+  return result;
+}
+
+/**
+ * Number of ways to deal hole cards to each opponent in turn from the
+ * remaining cards.
+ */
+function countOpponentDeals(remaining: number, opponents: number): number {
+  let deals = 1;
+  for (let i = 0; i < opponents; i++) {
+    deals *= choose(remaining - 2 * i, 2);
+  }
+  return deals;
+}
+
+/**
+ * Derives a stable seed from the known cards, so the same spot always
+ * samples the same deals and the game's own random stream is left alone.
+ */
+function seedFromCards(codes: number[], opponents: number): number {
+  let hash = opponents + 1;
+  for (const code of codes) {
+    hash = (Math.imul(hash, 31) + code + 1) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Records one deal's outcome given the hero's score and the best opponent score.
+ */
+function settle(tally: EquityTally, heroScore: number, bestOpponent: number): void {
+  if (heroScore > bestOpponent) {
+    tally.win++;
+  } else if (heroScore === bestOpponent) {
+    tally.tie++;
+  } else {
+    tally.lose++;
+  }
+}
+
+/**
+ * Groups the unseen cards into classes that play alike on a complete board:
+ * cards of one rank are interchangeable unless their suit could make a
+ * flush, which needs three or more of it on the board.
+ */
+function groupCards(deck: number[], board: ArrayLike<number>): number[][] {
+  const suitCounts = [0, 0, 0, 0];
+  for (let i = 0; i < board.length; i++) {
+    suitCounts[board[i] & 3]++;
+  }
+
+  const classes = new Map<number, number[]>();
+  for (const code of deck) {
+    const suit = code & 3;
+    // Rank in the high bits, and the suit only when it can make a flush
+    const key = (code >> 2) * 5 + (suitCounts[suit] >= 3 ? suit + 1 : 0);
+    const members = classes.get(key);
+    if (members) {
+      members.push(code);
+    } else {
+      classes.set(key, [code]);
+    }
+  }
+  return [...classes.values()];
+}
+
+/**
+ * Counts the ways to deal hole cards to the opponents, seat by seat, so that
+ * every hand pairs two classes the caller allows.
+ * Counts sets of allowed hands directly when allowed hands are the fewer,
+ * and otherwise takes away, by inclusion-exclusion, the deals with some
+ * disallowed hands.
+ * @param sizes - Number of cards in each class
+ * @param allowed - Whether a hand with a card of each of two classes is allowed
+ * @param opponents - Number of hands to deal
+ */
+function countAllowedDeals(sizes: number[], allowed: boolean[][], opponents: number): number {
+  const cards = sizes.reduce((sum, size) => sum + size, 0);
+  let allowedHands = 0;
+  sizes.forEach((size, a) => {
+    allowedHands += allowed[a][a] ? choose(size, 2) : 0;
+    for (let b = a + 1; b < sizes.length; b++) {
+      allowedHands += allowed[a][b] ? size * sizes[b] : 0;
+    }
+  });
+
+  // Each set of hands can be dealt to the opponents in any seat order
+  const seatOrders = fallingFactorial(opponents, opponents);
+  if (allowedHands <= choose(cards, 2) / 2) {
+    return countHandSets(sizes, allowed, opponents)[opponents] * seatOrders;
+  }
+
+  const disallowedSets = countHandSets(sizes, allowed.map(row => row.map(ok => !ok)), opponents);
+  let sets = 0;
+  disallowedSets.forEach((count, disallowed) => {
+    const free = cards - 2 * disallowed;
+    const others = opponents - disallowed;
+    sets += (disallowed % 2 === 0 ? 1 : -1) * count * choose(free, 2 * others) * doubleFactorial(2 * others - 1);
+  });
+  // The sum is a whole number; rounding clears floating-point error
+  return Math.max(0, Math.round(sets)) * seatOrders;
+}
+
+/**
+ * Counts the sets of disjoint hands, of each size up to maxHands, that pair
+ * two classes the caller allows.
+ * Works through the classes in order, carrying the cards still waiting for a
+ * partner from a later class, so sets are counted without visiting them
+ * one by one.
+ * @param classSizes - Number of cards in each class
+ * @param classAllowed - Whether a hand with a card of each of two classes is allowed
+ * @param maxHands - Largest set size to count
+ * @returns The number of sets of each size, indexed by size
+ */
+function countHandSets(classSizes: number[], classAllowed: boolean[][], maxHands: number): number[] {
+  const { sizes, partners } = mergeClasses(classSizes, classAllowed);
+  const classCount = sizes.length;
+  const pairs = (a: number, b: number) => ((partners[a] >> b) & 1) === 1;
+
+  // The last class that can complete a hand started in each class
+  const lastPartner = partners.map((mask, a) => {
+    const later = mask >>> (a + 1);
+    return later === 0 ? -1 : a + 1 + 31 - Math.clz32(later);
+  });
+
+  interface DealState {
+    /** Cards of each earlier class waiting for a partner */
+    waiting: number[];
+    /** Hands completed so far */
+    hands: number;
+    /** Ways to reach this state */
+    ways: number;
+  }
+
+  let states: DealState[] = [{ waiting: new Array(classCount).fill(0), hands: 0, ways: 1 }];
+
+  for (let c = 0; c < classCount; c++) {
+    const size = sizes[c];
+    const closers = sizes.map((_, a) => a).filter(a => a < c && pairs(a, c));
+    const next = new Map<string, DealState>();
+
+    // Waiting cards whose classes pair alike with every class still to come
+    // are interchangeable from here on, so they are counted together
+    const future = ~((2 << c) - 1);
+    const kinds = new Map<number, number>();
+    const sameFuture = partners.map((mask, a) => {
+      const kind = mask & future;
+      if (!kinds.has(kind)) kinds.set(kind, a);
+      return kinds.get(kind)!;
+    });
+
+    const add = (waiting: number[], hands: number, ways: number) => {
+      let key = String.fromCharCode(65 + hands);
+      for (let a = 0; a <= c; a++) {
+        key += String.fromCharCode(65 + waiting[a]);
+      }
+      const existing = next.get(key);
+      if (existing) {
+        existing.ways += ways;
+      } else {
+        next.set(key, { waiting: waiting.slice(), hands, ways });
+      }
+    };
+
+    states.forEach(state => {
+      let open = 0;
+      state.waiting.forEach(count => { open += count; });
+      const closing = state.waiting.slice();
+
+      // Close some of the waiting cards with cards of this class; cards that
+      // no later class can partner must close here
+      const close = (index: number, closed: number, ways: number) => {
+        if (index === closers.length) {
+          const left = size - closed;
+          const hands = state.hands + closed;
+          const canonical = new Array(classCount).fill(0);
+          closing.forEach((count, a) => {
+            canonical[sameFuture[a]] += count;
+          });
+          ways *= fallingFactorial(size, closed);
+
+          // Then pair cards of this class together, and start hands for later classes
+          for (let selfPairs = 0; 2 * selfPairs <= left; selfPairs++) {
+            if (selfPairs > 0 && !pairs(c, c)) break;
+            const pairWays = choose(left, 2 * selfPairs) * doubleFactorial(2 * selfPairs - 1);
+            const unpaired = left - 2 * selfPairs;
+            for (let started = 0; started <= unpaired; started++) {
+              if (started > 0 && lastPartner[c] < 0) break;
+              if (hands + selfPairs + open - closed + started > maxHands) break;
+              canonical[sameFuture[c]] += started;
+              add(canonical, hands + selfPairs, ways * pairWays * choose(unpaired, started));
+              canonical[sameFuture[c]] -= started;
+            }
+          }
+          return;
+        }
+
+        const a = closers[index];
+        const count = state.waiting[a];
+        const mustClose = lastPartner[a] === c;
+        for (let closes = mustClose ? count : 0; closes <= count && closed + closes <= size; closes++) {
+          closing[a] = count - closes;
+          close(index + 1, closed + closes, ways * choose(count, closes));
+        }
+        closing[a] = count;
+      };
+
+      close(0, 0, state.ways);
+    });
+
+    states = [...next.values()];
+  }
+
+  const sets = new Array(maxHands + 1).fill(0);
+  states.forEach(state => {
+    if (state.waiting.every(count => count === 0)) {
+      sets[state.hands] += state.ways;
+    }
+  });
+  return sets;
+}
+
+/**
+ * Merges classes whose cards make allowed hands with exactly the same cards,
+ * each other included, and orders them so that, at each step of the count,
+ * the cards waiting for a partner fall into as few kinds as possible.
+ * @returns The merged class sizes, and for each class a bit mask of the
+ * classes it may make a hand with
+ */
+function mergeClasses(sizes: number[], allowed: boolean[][]): { sizes: number[]; partners: number[] } {
+  const merged = sizes.map((size, a) => ({ size, row: allowed[a].slice() }));
+  const classes = merged.map((_, a) => a);
+
+  for (let i = 0; i < classes.length; i++) {
+    for (let j = i + 1; j < classes.length; j++) {
+      const a = classes[i];
+      const b = classes[j];
+      const across = merged[a].row[b];
+      const fits = (merged[a].size < 2 || merged[a].row[a] === across) &&
+        (merged[b].size < 2 || merged[b].row[b] === across) &&
+        classes.every(x => x === a || x === b || merged[a].row[x] === merged[b].row[x]);
+      if (fits) {
+        merged[a].size += merged[b].size;
+        merged[a].row[a] = across;
+        classes.splice(j, 1);
+        j--;
+      }
+    }
+  }
+
+  // Partner masks over the merged classes, before ordering
+  const masks = classes.map(a => classes.reduce((mask, b, bit) => (merged[a].row[b] ? mask | (1 << bit) : mask), 0));
+
+  // Greedily take next the class that leaves the fewest kinds of waiting
+  // card, a kind being the set of classes still to come that can partner it
+  const order: number[] = [];
+  let rest = (1 << classes.length) - 1;
+  while (rest !== 0) {
+    let best = -1;
+    let bestKinds = Infinity;
+    for (let candidate = 0; candidate < classes.length; candidate++) {
+      if (!((rest >> candidate) & 1)) continue;
+      const after = rest & ~(1 << candidate);
+      const kinds = new Set([...order, candidate].map(a => masks[a] & after));
+      if (kinds.size < bestKinds) {
+        best = candidate;
+        bestKinds = kinds.size;
+      }
+    }
+    order.push(best);
+    rest &= ~(1 << best);
+  }
+
+  const position = new Array(classes.length);
+  order.forEach((index, at) => { position[index] = at; });
+  return {
+    sizes: order.map(index => merged[classes[index]].size),
+    partners: order.map(index => {
+      let mask = 0;
+      for (let bit = 0; bit < classes.length; bit++) {
+        if ((masks[index] >> bit) & 1) mask |= 1 << position[bit];
+      }
+      return mask;
+    }),
+  };
+}
+
+/**
+ * Product n * (n - 1) * ... of k factors.
+ */
+function fallingFactorial(n: number, k: number): number {
+  let result = 1;
+  for (let i = 0; i < k; i++) {
+    result *= n - i;
+  }
+  return result;
+}
+
+/**
+ * Product of the odd numbers up to n (1 for n below 1): the number of ways
+ * to pair up n + 1 cards.
+ */
+function doubleFactorial(n: number): number {
+  let result = 1;
+  for (let i = n; i > 1; i -= 2) {
+    result *= i;
+  }
+  return result;
+}
+
+/**
+ * Counts the wins, ties and losses over every assignment of opponent hole
+ * cards on a complete board.
+ * Boards that leave the same classes beating, tying and losing to the hand
+ * (river cards of one rank, mostly) are counted once, through the cache.
+ */
+function tallyBoard(
+  tally: EquityTally,
+  hero: number[],
+  fullBoard: Int32Array,
+  deck: number[],
+  opponents: number,
+  cache: Map<string, EquityTally>
+): void {
+  const hand = new Int32Array(7);
+  hand.set(fullBoard, 2);
+  const score = (first: number, second: number): number => {
+    hand[0] = first;
+    hand[1] = second;
+    return scoreCodes(hand);
+  };
+
+  const heroScore = score(hero[0], hero[1]);
+  const classes = groupCards(deck, fullBoard);
+  const sizes = classes.map(members => members.length);
+  const scores = classes.map((first, a) => classes.map((second, b) => {
+    if (a !== b) return score(first[0], second[0]);
+    return first.length >= 2 ? score(first[0], first[1]) : -1;
+  }));
+
+  const key = `${sizes.join(',')}|${scores.map(row => row.map(s => Math.sign(s - heroScore) + 1).join('')).join(',')}`;
+  let board = cache.get(key);
+  if (!board) {
+    const total = countOpponentDeals(deck.length, opponents);
+    const allBelow = countAllowedDeals(sizes, scores.map(row => row.map(s => s < heroScore)), opponents);
+    const noneAbove = countAllowedDeals(sizes, scores.map(row => row.map(s => s <= heroScore)), opponents);
+    board = { win: allBelow, tie: noneAbove - allBelow, lose: total - noneAbove };
+    cache.set(key, board);
+  }
+
+  tally.win += board.win;
+  tally.tie += board.tie;
+  tally.lose += board.lose;
+}
+
+/**
+ * Counts the outcome of every river card and every assignment of opponent
+ * hole cards on the turn or river.
+ */
+function enumerateDeals(
+  hero: number[],
+  board: number[],
+  deck: number[],
+  opponents: number
+): EquityTally {
+  const tally: EquityTally = { win: 0, tie: 0, lose: 0 };
+  const fullBoard = new Int32Array(5);
+  board.forEach((code, i) => { fullBoard[i] = code; });
+
+  const cache = new Map<string, EquityTally>();
+  if (board.length === 5) {
+    tallyBoard(tally, hero, fullBoard, deck, opponents, cache);
+  } else {
+    deck.forEach(river => {
+      fullBoard[4] = river;
+      tallyBoard(tally, hero, fullBoard, deck.filter(code => code !== river), opponents, cache);
+    });
+  }
+  return tally;
+}
+
+/**
+ * Samples random board runouts and opponent hole cards.
+ */
+function sampleDeals(
+  hero: number[],
+  board: number[],
+  deck: number[],
+  opponents: number,
+  iterations: number,
+  rng: RandomSource
+): EquityTally {
+  const tally: EquityTally = { win: 0, tie: 0, lose: 0 };
+  const pool = Int32Array.from(deck);
+  const hand = new Int32Array(7);
+  const fullBoard = new Int32Array(5);
+  board.forEach((code, i) => { fullBoard[i] = code; });
+  const needed = 5 - board.length + opponents * 2;
+
+  for (let n = 0; n < iterations; n++) {
+    // Partial Fisher-Yates: the first `needed` slots become a uniform draw
+    for (let i = 0; i < needed; i++) {
+      const j = i + Math.floor(rng() * (pool.length - i));
+      const temp = pool[i];
+      pool[i] = pool[j];
+      pool[j] = temp;
+    }
+
+    let next = 0;
+    for (let slot = board.length; slot < 5; slot++) {
+      fullBoard[slot] = pool[next++];
+    }
+
+    hand.set(fullBoard, 2);
+    hand[0] = hero[0];
+    hand[1] = hero[1];
+    const heroScore = scoreCodes(hand);
+
+    let bestOpponent = -1;
+    for (let i = 0; i < opponents; i++) {
+      hand[0] = pool[next++];
+      hand[1] = pool[next++];
+      bestOpponent = Math.max(bestOpponent, scoreCodes(hand));
+    }
+
+    settle(tally, heroScore, bestOpponent);
+  }
+
+  return tally;
+}
+
+/**
+ * Converts a count to a percentage rounded to one decimal place.
+ */
+function toPercent(count: number, total: number): number {
+  return Math.round((count / total) * 1000) / 10;
+}
+
+/**
+ * Calculates how often a hand wins, ties and loses against random opponent hands.
+ * Counts every deal exactly on the turn and river, however many opponents are
+ * left, and uses Monte Carlo sampling before that.
+ * @param holeCards - The hand's two hole cards
+ * @param communityCards - Board cards dealt so far (0, 3, 4 or 5)
+ * @param opponents - Number of opponents still in the hand
+ * @param options - Sample count and random source for Monte Carlo
+ * @returns Win/tie/lose percentages
+ * @throws Error if the card counts or iteration count are invalid, or cards are duplicated
+ */
+export function calculateEquity(
+  holeCards: Card[],
+  communityCards: Card[],
+  opponents: number,
+  options: EquityOptions = {}
+): EquityResult {
+  if (holeCards.length !== 2) {
+    throw new Error(`Equity requires 2 hole cards, got ${holeCards.length}`);
+  }
+  if (communityCards.length > 5) {
+    throw new Error(`Equity allows at most 5 community cards, got ${communityCards.length}`);
+  }
+
+  const hero = holeCards.map(encodeCard);
+  const board = communityCards.map(encodeCard);
+  const known = new Set([...hero, ...board]);
+  if (known.size !== hero.length + board.length) {
+    throw new Error('Equity requires distinct cards');
+  }
+
+  // Nobody left to beat
+  if (opponents <= 0) {
+    return { win: 100, tie: 0, lose: 0, method: 'exact', samples: 1 };
+  }
+
+  const deck = createDeck().map(encodeCard).filter(code => !known.has(code));
+
+  let tally: EquityTally;
+  let method: EquityResult['method'];
+  if (board.length >= 4) {
+    tally = enumerateDeals(hero, board, deck, opponents);
+    method = 'exact';
+  } else {
+    const iterations = options.iterations ?? DEFAULT_EQUITY_ITERATIONS;
+    if (iterations < 1) {
+      throw new Error(`Equity needs at least 1 iteration, got ${iterations}`);
+    }
+    const rng = options.rng ?? createSeededRandom(seedFromCards([...hero, ...board], opponents));
+    tally = sampleDeals(hero, board, deck, opponents, iterations, rng);
+    method = 'monte-carlo';
+  }
+
+  const samples = tally.win + tally.tie + tally.lose;
+  return {
+    win: toPercent(tally.win, samples),
+    tie: toPercent(tally.tie, samples),
+    lose: toPercent(tally.lose, samples),
+    method,
+    samples,
+  };
+}
+
+/**
+ * Calculates how often a hand wins, ties and loses against opponents whose
+ * hole cards are known, as when hands are turned over for an all-in runout.
+ * Enumerates every runout when there are at most MAX_EXACT_DEALS of them and
+ * samples otherwise (an all-in before the flop).
+ * @param holeCards - The hand's two hole cards
+ * @param opponentHoleCards - Each opponent's two hole cards
+ * @param communityCards - Board cards dealt before the runout (0, 3, 4 or 5)
+ * @param options - Sample count and random source for Monte Carlo
+ * @returns Win/tie/lose percentages
+ * @throws Error if the card counts are invalid or cards are duplicated
+ */
+export function calculateShowdownEquity(
+  holeCards: Card[],
+  opponentHoleCards: Card[][],
+  communityCards: Card[],
+  options: EquityOptions = {}
+): EquityResult {
+  if ([holeCards, ...opponentHoleCards].some(cards => cards.length !== 2)) {
+    throw new Error('Showdown equity requires 2 hole cards per player');
+  }
+  if (communityCards.length > 5) {
+    throw new Error(`Equity allows at most 5 community cards, got ${communityCards.length}`);
+  }
+
+  const hero = holeCards.map(encodeCard);
+  const opponents = opponentHoleCards.map(cards => cards.map(encodeCard));
+  const board = communityCards.map(encodeCard);
+  const known = new Set([...hero, ...opponents.flat(), ...board]);
+  if (known.size !== hero.length + opponents.length * 2 + board.length) {
+    throw new Error('Equity requires distinct cards');
+  }
+
+  const deck = createDeck().map(encodeCard).filter(code => !known.has(code));
+  const hand = new Int32Array(7);
+  const fullBoard = new Int32Array(5);
+  board.forEach((code, i) => { fullBoard[i] = code; });
+  const tally: EquityTally = { win: 0, tie: 0, lose: 0 };
+
+  const scoreHole = (hole: number[]): number => {
+    hand[0] = hole[0];
+    hand[1] = hole[1];
+    hand.set(fullBoard, 2);
+    return scoreCodes(hand);
+  };
+  const settleBoard = () => {
+    const bestOpponent = opponents.reduce((best, hole) => Math.max(best, scoreHole(hole)), -1);
+    settle(tally, scoreHole(hero), bestOpponent);
+  };
+
+  let method: EquityResult['method'];
+  if (choose(deck.length, 5 - board.length) <= MAX_EXACT_DEALS) {
+    const dealBoard = (slot: number, start: number) => {
+      if (slot === 5) {
+        settleBoard();
+        return;
+      }
+      for (let k = start; k < deck.length; k++) {
+        fullBoard[slot] = deck[k];
+        dealBoard(slot + 1, k + 1);
+      }
+    };
+    dealBoard(board.length, 0);
+    method = 'exact';
+  } else {
+    const iterations = options.iterations ?? DEFAULT_EQUITY_ITERATIONS;
+    if (iterations < 1) {
+      throw new Error(`Equity needs at least 1 iteration, got ${iterations}`);
+    }
+    const rng = options.rng ?? createSeededRandom(seedFromCards([...hero, ...opponents.flat(), ...board], opponents.length));
+    const pool = Int32Array.from(deck);
+    for (let n = 0; n < iterations; n++) {
+      // Partial Fisher-Yates over the board slots still to come
+      for (let slot = board.length; slot < 5; slot++) {
+        const i = slot - board.length;
+        const j = i + Math.floor(rng() * (pool.length - i));
+        const temp = pool[i];
+        pool[i] = pool[j];
+        pool[j] = temp;
+        fullBoard[slot] = pool[i];
+      }
+      settleBoard();
+    }
+    method = 'monte-carlo';
+  }
+
+  const samples = tally.win + tally.tie + tally.lose;
+  return {
+    win: toPercent(tally.win, samples),
+    tie: toPercent(tally.tie, samples),
+    lose: toPercent(tally.lose, samples),
+    method,
+    samples,
+  };
+}
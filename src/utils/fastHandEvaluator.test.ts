@@ -0,0 +1,185 @@
+/**
+ * Unit tests for the lookup-table hand evaluator.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  encodeCard,
+  decodeCard,
+  scoreCodes,
+  scoreHand,
+  getHandRankFromScore,
+  getValuesFromScore,
+  evaluateBestHand,
+} from './fastHandEvaluator';
+import { createDeck, shuffleDeck } from './cards';
+import { createSeededRandom } from './random';
+import { Card, HandRank } from '../types/game';
+
+// Helper to create a card
+const c = (rank: Card['rank'], suit: Card['suit']): Card => ({ rank, suit });
+
+/**
+ * Best score over every 5-card subset, used as a brute-force reference.
+ */
+function bruteForceScore(cards: Card[]): number {
+  let best = -1;
+  const pick = (start: number, chosen: Card[]) => {
+    if (chosen.length === 5) {
+      best = Math.max(best, scoreHand(chosen));
+      return;
+    }
+    for (let i = start; i < cards.length; i++) {
+      pick(i + 1, [...chosen, cards[i]]);
+    }
+  };
+  pick(0, []);
+  return best;
+}
+
+describe('encodeCard / decodeCard', () => {
+  it('should round-trip every card in the deck', () => {
+    const codes = new Set<number>();
+    createDeck().forEach(card => {
+      const code = encodeCard(card);
+      codes.add(code);
+      expect(decodeCard(code)).toEqual(card);
+    });
+    expect(codes.size).toBe(52);
+  });
+});
+
+describe('scoreHand', () => {
+  it('should throw for fewer than 5 or more than 7 cards', () => {
+    expect(() => scoreHand([c('A', 'spades')])).toThrow('5 to 7 cards');
+  });
+
+  it('should categorise each hand rank', () => {
+    const hands: [Card[], HandRank][] = [
+      [[c('A', 'spades'), c('K', 'spades'), c('Q', 'spades'), c('J', 'spades'), c('10', 'spades')], HandRank.RoyalFlush],
+      [[c('9', 'hearts'), c('8', 'hearts'), c('7', 'hearts'), c('6', 'hearts'), c('5', 'hearts')], HandRank.StraightFlush],
+      [[c('K', 'spades'), c('K', 'hearts'), c('K', 'diamonds'), c('K', 'clubs'), c('2', 'spades')], HandRank.FourOfAKind],
+      [[c('A', 'spades'), c('A', 'hearts'), c('A', 'diamonds'), c('K', 'clubs'), c('K', 'spades')], HandRank.FullHouse],
+      [[c('A', 'hearts'), c('J', 'hearts'), c('9', 'hearts'), c('6', 'hearts'), c('3', 'hearts')], HandRank.Flush],
+      [[c('5', 'spades'), c('4', 'hearts'), c('3', 'diamonds'), c('2', 'clubs'), c('A', 'spades')], HandRank.Straight],
+      [[c('Q', 'spades'), c('Q', 'hearts'), c('Q', 'diamonds'), c('7', 'clubs'), c('2', 'spades')], HandRank.ThreeOfAKind],
+      [[c('A', 'spades'), c('A', 'hearts'), c('K', 'diamonds'), c('K', 'clubs'), c('2', 'spades')], HandRank.TwoPair],
+      [[c('J', 'spades'), c('J', 'hearts'), c('9', 'diamonds'), c('5', 'clubs'), c('2', 'spades')], HandRank.Pair],
+      [[c('A', 'spades'), c('J', 'hearts'), c('9', 'diamonds'), c('5', 'clubs'), c('2', 'spades')], HandRank.HighCard],
+    ];
+
+    hands.forEach(([cards, rank]) => {
+      expect(getHandRankFromScore(scoreHand(cards))).toBe(rank);
+    });
+  });
+
+  it('should rank the wheel below a 6-high straight', () => {
+    const wheel = scoreHand([c('A', 'spades'), c('2', 'hearts'), c('3', 'diamonds'), c('4', 'clubs'), c('5', 'spades')]);
+    const sixHigh = scoreHand([c('2', 'spades'), c('3', 'hearts'), c('4', 'diamonds'), c('5', 'clubs'), c('6', 'spades')]);
+    expect(sixHigh).toBeGreaterThan(wheel);
+    expect(getValuesFromScore(wheel)).toEqual([5]);
+  });
+
+  it('should use the highest trips as the pair when two trips are present', () => {
+    const score = scoreHand([
+      c('9', 'spades'), c('9', 'hearts'), c('9', 'diamonds'),
+      c('4', 'clubs'), c('4', 'spades'), c('4', 'hearts'),
+      c('2', 'clubs'),
+    ]);
+    expect(getHandRankFromScore(score)).toBe(HandRank.FullHouse);
+    expect(getValuesFromScore(score)).toEqual([9, 4]);
+  });
+
+  it('should use the third pair as a kicker candidate for two pair', () => {
+    const score = scoreHand([
+      c('K', 'spades'), c('K', 'hearts'), c('Q', 'diamonds'),
+      c('Q', 'clubs'), c('J', 'spades'), c('J', 'hearts'),
+      c('2', 'clubs'),
+    ]);
+    expect(getValuesFromScore(score)).toEqual([13, 12, 11]);
+  });
+
+  it('should match the best 5-card subset for random 6 and 7 card hands', () => {
+    const rng = createSeededRandom(1234);
+
+    for (let trial = 0; trial < 300; trial++) {
+      const deck = shuffleDeck(createDeck(), rng);
+      const seven = deck.slice(0, 7);
+      const six = deck.slice(0, 6);
+      expect(scoreHand(seven)).toBe(bruteForceScore(seven));
+      expect(scoreHand(six)).toBe(bruteForceScore(six));
+    }
+  });
+
+  it('should score encoded cards using only the requested length', () => {
+    const cards = [c('A', 'spades'), c('A', 'hearts'), c('K', 'diamonds'), c('Q', 'clubs'), c('J', 'spades'), c('A', 'clubs')];
+    const codes = new Int32Array(cards.map(encodeCard));
+    expect(scoreCodes(codes, 5)).toBe(scoreHand(cards.slice(0, 5)));
+    expect(scoreCodes(codes)).toBe(scoreHand(cards));
+  });
+});
+
+describe('evaluateBestHand', () => {
+  it('should return the five cards of the best hand, highest first', () => {
+    const result = evaluateBestHand([
+      c('2', 'hearts'), c('9', 'hearts'), c('A', 'hearts'),
+      c('K', 'spades'), c('5', 'hearts'), c('7', 'hearts'), c('3', 'clubs'),
+    ]);
+
+    expect(result.rank).toBe(HandRank.Flush);
+    expect(result.cards.map(card => card.rank)).toEqual(['A', '9', '7', '5', '2']);
+    expect(result.cards.every(card => card.suit === 'hearts')).toBe(true);
+    expect(result.description).toBe('Flush, A-high');
+  });
+
+  it('should include the score alongside the comparison values', () => {
+    const result = evaluateBestHand([
+      c('Q', 'spades'), c('Q', 'hearts'), c('8', 'diamonds'),
+      c('5', 'clubs'), c('3', 'spades'), c('2', 'hearts'), c('9', 'clubs'),
+    ]);
+
+    expect(result.score).toBeDefined();
+    expect(result.values).toEqual([12, 9, 8, 5]);
+    expect(result.description).toBe('Pair of Qs');
+    expect(result.cards).toHaveLength(5);
+  });
+
+  it('should pick the straight cards for a wheel', () => {
+    const result = evaluateBestHand([
+      c('A', 'spades'), c('2', 'hearts'), c('3', 'diamonds'),
+      c('4', 'clubs'), c('5', 'spades'), c('K', 'hearts'), c('K', 'clubs'),
+    ]);
+
+    expect(result.rank).toBe(HandRank.Straight);
+    expect(result.cards.map(card => card.rank)).toEqual(['A', '5', '4', '3', '2']);
+    expect(result.description).toBe('Straight, 5-high');
+  });
+});
+
+describe('short-deck scoring', () => {
+  it('should play A-6-7-8-9 as the lowest straight', () => {
+    const cards = [c('A', 'spades'), c('6', 'hearts'), c('7', 'diamonds'), c('8', 'clubs'), c('9', 'spades'), c('K', 'hearts'), c('J', 'clubs')];
+
+    expect(getHandRankFromScore(scoreHand(cards))).toBe(HandRank.HighCard);
+
+    const result = evaluateBestHand(cards, true);
+    expect(result.rank).toBe(HandRank.Straight);
+    expect(result.cards.map(card => card.rank)).toEqual(['A', '9', '8', '7', '6']);
+    expect(result.description).toBe('Straight, 9-high');
+
+    const sixHigh = scoreHand([c('6', 'spades'), c('7', 'hearts'), c('8', 'diamonds'), c('9', 'clubs'), c('10', 'spades')], true);
+    expect(sixHigh).toBeGreaterThan(result.score!);
+  });
+
+  it('should rank a flush above a full house', () => {
+    const flush = scoreHand([c('A', 'hearts'), c('J', 'hearts'), c('9', 'hearts'), c('7', 'hearts'), c('6', 'hearts')], true);
+    const fullHouse = scoreHand([c('K', 'spades'), c('K', 'hearts'), c('K', 'clubs'), c('Q', 'diamonds'), c('Q', 'clubs')], true);
+    const quads = scoreHand([c('7', 'spades'), c('7', 'hearts'), c('7', 'clubs'), c('7', 'diamonds'), c('6', 'clubs')], true);
+
+    expect(flush).toBeGreaterThan(fullHouse);
+    expect(quads).toBeGreaterThan(flush);
+    expect(getHandRankFromScore(flush)).toBe(HandRank.Flush);
+    expect(getHandRankFromScore(fullHouse)).toBe(HandRank.FullHouse);
+    expect(getValuesFromScore(fullHouse)).toEqual([13, 12]);
+  });
+});
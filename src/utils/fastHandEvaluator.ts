@@ -0,0 +1,389 @@
+/**
+ * High-throughput hand evaluator backed by precomputed rank-mask tables.
+ * Scores any 5, 6 or 7 cards to a single integer where a higher score is a
+ * better hand, with no combination brute-forcing and no allocation in the hot path.
+ *
+ * Score layout (bits):
+ *   24     set for short-deck scores, whose Flush and FullHouse categories
+ *          trade places so that flushes score higher
+ *   20-23  HandRank category
+ *   0-19   up to five 4-bit rank values (2-14), most significant first
+ */
+
+import { Card, HandEvaluation, HandRank, Rank } from '../types/game';
+import { RANKS, SUITS } from '../constants/cards';
+
+/** Number of distinct rank masks (13 ranks) */
+const MASK_COUNT = 1 << 13;
+
+/** Bit offset of the hand category within a score */
+const CATEGORY_SHIFT = 20;
+
+/** Marks a short-deck score (see the score layout above) */
+const SHORT_DECK_FLAG = 1 << 24;
+
+/**
+ * Highest rank index (0 = '2', 12 = 'A') of the best straight contained in
+ * each rank mask, or -1 when the mask holds no straight.
+ */
+const STRAIGHT_HIGH = new Int8Array(MASK_COUNT);
+
+/** STRAIGHT_HIGH for a short deck, where A-6-7-8-9 is the lowest straight */
+const SHORT_DECK_STRAIGHT_HIGH = new Int8Array(MASK_COUNT);
+
+/**
+ * The five highest ranks in each rank mask, packed as 4-bit rank values
+ * (2-14) with the highest rank in bits 16-19. Masks with fewer than five
+ * ranks leave the low nibbles empty.
+ */
+const TOP_FIVE = new Int32Array(MASK_COUNT);
+
+/**
+ * Fills the lookup tables once at module load.
+ */
+function buildTables(): void {
+  const wheel = (1 << 12) | 0b1111;
+  const shortDeckWheel = (1 << 12) | (0b1111 << 4);
+
+  for (let mask = 0; mask < MASK_COUNT; mask++) {
+    let straightHigh = -1;
+    for (let high = 12; high >= 4; high--) {
+      const run = 0b11111 << (high - 4);
+      if ((mask & run) === run) {
+        straightHigh = high;
+        break;
+      }
+    }
+    if (straightHigh === -1 && (mask & wheel) === wheel) {
+      straightHigh = 3; // 5-high straight (A-2-3-4-5)
+    }
+    STRAIGHT_HIGH[mask] = straightHigh;
+    SHORT_DECK_STRAIGHT_HIGH[mask] = straightHigh === -1 && (mask & shortDeckWheel) === shortDeckWheel
+      ? 7 // 9-high straight (A-6-7-8-9)
+      : straightHigh;
+
+    let packed = 0;
+    let taken = 0;
+    for (let rank = 12; rank >= 0 && taken < 5; rank--) {
+      if (mask & (1 << rank)) {
+        packed |= (rank + 2) << (16 - taken * 4);
+        taken++;
+      }
+    }
+    TOP_FIVE[mask] = packed;
+  }
+}
+
+buildTables();
+
+/** Scratch buffers reused across calls (evaluation is synchronous) */
+const rankCounts = new Uint8Array(13);
+const suitMasks = new Int32Array(4);
+const suitCounts = new Uint8Array(4);
+
+/** Rank index lookup for Card objects */
+const RANK_INDEX = new Map<Rank, number>(RANKS.map((rank, index) => [rank, index]));
+
+/** Suit index lookup for Card objects */
+const SUIT_INDEX = new Map<Card['suit'], number>(SUITS.map((suit, index) => [suit, index]));
+
+/**
+ * Encodes a card as an integer 0-51 (rank index * 4 + suit index).
+ * Use encoded cards with scoreCodes for the fastest evaluation.
+ */
+export function encodeCard(card: Card): number {
+  return RANK_INDEX.get(card.rank)! * 4 + SUIT_INDEX.get(card.suit)!;
+}
+
+/**
+ * Decodes an integer produced by encodeCard back into a card.
+ */
+export function decodeCard(code: number): Card {
+  return { rank: RANKS[code >> 2], suit: SUITS[code & 3] };
+}
+
+/**
+ * Scores 5 to 7 encoded cards.
+ * @param codes - Encoded cards (see encodeCard)
+ * @param length - How many entries of codes to use (defaults to all)
+ * @param shortDeck - Score under short-deck rules (A-6-7-8-9 straights, flushes over full houses)
+ * @returns A score where higher beats lower and equal scores tie
+ */
+export function scoreCodes(codes: ArrayLike<number>, length: number = codes.length, shortDeck: boolean = false): number {
+  const score = scoreStandardCodes(codes, length, shortDeck ? SHORT_DECK_STRAIGHT_HIGH : STRAIGHT_HIGH);
+  if (!shortDeck) return score;
+
+  const category = score >> CATEGORY_SHIFT;
+  const swapped = category === HandRank.Flush ? HandRank.FullHouse
+    : category === HandRank.FullHouse ? HandRank.Flush
+    : category;
+  return SHORT_DECK_FLAG | (swapped << CATEGORY_SHIFT) | (score & ((1 << CATEGORY_SHIFT) - 1));
+}
+
+/**
+ * Scores encoded cards with the standard category order.
+ * @param straightHigh - Straight table for the deck being played
+ */
+function scoreStandardCodes(codes: ArrayLike<number>, length: number, straightHigh: Int8Array): number {
+  rankCounts.fill(0);
+  suitMasks.fill(0);
+  suitCounts.fill(0);
+
+  let rankMask = 0;
+  for (let i = 0; i < length; i++) {
+    const code = codes[i];
+    const rank = code >> 2;
+    const suit = code & 3;
+    rankCounts[rank]++;
+    suitMasks[suit] |= 1 << rank;
+    suitCounts[suit]++;
+    rankMask |= 1 << rank;
+  }
+
+  let flushMask = 0;
+  for (let suit = 0; suit < 4; suit++) {
+    if (suitCounts[suit] >= 5) {
+      flushMask = suitMasks[suit];
+      break;
+    }
+  }
+
+  if (flushMask) {
+    const straightFlushHigh = straightHigh[flushMask];
+    if (straightFlushHigh === 12) {
+      return HandRank.RoyalFlush << CATEGORY_SHIFT;
+    }
+    if (straightFlushHigh >= 0) {
+      return (HandRank.StraightFlush << CATEGORY_SHIFT) | ((straightFlushHigh + 2) << 16);
+    }
+  }
+
+  let quads = -1;
+  let tripsHigh = -1;
+  let tripsLow = -1;
+  let pairHigh = -1;
+  let pairLow = -1;
+  for (let rank = 12; rank >= 0; rank--) {
+    const count = rankCounts[rank];
+    if (count === 4) {
+      quads = rank;
+    } else if (count === 3) {
+      if (tripsHigh === -1) tripsHigh = rank;
+      else if (tripsLow === -1) tripsLow = rank;
+    } else if (count === 2) {
+      if (pairHigh === -1) pairHigh = rank;
+      else if (pairLow === -1) pairLow = rank;
+    }
+  }
+
+  if (quads >= 0) {
+    const kicker = TOP_FIVE[rankMask & ~(1 << quads)] >> 16;
+    return (HandRank.FourOfAKind << CATEGORY_SHIFT) | ((quads + 2) << 16) | (kicker << 12);
+  }
+
+  if (tripsHigh >= 0 && (tripsLow >= 0 || pairHigh >= 0)) {
+    const pair = Math.max(tripsLow, pairHigh);
+    return (HandRank.FullHouse << CATEGORY_SHIFT) | ((tripsHigh + 2) << 16) | ((pair + 2) << 12);
+  }
+
+  if (flushMask) {
+    return (HandRank.Flush << CATEGORY_SHIFT) | TOP_FIVE[flushMask];
+  }
+
+  const straightRank = straightHigh[rankMask];
+  if (straightRank >= 0) {
+    return (HandRank.Straight << CATEGORY_SHIFT) | ((straightRank + 2) << 16);
+  }
+
+  if (tripsHigh >= 0) {
+    const kickers = TOP_FIVE[rankMask & ~(1 << tripsHigh)] >> 12;
+    return (HandRank.ThreeOfAKind << CATEGORY_SHIFT) | ((tripsHigh + 2) << 16) | (kickers << 8);
+  }
+
+  if (pairLow >= 0) {
+    const kicker = TOP_FIVE[rankMask & ~(1 << pairHigh) & ~(1 << pairLow)] >> 16;
+    return (HandRank.TwoPair << CATEGORY_SHIFT) | ((pairHigh + 2) << 16) | ((pairLow + 2) << 12) | (kicker << 8);
+  }
+
+  if (pairHigh >= 0) {
+    const kickers = TOP_FIVE[rankMask & ~(1 << pairHigh)] >> 8;
+    return (HandRank.Pair << CATEGORY_SHIFT) | ((pairHigh + 2) << 16) | (kickers << 4);
+  }
+
+  return (HandRank.HighCard << CATEGORY_SHIFT) | TOP_FIVE[rankMask];
+}
+
+/**
+ * Scores 5 to 7 cards.
+ * @param cards - The cards to score
+ * @param shortDeck - Score under short-deck rules
+ * @returns A score where higher beats lower and equal scores tie
+ * @throws Error if fewer than 5 or more than 7 cards are given
+ */
+export function scoreHand(cards: Card[], shortDeck: boolean = false): number {
+  if (cards.length < 5 || cards.length > 7) {
+    throw new Error(`Hand scoring requires 5 to 7 cards, got ${cards.length}`);
+  }
+  return scoreCodes(cards.map(encodeCard), cards.length, shortDeck);
+}
+
+/**
+ * Extracts the HandRank category from a score.
+ */
+export function getHandRankFromScore(score: number): HandRank {
+  const category = ((score >> CATEGORY_SHIFT) & 0xf) as HandRank;
+  if (!(score & SHORT_DECK_FLAG)) return category;
+
+  if (category === HandRank.Flush) return HandRank.FullHouse;
+  if (category === HandRank.FullHouse) return HandRank.Flush;
+  return category;
+}
+
+/** Number of meaningful rank nibbles for each category */
+const VALUE_COUNTS: Record<HandRank, number> = {
+  [HandRank.HighCard]: 5,
+  [HandRank.Pair]: 4,
+  [HandRank.TwoPair]: 3,
+  [HandRank.ThreeOfAKind]: 3,
+  [HandRank.Straight]: 1,
+  [HandRank.Flush]: 5,
+  [HandRank.FullHouse]: 2,
+  [HandRank.FourOfAKind]: 2,
+  [HandRank.StraightFlush]: 1,
+  [HandRank.RoyalFlush]: 0,
+};
+
+/**
+ * Unpacks the comparison values (rank values, most significant first) from a score.
+ * Matches the `values` layout of HandEvaluation.
+ */
+export function getValuesFromScore(score: number): number[] {
+  const rank = getHandRankFromScore(score);
+  if (rank === HandRank.RoyalFlush) {
+    return [10]; // Royal flush is unbeatable
+  }
+
+  const values: number[] = [];
+  for (let i = 0; i < VALUE_COUNTS[rank]; i++) {
+    values.push((score >> (16 - i * 4)) & 0xf);
+  }
+  return values;
+}
+
+/**
+ * Gets the rank whose value (2-14) matches, e.g. 14 -> 'A'.
+ */
+function rankFromValue(value: number): Rank {
+  return RANKS[value - 2];
+}
+
+/**
+ * Picks the five cards that make up a scored hand, highest rank first.
+ */
+function selectBestFive(cards: Card[], score: number): Card[] {
+  const rank = getHandRankFromScore(score);
+  const values = getValuesFromScore(score);
+  const byValue = (a: Card, b: Card) => RANK_INDEX.get(b.rank)! - RANK_INDEX.get(a.rank)!;
+  const used = new Set<Card>();
+
+  const take = (predicate: (card: Card) => boolean, count: number) => {
+    for (const card of cards) {
+      if (used.size >= 5 || count === 0) return;
+      if (!used.has(card) && predicate(card)) {
+        used.add(card);
+        count--;
+      }
+    }
+  };
+
+  if (rank === HandRank.Straight || rank === HandRank.StraightFlush || rank === HandRank.RoyalFlush) {
+    const high = rank === HandRank.RoyalFlush ? 14 : values[0];
+    const flushSuit = rank === HandRank.Straight ? null : findFlushSuit(cards);
+    // The ace plays low in the wheel (5-high, or 9-high in short deck)
+    const wheelHigh = score & SHORT_DECK_FLAG ? 9 : 5;
+    for (let offset = 0; offset < 5; offset++) {
+      const value = offset === 4 && high === wheelHigh ? 14 : high - offset;
+      take(card => card.rank === rankFromValue(value) && (!flushSuit || card.suit === flushSuit), 1);
+    }
+  } else if (rank === HandRank.Flush) {
+    const flushSuit = findFlushSuit(cards);
+    values.forEach(value => take(card => card.rank === rankFromValue(value) && card.suit === flushSuit, 1));
+  } else {
+    // Grouped hands: take the group ranks first, then single kickers
+    const groupSizes: Partial<Record<HandRank, number[]>> = {
+      [HandRank.FourOfAKind]: [4, 1],
+      [HandRank.FullHouse]: [3, 2],
+      [HandRank.ThreeOfAKind]: [3, 1, 1],
+      [HandRank.TwoPair]: [2, 2, 1],
+      [HandRank.Pair]: [2, 1, 1, 1],
+      [HandRank.HighCard]: [1, 1, 1, 1, 1],
+    };
+    const sizes = groupSizes[rank]!;
+    values.forEach((value, index) => take(card => card.rank === rankFromValue(value), sizes[index]));
+  }
+
+  return Array.from(used).sort(byValue);
+}
+
+/**
+ * Finds the suit with at least five cards, if any.
+ */
+function findFlushSuit(cards: Card[]): Card['suit'] | null {
+  for (const suit of SUITS) {
+    if (cards.filter(card => card.suit === suit).length >= 5) {
+      return suit;
+    }
+  }
+  return null;
+}
+
+/**
+ * Builds the human-readable description for a scored hand.
+ */
+function describeScore(score: number, bestFive: Card[]): string {
+  const rank = getHandRankFromScore(score);
+  const names = getValuesFromScore(score).map(rankFromValue);
+
+  switch (rank) {
+    case HandRank.RoyalFlush:
+      return 'Royal Flush';
+    case HandRank.StraightFlush:
+      return `Straight Flush, ${names[0]}-high`;
+    case HandRank.FourOfAKind:
+      return `Four of a Kind, ${names[0]}s`;
+    case HandRank.FullHouse:
+      return `Full House, ${names[0]}s over ${names[1]}s`;
+    case HandRank.Flush:
+      return `Flush, ${bestFive[0].rank}-high`;
+    case HandRank.Straight:
+      return `Straight, ${names[0]}-high`;
+    case HandRank.ThreeOfAKind:
+      return `Three of a Kind, ${names[0]}s`;
+    case HandRank.TwoPair:
+      return `Two Pair, ${names[0]}s and ${names[1]}s`;
+    case HandRank.Pair:
+      return `Pair of ${names[0]}s`;
+    default:
+      return `High Card, ${bestFive[0].rank}`;
+  }
+}
+
+/**
+ * Evaluates the best five-card hand from 5 to 7 cards.
+ * Returns the same HandEvaluation shape as the classic evaluator, plus its score.
+ * @param cards - The cards to evaluate
+ * @param shortDeck - Evaluate under short-deck rules
+ * @throws Error if fewer than 5 or more than 7 cards are given
+ */
+export function evaluateBestHand(cards: Card[], shortDeck: boolean = false): HandEvaluation {
+  const score = scoreHand(cards, shortDeck);
+  const bestFive = selectBestFive(cards, score);
+
+  return {
+    rank: getHandRankFromScore(score),
+    cards: bestFive,
+    description: describeScore(score, bestFive),
+    values: getValuesFromScore(score),
+    score,
+  };
+}
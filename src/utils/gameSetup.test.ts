@@ -0,0 +1,91 @@
+/**
+ * Unit tests for custom game setup.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createDefaultSetup, getSetupErrors, loadGameSetup, saveGameSetup } from './gameSetup';
+import { GameSetup } from '../types/setup';
+import { DEFAULT_TOURNAMENT_CONFIG } from '../constants/tournament';
+
+describe('createDefaultSetup', () => {
+  it('should seat the stock opponents with standard stakes', () => {
+    const setup = createDefaultSetup(3);
+
+    expect(setup).toMatchObject({ startingChips: 100, smallBlind: 5, bigBlind: 10 });
+    expect(setup.opponents.map(o => o.name)).toEqual(['Doc', 'Slim']);
+    expect(getSetupErrors(setup)).toEqual([]);
+  });
+});
+
+describe('getSetupErrors', () => {
+  const valid = (): GameSetup => createDefaultSetup(4);
+
+  it('should reject blinds that are out of order', () => {
+    expect(getSetupErrors({ ...valid(), smallBlind: 20, bigBlind: 10 }))
+      .toContain('Big blind must be a whole number no smaller than the small blind');
+  });
+
+  it('should reject stacks shallower than two big blinds', () => {
+    expect(getSetupErrors({ ...valid(), startingChips: 15 }))
+      .toContain('Starting chips must be a whole number of at least two big blinds');
+  });
+
+  it('should reject an empty field left as NaN', () => {
+    expect(getSetupErrors({ ...valid(), smallBlind: NaN })).toContain('Small blind must be a whole number of at least 1');
+  });
+
+  it('should reject blank and duplicate names', () => {
+    const setup = valid();
+    setup.opponents[0].name = '  ';
+    setup.opponents[2].name = 'slim';
+
+    expect(getSetupErrors(setup)).toEqual([
+      'Seat 1 needs a name of 1-12 characters',
+      'Seat 3: the name "slim" is already taken',
+    ]);
+  });
+
+  it('should reject a table that is both a tournament and a cash game', () => {
+    expect(getSetupErrors({ ...valid(), tournament: DEFAULT_TOURNAMENT_CONFIG, cashGame: true }))
+      .toContain('A table can be a tournament or a cash game, not both');
+  });
+
+  it('should reject hi-lo in a short-deck game', () => {
+    expect(getSetupErrors({ ...valid(), variant: 'short-deck', hiLo: true }))
+      .toContain('Hi-lo needs the low cards a short deck removes');
+  });
+
+  it('should reject tables with no opponents', () => {
+    expect(getSetupErrors({ ...valid(), opponents: [] })).toContain('Table size must be 2-9 seats, got 1');
+  });
+});
+
+describe('loadGameSetup and saveGameSetup', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should fall back to the default setup when nothing is saved', () => {
+    expect(loadGameSetup()).toEqual(createDefaultSetup());
+  });
+
+  it('should return the last saved setup', () => {
+    const setup: GameSetup = {
+      startingChips: 1000,
+      smallBlind: 10,
+      bigBlind: 20,
+      opponents: [{ name: 'Kid', personality: 'loose-aggressive', difficulty: 'expert' }],
+    };
+    saveGameSetup(setup);
+
+    expect(loadGameSetup()).toEqual(setup);
+  });
+
+  it('should fall back to the default setup when the saved one is corrupt or invalid', () => {
+    localStorage.setItem('poker_game_setup', '{not json');
+    expect(loadGameSetup()).toEqual(createDefaultSetup());
+
+    localStorage.setItem('poker_game_setup', JSON.stringify({ ...createDefaultSetup(), bigBlind: -1 }));
+    expect(loadGameSetup()).toEqual(createDefaultSetup());
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Custom game setup: defaults, validation and persistence.
+ * The last configuration used is kept in localStorage so players can come
+ * back to the same stack depth and line-up.
+ */
+
+import { GameSetup } from '../types/setup';
+import { DIFFICULTY_CONFIG } from '../constants/difficulty';
+import { PERSONALITIES } from '../constants/personalities';
+import { BETTING_STRUCTURE_LABELS } from '../constants/betting';
+import { VARIANT_LABELS } from '../constants/variants';
+import {
+  AI_SEATS,
+  DEFAULT_TABLE_SIZE,
+  DEFAULT_STARTING_CHIPS,
+  DEFAULT_SMALL_BLIND,
+  DEFAULT_BIG_BLIND,
+  MIN_TABLE_SIZE,
+  MAX_TABLE_SIZE,
+  MAX_PLAYER_NAME_LENGTH,
+} from '../constants/table';
+import { logger } from './logger';
+import { getTournamentConfigErrors } from './tournament';
+
+/** LocalStorage key for the last-used setup */
+const STORAGE_KEY = 'poker_game_setup';
+
+/**
+ * Creates the standard setup: default stakes and the stock AI line-up.
+ *
+ * @param tableSize - Number of seats including the user
+ * @returns A fresh setup
+ */
+export function createDefaultSetup(tableSize: number = DEFAULT_TABLE_SIZE): GameSetup {
+  return {
+    startingChips: DEFAULT_STARTING_CHIPS,
+    smallBlind: DEFAULT_SMALL_BLIND,
+    bigBlind: DEFAULT_BIG_BLIND,
+    opponents: AI_SEATS.slice(0, Math.max(0, tableSize - 1)).map(seat => ({ ...seat })),
+  };
+}
+
+/**
+ * Checks a setup for problems.
+ *
+ * @param setup - The setup to check
+ * @returns Human-readable problems (empty if the setup is valid)
+ */
+export function getSetupErrors(setup: GameSetup): string[] {
+  const errors: string[] = [];
+  const { startingChips, smallBlind, bigBlind, opponents } = setup;
+  const tableSize = opponents.length + 1;
+
+  if (tableSize < MIN_TABLE_SIZE || tableSize > MAX_TABLE_SIZE) {
+    errors.push(`Table size must be ${MIN_TABLE_SIZE}-${MAX_TABLE_SIZE} seats, got ${tableSize}`);
+  }
+  if (!Number.isInteger(smallBlind) || smallBlind < 1) {
+    errors.push('Small blind must be a whole number of at least 1');
+  }
+  if (!Number.isInteger(bigBlind) || bigBlind < smallBlind) {
+    errors.push('Big blind must be a whole number no smaller than the small blind');
+  }
+  if (!Number.isInteger(startingChips) || startingChips < bigBlind * 2) {
+    errors.push('Starting chips must be a whole number of at least two big blinds');
+  }
+
+  if (setup.bettingStructure !== undefined && !(setup.bettingStructure in BETTING_STRUCTURE_LABELS)) {
+    errors.push(`Unknown betting structure "${setup.bettingStructure}"`);
+  }
+  if (setup.variant !== undefined && !(setup.variant in VARIANT_LABELS)) {
+    errors.push(`Unknown variant "${setup.variant}"`);
+  }
+  if (setup.hiLo && setup.variant === 'short-deck') {
+    errors.push('Hi-lo needs the low cards a short deck removes');
+  }
+
+  if (setup.tournament) {
+    errors.push(...getTournamentConfigErrors(setup.tournament));
+    if (setup.cashGame) {
+      errors.push('A table can be a tournament or a cash game, not both');
+    }
+  }
+
+  const names = new Set<string>(['you']);
+  opponents.forEach((opponent, index) => {
+    const name = opponent.name.trim();
+    if (name.length === 0 || name.length > MAX_PLAYER_NAME_LENGTH) {
+      errors.push(`Seat ${index + 1} needs a name of 1-${MAX_PLAYER_NAME_LENGTH} characters`);
+    } else if (names.has(name.toLowerCase())) {
+      errors.push(`Seat ${index + 1}: the name "${name}" is already taken`);
+    }
+    names.add(name.toLowerCase());
+
+    if (!(opponent.personality in PERSONALITIES)) {
+      errors.push(`Seat ${index + 1} has an unknown personality "${opponent.personality}"`);
+    }
+    if (opponent.difficulty !== undefined && !(opponent.difficulty in DIFFICULTY_CONFIG)) {
+      errors.push(`Seat ${index + 1} has an unknown difficulty "${opponent.difficulty}"`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Loads the last-used setup.
+ * Falls back to the default setup when nothing is stored or the stored
+ * setup is unreadable or invalid.
+ *
+ * @returns The setup to start from
+ */
+export function loadGameSetup(): GameSetup {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) {
+      return createDefaultSetup();
+    }
+
+    const setup: GameSetup = JSON.parse(stored);
+    if (!Array.isArray(setup.opponents) || getSetupErrors(setup).length > 0) {
+      throw new Error('Invalid game setup');
+    }
+    return setup;
+  } catch (error) {
+    logger.error('Failed to load game setup:', error);
+    return createDefaultSetup();
+  }
+}
+
+/**
+ * Saves a setup as the last-used configuration.
+ *
+ * @param setup - The setup to save
+ */
+export function saveGameSetup(setup: GameSetup): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(setup));
+  } catch (error) {
+    logger.error('Failed to save game setup:', error);
+  }
+}
@@ -8,6 +8,7 @@ import {
   evaluateHand,
   getBestFiveCardHand,
   getBestHandFromSix,
+  getBestHand,
   compareHands,
   determineWinners,
 } from './handEvaluator';
@@ -435,6 +436,56 @@ describe('getBestHandFromSix', () => {
   });
 });
 
+describe('getBestHand', () => {
+  it('should throw error before the flop', () => {
+    expect(() => getBestHand([c('A', 'spades'), c('K', 'hearts')], [])).toThrow('at least 3 community cards');
+  });
+
+  it('should play any five cards in Hold\'em', () => {
+    const result = getBestHand(
+      [c('A', 'hearts'), c('2', 'clubs')],
+      [c('K', 'hearts'), c('Q', 'hearts'), c('J', 'hearts'), c('10', 'hearts')]
+    );
+
+    expect(result.rank).toBe(HandRank.RoyalFlush);
+  });
+
+  it('should not make an Omaha flush from one suited hole card', () => {
+    // Four hearts on the board, but only the ace of hearts in hand
+    const result = getBestHand(
+      [c('A', 'hearts'), c('A', 'clubs'), c('7', 'spades'), c('2', 'diamonds')],
+      [c('K', 'hearts'), c('Q', 'hearts'), c('9', 'hearts'), c('4', 'hearts'), c('3', 'clubs')],
+      'omaha'
+    );
+
+    expect(result.rank).toBe(HandRank.Pair);
+    expect(result.values[0]).toBe(14);
+  });
+
+  it('should use exactly two hole cards even with four of a kind in hand', () => {
+    const result = getBestHand(
+      [c('8', 'hearts'), c('8', 'clubs'), c('8', 'spades'), c('8', 'diamonds')],
+      [c('K', 'hearts'), c('Q', 'clubs'), c('2', 'spades')],
+      'omaha'
+    );
+
+    expect(result.rank).toBe(HandRank.Pair);
+    expect(result.cards).toHaveLength(5);
+  });
+
+  it('should pick the best Omaha combination on a full board', () => {
+    // Only J-10 from the hand with A-K-Q from the board makes the straight
+    const result = getBestHand(
+      [c('J', 'spades'), c('10', 'clubs'), c('2', 'hearts'), c('2', 'diamonds')],
+      [c('A', 'hearts'), c('K', 'clubs'), c('Q', 'diamonds'), c('7', 'spades'), c('3', 'clubs')],
+      'omaha'
+    );
+
+    expect(result.rank).toBe(HandRank.Straight);
+    expect(result.values[0]).toBe(14);
+  });
+});
+
 describe('determineWinners', () => {
   it('should return empty array for no hands', () => {
     expect(determineWinners([])).toEqual([]);
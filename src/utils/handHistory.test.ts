@@ -0,0 +1,107 @@
+/**
+ * Unit tests for hand history storage.
+ * jsdom has no IndexedDB, so these run against the localStorage fallback.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  recordHand,
+  getHandHistory,
+  queryHandHistory,
+  exportHandHistory,
+  importHandHistory,
+  importHandHistoryText,
+  clearHandHistory,
+} from './handHistory';
+import { formatPokerStarsHistory } from './handHistoryText';
+import { createInitialState, gameReducer } from '../engine/gameReducer';
+import { GameState } from '../types/game';
+
+// A dealt hand is enough to record; the records only need to differ by seed
+function dealtHand(seed: number): GameState {
+  return gameReducer(createInitialState(), { type: 'START_NEW_HAND', seed });
+}
+
+function record(seed: number) {
+  const state = dealtHand(seed);
+  return recordHand(state, state.playersStartingChips!, state.winningHands);
+}
+
+describe('hand history storage', () => {
+  beforeEach(async () => {
+    localStorage.clear();
+    await clearHandHistory();
+  });
+
+  it('should round-trip an export through import, oldest hand first', async () => {
+    await record(1);
+    await record(2);
+    const exported = await exportHandHistory();
+
+    await clearHandHistory();
+    expect(await importHandHistory(exported)).toBe(true);
+    expect((await getHandHistory()).map(h => h.seed)).toEqual([2, 1]);
+  });
+
+  it('should import a bare list of hands from before versioning', async () => {
+    const hand = await record(3);
+    await clearHandHistory();
+
+    expect(await importHandHistory(JSON.stringify([hand]))).toBe(true);
+    expect(await getHandHistory()).toEqual([hand]);
+  });
+
+  it('should import nothing when any hand is invalid', async () => {
+    const hand = await record(4);
+    const broken = { ...hand, id: 'broken', players: [{ ...hand.players[0], holeCards: [{ rank: '1', suit: 'stars' }] }] };
+
+    expect(await importHandHistory(JSON.stringify([hand, broken]))).toBe(false);
+    expect(await getHandHistory()).toEqual([hand]);
+  });
+
+  it('should search stored hands, newest first', async () => {
+    const first = await record(5);
+    const second = await record(6);
+    const opponent = first.players.find(p => !p.isUser)!.name;
+
+    expect((await queryHandHistory({ opponent: opponent.toUpperCase() })).map(h => h.id)).toEqual([second.id, first.id]);
+    expect(await queryHandHistory({ minPot: first.potSize + 1 })).toEqual([]);
+    await expect(queryHandHistory({ holeCards: 'not a range' })).rejects.toThrow();
+  });
+
+  it('should add hands from text after the stored ones, reporting the ones skipped', async () => {
+    const played = await record(7);
+    const text = formatPokerStarsHistory([{ ...played, timestamp: played.timestamp + 1 }]) +
+      '\n\nPokerStars Hand #9: Razz Limit (10/20) - 2026/03/14 20:16:00 UTC\n';
+
+    const result = await importHandHistoryText(text);
+
+    expect(result.hands).toHaveLength(1);
+    expect(result.errors).toEqual([{ hand: 2, handId: '9', message: expect.stringContaining('Unsupported game') }]);
+    const history = await getHandHistory();
+    expect(history.map(h => h.id)).toEqual([result.hands[0].id, played.id]);
+    expect(history[0].handNumber).toBe(played.handNumber + 1);
+  });
+
+  it('should skip hands already in the history when importing text exported from it', async () => {
+    const played = await record(8);
+    const text = formatPokerStarsHistory([played]);
+
+    const result = await importHandHistoryText(text);
+
+    expect(result.hands).toEqual([]);
+    expect(result.errors).toEqual([{ hand: 1, handId: String(played.timestamp), message: 'Already in the hand history' }]);
+    expect((await importHandHistoryText(text)).hands).toEqual([]);
+    expect((await getHandHistory()).map(h => h.id)).toEqual([played.id]);
+  });
+
+  it('should keep the second board of a run-it-twice hand', async () => {
+    const state = dealtHand(8);
+    const secondBoard = [...state.deck.slice(0, 5)];
+    const hand = await recordHand({ ...state, secondBoard }, state.playersStartingChips!, state.winningHands);
+
+    expect(hand.secondBoard).toEqual(secondBoard);
+    expect(await importHandHistory(await exportHandHistory())).toBe(true);
+    expect((await getHandHistory())[0].secondBoard).toEqual(secondBoard);
+  });
+});
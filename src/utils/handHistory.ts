@@ -1,41 +1,178 @@
 /**
  * Hand history tracking and storage utility.
- * Manages recording completed hands and calculating statistics.
+ * Manages recording completed hands, searching them and calculating statistics.
+ * Hands are kept in IndexedDB (handHistoryDB.ts) with no practical cap. Where
+ * IndexedDB is unavailable they fall back to the last few hands in the
+ * versioned localStorage store, which is also where older releases kept them.
  */
 
 import { GameState, Player, HandEvaluation } from '../types/game';
-import { HandHistoryRecord, HandHistoryPlayer, HandHistoryStats } from '../types/handHistory';
+import {
+  HandHistoryRecord,
+  HandHistoryPlayer,
+  HandHistoryStats,
+  HandHistoryQuery,
+  HandTextParseResult,
+} from '../types/handHistory';
+import { FieldSchema, StoreDefinition, StoredEnvelope } from '../types/storage';
+import { checkFields, isCard, clearStore, migrateStoredData, readStore, writeStore } from './storage';
+import { getQueryHandClasses, matchesHandQuery } from './handHistoryQuery';
+import { getPokerStarsHandNumber, parsePokerStarsHistory } from './handHistoryText';
+import {
+  isHandHistoryDBAvailable,
+  putHands,
+  replaceHands,
+  getAllHands,
+  getHand,
+  getHighestHandNumber,
+  queryHands,
+  clearHands,
+} from './handHistoryDB';
 import { logger } from './logger';
 
-/** Maximum number of hands to store */
-const MAX_STORED_HANDS = 10;
+/** Maximum number of hands kept in localStorage when IndexedDB is unavailable */
+const MAX_FALLBACK_HANDS = 10;
+
+/** Fields of a stored hand */
+const HAND_RECORD_SCHEMA: FieldSchema = {
+  id: 'string',
+  timestamp: 'number',
+  handNumber: 'number',
+  seed: 'number?',
+  variant: 'string?',
+  bettingStructure: 'string?',
+  hiLo: 'boolean?',
+  smallBlind: 'number?',
+  bigBlind: 'number?',
+  dealerId: 'string?',
+  communityCards: 'array',
+  secondBoard: 'array?',
+  finalPhase: 'string',
+  potSize: 'number',
+  players: 'array',
+  winnerIds: 'array',
+  winnerNames: 'array',
+  winningHands: 'array',
+  actions: 'array',
+  reachedShowdown: 'boolean',
+  userStartingChips: 'number',
+  userEndingChips: 'number',
+  userChipChange: 'number',
+  userWon: 'boolean',
+  userFolded: 'boolean',
+};
+
+/** Fields of each player in a stored hand */
+const HAND_PLAYER_SCHEMA: FieldSchema = {
+  id: 'string',
+  name: 'string',
+  isUser: 'boolean',
+  holeCards: 'array',
+  handEvaluation: 'object?',
+  finalChips: 'number',
+  chipChange: 'number',
+  folded: 'boolean',
+  wentAllIn: 'boolean',
+};
 
-/** LocalStorage key for hand history */
-const STORAGE_KEY = 'poker_hand_history';
+/**
+ * Checks one stored hand, its players and its cards.
+ *
+ * @param record - The hand to check
+ * @param label - Names the hand in messages
+ * @returns One message per problem
+ */
+export function validateHandRecord(record: unknown, label: string): string[] {
+  const problems = checkFields(record, HAND_RECORD_SCHEMA, label);
+  if (problems.length > 0) {
+    return problems;
+  }
+
+  const hand = record as HandHistoryRecord;
+  if (!hand.communityCards.every(isCard)) {
+    problems.push(`${label} has an unreadable community card`);
+  }
+  if (hand.secondBoard && !hand.secondBoard.every(isCard)) {
+    problems.push(`${label} has an unreadable card on its second board`);
+  }
+  hand.players.forEach((player, index) => {
+    const playerLabel = `${label}, player ${index + 1}`;
+    const playerProblems = checkFields(player, HAND_PLAYER_SCHEMA, playerLabel);
+    if (playerProblems.length === 0 && !player.holeCards.every(isCard)) {
+      playerProblems.push(`${playerLabel} has an unreadable hole card`);
+    }
+    problems.push(...playerProblems);
+  });
+  return problems;
+}
+
+/**
+ * Checks stored hand history: a list of valid hands.
+ */
+function validateHandHistory(data: unknown): string[] {
+  if (!Array.isArray(data)) {
+    return ['Hand history is not a list of hands'];
+  }
+  return data.flatMap((record, index) => validateHandRecord(record, `Hand ${index + 1}`));
+}
+
+/**
+ * LocalStorage hand history store, oldest hand first. Also the format of
+ * hand history exports.
+ * Version 1 only added the envelope: history saved before versioning is
+ * already a version 1 list. When storage is full the oldest hands are dropped.
+ */
+export const HAND_HISTORY_STORE: StoreDefinition<HandHistoryRecord[]> = {
+  key: 'poker_hand_history',
+  version: 1,
+  migrations: {
+    0: data => data,
+  },
+  validate: validateHandHistory,
+  shrink: history => (history.length > 1 ? history.slice(1) : null),
+};
 
 /** Global hand counter (persisted across sessions) */
 let handCounter = 0;
 
 /**
- * Initialize the hand counter from localStorage.
+ * Gets the hand number after the highest stored one.
  */
-function initHandCounter(): void {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      const history: HandHistoryRecord[] = JSON.parse(stored);
-      if (history.length > 0) {
-        // Set counter to highest hand number + 1
-        handCounter = Math.max(...history.map(h => h.handNumber)) + 1;
+function nextHandNumber(history: HandHistoryRecord[]): number {
+  return history.length > 0 ? Math.max(...history.map(h => h.handNumber)) + 1 : 0;
+}
+
+/** Resolves once stored hands are ready to use */
+let historyReady: Promise<void> | null = null;
+
+/**
+ * Gets hand history ready on first use: moves hands saved in localStorage
+ * (by an older release) into IndexedDB and sets the hand counter.
+ */
+function whenHistoryReady(): Promise<void> {
+  if (!historyReady) {
+    historyReady = (async () => {
+      if (!isHandHistoryDBAvailable()) {
+        handCounter = Math.max(handCounter, nextHandNumber(readStore(HAND_HISTORY_STORE) ?? []));
+        return;
       }
-    }
-  } catch (error) {
-    logger.error('Failed to initialize hand counter:', error);
+
+      const legacy = readStore(HAND_HISTORY_STORE);
+      if (legacy && legacy.length > 0) {
+        await putHands(legacy);
+        clearStore(HAND_HISTORY_STORE);
+        logger.log('Moved', legacy.length, 'hands from localStorage to IndexedDB');
+      }
+      handCounter = Math.max(handCounter, (await getHighestHandNumber()) + 1);
+    })().catch(error => {
+      logger.error('Failed to load hand history:', error);
+    });
   }
+  return historyReady;
 }
 
 // Initialize on module load
-initHandCounter();
+whenHistoryReady();
 
 /**
  * Convert a GameState player to a HandHistoryPlayer.
@@ -61,22 +198,26 @@ function createHandHistoryPlayer(
 /**
  * Record a completed hand to history.
  * Called at the end of each hand after showdown/winner determination.
+ * Resolves once the hand is stored (storage failures are logged, not thrown).
  *
  * @param gameState - The final game state at hand completion
  * @param playersStartChips - Map of player IDs to their chip counts at hand start
  * @param winningHands - Array of winning hand evaluations
  * @returns The created hand history record
  */
-export function recordHand(
+export async function recordHand(
   gameState: GameState,
   playersStartChips: Map<string, number>,
   winningHands: HandEvaluation[]
-): HandHistoryRecord {
+): Promise<HandHistoryRecord> {
   const user = gameState.players.find(p => p.isUser);
   if (!user) {
     throw new Error('User player not found in game state');
   }
 
+  // The hand counter carries on from stored hands once they are loaded
+  await whenHistoryReady();
+
   const userStartChips = playersStartChips.get(user.id) ?? user.chips;
   const userEndChips = user.chips;
   const userChipChange = userEndChips - userStartChips;
@@ -94,7 +235,15 @@ export function recordHand(
     id: `hand_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
     timestamp: Date.now(),
     handNumber: handCounter++,
+    seed: gameState.seed,
+    variant: gameState.variant,
+    bettingStructure: gameState.bettingStructure,
+    hiLo: gameState.hiLo,
+    smallBlind: gameState.smallBlind,
+    bigBlind: gameState.bigBlind,
+    dealerId: gameState.players[gameState.dealerPosition]?.id,
     communityCards: [...gameState.communityCards],
+    secondBoard: gameState.secondBoard ? [...gameState.secondBoard] : undefined,
     finalPhase: gameState.currentPhase,
     potSize: gameState.pot,
     players: historyPlayers,
@@ -115,7 +264,7 @@ export function recordHand(
   };
 
   // Store the record
-  storeHandRecord(record);
+  await storeHandRecord(record);
 
   logger.log('Hand recorded:', {
     handNumber: record.handNumber,
@@ -128,65 +277,97 @@ export function recordHand(
 }
 
 /**
- * Store a hand record to localStorage.
- * Maintains a maximum of MAX_STORED_HANDS records (FIFO).
+ * Store a hand record.
+ * The localStorage fallback keeps a maximum of MAX_FALLBACK_HANDS records (FIFO).
  */
-function storeHandRecord(record: HandHistoryRecord): void {
+async function storeHandRecord(record: HandHistoryRecord): Promise<void> {
+  await whenHistoryReady();
   try {
-    const history = getHandHistory();
+    if (isHandHistoryDBAvailable()) {
+      await putHands([record]);
+      return;
+    }
+
+    const history = readStore(HAND_HISTORY_STORE) ?? [];
     history.push(record);
 
-    // Keep only the last MAX_STORED_HANDS hands
-    if (history.length > MAX_STORED_HANDS) {
+    // Keep only the last MAX_FALLBACK_HANDS hands
+    if (history.length > MAX_FALLBACK_HANDS) {
       history.shift(); // Remove oldest
     }
 
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+    writeStore(HAND_HISTORY_STORE, history);
   } catch (error) {
     logger.error('Failed to store hand record:', error);
   }
 }
 
+/**
+ * Reads every stored hand, oldest first.
+ */
+async function loadAllHands(): Promise<HandHistoryRecord[]> {
+  await whenHistoryReady();
+  return isHandHistoryDBAvailable() ? getAllHands() : readStore(HAND_HISTORY_STORE) ?? [];
+}
+
 /**
  * Retrieve all stored hand history records.
  * Returns most recent hands first.
  *
  * @returns Array of hand history records (newest first)
  */
-export function getHandHistory(): HandHistoryRecord[] {
+export async function getHandHistory(): Promise<HandHistoryRecord[]> {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) {
-      return [];
-    }
-
-    const history: HandHistoryRecord[] = JSON.parse(stored);
-
     // Return in reverse chronological order (newest first)
-    return history.reverse();
+    return (await loadAllHands()).reverse();
   } catch (error) {
     logger.error('Failed to retrieve hand history:', error);
     return [];
   }
 }
 
+/**
+ * Search stored hands.
+ *
+ * @param query - Filters every returned hand must match
+ * @returns Matching hands (newest first)
+ * @throws Error if the hole-card filter is not valid range shorthand
+ */
+export async function queryHandHistory(query: HandHistoryQuery): Promise<HandHistoryRecord[]> {
+  const handClasses = getQueryHandClasses(query);
+  await whenHistoryReady();
+  if (isHandHistoryDBAvailable()) {
+    return queryHands(query);
+  }
+
+  const history = readStore(HAND_HISTORY_STORE) ?? [];
+  return history.filter(hand => matchesHandQuery(hand, query, handClasses)).reverse();
+}
+
 /**
  * Get a specific hand record by ID.
  *
  * @param handId - The unique hand ID
  * @returns The hand record, or undefined if not found
  */
-export function getHandById(handId: string): HandHistoryRecord | undefined {
-  const history = getHandHistory();
-  return history.find(h => h.id === handId);
+export async function getHandById(handId: string): Promise<HandHistoryRecord | undefined> {
+  await whenHistoryReady();
+  if (isHandHistoryDBAvailable()) {
+    return getHand(handId);
+  }
+  return (readStore(HAND_HISTORY_STORE) ?? []).find(h => h.id === handId);
 }
 
 /**
  * Clear all hand history from storage.
  */
-export function clearHandHistory(): void {
+export async function clearHandHistory(): Promise<void> {
+  await whenHistoryReady();
   try {
-    localStorage.removeItem(STORAGE_KEY);
+    if (isHandHistoryDBAvailable()) {
+      await clearHands();
+    }
+    clearStore(HAND_HISTORY_STORE);
     handCounter = 0;
     logger.log('Hand history cleared');
   } catch (error) {
@@ -197,11 +378,10 @@ export function clearHandHistory(): void {
 /**
  * Calculate statistics from hand history.
  *
- * @param hands - Array of hand records to analyze (defaults to all stored hands)
+ * @param history - Array of hand records to analyze
  * @returns Statistics object
  */
-export function calculateStats(hands?: HandHistoryRecord[]): HandHistoryStats {
-  const history = hands ?? getHandHistory();
+export function calculateStats(history: HandHistoryRecord[]): HandHistoryStats {
 
   if (history.length === 0) {
     return {
@@ -265,48 +445,47 @@ export function calculateStats(hands?: HandHistoryRecord[]): HandHistoryStats {
  * @param count - Number of recent hands to retrieve
  * @returns Array of hand records (newest first)
  */
-export function getRecentHands(count: number): HandHistoryRecord[] {
-  const history = getHandHistory();
+export async function getRecentHands(count: number): Promise<HandHistoryRecord[]> {
+  const history = await getHandHistory();
   return history.slice(0, count);
 }
 
 /**
  * Export hand history as JSON string for download/sharing.
+ * The export is a versioned envelope, oldest hand first, so importing it
+ * into a later release migrates it like stored history.
  *
  * @returns JSON string of all hand history
  */
-export function exportHandHistory(): string {
-  const history = getHandHistory();
-  return JSON.stringify(history, null, 2);
+export async function exportHandHistory(): Promise<string> {
+  const envelope: StoredEnvelope = {
+    version: HAND_HISTORY_STORE.version,
+    data: await loadAllHands(),
+  };
+  return JSON.stringify(envelope, null, 2);
 }
 
 /**
  * Import hand history from JSON string.
- * This will replace existing history.
+ * This will replace existing history. Accepts an export from any version
+ * (including a bare list of hands from before versioning); every hand is
+ * validated, and nothing is imported if any hand is invalid.
  *
  * @param jsonString - JSON string of hand history records
  * @returns Success boolean
  */
-export function importHandHistory(jsonString: string): boolean {
+export async function importHandHistory(jsonString: string): Promise<boolean> {
   try {
-    const history: HandHistoryRecord[] = JSON.parse(jsonString);
-
-    // Validate structure
-    if (!Array.isArray(history)) {
-      throw new Error('Invalid history format: not an array');
+    const history = migrateStoredData(HAND_HISTORY_STORE, JSON.parse(jsonString));
+    await whenHistoryReady();
+    if (isHandHistoryDBAvailable()) {
+      await replaceHands(history);
+    } else if (!writeStore(HAND_HISTORY_STORE, history)) {
+      return false;
     }
 
-    // Basic validation of first record if exists
-    if (history.length > 0 && !history[0].id) {
-      throw new Error('Invalid history format: missing required fields');
-    }
-
-    localStorage.setItem(STORAGE_KEY, jsonString);
-
     // Update hand counter
-    if (history.length > 0) {
-      handCounter = Math.max(...history.map(h => h.handNumber)) + 1;
-    }
+    handCounter = nextHandNumber(history);
 
     logger.log('Hand history imported:', history.length, 'hands');
     return true;
@@ -315,3 +494,45 @@ export function importHandHistory(jsonString: string): boolean {
     return false;
   }
 }
+
+/**
+ * Import hands played elsewhere from a room's text hand history.
+ * Hands are added to the existing history, numbered after the hands already
+ * stored. Hands that cannot be read, and hands already in the history (as
+ * when importing a file exported from it), are skipped and reported.
+ *
+ * @param text - PokerStars-format hand history text
+ * @returns The hands imported and an error for each hand skipped
+ */
+export async function importHandHistoryText(text: string): Promise<HandTextParseResult> {
+  const { hands: parsed, errors } = parsePokerStarsHistory(text);
+  const stored = new Set((await loadAllHands()).map(getPokerStarsHandNumber));
+  const hands = parsed
+    .filter(hand => {
+      const handId = getPokerStarsHandNumber(hand);
+      if (!stored.has(handId)) return true;
+      // Parsed hands are numbered by their position in the text
+      errors.push({ hand: hand.handNumber, handId, message: 'Already in the hand history' });
+      return false;
+    })
+    .map(hand => ({ ...hand, handNumber: handCounter++ }));
+  errors.sort((a, b) => a.hand - b.hand);
+
+  try {
+    if (isHandHistoryDBAvailable()) {
+      await putHands(hands);
+    } else {
+      const ids = new Set(hands.map(hand => hand.id));
+      const history = (readStore(HAND_HISTORY_STORE) ?? []).filter(hand => !ids.has(hand.id));
+      if (!writeStore(HAND_HISTORY_STORE, [...history, ...hands].slice(-MAX_FALLBACK_HANDS))) {
+        throw new Error('Hand history storage is unavailable');
+      }
+    }
+  } catch (error) {
+    logger.error('Failed to import hand history text:', error);
+    return { hands: [], errors: [...errors, { hand: 0, message: 'The hands could not be saved' }] };
+  }
+
+  logger.log('Hand history text imported:', hands.length, 'hands,', errors.length, 'skipped');
+  return { hands, errors };
+}
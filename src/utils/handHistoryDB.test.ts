@@ -0,0 +1,180 @@
+/**
+ * Unit tests for IndexedDB hand history storage, run against an in-memory
+ * IndexedDB. Each test gets an empty database and freshly loaded modules,
+ * as if the page had just been opened.
+ */
+
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createInitialState, gameReducer } from '../engine/gameReducer';
+import { Card, GamePhase, Rank, Suit } from '../types/game';
+import { HandHistoryPlayer, HandHistoryRecord } from '../types/handHistory';
+
+function card(rank: Rank, suit: Suit): Card {
+  return { rank, suit };
+}
+
+function player(id: string, name: string, holeCards: Card[]): HandHistoryPlayer {
+  return { id, name, isUser: id === 'user', holeCards, finalChips: 1000, chipChange: 0, folded: false, wentAllIn: false };
+}
+
+// Helper to create a hand the user won with AKs against Doc
+function hand(id: string, overrides: Partial<HandHistoryRecord> = {}): HandHistoryRecord {
+  return {
+    id,
+    timestamp: 1_000,
+    handNumber: 0,
+    communityCards: [],
+    finalPhase: 'river' as GamePhase,
+    potSize: 200,
+    players: [
+      player('user', 'You', [card('A', 'hearts'), card('K', 'hearts')]),
+      player('ai1', 'Doc', [card('7', 'clubs'), card('2', 'spades')]),
+    ],
+    winnerIds: ['user'],
+    winnerNames: ['You'],
+    winningHands: [],
+    actions: [],
+    reachedShowdown: true,
+    userStartingChips: 1000,
+    userEndingChips: 1100,
+    userChipChange: 100,
+    userWon: true,
+    userFolded: false,
+    ...overrides,
+  };
+}
+
+const loadDB = () => import('./handHistoryDB');
+const loadHistory = () => import('./handHistory');
+
+beforeEach(() => {
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  localStorage.clear();
+  vi.resetModules();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('hand history database', () => {
+  it('should round-trip hands, listing them oldest first', async () => {
+    const db = await loadDB();
+    const later = hand('b', { timestamp: 2_000, handNumber: 1 });
+    const earlier = hand('a', { timestamp: 1_000, handNumber: 0 });
+
+    await db.putHands([later, earlier]);
+
+    expect(await db.getHand('a')).toEqual(earlier);
+    expect(await db.getHand('missing')).toBeUndefined();
+    expect((await db.getAllHands()).map(h => h.id)).toEqual(['a', 'b']);
+    expect(await db.getHighestHandNumber()).toBe(1);
+
+    await db.clearHands();
+    expect(await db.getAllHands()).toEqual([]);
+    expect(await db.getHighestHandNumber()).toBe(-1);
+  });
+
+  it('should answer each indexed filter, newest first', async () => {
+    const db = await loadDB();
+    const folded = hand('folded', {
+      timestamp: 3_000,
+      finalPhase: 'pre-flop',
+      potSize: 30,
+      userWon: false,
+      userFolded: true,
+      players: [player('user', 'You', [card('7', 'hearts'), card('7', 'clubs')]), player('ai2', 'Slim', [])],
+    });
+    const lost = hand('lost', { timestamp: 2_000, finalPhase: 'showdown', potSize: 500, userWon: false });
+    const won = hand('won', { timestamp: 1_000 });
+    await db.putHands([won, lost, folded]);
+    const ids = async (query: Parameters<typeof db.queryHands>[0]) => (await db.queryHands(query)).map(h => h.id);
+
+    expect(await ids({})).toEqual(['folded', 'lost', 'won']);
+    expect(await ids({ holeCards: '77+' })).toEqual(['folded']);
+    expect(await ids({ holeCards: 'AKs, 77' })).toEqual(['folded', 'lost', 'won']);
+    expect(await ids({ opponent: 'doc' })).toEqual(['lost', 'won']);
+    expect(await ids({ finalPhase: 'showdown' })).toEqual(['lost']);
+    expect(await ids({ outcome: 'won' })).toEqual(['won']);
+    expect(await ids({ minPot: 100 })).toEqual(['lost', 'won']);
+    expect(await ids({ minPot: 100, maxPot: 300 })).toEqual(['won']);
+    expect(await ids({ to: 2_000 })).toEqual(['lost', 'won']);
+    expect(await ids({ from: 1_500, to: 2_500 })).toEqual(['lost']);
+  });
+
+  it('should check the remaining filters on the hands an index returns', async () => {
+    const db = await loadDB();
+    await db.putHands([hand('small', { potSize: 50 }), hand('big', { potSize: 400, timestamp: 2_000 })]);
+
+    expect((await db.queryHands({ opponent: 'Doc', minPot: 100 })).map(h => h.id)).toEqual(['big']);
+    expect(await db.queryHands({ holeCards: 'AKs', outcome: 'lost' })).toEqual([]);
+  });
+
+  it('should find nothing in a pot or date range whose bounds cross', async () => {
+    const db = await loadDB();
+    await db.putHands([hand('won')]);
+
+    expect(await db.queryHands({ minPot: 300, maxPot: 100 })).toEqual([]);
+    expect(await db.queryHands({ from: 2_000, to: 500 })).toEqual([]);
+  });
+
+  it('should leave the stored hands alone when a replacement fails', async () => {
+    const db = await loadDB();
+    await db.putHands([hand('kept')]);
+    const broken = { ...hand('broken'), players: undefined } as unknown as HandHistoryRecord;
+
+    await expect(db.replaceHands([hand('new'), broken])).rejects.toThrow();
+    expect((await db.getAllHands()).map(h => h.id)).toEqual(['kept']);
+
+    await db.replaceHands([hand('new')]);
+    expect((await db.getAllHands()).map(h => h.id)).toEqual(['new']);
+  });
+});
+
+describe('hand history storage with IndexedDB', () => {
+  it('should move hands from the old localStorage store exactly once', async () => {
+    // Older releases kept the last 10 hands as a bare list
+    const legacy = Array.from({ length: 10 }, (_, i) => hand(`old${i}`, { handNumber: i, timestamp: 1_000 + i }));
+    localStorage.setItem('poker_hand_history', JSON.stringify(legacy));
+
+    const history = await loadHistory();
+    expect((await history.getHandHistory()).map(h => h.id)).toEqual(legacy.map(h => h.id).reverse());
+    expect(localStorage.getItem('poker_hand_history')).toBeNull();
+
+    // Reopening the page finds nothing left to move, and numbering carries on
+    vi.resetModules();
+    const reopened = await loadHistory();
+    const state = gameReducer(createInitialState(), { type: 'START_NEW_HAND', seed: 1 });
+    const recorded = await reopened.recordHand(state, state.playersStartingChips!, state.winningHands);
+
+    expect(recorded.handNumber).toBe(10);
+    expect(await reopened.getHandHistory()).toHaveLength(11);
+  });
+
+  it('should keep every hand, with no cap', async () => {
+    const history = await loadHistory();
+    for (let seed = 1; seed <= 12; seed++) {
+      const state = gameReducer(createInitialState(), { type: 'START_NEW_HAND', seed });
+      await history.recordHand(state, state.playersStartingChips!, state.winningHands);
+    }
+
+    expect(await history.getHandHistory()).toHaveLength(12);
+    expect(localStorage.getItem('poker_hand_history')).toBeNull();
+  });
+
+  it('should fall back to the last 10 hands in localStorage without IndexedDB', async () => {
+    vi.stubGlobal('indexedDB', undefined);
+    const history = await loadHistory();
+    for (let seed = 1; seed <= 11; seed++) {
+      const state = gameReducer(createInitialState(), { type: 'START_NEW_HAND', seed });
+      await history.recordHand(state, state.playersStartingChips!, state.winningHands);
+    }
+
+    const stored = await history.getHandHistory();
+    expect(stored.map(h => h.seed)).toEqual([11, 10, 9, 8, 7, 6, 5, 4, 3, 2]);
+    expect(JSON.parse(localStorage.getItem('poker_hand_history')!).data).toHaveLength(10);
+    expect((await history.queryHandHistory({ minPot: 0 })).length).toBe(10);
+  });
+});
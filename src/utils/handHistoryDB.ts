@@ -0,0 +1,254 @@
+/**
+ * IndexedDB storage for hand history.
+ * Keeps every hand with no practical cap, indexed by completion time, hand
+ * number, the user's result and starting hand, final phase, pot size and
+ * opponents, so large histories can be searched without loading them all.
+ */
+
+import { HandHistoryQuery, HandHistoryRecord } from '../types/handHistory';
+import { HandIndexKeys, getHandIndexKeys, getQueryHandClasses, matchesHandQuery } from './handHistoryQuery';
+
+/** IndexedDB database name */
+const DB_NAME = 'poker_pardner';
+
+/** IndexedDB schema version; bump it and extend upgradeDB when adding stores or indexes */
+const DB_VERSION = 1;
+
+/** Object store holding the hands */
+const HANDS_STORE = 'hands';
+
+/**
+ * A hand as stored: the record plus the fields its indexes read.
+ */
+interface StoredHand extends HandIndexKeys {
+  id: string;
+  timestamp: number;
+  handNumber: number;
+  finalPhase: string;
+  potSize: number;
+  record: HandHistoryRecord;
+}
+
+/** The open database, shared by every call */
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Whether this browser offers IndexedDB (some private modes and test environments do not).
+ */
+export function isHandHistoryDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves when a transaction commits.
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Creates the object store and indexes for a new or older database.
+ */
+function upgradeDB(db: IDBDatabase, oldVersion: number): void {
+  if (oldVersion < 1) {
+    const hands = db.createObjectStore(HANDS_STORE, { keyPath: 'id' });
+    hands.createIndex('timestamp', 'timestamp');
+    hands.createIndex('handNumber', 'handNumber');
+    hands.createIndex('outcome', 'outcome');
+    hands.createIndex('handClass', 'handClass');
+    hands.createIndex('finalPhase', 'finalPhase');
+    hands.createIndex('potSize', 'potSize');
+    hands.createIndex('opponents', 'opponents', { multiEntry: true });
+  }
+}
+
+/**
+ * Opens the database, creating or upgrading it on first use.
+ */
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => upgradeDB(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again after a failure
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Converts a hand to its stored form.
+ */
+function toStoredHand(record: HandHistoryRecord): StoredHand {
+  return {
+    id: record.id,
+    timestamp: record.timestamp,
+    handNumber: record.handNumber,
+    finalPhase: record.finalPhase,
+    potSize: record.potSize,
+    ...getHandIndexKeys(record),
+    record,
+  };
+}
+
+/**
+ * Writes hands in one readwrite transaction, optionally clearing the store
+ * first. Nothing is written if any hand fails: a hand that cannot be stored
+ * aborts the transaction, rolling back the clear and every earlier put.
+ */
+async function writeHands(records: HandHistoryRecord[], clearFirst: boolean): Promise<void> {
+  const db = await openDB();
+  const transaction = db.transaction(HANDS_STORE, 'readwrite');
+  const done = transactionDone(transaction);
+  const store = transaction.objectStore(HANDS_STORE);
+  try {
+    if (clearFirst) {
+      store.clear();
+    }
+    records.forEach(record => store.put(toStoredHand(record)));
+  } catch (error) {
+    transaction.abort();
+    await done.catch(() => undefined);
+    throw error;
+  }
+  await done;
+}
+
+/**
+ * Adds or replaces hands.
+ *
+ * @param records - The hands to save
+ */
+export async function putHands(records: HandHistoryRecord[]): Promise<void> {
+  await writeHands(records, false);
+}
+
+/**
+ * Replaces every stored hand with the given ones, all or nothing.
+ *
+ * @param records - The hands to keep
+ */
+export async function replaceHands(records: HandHistoryRecord[]): Promise<void> {
+  await writeHands(records, true);
+}
+
+/**
+ * Gets every hand, oldest first.
+ */
+export async function getAllHands(): Promise<HandHistoryRecord[]> {
+  const db = await openDB();
+  const index = db.transaction(HANDS_STORE).objectStore(HANDS_STORE).index('timestamp');
+  const stored = await requestToPromise(index.getAll() as IDBRequest<StoredHand[]>);
+  return stored.map(hand => hand.record);
+}
+
+/**
+ * Gets one hand by ID.
+ *
+ * @param id - The hand's ID
+ */
+export async function getHand(id: string): Promise<HandHistoryRecord | undefined> {
+  const db = await openDB();
+  const store = db.transaction(HANDS_STORE).objectStore(HANDS_STORE);
+  const stored = await requestToPromise(store.get(id) as IDBRequest<StoredHand | undefined>);
+  return stored?.record;
+}
+
+/**
+ * Gets the highest hand number stored (-1 when there are no hands).
+ */
+export async function getHighestHandNumber(): Promise<number> {
+  const db = await openDB();
+  const index = db.transaction(HANDS_STORE).objectStore(HANDS_STORE).index('handNumber');
+  const cursor = await requestToPromise(index.openCursor(null, 'prev'));
+  return cursor ? (cursor.value as StoredHand).handNumber : -1;
+}
+
+/**
+ * Searches the hands.
+ * The most selective filter given is answered from its index and the rest
+ * are checked on the hands it returns.
+ *
+ * @param query - The filters
+ * @returns Matching hands, newest first
+ * @throws Error if the hole-card filter is not valid range shorthand
+ */
+export async function queryHands(query: HandHistoryQuery): Promise<HandHistoryRecord[]> {
+  const handClasses = getQueryHandClasses(query);
+  // A range whose bounds cross matches nothing (IndexedDB refuses to build it)
+  if (isEmptyRange(query.minPot, query.maxPot) || isEmptyRange(query.from, query.to)) {
+    return [];
+  }
+  const db = await openDB();
+  const store = db.transaction(HANDS_STORE).objectStore(HANDS_STORE);
+  const getFromIndex = (name: string, range: IDBKeyRange) =>
+    requestToPromise(store.index(name).getAll(range) as IDBRequest<StoredHand[]>);
+
+  let candidates: StoredHand[];
+  const opponent = query.opponent?.trim().toLowerCase();
+  if (handClasses) {
+    const byClass = await Promise.all([...handClasses].map(handClass => getFromIndex('handClass', IDBKeyRange.only(handClass))));
+    candidates = byClass.flat();
+  } else if (opponent) {
+    candidates = await getFromIndex('opponents', IDBKeyRange.only(opponent));
+  } else if (query.finalPhase) {
+    candidates = await getFromIndex('finalPhase', IDBKeyRange.only(query.finalPhase));
+  } else if (query.outcome) {
+    candidates = await getFromIndex('outcome', IDBKeyRange.only(query.outcome));
+  } else if (query.minPot !== undefined || query.maxPot !== undefined) {
+    candidates = await getFromIndex('potSize', boundRange(query.minPot, query.maxPot));
+  } else if (query.from !== undefined || query.to !== undefined) {
+    candidates = await getFromIndex('timestamp', boundRange(query.from, query.to));
+  } else {
+    candidates = await requestToPromise(store.getAll() as IDBRequest<StoredHand[]>);
+  }
+
+  return candidates
+    .map(hand => hand.record)
+    .filter(hand => matchesHandQuery(hand, query, handClasses))
+    .sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Checks whether optional inclusive bounds leave nothing between them.
+ */
+function isEmptyRange(lower?: number, upper?: number): boolean {
+  return lower !== undefined && upper !== undefined && lower > upper;
+}
+
+/**
+ * Builds a key range from optional inclusive bounds (at least one given).
+ */
+function boundRange(lower?: number, upper?: number): IDBKeyRange {
+  if (lower !== undefined && upper !== undefined) return IDBKeyRange.bound(lower, upper);
+  return lower !== undefined ? IDBKeyRange.lowerBound(lower) : IDBKeyRange.upperBound(upper);
+}
+
+/**
+ * Deletes every hand.
+ */
+export async function clearHands(): Promise<void> {
+  const db = await openDB();
+  const transaction = db.transaction(HANDS_STORE, 'readwrite');
+  transaction.objectStore(HANDS_STORE).clear();
+  await transactionDone(transaction);
+}
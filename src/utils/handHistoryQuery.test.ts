@@ -0,0 +1,88 @@
+/**
+ * Unit tests for hand history search.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getHandIndexKeys, matchesHandQuery } from './handHistoryQuery';
+import { Card, Rank, Suit } from '../types/game';
+import { HandHistoryPlayer, HandHistoryRecord } from '../types/handHistory';
+
+function card(rank: Rank, suit: Suit): Card {
+  return { rank, suit };
+}
+
+function player(id: string, name: string, holeCards: Card[]): HandHistoryPlayer {
+  return { id, name, isUser: id === 'user', holeCards, finalChips: 1000, chipChange: 0, folded: false, wentAllIn: false };
+}
+
+// Helper to create a hand the user won with AKs against Doc
+function hand(overrides: Partial<HandHistoryRecord> = {}): HandHistoryRecord {
+  return {
+    id: 'hand-1',
+    timestamp: 1_000,
+    handNumber: 1,
+    communityCards: [],
+    finalPhase: 'river',
+    potSize: 200,
+    players: [
+      player('user', 'You', [card('A', 'hearts'), card('K', 'hearts')]),
+      player('ai1', 'Doc', [card('7', 'clubs'), card('2', 'spades')]),
+    ],
+    winnerIds: ['user'],
+    winnerNames: ['You'],
+    winningHands: [],
+    actions: [],
+    reachedShowdown: true,
+    userStartingChips: 1000,
+    userEndingChips: 1100,
+    userChipChange: 100,
+    userWon: true,
+    userFolded: false,
+    ...overrides,
+  };
+}
+
+describe('getHandIndexKeys', () => {
+  it('should index the result, starting hand class and opponents', () => {
+    expect(getHandIndexKeys(hand())).toEqual({ outcome: 'won', handClass: 'AKs', opponents: ['doc'] });
+    expect(getHandIndexKeys(hand({ userWon: false, userFolded: true })).outcome).toBe('folded');
+  });
+
+  it('should leave the hand class empty for four-card hands', () => {
+    const omaha = hand();
+    omaha.players[0].holeCards = [...omaha.players[0].holeCards, card('Q', 'clubs'), card('J', 'clubs')];
+
+    expect(getHandIndexKeys(omaha).handClass).toBe('');
+  });
+});
+
+describe('matchesHandQuery', () => {
+  it('should match a hand against every filter given', () => {
+    const query = {
+      from: 1_000,
+      to: 2_000,
+      outcome: 'won' as const,
+      holeCards: 'AQs+, 77+',
+      finalPhase: 'river' as const,
+      minPot: 200,
+      maxPot: 200,
+      opponent: ' DOC ',
+    };
+
+    expect(matchesHandQuery(hand(), query)).toBe(true);
+    expect(matchesHandQuery(hand(), {})).toBe(true);
+  });
+
+  it('should reject a hand that misses any filter', () => {
+    expect(matchesHandQuery(hand(), { to: 999 })).toBe(false);
+    expect(matchesHandQuery(hand(), { outcome: 'lost' })).toBe(false);
+    expect(matchesHandQuery(hand(), { holeCards: 'AKo' })).toBe(false);
+    expect(matchesHandQuery(hand(), { finalPhase: 'flop' })).toBe(false);
+    expect(matchesHandQuery(hand(), { minPot: 201 })).toBe(false);
+    expect(matchesHandQuery(hand(), { opponent: 'Slim' })).toBe(false);
+  });
+
+  it('should throw on invalid hole-card shorthand', () => {
+    expect(() => matchesHandQuery(hand(), { holeCards: 'AKx' })).toThrow();
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Hand history search.
+ * Works out the keys hands are indexed by (the user's result, starting hand
+ * class and opponents) and checks hands against a HandHistoryQuery.
+ */
+
+import { HandHistoryQuery, HandHistoryRecord, HandOutcome } from '../types/handHistory';
+import { getHandClass, parseRange } from './ranges';
+
+/**
+ * Keys a stored hand is indexed by, besides its own fields.
+ */
+export interface HandIndexKeys {
+  /** How the hand ended for the user */
+  outcome: HandOutcome;
+  /** The user's starting hand class, e.g. "AKs" (empty for hands without two hole cards) */
+  handClass: string;
+  /** Lower-cased names of the opponents dealt in */
+  opponents: string[];
+}
+
+/**
+ * Gets how a hand ended for the user.
+ */
+export function getHandOutcome(hand: HandHistoryRecord): HandOutcome {
+  if (hand.userWon) return 'won';
+  return hand.userFolded ? 'folded' : 'lost';
+}
+
+/**
+ * Gets the keys a hand is indexed by.
+ *
+ * @param hand - The hand to index
+ */
+export function getHandIndexKeys(hand: HandHistoryRecord): HandIndexKeys {
+  const user = hand.players.find(p => p.isUser);
+  return {
+    outcome: getHandOutcome(hand),
+    handClass: user && user.holeCards.length === 2 ? getHandClass(user.holeCards) : '',
+    opponents: hand.players.filter(p => !p.isUser).map(p => p.name.toLowerCase()),
+  };
+}
+
+/**
+ * Parses a query's hole-card filter into the hand classes it allows.
+ *
+ * @param query - The query
+ * @returns The allowed classes, or undefined when the query has no hole-card filter
+ * @throws Error if the filter is not valid range shorthand
+ */
+export function getQueryHandClasses(query: HandHistoryQuery): Set<string> | undefined {
+  const notation = query.holeCards?.trim();
+  return notation ? parseRange(notation) : undefined;
+}
+
+/**
+ * Checks a hand against every filter in a query.
+ *
+ * @param hand - The hand to check
+ * @param query - The filters
+ * @param handClasses - The query's parsed hole-card filter (parsed from the query when omitted)
+ * @throws Error if the hole-card filter is not valid range shorthand
+ */
+export function matchesHandQuery(
+  hand: HandHistoryRecord,
+  query: HandHistoryQuery,
+  handClasses: Set<string> | undefined = getQueryHandClasses(query)
+): boolean {
+  const keys = getHandIndexKeys(hand);
+  const opponent = query.opponent?.trim().toLowerCase();
+
+  return (
+    (query.from === undefined || hand.timestamp >= query.from) &&
+    (query.to === undefined || hand.timestamp <= query.to) &&
+    (query.outcome === undefined || keys.outcome === query.outcome) &&
+    (handClasses === undefined || handClasses.has(keys.handClass)) &&
+    (query.finalPhase === undefined || hand.finalPhase === query.finalPhase) &&
+    (query.minPot === undefined || hand.potSize >= query.minPot) &&
+    (query.maxPot === undefined || hand.potSize <= query.maxPot) &&
+    (!opponent || keys.opponents.includes(opponent))
+  );
+}
@@ -0,0 +1,347 @@
+/**
+ * Unit tests for PokerStars-style text hand histories.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatPokerStarsHand, formatPokerStarsHistory, getPokerStarsHandNumber, parsePokerStarsHistory } from './handHistoryText';
+import { ActionHistoryAction, ActionHistoryEntry, Card, GamePhase, HandRank, Rank, Suit } from '../types/game';
+import { HandHistoryPlayer, HandHistoryRecord } from '../types/handHistory';
+
+function card(rank: Rank, suit: Suit): Card {
+  return { rank, suit };
+}
+
+// Helper to create an action history entry
+function act(playerId: string, action: ActionHistoryAction, amount?: number, phase: GamePhase = 'pre-flop'): ActionHistoryEntry {
+  const names: Record<string, string> = { user: 'You', ai1: 'Doc', ai2: 'Slim' };
+  return { id: 0, playerName: names[playerId], playerId, action, amount, phase, potAfter: 0, timestamp: 0, isUser: playerId === 'user' };
+}
+
+function player(id: string, name: string, holeCards: Card[], chipChange: number, folded = false): HandHistoryPlayer {
+  return { id, name, isUser: id === 'user', holeCards, finalChips: 1000 + chipChange, chipChange, folded, wentAllIn: false };
+}
+
+function parseBoard(text: string): Card[] {
+  const suits: Record<string, Suit> = { h: 'hearts', d: 'diamonds', c: 'clubs', s: 'spades' };
+  return text.split(' ').map(c => card((c[0] === 'T' ? '10' : c[0]) as Rank, suits[c[1]]));
+}
+
+const pairOfAces = { rank: HandRank.Pair, cards: [], description: 'Pair of As', values: [] };
+
+// The user opens on the button, Doc folds the small blind and Slim calls down to lose at showdown
+function showdownHand(): HandHistoryRecord {
+  return {
+    id: 'hand-1',
+    timestamp: Date.UTC(2026, 9, 19, 14, 5, 9),
+    handNumber: 1,
+    smallBlind: 5,
+    bigBlind: 10,
+    dealerId: 'user',
+    communityCards: [card('A', 'clubs'), card('7', 'diamonds'), card('2', 'hearts'), card('10', 'spades'), card('3', 'clubs')],
+    finalPhase: 'showdown',
+    potSize: 145,
+    players: [
+      { ...player('user', 'You', [card('A', 'hearts'), card('K', 'hearts')], 75), handEvaluation: pairOfAces },
+      player('ai1', 'Doc', [card('9', 'clubs'), card('4', 'spades')], -5, true),
+      player('ai2', 'Slim', [card('Q', 'diamonds'), card('J', 'diamonds')], -70),
+    ],
+    winnerIds: ['user'],
+    winnerNames: ['You'],
+    winningHands: [pairOfAces],
+    actions: [
+      act('ai1', 'smallBlind', 5),
+      act('ai2', 'bigBlind', 10),
+      act('user', 'raise', 30),
+      act('ai1', 'fold'),
+      act('ai2', 'call', 20),
+      act('ai2', 'check', undefined, 'flop'),
+      act('user', 'raise', 40, 'flop'),
+      act('ai2', 'call', 40, 'flop'),
+      act('ai2', 'check', undefined, 'turn'),
+      act('user', 'check', undefined, 'turn'),
+      act('ai2', 'check', undefined, 'river'),
+      act('user', 'check', undefined, 'river'),
+    ],
+    reachedShowdown: true,
+    userStartingChips: 1000,
+    userEndingChips: 1075,
+    userChipChange: 75,
+    userWon: true,
+    userFolded: false,
+  };
+}
+
+describe('formatPokerStarsHand', () => {
+  it('should write seats, blinds, streets, showdown and summary', () => {
+    expect(formatPokerStarsHand(showdownHand()).split('\n')).toEqual([
+      `PokerStars Hand #${Date.UTC(2026, 9, 19, 14, 5, 9)}:  Hold'em No Limit (5/10) - 2026/10/19 14:05:09 UTC`,
+      "Table 'Poker Pardner' 3-max Seat #1 is the button",
+      'Seat 1: You (1000 in chips)',
+      'Seat 2: Doc (1000 in chips)',
+      'Seat 3: Slim (1000 in chips)',
+      'Doc: posts small blind 5',
+      'Slim: posts big blind 10',
+      '*** HOLE CARDS ***',
+      'Dealt to You [Ah Kh]',
+      'You: raises 20 to 30',
+      'Doc: folds',
+      'Slim: calls 20',
+      '*** FLOP *** [Ac 7d 2h]',
+      'Slim: checks',
+      'You: bets 40',
+      'Slim: calls 40',
+      '*** TURN *** [Ac 7d 2h] [Ts]',
+      'Slim: checks',
+      'You: checks',
+      '*** RIVER *** [Ac 7d 2h Ts] [3c]',
+      'Slim: checks',
+      'You: checks',
+      '*** SHOW DOWN ***',
+      'You: shows [Ah Kh] (Pair of As)',
+      'Slim: shows [Qd Jd]',
+      'You collected 145 from pot',
+      '*** SUMMARY ***',
+      'Total pot 145 | Rake 0',
+      'Board [Ac 7d 2h Ts 3c]',
+      'Seat 1: You (button) showed [Ah Kh] and won (145) with Pair of As',
+      'Seat 2: Doc (small blind) folded before Flop',
+      'Seat 3: Slim (big blind) showed [Qd Jd] and lost',
+    ]);
+  });
+
+  it('should return an uncalled bet and collect without a showdown', () => {
+    const hand: HandHistoryRecord = {
+      ...showdownHand(),
+      communityCards: [],
+      finalPhase: 'pre-flop',
+      potSize: 25,
+      players: [
+        player('user', 'You', [card('A', 'hearts'), card('K', 'hearts')], 15),
+        player('ai1', 'Doc', [card('9', 'clubs'), card('4', 'spades')], -5, true),
+        player('ai2', 'Slim', [card('Q', 'diamonds'), card('J', 'diamonds')], -10, true),
+      ],
+      winningHands: [],
+      actions: [act('ai1', 'smallBlind', 5), act('ai2', 'bigBlind', 10), act('user', 'raise', 30), act('ai1', 'fold'), act('ai2', 'fold')],
+      reachedShowdown: false,
+    };
+
+    const lines = formatPokerStarsHand(hand).split('\n');
+
+    expect(lines).toContain('Uncalled bet (20) returned to You');
+    expect(lines).toContain('You collected 25 from pot');
+    expect(lines).toContain('Total pot 25 | Rake 0');
+    expect(lines).toContain('Seat 1: You (button) collected (25)');
+    expect(lines).not.toContain('*** SHOW DOWN ***');
+    expect(lines.some(line => line.startsWith('*** FLOP ***'))).toBe(false);
+  });
+
+  it('should name the variant, structure and hi-lo in the header', () => {
+    const hand = { ...showdownHand(), variant: 'omaha' as const, bettingStructure: 'pot-limit' as const, hiLo: true };
+
+    expect(formatPokerStarsHand(hand).split('\n')[0]).toContain("Omaha Hi/Lo Pot Limit (5/10)");
+  });
+
+  it('should find the button from the small blind for hands that did not keep it', () => {
+    const hand = { ...showdownHand(), dealerId: undefined };
+
+    expect(formatPokerStarsHand(hand).split('\n')[1]).toBe("Table 'Poker Pardner' 3-max Seat #1 is the button");
+  });
+});
+
+describe('formatPokerStarsHand with a run-it-twice hand', () => {
+  // All in on the flop: the turn and river are dealt twice
+  function runTwiceHand(): HandHistoryRecord {
+    return {
+      ...showdownHand(),
+      secondBoard: [card('A', 'clubs'), card('7', 'diamonds'), card('2', 'hearts'), card('Q', 'spades'), card('J', 'clubs')],
+      actions: showdownHand().actions.filter(a => a.phase !== 'turn' && a.phase !== 'river'),
+    };
+  }
+
+  it('should write the streets after the all-in for each board and both boards in the summary', () => {
+    const lines = formatPokerStarsHand(runTwiceHand()).split('\n');
+
+    expect(lines).toContain('*** FLOP *** [Ac 7d 2h]');
+    expect(lines.filter(line => line.startsWith('*** FIRST') || line.startsWith('*** SECOND'))).toEqual([
+      '*** FIRST TURN *** [Ac 7d 2h] [Ts]',
+      '*** FIRST RIVER *** [Ac 7d 2h Ts] [3c]',
+      '*** SECOND TURN *** [Ac 7d 2h] [Qs]',
+      '*** SECOND RIVER *** [Ac 7d 2h Qs] [Jc]',
+    ]);
+    expect(lines).toContain('Hand was run twice');
+    expect(lines).toContain('FIRST Board [Ac 7d 2h Ts 3c]');
+    expect(lines).toContain('SECOND Board [Ac 7d 2h Qs Jc]');
+    expect(lines.some(line => line.startsWith('Board '))).toBe(false);
+  });
+
+  it('should read both boards back', () => {
+    const { hands, errors } = parsePokerStarsHistory(formatPokerStarsHand(runTwiceHand()));
+
+    expect(errors).toEqual([]);
+    expect(hands[0].communityCards).toEqual(runTwiceHand().communityCards);
+    expect(hands[0].secondBoard).toEqual(runTwiceHand().secondBoard);
+  });
+});
+
+describe('formatPokerStarsHistory', () => {
+  it('should separate hands with blank lines', () => {
+    const text = formatPokerStarsHistory([showdownHand(), showdownHand()]);
+
+    expect(text.split('\n\n\n')).toHaveLength(2);
+    expect(text.endsWith('\n')).toBe(true);
+  });
+});
+
+// A cash hand as the room writes it: a player sitting out, chat, an all-in and mucked cards
+const ROOM_HAND = `PokerStars Hand #245678901234:  Hold'em No Limit ($0.05/$0.10 USD) - 2026/03/14 20:15:02 UTC [2026/03/14 16:15:02 ET]
+Table 'Alcor IV' 6-max Seat #2 is the button
+Seat 1: Hero ($10.00 in chips)
+Seat 2: Big Tex ($12.50 in chips)
+Seat 4: Wanda ($4.00 in chips)
+Seat 5: Idle ($10.00 in chips) is sitting out
+Wanda: posts small blind $0.05
+Hero: posts big blind $0.10
+*** HOLE CARDS ***
+Dealt to Hero [Qs Qh]
+Big Tex: raises $0.20 to $0.30
+Wanda said, "gl all"
+Wanda: raises $3.70 to $4 and is all-in
+Hero: raises $6 to $10 and is all-in
+Big Tex: folds
+Uncalled bet ($6) returned to Hero
+*** FLOP *** [2c 7d Jh]
+*** TURN *** [2c 7d Jh] [4s]
+*** RIVER *** [2c 7d Jh 4s] [9c]
+*** SHOW DOWN ***
+Wanda: shows [Ac Kd] (high card Ace)
+Hero: shows [Qs Qh] (a pair of Queens)
+Hero collected $8.30 from pot
+*** SUMMARY ***
+Total pot $8.30 | Rake $0
+Board [2c 7d Jh 4s 9c]
+Seat 1: Hero (big blind) showed [Qs Qh] and won ($8.30) with a pair of Queens
+Seat 2: Big Tex (button) folded before Flop
+Seat 4: Wanda (small blind) showed [Ac Kd] and lost with high card Ace`;
+
+describe('parsePokerStarsHistory', () => {
+  it('should read back an exported hand', () => {
+    const original = showdownHand();
+    const { hands, errors } = parsePokerStarsHistory(formatPokerStarsHistory([original]));
+
+    expect(errors).toEqual([]);
+    expect(hands).toHaveLength(1);
+    const [hand] = hands;
+    expect(hand).toMatchObject({
+      timestamp: original.timestamp,
+      smallBlind: 5,
+      bigBlind: 10,
+      dealerId: 'seat1',
+      communityCards: original.communityCards,
+      finalPhase: 'showdown',
+      potSize: 145,
+      winnerNames: ['You'],
+      userStartingChips: 1000,
+      userChipChange: 75,
+      userWon: true,
+      userFolded: false,
+    });
+    expect(hand.winningHands[0].description).toBe(original.winningHands[0].description);
+    expect(hand.players.map(p => [p.name, p.chipChange, p.folded])).toEqual([['You', 75, false], ['Doc', -5, true], ['Slim', -70, false]]);
+    expect(hand.actions.map(a => [a.playerName, a.action, a.amount, a.phase])).toEqual(
+      original.actions.map(a => [a.playerName, a.action, a.amount, a.phase])
+    );
+  });
+
+  it("should keep a hand's number through an export and import", () => {
+    const original = showdownHand();
+    const [imported] = parsePokerStarsHistory(formatPokerStarsHistory([original])).hands;
+    const [again] = parsePokerStarsHistory(formatPokerStarsHistory([{ ...imported, timestamp: 0 }])).hands;
+
+    expect(getPokerStarsHandNumber(imported)).toBe(getPokerStarsHandNumber(original));
+    expect(again.id).toBe(imported.id);
+  });
+
+  it('should map a room hand onto its seats and actions', () => {
+    const { hands, errors } = parsePokerStarsHistory(ROOM_HAND);
+
+    expect(errors).toEqual([]);
+    const [hand] = hands;
+    expect(hand.id).toBe('pokerstars_245678901234');
+    expect(hand.players.map(p => p.id)).toEqual(['seat1', 'seat2', 'seat4']);
+    expect(hand.players.find(p => p.name === 'Wanda')).toMatchObject({
+      holeCards: [card('A', 'clubs'), card('K', 'diamonds')],
+      chipChange: -4,
+      finalChips: 0,
+      wentAllIn: true,
+    });
+    expect(hand.players.find(p => p.isUser)).toMatchObject({ name: 'Hero', chipChange: 4.3, finalChips: 14.3 });
+    expect(hand.actions.filter(a => a.action === 'raise').map(a => [a.playerName, a.amount])).toEqual([
+      ['Big Tex', 0.3],
+      ['Wanda', 4],
+      ['Hero', 10],
+    ]);
+    expect(hand.actions.filter(a => a.isUser).map(a => a.action)).toEqual(['bigBlind', 'raise']);
+    expect(hand.potSize).toBe(8.3);
+    expect(hand.winningHands[0].description).toBe('Pair of Qs');
+  });
+
+  it('should skip unsupported hands and report each one', () => {
+    const razz = "PokerStars Hand #2: Razz Limit ($0.10/$0.20 USD) - 2026/03/14 20:16:00 UTC\nSeat 1: Hero ($5 in chips)";
+    const noHero = ROOM_HAND.replace('#245678901234', '#3').replace('Dealt to Hero [Qs Qh]\n', '');
+    const deadBlinds = ROOM_HAND.replace('#245678901234', '#4').replace('Hero: posts big blind $0.10', 'Hero: posts small & big blinds $0.15');
+
+    const { hands, errors } = parsePokerStarsHistory([ROOM_HAND, razz, noHero, deadBlinds].join('\n\n\n'));
+
+    expect(hands.map(h => h.id)).toEqual(['pokerstars_245678901234']);
+    expect(errors.map(e => [e.hand, e.handId])).toEqual([[2, '2'], [3, '3'], [4, '4']]);
+    expect(errors[0].message).toContain('Unsupported game');
+    expect(errors[1].message).toContain('Dealt to');
+    expect(errors[2].message).toContain('small & big blinds');
+  });
+
+  it("should read a room's run-it-twice hand, showing a second-board winner with that board's hand", () => {
+    const runTwice = `PokerStars Hand #5: Hold'em No Limit (5/10) - 2026/03/14 20:20:00 UTC
+Table 'Alcor IV' 6-max Seat #1 is the button
+Seat 1: Hero (100 in chips)
+Seat 2: Wanda (100 in chips)
+Hero: posts small blind 5
+Wanda: posts big blind 10
+*** HOLE CARDS ***
+Dealt to Hero [Qs Qh]
+Hero: raises 90 to 100 and is all-in
+Wanda: calls 90 and is all-in
+*** FIRST FLOP *** [2c 7d Jh]
+*** FIRST TURN *** [2c 7d Jh] [4s]
+*** FIRST RIVER *** [2c 7d Jh 4s] [9c]
+*** SECOND FLOP *** [Ah 5d 8s]
+*** SECOND TURN *** [Ah 5d 8s] [3h]
+*** SECOND RIVER *** [Ah 5d 8s 3h] [Kc]
+*** FIRST SHOW DOWN ***
+Hero: shows [Qs Qh] (a pair of Queens)
+Wanda: shows [Ac Kd] (high card Ace)
+Hero collected 100 from pot
+*** SECOND SHOW DOWN ***
+Hero: shows [Qs Qh] (a pair of Queens)
+Wanda: shows [Ac Kd] (two pair, Aces and Kings)
+Wanda collected 100 from pot
+*** SUMMARY ***
+Total pot 200 | Rake 0
+Hand was run twice
+FIRST Board [2c 7d Jh 4s 9c]
+SECOND Board [Ah 5d 8s 3h Kc]`;
+
+    const { hands, errors } = parsePokerStarsHistory(runTwice);
+
+    expect(errors).toEqual([]);
+    const [hand] = hands;
+    expect(hand.communityCards).toHaveLength(5);
+    expect(hand.secondBoard).toEqual(parseBoard('Ah 5d 8s 3h Kc'));
+    expect(hand.winnerNames).toEqual(['Hero', 'Wanda']);
+    expect(hand.winningHands.map(h => h.rank)).toEqual([HandRank.Pair, HandRank.TwoPair]);
+    expect(hand.players.map(p => p.chipChange)).toEqual([0, 0]);
+  });
+
+  it('should report text with no hands in it', () => {
+    expect(parsePokerStarsHistory('not a hand history').errors).toEqual([{ hand: 0, message: 'No PokerStars hands found' }]);
+  });
+});
@@ -0,0 +1,740 @@
+/**
+ * PokerStars-style text hand histories.
+ * Converts recorded hands into the text format most trackers and replayers
+ * read (header, seats, blinds, streets, showdown and summary), and reads
+ * hands played elsewhere back into hand records. Chips are written as play
+ * money, without a currency symbol.
+ */
+
+import {
+  ActionHistoryAction,
+  ActionHistoryEntry,
+  BettingStructure,
+  Card,
+  GamePhase,
+  GameVariant,
+  HandEvaluation,
+  Rank,
+  Suit,
+} from '../types/game';
+import { HandHistoryPlayer, HandHistoryRecord, HandTextParseResult } from '../types/handHistory';
+import { getBestHand } from './handEvaluator';
+
+/** Table name written on every hand */
+const TABLE_NAME = 'Poker Pardner';
+
+/** Streets after pre-flop, with the community cards dealt before each */
+const STREETS: { phase: GamePhase; name: string; cardsBefore: number; cardsDealt: number }[] = [
+  { phase: 'flop', name: 'FLOP', cardsBefore: 0, cardsDealt: 3 },
+  { phase: 'turn', name: 'TURN', cardsBefore: 3, cardsDealt: 1 },
+  { phase: 'river', name: 'RIVER', cardsBefore: 4, cardsDealt: 1 },
+];
+
+/** Actions posted before the hole cards are dealt */
+const FORCED_BETS: ActionHistoryAction[] = ['ante', 'smallBlind', 'bigBlind'];
+
+/** How each phase is named where a player folded */
+const FOLD_STREET_NAMES: Record<GamePhase, string> = {
+  'pre-flop': 'before Flop',
+  'flop': 'on the Flop',
+  'turn': 'on the Turn',
+  'river': 'on the River',
+  'showdown': 'on the River',
+};
+
+const STRUCTURE_NAMES: Record<BettingStructure, string> = {
+  'no-limit': 'No Limit',
+  'pot-limit': 'Pot Limit',
+  'fixed-limit': 'Limit',
+};
+
+const SUIT_LETTERS: Record<Suit, string> = {
+  hearts: 'h',
+  diamonds: 'd',
+  clubs: 'c',
+  spades: 's',
+};
+
+/**
+ * Formats a card as rank and suit letters, e.g. "Th".
+ */
+export function formatTextCard(card: Card): string {
+  return `${card.rank === '10' ? 'T' : card.rank}${SUIT_LETTERS[card.suit]}`;
+}
+
+function formatCards(cards: Card[]): string {
+  return `[${cards.map(formatTextCard).join(' ')}]`;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Formats a timestamp the way hand headers write it, in UTC.
+ */
+function formatDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getUTCFullYear()}/${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} UTC`;
+}
+
+/**
+ * Names the game the way the header does, e.g. "Omaha Hi/Lo Pot Limit".
+ * Hands recorded before variants were kept are told apart by hole cards.
+ */
+function getGameName(hand: HandHistoryRecord): string {
+  const holeCards = hand.players.find(p => p.holeCards.length > 0)?.holeCards.length ?? 2;
+  const variant = hand.variant ?? (holeCards === 4 ? 'omaha' : 'holdem');
+  const game = variant === 'omaha' ? 'Omaha' : variant === 'short-deck' ? '6+ Hold\'em' : 'Hold\'em';
+  const structure = STRUCTURE_NAMES[hand.bettingStructure ?? 'no-limit'];
+  return `${game}${hand.hiLo ? ' Hi/Lo' : ''} ${structure}`;
+}
+
+/**
+ * Gets the blinds from the hand, or from what was posted for older hands.
+ */
+function getBlinds(hand: HandHistoryRecord): { small: number; big: number } {
+  const posted = (action: 'smallBlind' | 'bigBlind') => hand.actions.find(a => a.action === action)?.amount ?? 0;
+  return {
+    small: hand.smallBlind ?? posted('smallBlind'),
+    big: hand.bigBlind ?? posted('bigBlind'),
+  };
+}
+
+/**
+ * Counts the cards two boards share before they part.
+ */
+function getSharedCardCount(first: Card[], second: Card[]): number {
+  const shared = first.findIndex((c, i) => !second[i] || c.rank !== second[i].rank || c.suit !== second[i].suit);
+  return shared === -1 ? first.length : shared;
+}
+
+/**
+ * Finds who had the button. Older hands did not keep it, so it is the
+ * small blind heads-up and otherwise the seat before the small blind.
+ */
+function getButtonId(hand: HandHistoryRecord, seated: HandHistoryPlayer[]): string | undefined {
+  if (hand.dealerId) return hand.dealerId;
+
+  const smallBlindId = hand.actions.find(a => a.action === 'smallBlind')?.playerId;
+  const smallBlindSeat = seated.findIndex(p => p.id === smallBlindId);
+  if (smallBlindSeat === -1) return undefined;
+  if (seated.length === 2) return smallBlindId;
+  return seated[(smallBlindSeat - 1 + seated.length) % seated.length].id;
+}
+
+/** Id given to a hand imported from text, holding the room's hand number */
+const IMPORTED_HAND_ID = /^pokerstars_(\d+)$/;
+
+/**
+ * Gets the number a hand goes by in PokerStars text: the room's number for
+ * an imported hand, and otherwise the time it was played. Exporting a hand
+ * and importing it again gives back the same number.
+ *
+ * @param hand - The hand
+ */
+export function getPokerStarsHandNumber(hand: HandHistoryRecord): string {
+  return IMPORTED_HAND_ID.exec(hand.id)?.[1] ?? String(hand.timestamp);
+}
+
+/**
+ * Converts a recorded hand to PokerStars-style hand history text.
+ *
+ * @param hand - The hand to convert
+ * @returns The hand's text, one line per event, without a trailing newline
+ */
+export function formatPokerStarsHand(hand: HandHistoryRecord): string {
+  const startingChips = (player: HandHistoryPlayer) => player.finalChips - player.chipChange;
+  // Players who had already busted sit out the hand
+  const seated = hand.players.filter(p => startingChips(p) > 0 || p.holeCards.length > 0);
+  const seatNumbers = new Map(hand.players.map((p, index) => [p.id, index + 1]));
+  const buttonId = getButtonId(hand, seated);
+  const smallBlindId = hand.actions.find(a => a.action === 'smallBlind')?.playerId;
+  const bigBlindId = hand.actions.find(a => a.action === 'bigBlind')?.playerId;
+  const user = hand.players.find(p => p.isUser);
+  const blinds = getBlinds(hand);
+
+  const stacks = new Map(seated.map(p => [p.id, startingChips(p)]));
+  const invested = new Map(seated.map(p => [p.id, 0]));
+  const foldedOn = new Map<string, GamePhase>();
+  let streetBets = new Map<string, number>();
+  let currentBet = 0;
+
+  // Moves chips from a player's stack into the pot
+  const putIn = (playerId: string, amount: number): boolean => {
+    const chips = Math.min(amount, stacks.get(playerId) ?? 0);
+    stacks.set(playerId, (stacks.get(playerId) ?? 0) - chips);
+    invested.set(playerId, (invested.get(playerId) ?? 0) + chips);
+    streetBets.set(playerId, (streetBets.get(playerId) ?? 0) + chips);
+    return stacks.get(playerId) === 0;
+  };
+  const allIn = (isAllIn: boolean) => (isAllIn ? ' and is all-in' : '');
+
+  const lines: string[] = [
+    `PokerStars Hand #${getPokerStarsHandNumber(hand)}:  ${getGameName(hand)} (${blinds.small}/${blinds.big}) - ${formatDate(hand.timestamp)}`,
+    `Table '${TABLE_NAME}' ${hand.players.length}-max` +
+      (buttonId ? ` Seat #${seatNumbers.get(buttonId)} is the button` : ''),
+    ...seated.map(p => `Seat ${seatNumbers.get(p.id)}: ${p.name} (${startingChips(p)} in chips)`),
+  ];
+
+  const writeActions = (actions: ActionHistoryEntry[], phase: GamePhase) => {
+    actions.forEach(action => {
+      const name = action.playerName;
+      const amount = action.amount ?? 0;
+      switch (action.action) {
+        case 'ante':
+          lines.push(`${name}: posts the ante ${amount}${allIn(putIn(action.playerId, amount))}`);
+          // Antes are dead money, not part of the pre-flop bet
+          streetBets.set(action.playerId, 0);
+          break;
+        case 'smallBlind':
+        case 'bigBlind': {
+          const isAllIn = putIn(action.playerId, amount);
+          currentBet = Math.max(currentBet, streetBets.get(action.playerId) ?? 0);
+          lines.push(`${name}: posts ${action.action === 'smallBlind' ? 'small' : 'big'} blind ${amount}${allIn(isAllIn)}`);
+          break;
+        }
+        case 'fold':
+          foldedOn.set(action.playerId, phase);
+          lines.push(`${name}: folds`);
+          break;
+        case 'check':
+          lines.push(`${name}: checks`);
+          break;
+        case 'call': {
+          const before = streetBets.get(action.playerId) ?? 0;
+          const isAllIn = putIn(action.playerId, amount);
+          lines.push(`${name}: calls ${(streetBets.get(action.playerId) ?? 0) - before}${allIn(isAllIn)}`);
+          break;
+        }
+        case 'raise': {
+          const before = streetBets.get(action.playerId) ?? 0;
+          const isAllIn = putIn(action.playerId, Math.max(0, (action.amount ?? currentBet) - before));
+          const total = streetBets.get(action.playerId) ?? 0;
+          lines.push(currentBet === 0
+            ? `${name}: bets ${total}${allIn(isAllIn)}`
+            : `${name}: raises ${total - currentBet} to ${total}${allIn(isAllIn)}`);
+          currentBet = Math.max(currentBet, total);
+          break;
+        }
+      }
+    });
+  };
+
+  // Returns whatever the last bettor put in that nobody matched
+  const returnUncalledBet = () => {
+    const bets = [...streetBets.entries()].sort((a, b) => b[1] - a[1]);
+    if (bets.length === 0) return;
+    const [topId, topBet] = bets[0];
+    const uncalled = topBet - (bets[1]?.[1] ?? 0);
+    if (uncalled > 0) {
+      invested.set(topId, (invested.get(topId) ?? 0) - uncalled);
+      lines.push(`Uncalled bet (${uncalled}) returned to ${hand.players.find(p => p.id === topId)?.name}`);
+    }
+  };
+
+  const isForcedBet = (action: ActionHistoryEntry) => FORCED_BETS.includes(action.action);
+  const preFlop = hand.actions.filter(a => a.phase === 'pre-flop');
+  writeActions(preFlop.filter(isForcedBet), 'pre-flop');
+  lines.push('*** HOLE CARDS ***');
+  if (user && user.holeCards.length > 0) {
+    lines.push(`Dealt to ${user.name} ${formatCards(user.holeCards)}`);
+  }
+  writeActions(preFlop.filter(a => !isForcedBet(a)), 'pre-flop');
+  // A run-it-twice hand names the streets dealt after the all-in FIRST and SECOND
+  const sharedCards = hand.secondBoard ? getSharedCardCount(hand.communityCards, hand.secondBoard) : 5;
+  const writeStreet = (board: Card[], street: typeof STREETS[number], prefix: string) => {
+    const before = board.slice(0, street.cardsBefore);
+    const dealt = board.slice(street.cardsBefore, street.cardsBefore + street.cardsDealt);
+    lines.push(`*** ${prefix}${street.name} *** ${before.length > 0 ? `${formatCards(before)} ` : ''}${formatCards(dealt)}`);
+  };
+  let lastBettingStreet = streetBets;
+  STREETS.forEach(street => {
+    if (hand.communityCards.length < street.cardsBefore + street.cardsDealt) return;
+    if (streetBets.size > 0) lastBettingStreet = streetBets;
+    streetBets = new Map();
+    currentBet = 0;
+
+    writeStreet(hand.communityCards, street, street.cardsBefore + street.cardsDealt > sharedCards ? 'FIRST ' : '');
+    writeActions(hand.actions.filter(a => a.phase === street.phase), street.phase);
+  });
+  STREETS.forEach(street => {
+    if (hand.secondBoard && street.cardsBefore + street.cardsDealt > sharedCards) {
+      writeStreet(hand.secondBoard, street, 'SECOND ');
+    }
+  });
+  if (streetBets.size === 0) streetBets = lastBettingStreet;
+  returnUncalledBet();
+
+  const collected = new Map(seated.map(p => [p.id, p.chipChange + (invested.get(p.id) ?? 0)]));
+  const showdownPlayers = hand.reachedShowdown ? seated.filter(p => !p.folded && p.holeCards.length > 0) : [];
+  if (showdownPlayers.length > 0) {
+    lines.push('*** SHOW DOWN ***');
+    showdownPlayers.forEach(p => {
+      const description = p.handEvaluation ? ` (${p.handEvaluation.description})` : '';
+      lines.push(`${p.name}: shows ${formatCards(p.holeCards)}${description}`);
+    });
+  }
+  seated.forEach(p => {
+    const amount = collected.get(p.id) ?? 0;
+    if (amount > 0) {
+      lines.push(`${p.name} collected ${amount} from pot`);
+    }
+  });
+
+  const totalPot = [...invested.values()].reduce((sum, amount) => sum + amount, 0);
+  lines.push('*** SUMMARY ***', `Total pot ${totalPot} | Rake 0`);
+  if (hand.secondBoard) {
+    lines.push('Hand was run twice', `FIRST Board ${formatCards(hand.communityCards)}`, `SECOND Board ${formatCards(hand.secondBoard)}`);
+  } else if (hand.communityCards.length > 0) {
+    lines.push(`Board ${formatCards(hand.communityCards)}`);
+  }
+  seated.forEach(p => {
+    const role = p.id === buttonId ? ' (button)'
+      : p.id === smallBlindId ? ' (small blind)'
+      : p.id === bigBlindId ? ' (big blind)'
+      : '';
+    const amount = collected.get(p.id) ?? 0;
+    const description = p.handEvaluation ? ` with ${p.handEvaluation.description}` : '';
+
+    let result: string;
+    if (p.folded) {
+      const phase = foldedOn.get(p.id) ?? 'pre-flop';
+      const didNotBet = phase === 'pre-flop' && (invested.get(p.id) ?? 0) === 0 ? " (didn't bet)" : '';
+      result = `folded ${FOLD_STREET_NAMES[phase]}${didNotBet}`;
+    } else if (showdownPlayers.includes(p)) {
+      result = amount > 0
+        ? `showed ${formatCards(p.holeCards)} and won (${amount})${description}`
+        : `showed ${formatCards(p.holeCards)} and lost${description}`;
+    } else {
+      result = amount > 0 ? `collected (${amount})` : 'mucked';
+    }
+    lines.push(`Seat ${seatNumbers.get(p.id)}: ${p.name}${role} ${result}`);
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Converts hands to one PokerStars-style text file, hands separated by
+ * blank lines the way the rooms write them.
+ *
+ * @param hands - The hands to convert, in the order they should appear
+ */
+export function formatPokerStarsHistory(hands: HandHistoryRecord[]): string {
+  return hands.map(formatPokerStarsHand).join('\n\n\n') + '\n';
+}
+
+/** Starts each hand in a room's hand history text */
+const HAND_HEADER = /^PokerStars (?:Zoom )?(?:Hand|Game) #(\d+):\s*(.*)$/;
+
+/** Lines about players that say nothing about the hand */
+const IGNORED_PLAYER_LINES = /^(mucks|doesn't show|sits out|is sitting out|is disconnected|is connected|has returned|leaves|joins|will be allowed|has timed out|is timed out)/;
+
+const SUITS_BY_LETTER: Record<string, Suit> = { h: 'hearts', d: 'diamonds', c: 'clubs', s: 'spades' };
+
+/** A seated player while a hand is read */
+interface TextSeat {
+  seat: number;
+  id: string;
+  name: string;
+  startingChips: number;
+  holeCards: Card[];
+  invested: number;
+  streetBet: number;
+  won: number;
+  /** Won only from the second board's showdown of a run-it-twice hand */
+  wonOnlySecondBoard: boolean;
+  folded: boolean;
+  wentAllIn: boolean;
+}
+
+/**
+ * Reads a card written as rank and suit letters, e.g. "Th".
+ * @throws Error if the card is unreadable
+ */
+function parseTextCard(text: string): Card {
+  const match = /^([2-9TJQKA])([hdcs])$/.exec(text);
+  if (!match) {
+    throw new Error(`Unreadable card "${text}"`);
+  }
+  return { rank: (match[1] === 'T' ? '10' : match[1]) as Rank, suit: SUITS_BY_LETTER[match[2]] };
+}
+
+function parseCardList(text: string): Card[] {
+  return text.trim().split(/\s+/).filter(Boolean).map(parseTextCard);
+}
+
+/**
+ * Reads an amount, dropping any currency symbol, code or thousands separator.
+ */
+function parseTextAmount(text: string): number {
+  const amount = Number(text.trim().split(/\s+/)[0].replace(/[$€£,]/g, ''));
+  if (Number.isNaN(amount)) {
+    throw new Error(`Unreadable amount "${text}"`);
+  }
+  return amount;
+}
+
+/** Rounds away floating-point error in cash-game amounts */
+function roundChips(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Reads the game from a hand header.
+ * @throws Error for games and structures the trainer does not play
+ */
+function parseGame(header: string): Pick<HandHistoryRecord, 'variant' | 'bettingStructure' | 'hiLo'> {
+  let variant: GameVariant;
+  if (/5 Card Omaha|Courchevel|Razz|Stud|Draw|Badugi/.test(header)) {
+    throw new Error(`Unsupported game: ${header}`);
+  } else if (header.includes('6+ Hold\'em')) {
+    variant = 'short-deck';
+  } else if (header.includes('Hold\'em')) {
+    variant = 'holdem';
+  } else if (header.includes('Omaha')) {
+    variant = 'omaha';
+  } else {
+    throw new Error(`Unsupported game: ${header}`);
+  }
+
+  let bettingStructure: BettingStructure;
+  if (header.includes('Pot Limit')) {
+    bettingStructure = 'pot-limit';
+  } else if (header.includes('No Limit')) {
+    bettingStructure = 'no-limit';
+  } else if (header.includes('Limit')) {
+    bettingStructure = 'fixed-limit';
+  } else {
+    throw new Error(`Unsupported betting structure: ${header}`);
+  }
+
+  return {
+    variant: variant === 'holdem' ? undefined : variant,
+    bettingStructure: bettingStructure === 'no-limit' ? undefined : bettingStructure,
+    hiLo: header.includes('Hi/Lo') || undefined,
+  };
+}
+
+/**
+ * Reads the hand's start time from its header. Times marked UTC or GMT are
+ * read as such; any other zone is read as local time.
+ */
+function parseHeaderDate(header: string): number {
+  const match = /(\d{4})\/(\d{1,2})\/(\d{1,2}) (\d{1,2}):(\d{2}):(\d{2})(?: (\w+))?/.exec(header);
+  if (!match) {
+    throw new Error('The hand header has no date');
+  }
+  const [year, month, day, hours, minutes, seconds] = match.slice(1, 7).map(Number);
+  return match[7] === 'UTC' || match[7] === 'GMT'
+    ? Date.UTC(year, month - 1, day, hours, minutes, seconds)
+    : new Date(year, month - 1, day, hours, minutes, seconds).getTime();
+}
+
+/**
+ * Converts one PokerStars-style hand to a hand record. The player dealt
+ * cards ("Dealt to") is the user; opponents' cards are known only if shown.
+ *
+ * @param lines - The hand's lines, header first
+ * @param position - Position of the hand in the text (used as its hand number)
+ * @throws Error describing the first unreadable or unsupported line
+ */
+function parsePokerStarsHand(lines: string[], position: number): HandHistoryRecord {
+  const header = HAND_HEADER.exec(lines[0]);
+  if (!header) {
+    throw new Error('Missing PokerStars hand header');
+  }
+  const game = parseGame(header[2]);
+  const timestamp = parseHeaderDate(header[2]);
+  const blindLevel = [...header[2].matchAll(/\(([^()/]+)\/([^()/]+)\)/g)].pop();
+  if (!blindLevel) {
+    throw new Error('The hand header has no blinds');
+  }
+
+  const seats: TextSeat[] = [];
+  let buttonSeat: number | undefined;
+  let heroName: string | undefined;
+  let phase: GamePhase = 'pre-flop';
+  let section: 'setup' | 'play' | 'summary' = 'setup';
+  let board: Card[] = [];
+  let secondBoard: Card[] | undefined;
+  // Which board's showdown collections are being read (2 only for a run-it-twice hand)
+  let showdownBoard: 1 | 2 = 1;
+  let pot = 0;
+  let reachedShowdown = false;
+  const actions: ActionHistoryEntry[] = [];
+
+  // Longest names first, so a name that begins another name is not mistaken for it
+  const findSeat = (line: string, separator: string) =>
+    [...seats].sort((a, b) => b.name.length - a.name.length).find(s => line.startsWith(`${s.name}${separator}`));
+  const addAction = (seat: TextSeat, action: ActionHistoryAction, chips: number, amount?: number) => {
+    seat.invested = roundChips(seat.invested + chips);
+    pot = roundChips(pot + chips);
+    actions.push({
+      id: actions.length + 1,
+      playerName: seat.name,
+      playerId: seat.id,
+      action,
+      amount,
+      phase,
+      potAfter: pot,
+      timestamp,
+      isUser: false,
+    });
+  };
+
+  for (const line of lines.slice(1)) {
+    const street = /^\*\*\* (.+?) \*\*\*(.*)$/.exec(line);
+    if (street) {
+      // Run-it-twice hands name the streets and showdowns dealt after the all-in FIRST and SECOND
+      const [, run, name] = /^(?:(FIRST|SECOND) )?(.+)$/.exec(street[1])!;
+      const cards = () => [...street[2].matchAll(/\[([^\]]*)\]/g)].flatMap(group => parseCardList(group[1]));
+      if (name === 'HOLE CARDS' && !run) {
+        section = 'play';
+      } else if ((name === 'FLOP' || name === 'TURN' || name === 'RIVER') && run === 'SECOND') {
+        secondBoard = cards();
+      } else if (name === 'FLOP' || name === 'TURN' || name === 'RIVER') {
+        phase = name === 'FLOP' ? 'flop' : name === 'TURN' ? 'turn' : 'river';
+        board = cards();
+        seats.forEach(s => (s.streetBet = 0));
+      } else if (name === 'SHOW DOWN') {
+        reachedShowdown = true;
+        showdownBoard = run === 'SECOND' ? 2 : 1;
+      } else if (name === 'SUMMARY' && !run) {
+        section = 'summary';
+      } else {
+        throw new Error(`Unsupported section "*** ${name} ***"`);
+      }
+      continue;
+    }
+
+    if (section === 'setup') {
+      const button = /Seat #(\d+) is the button/.exec(line);
+      const seatLine = /^Seat (\d+): (.+) \(([^()]+?) in chips[^()]*\)(.*)$/.exec(line);
+      if (button) {
+        buttonSeat = Number(button[1]);
+        continue;
+      }
+      if (seatLine) {
+        // Players sitting out or moved in mid-orbit are not dealt in
+        if (seatLine[4].trim() === '') {
+          const seat = Number(seatLine[1]);
+          seats.push({
+            seat,
+            id: `seat${seat}`,
+            name: seatLine[2],
+            startingChips: parseTextAmount(seatLine[3]),
+            holeCards: [],
+            invested: 0,
+            streetBet: 0,
+            won: 0,
+            wonOnlySecondBoard: false,
+            folded: false,
+            wentAllIn: false,
+          });
+        }
+        continue;
+      }
+    }
+
+    if (section === 'summary') {
+      const boardLine = /^Board \[([^\]]*)\]/.exec(line);
+      const seatLine = /^Seat (\d+): .*?(?:showed|mucked) \[([^\]]+)\]/.exec(line);
+      if (boardLine && board.length === 0) {
+        board = parseCardList(boardLine[1]);
+      }
+      const seat = seatLine && seats.find(s => s.seat === Number(seatLine[1]));
+      if (seat && seat.holeCards.length === 0) {
+        seat.holeCards = parseCardList(seatLine![2]);
+      }
+      continue;
+    }
+
+    const dealt = /^Dealt to (.+?) \[([^\]]+)\]$/.exec(line);
+    if (dealt) {
+      const seat = seats.find(s => s.name === dealt[1]);
+      if (!seat) {
+        throw new Error(`Cards dealt to "${dealt[1]}", who has no seat`);
+      }
+      heroName = seat.name;
+      seat.holeCards = parseCardList(dealt[2]);
+      continue;
+    }
+
+    const uncalled = /^Uncalled bet \((.+?)\) returned to (.+)$/.exec(line);
+    if (uncalled) {
+      const seat = seats.find(s => s.name === uncalled[2]);
+      if (seat) {
+        const amount = parseTextAmount(uncalled[1]);
+        seat.invested = roundChips(seat.invested - amount);
+        pot = roundChips(pot - amount);
+      }
+      continue;
+    }
+
+    const collector = findSeat(line, ' collected ');
+    if (collector) {
+      const amount = /^ collected (\S+) from/.exec(line.slice(collector.name.length));
+      if (!amount) {
+        throw new Error(`Unreadable line "${line}"`);
+      }
+      collector.wonOnlySecondBoard = showdownBoard === 2 && (collector.won === 0 || collector.wonOnlySecondBoard);
+      collector.won = roundChips(collector.won + parseTextAmount(amount[1]));
+      continue;
+    }
+
+    const seat = findSeat(line, ': ');
+    if (!seat) {
+      // Chat and table notices
+      continue;
+    }
+
+    const rest = line.slice(seat.name.length + 2);
+    if (rest.includes('and is all-in')) {
+      seat.wentAllIn = true;
+    }
+    let match: RegExpExecArray | null;
+    if ((match = /^posts (small|big) blind (\S+)/.exec(rest))) {
+      const amount = parseTextAmount(match[2]);
+      seat.streetBet = roundChips(seat.streetBet + amount);
+      addAction(seat, match[1] === 'small' ? 'smallBlind' : 'bigBlind', amount, amount);
+    } else if ((match = /^posts the ante (\S+)/.exec(rest))) {
+      const amount = parseTextAmount(match[1]);
+      addAction(seat, 'ante', amount, amount);
+    } else if (rest.startsWith('folds')) {
+      seat.folded = true;
+      addAction(seat, 'fold', 0);
+    } else if (rest.startsWith('checks')) {
+      addAction(seat, 'check', 0);
+    } else if ((match = /^calls (\S+)/.exec(rest))) {
+      const amount = parseTextAmount(match[1]);
+      seat.streetBet = roundChips(seat.streetBet + amount);
+      addAction(seat, 'call', amount, amount);
+    } else if ((match = /^bets (\S+)/.exec(rest))) {
+      // The trainer records bets as raises to the player's total for the street
+      const amount = parseTextAmount(match[1]);
+      seat.streetBet = roundChips(seat.streetBet + amount);
+      addAction(seat, 'raise', amount, seat.streetBet);
+    } else if ((match = /^raises \S+ to (\S+)/.exec(rest))) {
+      const total = parseTextAmount(match[1]);
+      const amount = roundChips(total - seat.streetBet);
+      seat.streetBet = total;
+      addAction(seat, 'raise', amount, total);
+    } else if ((match = /^shows \[([^\]]+)\]/.exec(rest))) {
+      seat.holeCards = parseCardList(match[1]);
+    } else if (!IGNORED_PLAYER_LINES.test(rest)) {
+      throw new Error(`Unsupported action "${line}"`);
+    }
+  }
+
+  if (seats.length < 2) {
+    throw new Error('The hand has fewer than two players dealt in');
+  }
+  const hero = seats.find(s => s.name === heroName);
+  if (!hero) {
+    throw new Error('The hand has no "Dealt to" line, so there is no player to review it as');
+  }
+  if (![0, 3, 4, 5].includes(board.length)) {
+    throw new Error(`The board has ${board.length} cards`);
+  }
+  actions.forEach(action => (action.isUser = action.playerId === hero.id));
+
+  if (secondBoard && secondBoard.length !== 5) {
+    throw new Error(`The second board has ${secondBoard.length} cards`);
+  }
+
+  // A player who won only on the second board is shown with that board's hand, as at the table
+  const winners = seats.filter(s => s.won > 0);
+  const evaluations = winners.map(s => {
+    const winningBoard = s.wonOnlySecondBoard && secondBoard ? secondBoard : board;
+    return reachedShowdown && winningBoard.length === 5 && s.holeCards.length > 0
+      ? getBestHand(s.holeCards, winningBoard, game.variant)
+      : undefined;
+  });
+  const winningHands = evaluations.every(e => e !== undefined) ? evaluations as HandEvaluation[] : [];
+
+  const players: HandHistoryPlayer[] = seats.map(s => {
+    const chipChange = roundChips(s.won - s.invested);
+    const evaluation = evaluations[winners.indexOf(s)];
+    return {
+      id: s.id,
+      name: s.name,
+      isUser: s === hero,
+      holeCards: s.holeCards,
+      ...(evaluation ? { handEvaluation: evaluation } : {}),
+      finalChips: roundChips(s.startingChips + chipChange),
+      chipChange,
+      folded: s.folded,
+      wentAllIn: s.wentAllIn,
+    };
+  });
+  const user = players.find(p => p.isUser)!;
+  const finalPhase: GamePhase = reachedShowdown ? 'showdown'
+    : board.length === 5 ? 'river'
+    : board.length === 4 ? 'turn'
+    : board.length === 3 ? 'flop'
+    : 'pre-flop';
+
+  return {
+    id: `pokerstars_${header[1]}`,
+    timestamp,
+    handNumber: position,
+    ...game,
+    smallBlind: parseTextAmount(blindLevel[1]),
+    bigBlind: parseTextAmount(blindLevel[2]),
+    dealerId: seats.find(s => s.seat === buttonSeat)?.id,
+    communityCards: board,
+    secondBoard,
+    finalPhase,
+    potSize: pot,
+    players,
+    winnerIds: winners.map(s => s.id),
+    winnerNames: winners.map(s => s.name),
+    winningHands,
+    actions,
+    reachedShowdown,
+    userStartingChips: hero.startingChips,
+    userEndingChips: user.finalChips,
+    userChipChange: user.chipChange,
+    userWon: winners.includes(hero),
+    userFolded: hero.folded,
+  };
+}
+
+/**
+ * Reads every hand in a room's text hand history (PokerStars format, which
+ * the trainer also exports). A hand that cannot be read is skipped and
+ * reported; the others are still returned.
+ *
+ * @param text - The hand history text, hands separated by blank lines
+ */
+export function parsePokerStarsHistory(text: string): HandTextParseResult {
+  const chunks: string[][] = [];
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (HAND_HEADER.test(line)) {
+      chunks.push([line]);
+    } else if (line && chunks.length > 0) {
+      chunks[chunks.length - 1].push(line);
+    }
+  });
+
+  const result: HandTextParseResult = { hands: [], errors: [] };
+  if (chunks.length === 0) {
+    result.errors.push({ hand: 0, message: 'No PokerStars hands found' });
+  }
+  chunks.forEach((lines, index) => {
+    try {
+      result.hands.push(parsePokerStarsHand(lines, index + 1));
+    } catch (error) {
+      result.errors.push({
+        hand: index + 1,
+        handId: HAND_HEADER.exec(lines[0])?.[1],
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+  return result;
+}
@@ -0,0 +1,136 @@
+/**
+ * Unit tests for hand replays.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildHandReplay } from './handReplay';
+import { parsePokerStarsHistory } from './handHistoryText';
+import { HandHistoryRecord } from '../types/handHistory';
+
+// Helper to import a single PokerStars hand
+function importHand(lines: string[]): HandHistoryRecord {
+  const { hands, errors } = parsePokerStarsHistory(lines.join('\n'));
+  expect(errors).toEqual([]);
+  return hands[0];
+}
+
+const HEADER = [
+  "PokerStars Hand #1001:  Hold'em No Limit (5/10) - 2026/10/19 14:05:09 UTC",
+  "Table 'Dodge City' 3-max Seat #1 is the button",
+  'Seat 1: Hero (1000 in chips)',
+  'Seat 2: Doc (1000 in chips)',
+  'Seat 3: Slim (1000 in chips)',
+  'Doc: posts small blind 5',
+  'Slim: posts big blind 10',
+  '*** HOLE CARDS ***',
+  'Dealt to Hero [Ah Kh]',
+];
+
+const SHOWDOWN_HAND = [
+  ...HEADER,
+  'Hero: raises 20 to 30',
+  'Doc: folds',
+  'Slim: calls 20',
+  '*** FLOP *** [Ac 7d 2h]',
+  'Slim: checks',
+  'Hero: bets 40',
+  'Slim: calls 40',
+  '*** TURN *** [Ac 7d 2h] [Ts]',
+  'Slim: checks',
+  'Hero: checks',
+  '*** RIVER *** [Ac 7d 2h Ts] [3c]',
+  'Slim: checks',
+  'Hero: checks',
+  '*** SHOW DOWN ***',
+  'Hero: shows [Ah Kh] (a pair of Aces)',
+  'Slim: shows [Qd Jd] (high card Ace)',
+  'Hero collected 145 from pot',
+  '*** SUMMARY ***',
+  'Total pot 145 | Rake 0',
+  'Board [Ac 7d 2h Ts 3c]',
+  'Seat 1: Hero (button) showed [Ah Kh] and won (145) with a pair of Aces',
+  'Seat 2: Doc (small blind) folded before Flop',
+  'Seat 3: Slim (big blind) showed [Qd Jd] and lost with high card Ace',
+];
+
+describe('buildHandReplay', () => {
+  it('should walk an imported hand street by street', () => {
+    const steps = buildHandReplay(importHand(SHOWDOWN_HAND));
+
+    expect(steps.map(s => s.action ? `${s.action.playerName} ${s.action.action}` : s.phase)).toEqual([
+      'pre-flop',
+      'Hero raise', 'Doc fold', 'Slim call',
+      'flop', 'Slim check', 'Hero raise', 'Slim call',
+      'turn', 'Slim check', 'Hero check',
+      'river', 'Slim check', 'Hero check',
+      'showdown',
+    ]);
+    expect(steps.map(s => s.communityCards.length)).toEqual([0, 0, 0, 0, 3, 3, 3, 3, 4, 4, 4, 5, 5, 5, 5]);
+    expect(steps.map(s => s.pot)).toEqual([15, 45, 45, 65, 65, 65, 105, 145, 145, 145, 145, 145, 145, 145, 145]);
+  });
+
+  it('should narrate each step in the cowboy voice', () => {
+    const steps = buildHandReplay(importHand(SHOWDOWN_HAND));
+
+    expect(steps[0].narration).toContain('Hero has the dealer button');
+    expect(steps[0].narration).toContain('Doc posts the small blind of $5, and Slim posts the big blind of $10');
+    expect(steps[1].narration).toContain('You raise to $30');
+    expect(steps[3].narration).toContain('Slim tosses in $20 to stay in the hand');
+    expect(steps[4].narration).toContain('A of clubs, 7 of diamonds, 2 of hearts');
+    expect(steps[14].narration).toContain('All cards on the table');
+  });
+
+  it("should give advice on the user's decisions only", () => {
+    const steps = buildHandReplay(importHand(SHOWDOWN_HAND));
+
+    expect(steps.filter(s => s.advice).map(s => s.action?.playerName)).toEqual(['Hero', 'Hero', 'Hero', 'Hero']);
+    // Checked to on the flop with top pair, before betting
+    expect(steps[6].advice).toContain('a bet might take down the pot');
+  });
+
+  it('should deal the streets of an all-in run-out after the betting', () => {
+    const steps = buildHandReplay(importHand([
+      ...HEADER,
+      'Hero: raises 990 to 1000 and is all-in',
+      'Doc: folds',
+      'Slim: calls 990 and is all-in',
+      '*** FLOP *** [2c 7d Jh]',
+      '*** TURN *** [2c 7d Jh] [4s]',
+      '*** RIVER *** [2c 7d Jh 4s] [9c]',
+      '*** SHOW DOWN ***',
+      'Hero: shows [Ah Kh] (high card Ace)',
+      'Slim: shows [Qd Qc] (a pair of Queens)',
+      'Slim collected 2005 from pot',
+      '*** SUMMARY ***',
+      'Total pot 2005 | Rake 0',
+      'Board [2c 7d Jh 4s 9c]',
+      'Seat 1: Hero (button) showed [Ah Kh] and lost with high card Ace',
+      'Seat 2: Doc (small blind) folded before Flop',
+      'Seat 3: Slim (big blind) showed [Qd Qc] and won (2005) with a pair of Queens',
+    ]));
+
+    expect(steps.slice(-4).map(s => s.phase)).toEqual(['flop', 'turn', 'river', 'showdown']);
+    expect(steps[steps.length - 1].communityCards).toHaveLength(5);
+  });
+
+  it('should end on the last action when everyone else folds', () => {
+    const steps = buildHandReplay(importHand([
+      ...HEADER,
+      'Hero: raises 20 to 30',
+      'Doc: folds',
+      'Slim: folds',
+      'Uncalled bet (20) returned to Hero',
+      'Hero collected 25 from pot',
+      "Hero: doesn't show hand",
+      '*** SUMMARY ***',
+      'Total pot 25 | Rake 0',
+      'Seat 1: Hero (button) collected (25)',
+      'Seat 2: Doc (small blind) folded before Flop',
+      'Seat 3: Slim (big blind) folded before Flop',
+    ]));
+
+    expect(steps).toHaveLength(4);
+    expect(steps[steps.length - 1].action).toMatchObject({ playerName: 'Slim', action: 'fold' });
+    expect(steps.every(s => s.communityCards.length === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Step-through replay of a recorded or imported hand.
+ * Walks a hand record's actions street by street, rebuilding the table as
+ * it stood before each action so the cowboy can narrate the hand as if it
+ * were being played.
+ */
+
+import { ActionHistoryEntry, BettingAction, Card, GamePhase, GameState, Player } from '../types/game';
+import { HandHistoryRecord, HandReplayStep } from '../types/handHistory';
+import { createInitialState } from '../engine/gameReducer';
+import {
+  generateAIActionNarration,
+  generateHandStartNarration,
+  generatePhaseNarration,
+  generateRunItTwiceNarration,
+  generateShowdownNarration,
+  generateUserActionNarration,
+  generateUserTurnNarration,
+} from './cowboyNarration';
+
+/** Community cards showing on each street */
+const BOARD_SIZES: Record<GamePhase, number> = {
+  'pre-flop': 0,
+  'flop': 3,
+  'turn': 4,
+  'river': 5,
+  'showdown': 5,
+};
+
+const STREET_ORDER: GamePhase[] = ['pre-flop', 'flop', 'turn', 'river'];
+
+/**
+ * Rebuilds the table at the start of the hand: every player's stack before
+ * the blinds, with no bets and nothing folded.
+ */
+function createReplayState(hand: HandHistoryRecord): GameState {
+  const base = createInitialState();
+  const players: Player[] = hand.players.map((p, position) => ({
+    id: p.id,
+    name: p.name,
+    chips: p.finalChips - p.chipChange,
+    holeCards: p.holeCards,
+    isFolded: false,
+    isUser: p.isUser,
+    position,
+    currentBet: 0,
+    totalBet: 0,
+    hasActed: false,
+    isAllIn: false,
+  }));
+
+  return {
+    ...base,
+    players,
+    variant: hand.variant ?? 'holdem',
+    bettingStructure: hand.bettingStructure ?? 'no-limit',
+    hiLo: hand.hiLo ?? false,
+    smallBlind: hand.smallBlind ?? base.smallBlind,
+    bigBlind: hand.bigBlind ?? base.bigBlind,
+    communityCards: [],
+    secondBoard: undefined,
+    pot: 0,
+    currentBet: 0,
+    currentPhase: 'pre-flop',
+    actionHistory: [],
+  };
+}
+
+/**
+ * Applies an action to the replay state, returning the table after it.
+ */
+function applyEntry(state: GameState, entry: ActionHistoryEntry): GameState {
+  const player = state.players.find(p => p.id === entry.playerId);
+  if (!player) {
+    throw new Error(`Action by unknown player ${entry.playerId} in hand replay`);
+  }
+
+  let paid = 0;
+  let currentBet = player.currentBet;
+  switch (entry.action) {
+    case 'raise':
+    case 'smallBlind':
+    case 'bigBlind':
+      // Raises and blinds record the player's total bet for the street
+      currentBet = Math.max(entry.amount ?? 0, player.currentBet);
+      paid = currentBet - player.currentBet;
+      break;
+    case 'call':
+      paid = entry.amount ?? 0;
+      currentBet += paid;
+      break;
+    case 'ante':
+      // Antes go in the pot without counting toward the bet
+      paid = entry.amount ?? 0;
+      break;
+  }
+
+  const chips = Math.max(0, player.chips - paid);
+  const updated: Player = {
+    ...player,
+    chips,
+    currentBet,
+    totalBet: player.totalBet + paid,
+    isFolded: player.isFolded || entry.action === 'fold',
+    isAllIn: paid > 0 && chips === 0,
+  };
+
+  return {
+    ...state,
+    players: state.players.map(p => (p.id === updated.id ? updated : p)),
+    pot: entry.potAfter,
+    currentBet: Math.max(state.currentBet, currentBet),
+    actionHistory: [...state.actionHistory, entry],
+  };
+}
+
+/**
+ * Deals the next street: shows its cards and clears the bets.
+ */
+function dealStreet(state: GameState, phase: GamePhase, board: Card[]): GameState {
+  return {
+    ...state,
+    currentPhase: phase,
+    communityCards: board.slice(0, BOARD_SIZES[phase]),
+    currentBet: 0,
+    players: state.players.map(p => ({ ...p, currentBet: 0, hasActed: false })),
+  };
+}
+
+/**
+ * Narrates the start of the hand from its dealer and blinds.
+ */
+function narrateHandStart(hand: HandHistoryRecord): string {
+  const nameOf = (id: string | undefined) => hand.players.find(p => p.id === id)?.name;
+  const smallBlind = hand.actions.find(a => a.action === 'smallBlind');
+  const bigBlind = hand.actions.find(a => a.action === 'bigBlind');
+  const ante = hand.actions.find(a => a.action === 'ante');
+
+  return generateHandStartNarration(
+    nameOf(hand.dealerId) ?? 'Somebody',
+    smallBlind?.playerName ?? 'Somebody',
+    bigBlind?.playerName ?? 'somebody',
+    hand.smallBlind ?? smallBlind?.amount ?? 0,
+    hand.bigBlind ?? bigBlind?.amount ?? 0,
+    ante?.amount ?? 0
+  );
+}
+
+/**
+ * Narrates a betting action, with the cowboy's advice on the user's own
+ * decisions.
+ */
+function narrateAction(
+  state: GameState,
+  entry: ActionHistoryEntry
+): { narration: string; advice?: string } {
+  const action = entry.action as BettingAction;
+  const player = state.players.find(p => p.id === entry.playerId)!;
+
+  if (!player.isUser) {
+    // Hand strength only colours the reasoning, which a replay cannot know
+    return { narration: generateAIActionNarration(player, action, entry.amount, state, 0).message };
+  }
+
+  const narration = generateUserActionNarration(action, entry.amount);
+  return player.holeCards.length >= 2
+    ? { narration, advice: generateUserTurnNarration(player, state).advice }
+    : { narration };
+}
+
+/**
+ * Builds the steps of a hand replay: the deal with blinds posted, then each
+ * new street and each betting action in order, ending at the showdown when
+ * the hand reached one. Streets dealt after the betting stopped (all-in
+ * run-outs) get a step of their own.
+ * @throws Error if an action names a player who is not in the hand
+ */
+export function buildHandReplay(hand: HandHistoryRecord): HandReplayStep[] {
+  let state = createReplayState(hand);
+  const board = hand.communityCards;
+  const forcedBets = hand.actions.filter(a => a.action === 'ante' || a.action === 'smallBlind' || a.action === 'bigBlind');
+  forcedBets.forEach(entry => {
+    state = applyEntry(state, entry);
+  });
+
+  const steps: HandReplayStep[] = [{
+    phase: 'pre-flop',
+    communityCards: [],
+    pot: state.pot,
+    narration: narrateHandStart(hand),
+  }];
+
+  const dealThrough = (phase: GamePhase) => {
+    const target = STREET_ORDER.indexOf(phase);
+    for (let i = STREET_ORDER.indexOf(state.currentPhase) + 1; i <= target; i++) {
+      const street = STREET_ORDER[i];
+      // Stop where the recorded board runs out
+      if (board.length < BOARD_SIZES[street]) return;
+      const dealt = board.slice(BOARD_SIZES[STREET_ORDER[i - 1]], BOARD_SIZES[street]);
+      state = dealStreet(state, street, board);
+      steps.push({
+        phase: street,
+        communityCards: state.communityCards,
+        pot: state.pot,
+        narration: generatePhaseNarration(street, dealt),
+      });
+    }
+  };
+
+  hand.actions.filter(a => !forcedBets.includes(a)).forEach(entry => {
+    dealThrough(entry.phase);
+    const { narration, advice } = narrateAction(state, entry);
+    state = applyEntry(state, entry);
+    steps.push({
+      phase: state.currentPhase,
+      communityCards: state.communityCards,
+      action: entry,
+      pot: state.pot,
+      narration,
+      advice,
+    });
+  });
+
+  if (hand.reachedShowdown) {
+    dealThrough('river');
+    const showdown: GameState = { ...state, currentPhase: 'showdown', communityCards: board, secondBoard: hand.secondBoard };
+    steps.push({
+      phase: 'showdown',
+      communityCards: board,
+      secondBoard: hand.secondBoard,
+      pot: hand.potSize,
+      narration: hand.secondBoard ? generateRunItTwiceNarration(showdown) : generateShowdownNarration(),
+    });
+  }
+
+  return steps;
+}
@@ -8,6 +8,7 @@ import {
   evaluateHandStrength,
   getStrategicAdvice,
   describeHoleCards,
+  rateOmahaStartingHand,
 } from './handStrength';
 import { HandEvaluation, HandRank, Card, Player, GameState } from '../types/game';
 
@@ -324,6 +325,33 @@ describe('describeHoleCards', () => {
   });
 });
 
+describe('Omaha starting hands', () => {
+  it('should describe four hole cards by rank, suits and connectedness', () => {
+    expect(describeHoleCards([c('K', 'spades'), c('A', 'hearts'), c('A', 'spades'), c('Q', 'hearts')]))
+      .toBe('A-A-K-Q double-suited');
+    expect(describeHoleCards([c('9', 'clubs'), c('J', 'clubs'), c('8', 'hearts'), c('10', 'diamonds')]))
+      .toBe('J-10-9-8 suited rundown');
+    expect(describeHoleCards([c('2', 'clubs'), c('9', 'hearts'), c('4', 'spades'), c('7', 'diamonds')]))
+      .toBe('9-7-4-2 unsuited');
+  });
+
+  it('should rate premium hands above ragged ones', () => {
+    expect(rateOmahaStartingHand([c('A', 'spades'), c('A', 'hearts'), c('K', 'spades'), c('K', 'hearts')])).toBe('strong');
+    expect(rateOmahaStartingHand([c('K', 'clubs'), c('Q', 'clubs'), c('J', 'hearts'), c('10', 'diamonds')])).toBe('medium');
+    expect(rateOmahaStartingHand([c('9', 'hearts'), c('7', 'spades'), c('4', 'clubs'), c('2', 'diamonds')])).toBe('weak');
+  });
+
+  it('should give Omaha advice from all four cards', () => {
+    const player = createPlayer({
+      holeCards: [c('A', 'spades'), c('A', 'hearts'), c('K', 'spades'), c('K', 'hearts')],
+    });
+    const advice = getStrategicAdvice(player, createGameState({ variant: 'omaha' }));
+
+    expect(advice).toContain('A-A-K-K double-suited');
+    expect(advice).toContain('strong');
+  });
+});
+
 describe('getStrategicAdvice', () => {
   it('should return waiting message when no cards', () => {
     const player = createPlayer({ holeCards: [] });
@@ -4,7 +4,8 @@
  */
 
 import { HandEvaluation, HandRank, GameState, Player, Card } from '../types/game';
-import { getBestFiveCardHand, getBestHandFromSix, evaluateHand } from './handEvaluator';
+import { getBestHand } from './handEvaluator';
+import { RANK_VALUES } from '../constants/cards';
 
 /**
  * Converts a HandEvaluation to a human-readable description.
@@ -45,6 +46,10 @@ export function describeHand(evaluation: HandEvaluation): string {
       if (ranks.includes('5') && ranks.includes('A')) {
         return 'Straight, 5-high (Wheel)';
       }
+      // Short deck's lowest straight (A-6-7-8-9)
+      if (ranks.includes('9') && ranks.includes('A') && !ranks.includes('K')) {
+        return 'Straight, 9-high';
+      }
       return `Straight, ${cards[0].rank}-high`;
     }
 
@@ -150,25 +155,13 @@ export function getStrategicAdvice(
   }
 
   // Evaluate current hand based on available cards
-  let evaluation: ReturnType<typeof getBestFiveCardHand>;
+  let evaluation: HandEvaluation;
   let strength: 'weak' | 'medium' | 'strong';
   let handDescription: string;
 
-  if (player.holeCards.length === 2 && gameState.communityCards.length === 5) {
-    // Full board - evaluate best 5-card hand from all 7 cards
-    evaluation = getBestFiveCardHand(player.holeCards, gameState.communityCards);
-    strength = evaluateHandStrength(evaluation);
-    handDescription = describeHand(evaluation);
-  } else if (player.holeCards.length === 2 && gameState.communityCards.length === 3) {
-    // Flop (exactly 5 cards) - evaluate as-is
-    const allCards = [...player.holeCards, ...gameState.communityCards];
-    evaluation = evaluateHand(allCards);
-    strength = evaluateHandStrength(evaluation);
-    handDescription = describeHand(evaluation);
-  } else if (player.holeCards.length === 2 && gameState.communityCards.length === 4) {
-    // Turn (6 cards) - find best 5-card combination
-    const allCards = [...player.holeCards, ...gameState.communityCards];
-    evaluation = getBestHandFromSix(allCards);
+  if (gameState.communityCards.length >= 3) {
+    // Flop onwards - best 5-card hand under the variant's rules
+    evaluation = getBestHand(player.holeCards, gameState.communityCards, gameState.variant);
     strength = evaluateHandStrength(evaluation);
     handDescription = describeHand(evaluation);
   } else {
@@ -178,7 +171,9 @@ export function getStrategicAdvice(
     const card2 = player.holeCards[1];
 
     // Simple pre-flop strength
-    if (card1.rank === card2.rank) {
+    if (gameState.variant === 'omaha') {
+      strength = rateOmahaStartingHand(player.holeCards);
+    } else if (card1.rank === card2.rank) {
       const highRanks = ['A', 'K', 'Q', 'J', '10'];
       strength = highRanks.includes(card1.rank) ? 'strong' : 'medium';
     } else {
@@ -244,9 +239,10 @@ export function getStrategicAdvice(
 
 /**
  * Describes the user's hole cards in a simple way.
- * Example: "A♠ K♥ (Ace-King suited)"
+ * Examples: "Ace-King suited", "A-A-K-Q double-suited" (Omaha)
  */
 export function describeHoleCards(cards: Card[]): string {
+  if (cards.length === 4) return describeOmahaHoleCards(cards);
   if (cards.length !== 2) return '';
 
   const [card1, card2] = cards;
@@ -274,3 +270,69 @@ export function describeHoleCards(cards: Card[]): string {
 
   return `${getRankName(higherRank)}-${getRankName(lowerRank)}${suited ? ' suited' : ''}`;
 }
+
+/**
+ * Describes four Omaha hole cards: ranks high to low, how many suits pair up,
+ * and whether the ranks run together.
+ * Example: "J-10-9-8 suited rundown"
+ */
+function describeOmahaHoleCards(cards: Card[]): string {
+  const sorted = [...cards].sort((a, b) => RANK_VALUES[b.rank] - RANK_VALUES[a.rank]);
+  const suitedPairs = countSuitedPairs(cards);
+  const suitedness = suitedPairs === 2 ? 'double-suited' : suitedPairs === 1 ? 'suited' : 'unsuited';
+
+  return `${sorted.map(card => card.rank).join('-')} ${suitedness}${isRundown(cards) ? ' rundown' : ''}`;
+}
+
+/**
+ * Counts the suits holding at least two of the cards (0-2 for four cards).
+ * Each one gives an Omaha hand a flush draw it can use.
+ */
+function countSuitedPairs(cards: Card[]): number {
+  const suitCounts = new Map<Card['suit'], number>();
+  cards.forEach(card => suitCounts.set(card.suit, (suitCounts.get(card.suit) ?? 0) + 1));
+  return [...suitCounts.values()].filter(count => count >= 2).length;
+}
+
+/**
+ * Whether four cards have different ranks within a five-rank window,
+ * so several two-card combinations make straights.
+ */
+function isRundown(cards: Card[]): boolean {
+  const values = new Set(cards.map(card => RANK_VALUES[card.rank]));
+  return values.size === 4 && Math.max(...values) - Math.min(...values) <= 4;
+}
+
+/**
+ * Scores an Omaha starting hand from 0-10 (higher is better).
+ * High cards, pairs, suited cards and connected ranks add value; trips and
+ * quads lose it, since only two of them can play.
+ */
+export function scoreOmahaStartingHand(cards: Card[]): number {
+  const values = cards.map(card => RANK_VALUES[card.rank]);
+
+  // Card values: 2-2-3-3 scores nothing, A-A-K-K close to 4
+  let score = (values.reduce((sum, value) => sum + value, 0) - 10) / 46 * 4;
+
+  const rankCounts = new Map<number, number>();
+  values.forEach(value => rankCounts.set(value, (rankCounts.get(value) ?? 0) + 1));
+  rankCounts.forEach((count, value) => {
+    if (count === 2) score += value >= 10 ? 2 : 1;
+    if (count >= 3) score -= 1;
+  });
+
+  score += countSuitedPairs(cards);
+  if (isRundown(cards)) score += 2;
+
+  return Math.max(0, Math.min(10, score));
+}
+
+/**
+ * Rates an Omaha starting hand as weak/medium/strong.
+ */
+export function rateOmahaStartingHand(cards: Card[]): 'weak' | 'medium' | 'strong' {
+  const score = scoreOmahaStartingHand(cards);
+  if (score >= 7) return 'strong';
+  if (score >= 4.5) return 'medium';
+  return 'weak';
+}
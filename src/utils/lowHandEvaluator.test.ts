@@ -0,0 +1,69 @@
+/**
+ * Unit tests for eight-or-better low hand evaluation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { evaluateLowHand, compareLowHands, getBestLowHand, determineLowWinners } from './lowHandEvaluator';
+import { Card } from '../types/game';
+
+const c = (rank: Card['rank'], suit: Card['suit']): Card => ({ rank, suit });
+
+describe('evaluateLowHand', () => {
+  it('should read five different cards eight or under as a low, aces counting one', () => {
+    const low = evaluateLowHand([c('2', 'hearts'), c('A', 'clubs'), c('8', 'spades'), c('4', 'hearts'), c('6', 'diamonds')]);
+
+    expect(low?.values).toEqual([8, 6, 4, 2, 1]);
+    expect(low?.description).toBe('8-6-4-2-A low');
+  });
+
+  it('should not let straights or flushes spoil the wheel', () => {
+    const wheel = evaluateLowHand([c('A', 'hearts'), c('2', 'hearts'), c('3', 'hearts'), c('4', 'hearts'), c('5', 'hearts')]);
+    expect(wheel?.values).toEqual([5, 4, 3, 2, 1]);
+  });
+
+  it('should not qualify a nine or a pair', () => {
+    expect(evaluateLowHand([c('9', 'hearts'), c('2', 'clubs'), c('3', 'spades'), c('4', 'hearts'), c('5', 'diamonds')])).toBeNull();
+    expect(evaluateLowHand([c('2', 'hearts'), c('2', 'clubs'), c('3', 'spades'), c('4', 'hearts'), c('5', 'diamonds')])).toBeNull();
+  });
+
+  it('should throw error for non-5-card hands', () => {
+    expect(() => evaluateLowHand([c('A', 'spades')])).toThrow('exactly 5 cards');
+  });
+});
+
+describe('compareLowHands', () => {
+  it('should compare from the highest card down', () => {
+    const sevenSix = evaluateLowHand([c('7', 'hearts'), c('6', 'clubs'), c('4', 'spades'), c('3', 'hearts'), c('2', 'diamonds')])!;
+    const sevenFive = evaluateLowHand([c('7', 'hearts'), c('5', 'clubs'), c('4', 'spades'), c('3', 'hearts'), c('2', 'diamonds')])!;
+
+    expect(compareLowHands(sevenFive, sevenSix)).toBeGreaterThan(0);
+    expect(compareLowHands(sevenSix, sevenFive)).toBeLessThan(0);
+    expect(compareLowHands(sevenSix, sevenSix)).toBe(0);
+  });
+});
+
+describe('getBestLowHand', () => {
+  const board = [c('A', 'clubs'), c('2', 'diamonds'), c('7', 'spades'), c('K', 'hearts'), c('Q', 'clubs')];
+
+  it('should use any five cards in Hold\'em', () => {
+    expect(getBestLowHand([c('3', 'hearts'), c('K', 'spades')], [...board.slice(0, 3), c('5', 'clubs'), c('Q', 'clubs')])?.description)
+      .toBe('7-5-3-2-A low');
+  });
+
+  it('should need two low hole cards in Omaha', () => {
+    // One low card in hand cannot make a low, even with three on the board
+    expect(getBestLowHand([c('3', 'hearts'), c('K', 'spades'), c('J', 'spades'), c('9', 'diamonds')], board, 'omaha')).toBeNull();
+    expect(getBestLowHand([c('3', 'hearts'), c('4', 'spades'), c('J', 'spades'), c('9', 'diamonds')], board, 'omaha')?.description)
+      .toBe('7-4-3-2-A low');
+  });
+});
+
+describe('determineLowWinners', () => {
+  it('should find the best low and return none when nobody qualifies', () => {
+    const eightLow = evaluateLowHand([c('8', 'hearts'), c('6', 'clubs'), c('4', 'spades'), c('3', 'hearts'), c('2', 'diamonds')]);
+    const wheel = evaluateLowHand([c('A', 'hearts'), c('2', 'clubs'), c('3', 'spades'), c('4', 'hearts'), c('5', 'diamonds')]);
+
+    expect(determineLowWinners([eightLow, null, wheel, wheel])).toEqual([2, 3]);
+    expect(determineLowWinners([null, null])).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Eight-or-better low hand evaluation for hi-lo split pot games.
+ * A low is five cards of different ranks, eight or under, with aces
+ * counting as one. Straights and flushes do not spoil a low, so
+ * 5-4-3-2-A (the wheel) is the best low there is.
+ */
+
+import { Card, GameVariant, LowHandEvaluation, Rank } from '../types/game';
+import { getCombinations } from './handEvaluator';
+import { LOW_HAND_QUALIFIER, OMAHA_HOLE_CARDS_USED } from '../constants/variants';
+
+/** Low values for each rank (aces play as one) */
+const LOW_VALUES: Record<Rank, number> = {
+  'A': 1, '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7,
+  '8': 8, '9': 9, '10': 10, 'J': 11, 'Q': 12, 'K': 13,
+};
+
+/**
+ * Evaluates five cards as a low hand.
+ * @param cards - Exactly 5 cards to evaluate
+ * @returns The low, or null if the cards do not qualify
+ */
+export function evaluateLowHand(cards: Card[]): LowHandEvaluation | null {
+  if (cards.length !== 5) {
+    throw new Error('Low hand evaluation requires exactly 5 cards');
+  }
+
+  const sorted = [...cards].sort((a, b) => LOW_VALUES[b.rank] - LOW_VALUES[a.rank]);
+  const values = sorted.map(card => LOW_VALUES[card.rank]);
+
+  if (values[0] > LOW_HAND_QUALIFIER || new Set(values).size !== 5) {
+    return null;
+  }
+
+  return {
+    cards: sorted,
+    values,
+    description: `${sorted.map(card => card.rank).join('-')} low`,
+  };
+}
+
+/**
+ * Compares two low hands.
+ * @returns Positive if low1 wins (is lower), negative if low2 wins, 0 if tie
+ */
+export function compareLowHands(low1: LowHandEvaluation, low2: LowHandEvaluation): number {
+  for (let i = 0; i < low1.values.length; i++) {
+    if (low1.values[i] !== low2.values[i]) {
+      return low2.values[i] - low1.values[i];
+    }
+  }
+  return 0;
+}
+
+/**
+ * Finds a player's best low under the variant's rules.
+ * Hold'em may use any five cards; Omaha must use exactly two hole cards
+ * and three community cards, as for the high hand.
+ * @param holeCards - Player's hole cards
+ * @param communityCards - The community cards (at least 3)
+ * @param variant - Poker variant (Texas Hold'em by default)
+ * @returns The best low, or null if no combination qualifies
+ */
+export function getBestLowHand(
+  holeCards: Card[],
+  communityCards: Card[],
+  variant: GameVariant = 'holdem'
+): LowHandEvaluation | null {
+  const combinations = variant === 'omaha'
+    ? getCombinations(holeCards, OMAHA_HOLE_CARDS_USED).flatMap(pair =>
+      getCombinations(communityCards, 5 - OMAHA_HOLE_CARDS_USED).map(triple => [...pair, ...triple]))
+    : getCombinations([...holeCards, ...communityCards], 5);
+
+  let best: LowHandEvaluation | null = null;
+  for (const cards of combinations) {
+    const low = evaluateLowHand(cards);
+    if (low && (!best || compareLowHands(low, best) > 0)) {
+      best = low;
+    }
+  }
+  return best;
+}
+
+/**
+ * Determines the winner(s) of the low half.
+ * @param lows - Each player's best low (null if they have none)
+ * @returns Indices of the best lows (can be multiple in case of tie; empty if none qualify)
+ */
+export function determineLowWinners(lows: (LowHandEvaluation | null)[]): number[] {
+  let bestIndices: number[] = [];
+  let best: LowHandEvaluation | null = null;
+
+  lows.forEach((low, index) => {
+    if (!low) return;
+    const comparison = best ? compareLowHands(low, best) : 1;
+    if (comparison > 0) {
+      bestIndices = [index];
+      best = low;
+    } else if (comparison === 0) {
+      bestIndices.push(index);
+    }
+  });
+
+  return bestIndices;
+}
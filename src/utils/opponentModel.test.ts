@@ -0,0 +1,145 @@
+/**
+ * Unit tests for opponent modelling.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createEmptyTendencies,
+  addHandToTendencies,
+  buildTendenciesFromHistory,
+  readOpponent,
+  getExploitAdjustments,
+  MIN_HANDS_FOR_READ,
+} from './opponentModel';
+import { ActionHistoryEntry, ActionHistoryAction, GamePhase } from '../types/game';
+import { HandHistoryRecord } from '../types/handHistory';
+import { PlayerTendencies } from '../types/opponentModel';
+
+// Helper to create an action history entry
+function act(playerId: string, action: ActionHistoryAction, phase: GamePhase = 'pre-flop'): ActionHistoryEntry {
+  return {
+    id: 0,
+    playerName: playerId,
+    playerId,
+    action,
+    phase,
+    potAfter: 0,
+    timestamp: 0,
+    isUser: playerId === 'user',
+  };
+}
+
+// Helper to repeat a hand into tendencies
+function repeatHand(times: number, actions: ActionHistoryEntry[], wentToShowdown = false): PlayerTendencies {
+  let tendencies = createEmptyTendencies();
+  for (let i = 0; i < times; i++) {
+    tendencies = addHandToTendencies(tendencies, actions, 'user', wentToShowdown);
+  }
+  return tendencies;
+}
+
+describe('addHandToTendencies', () => {
+  it('should count a pre-flop raise as VPIP and PFR', () => {
+    const tendencies = repeatHand(1, [act('ai1', 'smallBlind'), act('ai2', 'bigBlind'), act('user', 'raise'), act('ai1', 'fold'), act('ai2', 'fold')]);
+
+    expect(tendencies).toMatchObject({ hands: 1, vpipHands: 1, pfrHands: 1, sawFlopHands: 0 });
+  });
+
+  it('should not count posting the big blind and checking as VPIP', () => {
+    const tendencies = repeatHand(1, [act('ai1', 'smallBlind'), act('user', 'bigBlind'), act('ai1', 'call'), act('user', 'check')]);
+
+    expect(tendencies.vpipHands).toBe(0);
+  });
+
+  it('should count folds to bets after the flop', () => {
+    const tendencies = repeatHand(1, [
+      act('user', 'call'),
+      act('ai1', 'check', 'flop'),
+      act('user', 'check', 'flop'),
+      act('ai1', 'raise', 'turn'),
+      act('user', 'fold', 'turn'),
+    ]);
+
+    expect(tendencies).toMatchObject({ facedBets: 1, foldsToBet: 1, sawFlopHands: 1, showdownHands: 0 });
+  });
+
+  it('should count going to showdown after seeing the flop', () => {
+    const tendencies = repeatHand(1, [act('user', 'call'), act('ai1', 'raise', 'river'), act('user', 'call', 'river')], true);
+
+    expect(tendencies).toMatchObject({ facedBets: 1, foldsToBet: 0, sawFlopHands: 1, showdownHands: 1 });
+  });
+
+  it('should ignore hands the player took no part in', () => {
+    const tendencies = repeatHand(1, [act('ai1', 'raise')]);
+    expect(tendencies.hands).toBe(0);
+  });
+});
+
+describe('buildTendenciesFromHistory', () => {
+  it('should add up the user in each recorded hand', () => {
+    const hand = {
+      players: [{ id: 'user', isUser: true }],
+      actions: [act('user', 'call'), act('ai1', 'raise', 'flop'), act('user', 'fold', 'flop')],
+      reachedShowdown: false,
+      userFolded: true,
+    } as unknown as HandHistoryRecord;
+
+    expect(buildTendenciesFromHistory([hand, hand])).toMatchObject({ hands: 2, vpipHands: 2, facedBets: 2, foldsToBet: 2 });
+  });
+});
+
+describe('readOpponent', () => {
+  it('should report no style or leaks before enough hands', () => {
+    const read = readOpponent(repeatHand(MIN_HANDS_FOR_READ - 1, [act('user', 'call')]));
+
+    expect(read.style).toBe('unknown');
+    expect(read.leaks).toEqual([]);
+  });
+
+  it('should spot a player who folds to most bets', () => {
+    const read = readOpponent(repeatHand(MIN_HANDS_FOR_READ, [act('user', 'call'), act('ai1', 'raise', 'flop'), act('user', 'fold', 'flop')]));
+
+    expect(read.foldToBet).toBe(100);
+    expect(read.leaks.map(l => l.id)).toContain('folds-too-often');
+  });
+
+  it('should read a loose, passive calling player', () => {
+    const read = readOpponent(repeatHand(MIN_HANDS_FOR_READ, [act('user', 'call'), act('ai1', 'raise', 'river'), act('user', 'call', 'river')], true));
+
+    expect(read.vpip).toBe(100);
+    expect(read.pfr).toBe(0);
+    expect(read.style).toBe('loose-passive');
+    expect(read.leaks.map(l => l.id)).toEqual(['calls-too-often', 'plays-too-many-hands', 'too-passive']);
+  });
+
+  it('should read a tight player who folds most hands', () => {
+    const read = readOpponent(repeatHand(MIN_HANDS_FOR_READ, [act('user', 'fold')]));
+
+    expect(read.style).toBe('tight-passive');
+    expect(read.leaks.map(l => l.id)).toEqual(['too-tight']);
+  });
+});
+
+describe('getExploitAdjustments', () => {
+  it('should bluff more against a frequent folder', () => {
+    const read = readOpponent(repeatHand(MIN_HANDS_FOR_READ, [act('user', 'raise'), act('ai1', 'raise', 'flop'), act('user', 'fold', 'flop')]));
+
+    expect(getExploitAdjustments(read, false).bluffFrequency).toBeGreaterThan(0);
+  });
+
+  it('should stop bluffing and respect raises from a passive calling player', () => {
+    const read = readOpponent(repeatHand(MIN_HANDS_FOR_READ, [act('user', 'call'), act('ai1', 'raise', 'river'), act('user', 'call', 'river')], true));
+
+    const passive = getExploitAdjustments(read, false);
+    expect(passive.bluffFrequency).toBe(0);
+    expect(passive.thresholdShift.RAISE).toBeLessThan(0);
+
+    expect(getExploitAdjustments(read, true).thresholdShift.FOLD)
+      .toBeGreaterThan(passive.thresholdShift.FOLD);
+  });
+
+  it('should make no adjustments without leaks', () => {
+    expect(getExploitAdjustments(readOpponent(createEmptyTendencies()), false))
+      .toEqual({ thresholdShift: { FOLD: 0, CALL: 0, RAISE: 0 } });
+  });
+});
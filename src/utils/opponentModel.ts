@@ -0,0 +1,263 @@
+/**
+ * Opponent modelling.
+ * Counts a player's tendencies (VPIP, PFR, fold to bet, went to showdown)
+ * from action histories, turns the counts into a read of their style and
+ * leaks, and works out how an exploiting AI should adjust against them.
+ */
+
+import { ActionHistoryEntry } from '../types/game';
+import { HandHistoryRecord } from '../types/handHistory';
+import { PlayerTendencies, PlayingStyle, OpponentLeak, OpponentRead } from '../types/opponentModel';
+
+/** Hands needed before the AI trusts its read of a player */
+export const MIN_HANDS_FOR_READ = 10;
+
+/** Bets faced after the flop before fold-to-bet counts as a leak */
+const MIN_BETS_FOR_FOLD_READ = 5;
+
+/** VPIP (%) above which a player is loose */
+const LOOSE_VPIP = 35;
+
+/** VPIP (%) below which a player is too tight */
+const TIGHT_VPIP = 15;
+
+/** Fold to bet (%) at or above which a player folds too often */
+const HIGH_FOLD_TO_BET = 60;
+
+/** Fold to bet (%) at or below which a player calls too often */
+const LOW_FOLD_TO_BET = 30;
+
+/** Went to showdown (%) at or above which a player calls too often */
+const HIGH_WENT_TO_SHOWDOWN = 50;
+
+/** VPIP (%) at or above which a player plays too many hands */
+const HIGH_VPIP = 50;
+
+/** Share of played hands raised, below which a player is passive */
+const PASSIVE_RAISE_SHARE = 0.25;
+
+/** Bluff frequency against a player who folds too often */
+const EXPLOIT_BLUFF_FREQUENCY = 0.3;
+
+/**
+ * How an exploiting AI adjusts its play against a player.
+ */
+export interface ExploitAdjustments {
+  /** Replaces the personality's bluff frequency, if set */
+  bluffFrequency?: number;
+  /** Added to the FOLD/CALL/RAISE thresholds (negative plays looser) */
+  thresholdShift: {
+    FOLD: number;
+    CALL: number;
+    RAISE: number;
+  };
+}
+
+/**
+ * Creates an empty set of tendencies.
+ */
+export function createEmptyTendencies(): PlayerTendencies {
+  return {
+    hands: 0,
+    vpipHands: 0,
+    pfrHands: 0,
+    facedBets: 0,
+    foldsToBet: 0,
+    sawFlopHands: 0,
+    showdownHands: 0,
+  };
+}
+
+/**
+ * Adds one completed hand to a player's tendencies.
+ * A player faces a bet after the flop when someone else raised since the
+ * player last acted on that street.
+ *
+ * @param tendencies - Counts so far
+ * @param actions - The hand's action history, in order
+ * @param playerId - The player being modelled
+ * @param wentToShowdown - Whether the player reached showdown without folding
+ * @returns Updated counts (the input is not modified)
+ */
+export function addHandToTendencies(
+  tendencies: PlayerTendencies,
+  actions: ActionHistoryEntry[],
+  playerId: string,
+  wentToShowdown: boolean
+): PlayerTendencies {
+  const own = actions.filter(a => a.playerId === playerId);
+  if (own.length === 0) return tendencies;
+
+  const preflop = own.filter(a => a.phase === 'pre-flop');
+  const voluntary = preflop.some(a => a.action === 'call' || a.action === 'raise');
+  const raised = preflop.some(a => a.action === 'raise');
+  const foldedPreflop = preflop.some(a => a.action === 'fold');
+  const sawFlop = !foldedPreflop && (own.some(a => a.phase !== 'pre-flop') || wentToShowdown);
+
+  let facedBets = 0;
+  let foldsToBet = 0;
+  let facingBet = false;
+  let phase = actions[0].phase;
+  for (const entry of actions) {
+    if (entry.phase !== phase) {
+      phase = entry.phase;
+      facingBet = false;
+    }
+    if (phase === 'pre-flop') continue;
+
+    if (entry.playerId !== playerId) {
+      if (entry.action === 'raise') facingBet = true;
+      continue;
+    }
+    if (facingBet) {
+      facedBets++;
+      if (entry.action === 'fold') foldsToBet++;
+    }
+    facingBet = false;
+  }
+
+  return {
+    hands: tendencies.hands + 1,
+    vpipHands: tendencies.vpipHands + (voluntary ? 1 : 0),
+    pfrHands: tendencies.pfrHands + (raised ? 1 : 0),
+    facedBets: tendencies.facedBets + facedBets,
+    foldsToBet: tendencies.foldsToBet + foldsToBet,
+    sawFlopHands: tendencies.sawFlopHands + (sawFlop ? 1 : 0),
+    showdownHands: tendencies.showdownHands + (sawFlop && wentToShowdown ? 1 : 0),
+  };
+}
+
+/**
+ * Builds the user's tendencies from recorded hands.
+ *
+ * @param hands - Hand history records, in any order
+ * @returns Counts over all the hands
+ */
+export function buildTendenciesFromHistory(hands: HandHistoryRecord[]): PlayerTendencies {
+  return hands.reduce((tendencies, hand) => {
+    const user = hand.players.find(p => p.isUser);
+    if (!user) return tendencies;
+    return addHandToTendencies(tendencies, hand.actions, user.id, hand.reachedShowdown && !hand.userFolded);
+  }, createEmptyTendencies());
+}
+
+/**
+ * Converts a count to a percentage rounded to one decimal place.
+ */
+function percentage(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 1000) / 10 : 0;
+}
+
+/**
+ * Classifies a style from VPIP and PFR.
+ */
+function classifyStyle(handsObserved: number, vpip: number, pfr: number): PlayingStyle {
+  if (handsObserved < MIN_HANDS_FOR_READ) return 'unknown';
+  const loose = vpip > LOOSE_VPIP;
+  const aggressive = vpip > 0 && pfr / vpip >= PASSIVE_RAISE_SHARE;
+  if (loose) return aggressive ? 'loose-aggressive' : 'loose-passive';
+  return aggressive ? 'tight-aggressive' : 'tight-passive';
+}
+
+/**
+ * Turns a player's tendencies into the AI's read of them.
+ * No leaks are reported until MIN_HANDS_FOR_READ hands have been seen.
+ *
+ * @param tendencies - Counts for the player
+ * @returns Frequencies, style and leaks
+ */
+export function readOpponent(tendencies: PlayerTendencies): OpponentRead {
+  const vpip = percentage(tendencies.vpipHands, tendencies.hands);
+  const pfr = percentage(tendencies.pfrHands, tendencies.hands);
+  const foldToBet = percentage(tendencies.foldsToBet, tendencies.facedBets);
+  const wentToShowdown = percentage(tendencies.showdownHands, tendencies.sawFlopHands);
+  const leaks: OpponentLeak[] = [];
+
+  if (tendencies.hands >= MIN_HANDS_FOR_READ) {
+    if (tendencies.facedBets >= MIN_BETS_FOR_FOLD_READ && foldToBet >= HIGH_FOLD_TO_BET) {
+      leaks.push({
+        id: 'folds-too-often',
+        observation: `Folds to ${foldToBet}% of bets after the flop`,
+        exploit: 'Bluffs you more often',
+      });
+    } else if ((tendencies.facedBets >= MIN_BETS_FOR_FOLD_READ && foldToBet <= LOW_FOLD_TO_BET) ||
+               wentToShowdown >= HIGH_WENT_TO_SHOWDOWN) {
+      leaks.push({
+        id: 'calls-too-often',
+        observation: `Goes to showdown ${wentToShowdown}% of the time after seeing a flop`,
+        exploit: 'Stops bluffing you and bets thinner for value',
+      });
+    }
+
+    if (vpip >= HIGH_VPIP) {
+      leaks.push({
+        id: 'plays-too-many-hands',
+        observation: `Plays ${vpip}% of hands`,
+        exploit: 'Calls you down with weaker hands',
+      });
+    } else if (vpip < TIGHT_VPIP) {
+      leaks.push({
+        id: 'too-tight',
+        observation: `Plays only ${vpip}% of hands`,
+        exploit: 'Bets more often to pick up the pots you give away',
+      });
+    }
+
+    if (vpip > 0 && pfr / vpip < PASSIVE_RAISE_SHARE) {
+      leaks.push({
+        id: 'too-passive',
+        observation: `Raises only ${pfr}% of hands but plays ${vpip}%`,
+        exploit: 'Folds to your raises, because you only raise with the goods',
+      });
+    }
+  }
+
+  return {
+    handsObserved: tendencies.hands,
+    vpip,
+    pfr,
+    foldToBet,
+    wentToShowdown,
+    style: classifyStyle(tendencies.hands, vpip, pfr),
+    leaks,
+  };
+}
+
+/**
+ * Works out how an exploiting AI should adjust against a read.
+ *
+ * @param read - The AI's read of the player
+ * @param playerIsAggressor - Whether the player raised on the current street
+ * @returns Bluff frequency override and threshold shifts
+ */
+export function getExploitAdjustments(read: OpponentRead, playerIsAggressor: boolean): ExploitAdjustments {
+  const adjustments: ExploitAdjustments = { thresholdShift: { FOLD: 0, CALL: 0, RAISE: 0 } };
+  const shift = adjustments.thresholdShift;
+
+  read.leaks.forEach(leak => {
+    switch (leak.id) {
+      case 'folds-too-often':
+        adjustments.bluffFrequency = EXPLOIT_BLUFF_FREQUENCY;
+        break;
+      case 'calls-too-often':
+        adjustments.bluffFrequency = 0;
+        shift.RAISE -= 1;
+        break;
+      case 'plays-too-many-hands':
+        shift.FOLD -= 0.5;
+        shift.CALL -= 0.5;
+        break;
+      case 'too-tight':
+        shift.RAISE -= 1;
+        break;
+      case 'too-passive':
+        if (playerIsAggressor) {
+          shift.FOLD += 1;
+          shift.CALL += 1;
+        }
+        break;
+    }
+  });
+
+  return adjustments;
+}
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for the seedable random service.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  createRandomStream,
+  createSeededRandom,
+  generateSeed,
+  seedRandom,
+  setRandomSource,
+  resetRandomSource,
+  random,
+  randomElement,
+} from './random';
+import { createShuffledDeck } from './cards';
+
+afterEach(() => {
+  resetRandomSource();
+});
+
+describe('createSeededRandom', () => {
+  it('should produce the same sequence for the same seed', () => {
+    const a = createSeededRandom(12345);
+    const b = createSeededRandom(12345);
+    for (let i = 0; i < 20; i++) {
+      expect(a()).toBe(b());
+    }
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    const a = createSeededRandom(1);
+    const b = createSeededRandom(2);
+    const seqA = Array.from({ length: 5 }, () => a());
+    const seqB = Array.from({ length: 5 }, () => b());
+    expect(seqA).not.toEqual(seqB);
+  });
+
+  it('should return values in [0, 1)', () => {
+    const rng = createSeededRandom(42);
+    for (let i = 0; i < 1000; i++) {
+      const value = rng();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('createRandomStream', () => {
+  it('should start a fresh stream at its seed, like createSeededRandom', () => {
+    const stream = createRandomStream(12345);
+    const rng = createSeededRandom(12345);
+    expect(stream.position()).toBe(12345);
+    expect([stream.next(), stream.next()]).toEqual([rng(), rng()]);
+  });
+
+  it('should resume from a saved position', () => {
+    const stream = createRandomStream(7);
+    stream.next();
+    stream.next();
+    const resumed = createRandomStream(stream.position());
+    expect(resumed.next()).toBe(stream.next());
+  });
+});
+
+describe('generateSeed', () => {
+  it('should return an unsigned 32-bit integer', () => {
+    const seed = generateSeed();
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThan(4294967296);
+  });
+});
+
+describe('shared random service', () => {
+  it('should follow the seeded sequence after seedRandom', () => {
+    seedRandom(99);
+    const first = [random(), random(), random()];
+    seedRandom(99);
+    const second = [random(), random(), random()];
+    expect(first).toEqual(second);
+  });
+
+  it('should use a custom source after setRandomSource', () => {
+    setRandomSource(() => 0.25);
+    expect(random()).toBe(0.25);
+    expect(randomElement(['a', 'b', 'c', 'd'])).toBe('b');
+  });
+
+  it('should shuffle decks identically for the same seed', () => {
+    seedRandom(7);
+    const deck1 = createShuffledDeck();
+    seedRandom(7);
+    const deck2 = createShuffledDeck();
+    expect(deck1).toEqual(deck2);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Seedable random number service.
+ * Each hand's deck shuffle and AI decisions draw from a random stream of its
+ * own, seeded per hand and saved with the game state, so a hand can be
+ * replayed exactly from its seed. The shared service (random()) covers
+ * randomness nothing needs to replay, such as narration phrases.
+ */
+
+/**
+ * A function returning a pseudo-random float in [0, 1), like Math.random.
+ */
+export type RandomSource = () => number;
+
+/**
+ * Default source used until a seed is applied.
+ * Wraps Math.random at call time so test spies on Math.random still apply.
+ */
+const defaultSource: RandomSource = () => Math.random();
+
+/** The source currently used by random() */
+let activeSource: RandomSource = defaultSource;
+
+/**
+ * A seeded random source that can report how far it has been drawn, so it
+ * can be saved and resumed later.
+ */
+export interface RandomStream {
+  /** Draws the next value */
+  next: RandomSource;
+  /** The stream's current position; pass it to createRandomStream to resume */
+  position: () => number;
+}
+
+/**
+ * Creates a deterministic random stream (mulberry32) at the given position.
+ * A fresh stream's position is its seed.
+ * @param position - A seed, or a position reported by an earlier stream
+ * @returns A stream producing floats in [0, 1)
+ */
+export function createRandomStream(position: number): RandomStream {
+  let state = position >>> 0;
+
+  return {
+    next: () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    position: () => state,
+  };
+}
+
+/**
+ * Creates a deterministic random source from a 32-bit seed (mulberry32).
+ * The same seed always produces the same sequence.
+ * @param seed - Any integer; it is truncated to an unsigned 32-bit value
+ * @returns A random source producing floats in [0, 1)
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  return createRandomStream(seed).next;
+}
+
+/**
+ * Generates a fresh unsigned 32-bit seed for a new hand.
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Seeds the shared random service.
+ * Subsequent calls to random() follow the sequence for this seed.
+ * @param seed - The seed to apply
+ * @returns The newly active random source
+ */
+export function seedRandom(seed: number): RandomSource {
+  activeSource = createSeededRandom(seed);
+  return activeSource;
+}
+
+/**
+ * Replaces the shared random source with a custom implementation.
+ * Useful for tests that need full control over every draw.
+ * @param source - The source to use
+ */
+export function setRandomSource(source: RandomSource): void {
+  activeSource = source;
+}
+
+/**
+ * Restores the default unseeded source (Math.random).
+ */
+export function resetRandomSource(): void {
+  activeSource = defaultSource;
+}
+
+/**
+ * Draws the next value from the shared random source.
+ * @returns A float in [0, 1)
+ */
+export function random(): number {
+  return activeSource();
+}
+
+/**
+ * Picks a random element from a non-empty array using the given source.
+ * @param arr - The array to pick from
+ * @param source - Random source to draw from (defaults to the shared service)
+ */
+export function randomElement<T>(arr: readonly T[], source: RandomSource = random): T {
+  return arr[Math.floor(source() * arr.length)];
+}
@@ -0,0 +1,95 @@
+/**
+ * Unit tests for hand range parsing and table positions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseRange, getHandClass, isInRange, getTablePosition } from './ranges';
+import { PREFLOP_RANGES } from '../constants/preflopRanges';
+import { Card, GameState, Player } from '../types/game';
+import { createInitialState } from '../engine/gameReducer';
+
+// Helper to create a card
+const c = (rank: Card['rank'], suit: Card['suit']): Card => ({ rank, suit });
+
+describe('getHandClass', () => {
+  it('should name pairs, suited and offsuit hands with the high card first', () => {
+    expect(getHandClass([c('7', 'hearts'), c('7', 'spades')])).toBe('77');
+    expect(getHandClass([c('K', 'hearts'), c('A', 'hearts')])).toBe('AKs');
+    expect(getHandClass([c('9', 'clubs'), c('10', 'hearts')])).toBe('T9o');
+  });
+});
+
+describe('parseRange', () => {
+  it('should expand pair runs', () => {
+    expect([...parseRange('TT+')]).toEqual(['TT', 'JJ', 'QQ', 'KK', 'AA']);
+    expect([...parseRange('99-77')]).toEqual(['77', '88', '99']);
+  });
+
+  it('should expand kicker runs up to one below the top card', () => {
+    expect([...parseRange('ATs+')]).toEqual(['ATs', 'AJs', 'AQs', 'AKs']);
+    expect([...parseRange('A5s-A2s')]).toEqual(['A2s', 'A3s', 'A4s', 'A5s']);
+  });
+
+  it('should include both suited and offsuit when no suffix is given', () => {
+    expect([...parseRange('KQ')]).toEqual(['KQs', 'KQo']);
+  });
+
+  it('should combine comma-separated tokens', () => {
+    const range = parseRange('AKs, 77+, ATo+');
+    expect(range.has('AKs')).toBe(true);
+    expect(range.has('AKo')).toBe(true);
+    expect(range.has('88')).toBe(true);
+    expect(range.has('66')).toBe(false);
+    expect(range.has('ATs')).toBe(false);
+  });
+
+  it('should throw on invalid tokens', () => {
+    expect(() => parseRange('AXs')).toThrow('Invalid range token');
+    expect(() => parseRange('KAs')).toThrow('higher rank first');
+    expect(() => parseRange('77s')).toThrow('pairs cannot be suited');
+  });
+
+  it('should parse every built-in chart', () => {
+    Object.values(PREFLOP_RANGES).forEach(ranges => {
+      expect(parseRange(ranges.open).size).toBeGreaterThan(0);
+      expect(parseRange(ranges.call).size).toBeGreaterThan(0);
+      expect(parseRange(ranges.threeBet).size).toBeGreaterThan(0);
+    });
+  });
+});
+
+describe('isInRange', () => {
+  it('should check hole cards against a parsed range', () => {
+    const range = parseRange('AQs+, JJ+');
+    expect(isInRange(range, [c('Q', 'hearts'), c('A', 'hearts')])).toBe(true);
+    expect(isInRange(range, [c('Q', 'hearts'), c('A', 'clubs')])).toBe(false);
+  });
+});
+
+describe('getTablePosition', () => {
+  const tableOf = (count: number, dealerPosition: number): GameState => {
+    const base = createInitialState();
+    const players: Player[] = Array.from({ length: count }, (_, i) => ({ ...base.players[0], id: `p${i}`, position: i }));
+    return { ...base, players, dealerPosition };
+  };
+
+  it('should place the blinds after the button and late seats before it', () => {
+    const state = tableOf(6, 0);
+    expect([0, 1, 2, 3, 4, 5].map(i => getTablePosition(state, i)))
+      .toEqual(['late', 'small-blind', 'big-blind', 'early', 'middle', 'late']);
+  });
+
+  it('should follow the dealer button around the table', () => {
+    const state = tableOf(4, 2);
+    expect(getTablePosition(state, 2)).toBe('late');
+    expect(getTablePosition(state, 3)).toBe('small-blind');
+    expect(getTablePosition(state, 0)).toBe('big-blind');
+    expect(getTablePosition(state, 1)).toBe('late');
+  });
+
+  it('should give heads-up players only the button and the big blind', () => {
+    const state = tableOf(2, 1);
+    expect(getTablePosition(state, 1)).toBe('late');
+    expect(getTablePosition(state, 0)).toBe('big-blind');
+  });
+});
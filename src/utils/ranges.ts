@@ -0,0 +1,150 @@
+/**
+ * Hand range utilities.
+ * Parses range shorthand such as "AKs, 77+, ATo+" and works out a
+ * player's starting hand class and table position.
+ */
+
+import { Card, GameState, Rank } from '../types/game';
+import { TablePosition } from '../constants/preflopRanges';
+
+/** Range ranks from lowest to highest, in shorthand form */
+const RANGE_RANKS = '23456789TJQKA';
+
+/**
+ * Converts a card rank to its one-character range form ("10" becomes "T").
+ */
+function toRangeRank(rank: Rank): string {
+  return rank === '10' ? 'T' : rank;
+}
+
+/**
+ * Gets the starting hand class for two hole cards.
+ * Examples: "AKs", "T9o", "77"
+ */
+export function getHandClass(cards: Card[]): string {
+  if (cards.length !== 2) {
+    throw new Error(`Hand class requires 2 hole cards, got ${cards.length}`);
+  }
+
+  const [first, second] = cards.map(card => toRangeRank(card.rank));
+  const high = RANGE_RANKS.indexOf(first) >= RANGE_RANKS.indexOf(second) ? first : second;
+  const low = high === first ? second : first;
+
+  if (high === low) return `${high}${low}`;
+  return `${high}${low}${cards[0].suit === cards[1].suit ? 's' : 'o'}`;
+}
+
+/**
+ * Expands a suitedness marker into the hand classes for a pair of ranks.
+ */
+function withSuitedness(high: string, low: string, suitedness: string): string[] {
+  if (suitedness === 's') return [`${high}${low}s`];
+  if (suitedness === 'o') return [`${high}${low}o`];
+  return [`${high}${low}s`, `${high}${low}o`];
+}
+
+/**
+ * Expands a single range token into hand classes.
+ * @throws Error if the token is not valid shorthand
+ */
+function expandToken(token: string): string[] {
+  const match = /^([2-9TJQKA])([2-9TJQKA])([so]?)(\+?)(?:-([2-9TJQKA])([2-9TJQKA])([so]?))?$/.exec(token);
+  if (!match) {
+    throw new Error(`Invalid range token "${token}"`);
+  }
+
+  const [, first, second, suitedness, plus, endFirst, endSecond, endSuitedness] = match;
+  const firstIndex = RANGE_RANKS.indexOf(first);
+  const secondIndex = RANGE_RANKS.indexOf(second);
+
+  // Pairs: "77", "77+", "TT-77"
+  if (first === second) {
+    if (suitedness) {
+      throw new Error(`Invalid range token "${token}": pairs cannot be suited or offsuit`);
+    }
+    let top = firstIndex;
+    let bottom = firstIndex;
+    if (plus) {
+      top = RANGE_RANKS.length - 1;
+    } else if (endFirst) {
+      if (endFirst !== endSecond) {
+        throw new Error(`Invalid range token "${token}"`);
+      }
+      top = Math.max(firstIndex, RANGE_RANKS.indexOf(endFirst));
+      bottom = Math.min(firstIndex, RANGE_RANKS.indexOf(endFirst));
+    }
+    const pairs: string[] = [];
+    for (let i = bottom; i <= top; i++) {
+      pairs.push(`${RANGE_RANKS[i]}${RANGE_RANKS[i]}`);
+    }
+    return pairs;
+  }
+
+  if (secondIndex > firstIndex) {
+    throw new Error(`Invalid range token "${token}": write the higher rank first`);
+  }
+
+  // Kicker runs: "ATs+" up to one below the top card, "A5s-A2s" between kickers
+  let topKicker = secondIndex;
+  let bottomKicker = secondIndex;
+  if (plus) {
+    topKicker = firstIndex - 1;
+  } else if (endFirst) {
+    if (endFirst !== first || endSuitedness !== suitedness) {
+      throw new Error(`Invalid range token "${token}"`);
+    }
+    topKicker = Math.max(secondIndex, RANGE_RANKS.indexOf(endSecond));
+    bottomKicker = Math.min(secondIndex, RANGE_RANKS.indexOf(endSecond));
+  }
+
+  const hands: string[] = [];
+  for (let kicker = bottomKicker; kicker <= topKicker; kicker++) {
+    hands.push(...withSuitedness(first, RANGE_RANKS[kicker], suitedness));
+  }
+  return hands;
+}
+
+/**
+ * Parses comma-separated range shorthand into a set of hand classes.
+ * Example: parseRange("77+, ATs+") contains "AA", "77", "AJs" but not "ATo"
+ * @throws Error if any token is not valid shorthand
+ */
+export function parseRange(notation: string): Set<string> {
+  const hands = new Set<string>();
+  notation
+    .split(',')
+    .map(token => token.trim())
+    .filter(token => token.length > 0)
+    .forEach(token => expandToken(token).forEach(hand => hands.add(hand)));
+  return hands;
+}
+
+/**
+ * Checks whether hole cards fall inside a parsed range.
+ */
+export function isInRange(range: Set<string>, cards: Card[]): boolean {
+  return range.has(getHandClass(cards));
+}
+
+/**
+ * Works out a player's position relative to the dealer button.
+ * The button and the seat before it are late, the seat before that is
+ * middle, and everything earlier is early. Heads-up there are only the
+ * button and the big blind.
+ * @param gameState - Current game state
+ * @param playerIndex - Index of the player in gameState.players
+ */
+export function getTablePosition(gameState: GameState, playerIndex: number): TablePosition {
+  const playerCount = gameState.players.length;
+  const seatsAfterButton = (playerIndex - gameState.dealerPosition + playerCount) % playerCount;
+
+  // Heads-up the button posts the small blind but acts last after the flop,
+  // so it plays the wide late-position charts
+  if (playerCount === 2) return seatsAfterButton === 0 ? 'late' : 'big-blind';
+  if (seatsAfterButton === 0) return 'late';
+  if (seatsAfterButton === 1) return 'small-blind';
+  if (seatsAfterButton === 2) return 'big-blind';
+  if (seatsAfterButton === playerCount - 1) return 'late';
+  if (seatsAfterButton === playerCount - 2) return 'middle';
+  return 'early';
+}
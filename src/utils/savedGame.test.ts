@@ -0,0 +1,116 @@
+/**
+ * Unit tests for saving and restoring an in-progress game.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  serializeGameState,
+  deserializeGameState,
+  saveGame,
+  loadSavedGame,
+  clearSavedGame,
+  SAVED_GAME_VERSION,
+} from './savedGame';
+import { createInitialState, gameReducer } from '../engine/gameReducer';
+import { PokerEngine } from '../engine/pokerEngine';
+import { makeAIDecision } from './ai';
+import { GameState } from '../types/game';
+import { SavedGame } from '../types/savedGame';
+import { DecisionProvider } from '../types/engine';
+
+function dealtHand(): GameState {
+  const dealt = gameReducer(createInitialState(), { type: 'START_NEW_HAND', seed: 42 });
+  return gameReducer(dealt, {
+    type: 'SET_PENDING_EVENT',
+    event: { type: 'user_turn', message: 'Your move, partner.', advice: 'Call' },
+  });
+}
+
+describe('serializeGameState and deserializeGameState', () => {
+  it('should round-trip a hand through JSON, starting chips and deck order included', () => {
+    const state = dealtHand();
+    const json = JSON.stringify(serializeGameState(state, 1000));
+    const restored = deserializeGameState(JSON.parse(json));
+
+    expect(restored.playersStartingChips).toBeInstanceOf(Map);
+    expect(restored.playersStartingChips).toEqual(state.playersStartingChips);
+    expect(restored.deck).toEqual(state.deck);
+    expect(restored.pendingEvent).toEqual(state.pendingEvent);
+    expect(restored).toEqual(state);
+  });
+
+  it('should drop a phase advance cut off by the reload', () => {
+    const state = gameReducer(dealtHand(), { type: 'START_PHASE_ADVANCE' });
+    expect(deserializeGameState(serializeGameState(state)).isAdvancingPhase).toBe(false);
+  });
+
+  it('should reject snapshots from another version', () => {
+    const saved = { ...serializeGameState(dealtHand()), version: SAVED_GAME_VERSION + 1 };
+    expect(() => deserializeGameState(saved)).toThrow('Unsupported saved game version');
+  });
+
+  it('should reject snapshots with malformed players or cards', () => {
+    const saved = serializeGameState(dealtHand());
+    const [first, ...others] = saved.state.players;
+    const malformed = [
+      { ...saved.state, players: [{ ...first, chips: 'lots' }, ...others] },
+      { ...saved.state, players: [{ ...first, holeCards: [{ rank: '1', suit: 'hearts' }] }, ...others] },
+      { ...saved.state, players: [null, ...others] },
+      { ...saved.state, deck: [{ rank: 'A' }] },
+      { ...saved.state, communityCards: ['As'] },
+    ];
+
+    for (const state of malformed) {
+      expect(() => deserializeGameState({ ...saved, state } as unknown as SavedGame)).toThrow('Saved game is not a game state');
+    }
+  });
+
+  it("should reject a dealt hand without its random stream's position", () => {
+    const saved = serializeGameState(dealtHand());
+    const state = { ...saved.state, rngPosition: undefined };
+    expect(() => deserializeGameState({ ...saved, state })).toThrow('no random stream position');
+  });
+
+  it('should resume the hand with the same random draws', () => {
+    const aiDecides: DecisionProvider = (player, state, rng) => makeAIDecision(player, state, 'expert', rng);
+    const original = new PokerEngine();
+    original.execute({ type: 'start_hand', seed: 42 });
+    for (let i = 0; i < 2; i++) {
+      const { players, currentPlayerIndex } = original.getState();
+      const { action, amount } = original.decide(aiDecides);
+      original.execute({ type: 'act', playerId: players[currentPlayerIndex].id, action, amount });
+    }
+
+    const snapshot = JSON.stringify(serializeGameState(original.getState()));
+    const restored = new PokerEngine();
+    restored.execute({ type: 'restore', state: deserializeGameState(JSON.parse(snapshot)) });
+
+    expect(restored.getState().rngPosition).toBe(original.getState().rngPosition);
+    expect(restored.decide(aiDecides)).toEqual(original.decide(aiDecides));
+  });
+});
+
+describe('saveGame and loadSavedGame', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should load the last saved game until it is cleared', () => {
+    expect(loadSavedGame()).toBeNull();
+
+    const state = dealtHand();
+    saveGame(state);
+    expect(loadSavedGame()?.deck).toEqual(state.deck);
+
+    clearSavedGame();
+    expect(loadSavedGame()).toBeNull();
+  });
+
+  it('should ignore corrupt saves and finished games', () => {
+    localStorage.setItem('poker_saved_game', '{not json');
+    expect(loadSavedGame()).toBeNull();
+
+    saveGame({ ...dealtHand(), isGameOver: true });
+    expect(loadSavedGame()).toBeNull();
+  });
+});
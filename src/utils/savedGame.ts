@@ -0,0 +1,151 @@
+/**
+ * Saving and restoring an in-progress game.
+ * The hook saves a snapshot to localStorage after every state change once a
+ * hand has been dealt, so a reload (or a phone putting the tab to sleep)
+ * can resume the game where it left off.
+ */
+
+import { GameState } from '../types/game';
+import { SavedGame } from '../types/savedGame';
+import { RANKS, SUITS } from '../constants/cards';
+import { logger } from './logger';
+
+/** LocalStorage key for the in-progress game */
+const STORAGE_KEY = 'poker_saved_game';
+
+/** Current snapshot format version (2 added the hand's random stream position) */
+export const SAVED_GAME_VERSION = 2;
+
+/**
+ * Whether a state is worth saving: a hand has been dealt and the game is not over.
+ */
+export function isGameInProgress(state: GameState): boolean {
+  return !state.isGameOver && state.players.some(p => p.holeCards.length > 0);
+}
+
+/**
+ * Converts a game state into a versioned snapshot that survives JSON.
+ *
+ * @param state - The state to snapshot
+ * @param now - Snapshot time (defaults to now)
+ */
+export function serializeGameState(state: GameState, now: number = Date.now()): SavedGame {
+  const { playersStartingChips, ...rest } = state;
+  return {
+    version: SAVED_GAME_VERSION,
+    savedAt: now,
+    state: {
+      ...rest,
+      playersStartingChips: playersStartingChips ? Array.from(playersStartingChips.entries()) : undefined,
+    },
+  };
+}
+
+/**
+ * Whether a saved value is a card.
+ */
+function isCard(value: unknown): boolean {
+  const card = value as { rank?: unknown; suit?: unknown } | null;
+  return typeof card === 'object' && card !== null &&
+    (RANKS as unknown[]).includes(card.rank) && (SUITS as unknown[]).includes(card.suit);
+}
+
+/**
+ * Whether a saved value is a list of cards.
+ */
+function isCardList(value: unknown): boolean {
+  return Array.isArray(value) && value.every(isCard);
+}
+
+/**
+ * Whether a saved value is a player with hole cards and a stack.
+ */
+function isPlayer(value: unknown): boolean {
+  const player = value as Record<string, unknown> | null;
+  return typeof player === 'object' && player !== null &&
+    typeof player.id === 'string' &&
+    typeof player.name === 'string' &&
+    typeof player.isUser === 'boolean' &&
+    typeof player.isFolded === 'boolean' &&
+    typeof player.isAllIn === 'boolean' &&
+    Number.isFinite(player.chips) &&
+    Number.isFinite(player.currentBet) &&
+    Number.isFinite(player.totalBet) &&
+    isCardList(player.holeCards);
+}
+
+/**
+ * Rebuilds a game state from a snapshot.
+ * A phase advance cut off by the reload is dropped so the game picks it up again.
+ * The hand's random stream resumes from its saved position.
+ *
+ * @param saved - The snapshot to restore
+ * @returns The restored state
+ * @throws Error if the snapshot is from another version or is not a game state
+ */
+export function deserializeGameState(saved: SavedGame): GameState {
+  if (saved.version !== SAVED_GAME_VERSION) {
+    throw new Error(`Unsupported saved game version ${saved.version}`);
+  }
+  const { state } = saved;
+  if (!state || !Array.isArray(state.players) || !state.players.every(isPlayer) ||
+      !isCardList(state.deck) || !isCardList(state.communityCards) ||
+      (state.secondBoard !== undefined && !isCardList(state.secondBoard))) {
+    throw new Error('Saved game is not a game state');
+  }
+  if (state.seed !== undefined && !Number.isInteger(state.rngPosition)) {
+    throw new Error('Saved game has no random stream position for its hand');
+  }
+
+  return {
+    ...state,
+    playersStartingChips: state.playersStartingChips ? new Map(state.playersStartingChips) : undefined,
+    isAdvancingPhase: false,
+  };
+}
+
+/**
+ * Saves an in-progress game, replacing any earlier save.
+ *
+ * @param state - The state to save
+ */
+export function saveGame(state: GameState): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(serializeGameState(state)));
+  } catch (error) {
+    logger.error('Failed to save game:', error);
+  }
+}
+
+/**
+ * Loads the saved in-progress game.
+ * Returns null when nothing is saved or the save is unreadable, from
+ * another version, or already finished.
+ *
+ * @returns The restored state, or null
+ */
+export function loadSavedGame(): GameState | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) {
+      return null;
+    }
+
+    const state = deserializeGameState(JSON.parse(stored));
+    return isGameInProgress(state) ? state : null;
+  } catch (error) {
+    logger.error('Failed to load saved game:', error);
+    return null;
+  }
+}
+
+/**
+ * Removes the saved game.
+ */
+export function clearSavedGame(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    logger.error('Failed to clear saved game:', error);
+  }
+}
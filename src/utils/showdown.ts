@@ -3,9 +3,10 @@
  * This module orchestrates pot calculation, winner determination, and chip distribution.
  */
 
-import { Player, HandEvaluation } from '../types/game';
+import { Player, HandEvaluation, LowHandEvaluation, PotResult } from '../types/game';
 import { determineWinners } from './handEvaluator';
-import { calculateSidePots, distributePot } from './sidePots';
+import { determineLowWinners } from './lowHandEvaluator';
+import { Pot, calculateSidePots, distributePot, distributeSplitPot } from './sidePots';
 
 /**
  * Result of showdown processing with winner and pot information.
@@ -18,17 +19,13 @@ export interface ShowdownResult {
 }
 
 /**
- * Result information for a single pot.
+ * Hand evaluations for a second board when the hand is run twice.
  */
-export interface PotResult {
-  /** Total chips in this pot */
-  amount: number;
-  /** IDs of players who won this pot */
-  winnerIds: string[];
-  /** Names of players who won this pot */
-  winnerNames: string[];
-  /** Whether this is a side pot (false = main pot) */
-  isSidePot: boolean;
+export interface SecondBoardEvaluations {
+  /** Hand evaluations for active (non-folded) players on the second board */
+  handEvaluations: HandEvaluation[];
+  /** Best low for each active player on the second board (hi-lo games only) */
+  lowHands?: (LowHandEvaluation | null)[];
 }
 
 /**
@@ -39,13 +36,26 @@ export interface PotResult {
  * 2. For each pot, determine winners from eligible players only
  * 3. Distribute each pot to its winners
  *
+ * In hi-lo games the high and low halves of each pot are settled
+ * separately, so different players can take each half.
+ *
+ * When the hand is run twice, each pot is halved and each half is settled
+ * on its own board; the odd chip goes to the first board. Within a split
+ * pot, the odd chip goes to the first winner clockwise from the button.
+ *
  * @param players All players in the hand (will be modified with updated chip counts)
+ * @param dealerPosition Index of the player with the dealer button
  * @param handEvaluations Hand evaluations for active (non-folded) players
+ * @param lowHands Best low for each active player (hi-lo games only; null for no low)
+ * @param secondBoard Evaluations on the second board (run-it-twice hands only)
  * @returns ShowdownResult with winners and pot information
  */
 export function handleShowdown(
   players: Player[],
-  handEvaluations: HandEvaluation[]
+  dealerPosition: number,
+  handEvaluations: HandEvaluation[],
+  lowHands?: (LowHandEvaluation | null)[],
+  secondBoard?: SecondBoardEvaluations
 ): ShowdownResult {
   // Calculate all pots (main and side pots)
   const pots = calculateSidePots(players);
@@ -54,51 +64,92 @@ export function handleShowdown(
     return { winners: [], pots: [] };
   }
 
-  // Get mapping of player IDs to their hand evaluations (for active players only)
   const activePlayers = players.filter(p => !p.isFolded);
-  const playerIdToEvaluation = new Map<string, HandEvaluation>();
-  activePlayers.forEach((player, index) => {
-    playerIdToEvaluation.set(player.id, handEvaluations[index]);
-  });
+  const getName = (id: string) => players.find(p => p.id === id)!.name;
 
   // Track all winners across all pots
   const allWinnerIds = new Set<string>();
   const potResults: PotResult[] = [];
 
-  // Process each pot from main to side pots
-  pots.forEach((pot, index) => {
+  /**
+   * Settles one pot (or one board's half of it) with the given board's hands.
+   */
+  const settlePot = (
+    pot: Pot,
+    isSidePot: boolean,
+    evaluations: HandEvaluation[],
+    lows: (LowHandEvaluation | null)[] | undefined,
+    board?: 1 | 2
+  ) => {
     // Filter to only eligible players for this pot
-    const eligiblePlayers = activePlayers.filter(p =>
-      pot.eligiblePlayerIds.includes(p.id)
-    );
+    const eligibleIndices = activePlayers
+      .map((p, i) => (pot.eligiblePlayerIds.includes(p.id) ? i : -1))
+      .filter(i => i !== -1);
 
-    if (eligiblePlayers.length === 0) {
+    if (eligibleIndices.length === 0) {
       // Should not happen if calculateSidePots is correct, but handle gracefully
       return;
     }
 
-    // Get hand evaluations for eligible players only
-    const eligibleHandEvaluations = eligiblePlayers.map(p =>
-      playerIdToEvaluation.get(p.id)!
-    );
+    const eligiblePlayers = eligibleIndices.map(i => activePlayers[i]);
 
-    // Determine winners for this pot
-    const winnerIndices = determineWinners(eligibleHandEvaluations);
-    const potWinnerIds = winnerIndices.map(i => eligiblePlayers[i].id);
+    // Determine winners for this pot from the eligible players' hands
+    const winnerIndices = determineWinners(eligibleIndices.map(i => evaluations[i]));
+    const highWinnerIds = winnerIndices.map(i => eligiblePlayers[i].id);
+
+    if (!lows) {
+      // Distribute this pot to its winners
+      distributePot(pot, highWinnerIds, players, dealerPosition);
+      highWinnerIds.forEach(id => allWinnerIds.add(id));
+
+      // Store pot result for display
+      potResults.push({
+        amount: pot.amount,
+        winnerIds: highWinnerIds,
+        winnerNames: highWinnerIds.map(getName),
+        isSidePot,
+        board,
+      });
+      return;
+    }
 
-    // Distribute this pot to its winners
-    distributePot(pot, potWinnerIds, players);
+    // Hi-lo: the best qualifying low among the same players takes the other half
+    const eligibleLows = eligibleIndices.map(i => lows[i] ?? null);
+    const lowWinnerIndices = determineLowWinners(eligibleLows);
+    const lowWinnerIds = lowWinnerIndices.map(i => eligiblePlayers[i].id);
+    const paid = distributeSplitPot(pot, highWinnerIds, lowWinnerIds, players, dealerPosition);
 
-    // Track all winners
+    const potWinnerIds = Array.from(new Set([...highWinnerIds, ...lowWinnerIds]));
     potWinnerIds.forEach(id => allWinnerIds.add(id));
 
-    // Store pot result for display
     potResults.push({
       amount: pot.amount,
       winnerIds: potWinnerIds,
-      winnerNames: potWinnerIds.map(id => players.find(p => p.id === id)!.name),
-      isSidePot: index > 0, // First pot is main pot, rest are side pots
+      winnerNames: potWinnerIds.map(getName),
+      isSidePot,
+      board,
+      highWinnerIds,
+      highWinnerNames: highWinnerIds.map(getName),
+      lowWinnerIds,
+      lowWinnerNames: lowWinnerIds.map(getName),
+      highAmount: paid.high,
+      lowAmount: paid.low,
+      lowHand: lowWinnerIndices.length > 0 ? eligibleLows[lowWinnerIndices[0]]! : undefined,
     });
+  };
+
+  // Process each pot from main to side pots (first pot is main pot, rest are side pots)
+  pots.forEach((pot, index) => {
+    if (!secondBoard) {
+      settlePot(pot, index > 0, handEvaluations, lowHands);
+      return;
+    }
+
+    const secondHalf = Math.floor(pot.amount / 2);
+    settlePot({ ...pot, amount: pot.amount - secondHalf }, index > 0, handEvaluations, lowHands, 1);
+    if (secondHalf > 0) {
+      settlePot({ ...pot, amount: secondHalf }, index > 0, secondBoard.handEvaluations, secondBoard.lowHands, 2);
+    }
   });
 
   // Return all players who won at least one pot, plus pot information
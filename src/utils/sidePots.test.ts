@@ -4,7 +4,7 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { calculateSidePots, distributePot, Pot } from './sidePots';
+import { calculateSidePots, distributePot, distributeSplitPot, Pot } from './sidePots';
 import { Player } from '../types/game';
 
 /**
@@ -337,7 +337,7 @@ describe('distributePot', () => {
       eligiblePlayerIds: ['p1', 'p2', 'p3'],
     };
 
-    distributePot(pot, ['p1'], players);
+    distributePot(pot, ['p1'], players, 2);
 
     expect(players[0].chips).toBe(250); // 100 + 150
     expect(players[1].chips).toBe(100);
@@ -350,7 +350,7 @@ describe('distributePot', () => {
       eligiblePlayerIds: ['p1', 'p2'],
     };
 
-    distributePot(pot, ['p1', 'p2'], players);
+    distributePot(pot, ['p1', 'p2'], players, 2);
 
     expect(players[0].chips).toBe(150); // 100 + 50
     expect(players[1].chips).toBe(150); // 100 + 50
@@ -363,20 +363,20 @@ describe('distributePot', () => {
       eligiblePlayerIds: ['p1', 'p2', 'p3'],
     };
 
-    distributePot(pot, ['p1', 'p2', 'p3'], players);
+    distributePot(pot, ['p1', 'p2', 'p3'], players, 2);
 
     expect(players[0].chips).toBe(150); // 100 + 50
     expect(players[1].chips).toBe(150); // 100 + 50
     expect(players[2].chips).toBe(150); // 100 + 50
   });
 
-  it('should give remainder to first winner when pot doesnt divide evenly', () => {
+  it('should give remainder to the winner after the button when pot doesnt divide evenly', () => {
     const pot: Pot = {
       amount: 100,
       eligiblePlayerIds: ['p1', 'p2', 'p3'],
     };
 
-    distributePot(pot, ['p1', 'p2', 'p3'], players);
+    distributePot(pot, ['p1', 'p2', 'p3'], players, 2);
 
     // 100 / 3 = 33 remainder 1
     expect(players[0].chips).toBe(134); // 100 + 33 + 1 (remainder)
@@ -384,13 +384,38 @@ describe('distributePot', () => {
     expect(players[2].chips).toBe(133); // 100 + 33
   });
 
+  it('should give the remainder to the first winner clockwise from the button', () => {
+    const pot: Pot = {
+      amount: 101,
+      eligiblePlayerIds: ['p1', 'p2', 'p3'],
+    };
+
+    // Button on Player 2: Player 3 is next to act after it, then Player 1
+    distributePot(pot, ['p1', 'p3'], players, 1);
+
+    expect(players[0].chips).toBe(150); // 100 + 50
+    expect(players[2].chips).toBe(151); // 100 + 50 + 1 (remainder)
+  });
+
+  it('should pass over a winning button when giving out the remainder', () => {
+    const pot: Pot = {
+      amount: 101,
+      eligiblePlayerIds: ['p1', 'p2', 'p3'],
+    };
+
+    distributePot(pot, ['p1', 'p2'], players, 0);
+
+    expect(players[0].chips).toBe(150); // 100 + 50 on the button
+    expect(players[1].chips).toBe(151); // 100 + 50 + 1 (remainder)
+  });
+
   it('should handle pot with remainder of 2', () => {
     const pot: Pot = {
       amount: 101,
       eligiblePlayerIds: ['p1', 'p2', 'p3'],
     };
 
-    distributePot(pot, ['p1', 'p2', 'p3'], players);
+    distributePot(pot, ['p1', 'p2', 'p3'], players, 2);
 
     // 101 / 3 = 33 remainder 2
     // Only first winner gets remainder
@@ -405,7 +430,7 @@ describe('distributePot', () => {
       eligiblePlayerIds: ['p1', 'p2'],
     };
 
-    expect(() => distributePot(pot, [], players)).toThrow('Cannot distribute pot with no winners');
+    expect(() => distributePot(pot, [], players, 2)).toThrow('Cannot distribute pot with no winners');
   });
 
   it('should throw error when winner not found in players array', () => {
@@ -414,7 +439,7 @@ describe('distributePot', () => {
       eligiblePlayerIds: ['p1', 'p2'],
     };
 
-    expect(() => distributePot(pot, ['p99'], players)).toThrow('Winner not found: p99');
+    expect(() => distributePot(pot, ['p99'], players, 2)).toThrow('Winner not found: p99');
   });
 
   it('should handle distributing to player not in eligible list (showdown logic handles eligibility)', () => {
@@ -425,7 +450,7 @@ describe('distributePot', () => {
 
     // But we can still award to p3 if showdown logic determines they won
     // distributePot doesn't validate eligibility, just distributes
-    distributePot(pot, ['p3'], players);
+    distributePot(pot, ['p3'], players, 2);
 
     expect(players[2].chips).toBe(200); // 100 + 100
   });
@@ -442,11 +467,11 @@ describe('distributePot', () => {
     };
 
     // p1 wins main pot
-    distributePot(mainPot, ['p1'], players);
+    distributePot(mainPot, ['p1'], players, 2);
     expect(players[0].chips).toBe(160);
 
     // p2 wins side pot
-    distributePot(sidePot, ['p2'], players);
+    distributePot(sidePot, ['p2'], players, 2);
     expect(players[1].chips).toBe(140);
 
     expect(players[2].chips).toBe(100);
@@ -456,3 +481,32 @@ describe('distributePot', () => {
     expect(totalChips).toBe(400); // 300 initial + 100 in pots
   });
 });
+
+describe('distributeSplitPot', () => {
+  let players: Player[];
+  const pot: Pot = { amount: 101, eligiblePlayerIds: ['p1', 'p2', 'p3'] };
+
+  beforeEach(() => {
+    players = [
+      createPlayer('p1', 'Player 1', 0, 0),
+      createPlayer('p2', 'Player 2', 0, 0),
+      createPlayer('p3', 'Player 3', 0, 0),
+    ];
+  });
+
+  it('should give the odd chip to the high half', () => {
+    expect(distributeSplitPot(pot, ['p1'], ['p2'], players, 2)).toEqual({ high: 51, low: 50 });
+    expect(players.map(p => p.chips)).toEqual([51, 50, 0]);
+  });
+
+  it('should let the high hand scoop when no low qualifies', () => {
+    expect(distributeSplitPot(pot, ['p1'], [], players, 2)).toEqual({ high: 101, low: 0 });
+    expect(players[0].chips).toBe(101);
+  });
+
+  it('should quarter a player who ties for the low', () => {
+    // p1 wins high (51) and shares the low (50) with p2
+    distributeSplitPot(pot, ['p1'], ['p1', 'p2'], players, 2);
+    expect(players.map(p => p.chips)).toEqual([76, 25, 0]);
+  });
+});
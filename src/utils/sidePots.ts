@@ -82,12 +82,15 @@ export function calculateSidePots(players: Player[]): Pot[] {
 /**
  * Distributes pot winnings to players based on pot structure and winners.
  * Modifies player chip counts in place.
+ * Chips left over when a split pot does not divide evenly go to the first
+ * winner clockwise from the button.
  *
  * @param pot The pot to distribute
  * @param winnerIds IDs of players who won this pot (may be split)
- * @param players All players (will be modified)
+ * @param players All players, in seat order (will be modified)
+ * @param dealerPosition Index of the player with the dealer button
  */
-export function distributePot(pot: Pot, winnerIds: string[], players: Player[]): void {
+export function distributePot(pot: Pot, winnerIds: string[], players: Player[], dealerPosition: number): void {
   if (winnerIds.length === 0) {
     throw new Error('Cannot distribute pot with no winners');
   }
@@ -96,13 +99,53 @@ export function distributePot(pot: Pot, winnerIds: string[], players: Player[]):
   const potShare = Math.floor(pot.amount / winnerIds.length);
   const remainder = pot.amount % winnerIds.length;
 
-  winnerIds.forEach((winnerId, index) => {
-    const winner = players.find(p => p.id === winnerId);
-    if (!winner) {
+  // Seats after the button, going clockwise; the button itself is last
+  const seatsFromButton = (playerIndex: number) =>
+    (playerIndex - dealerPosition - 1 + players.length) % players.length;
+  const winners = winnerIds.map(winnerId => {
+    const index = players.findIndex(p => p.id === winnerId);
+    if (index === -1) {
       throw new Error(`Winner not found: ${winnerId}`);
     }
+    return index;
+  });
+  const oddChipWinner = winners.reduce((first, index) => (seatsFromButton(index) < seatsFromButton(first) ? index : first));
 
-    // First winner gets the remainder (if any) from rounding
-    winner.chips += potShare + (index === 0 ? remainder : 0);
+  winners.forEach(index => {
+    players[index].chips += potShare + (index === oddChipWinner ? remainder : 0);
   });
 }
+
+/**
+ * Distributes a hi-lo pot: half to the best high hand, half to the best
+ * qualifying low. If no hand qualifies for low, the high hand scoops.
+ * The odd chip left when halving the pot goes to the high half, and each
+ * half splits like distributePot, so a player who ties for one half is
+ * quartered.
+ * Modifies player chip counts in place.
+ *
+ * @param pot The pot to distribute
+ * @param highWinnerIds IDs of players who won the high half
+ * @param lowWinnerIds IDs of players who won the low half (empty if no low qualified)
+ * @param players All players, in seat order (will be modified)
+ * @param dealerPosition Index of the player with the dealer button
+ * @returns Chips paid to each half
+ */
+export function distributeSplitPot(
+  pot: Pot,
+  highWinnerIds: string[],
+  lowWinnerIds: string[],
+  players: Player[],
+  dealerPosition: number
+): { high: number; low: number } {
+  if (lowWinnerIds.length === 0) {
+    distributePot(pot, highWinnerIds, players, dealerPosition);
+    return { high: pot.amount, low: 0 };
+  }
+
+  const low = Math.floor(pot.amount / 2);
+  const high = pot.amount - low;
+  distributePot({ ...pot, amount: high }, highWinnerIds, players, dealerPosition);
+  distributePot({ ...pot, amount: low }, lowWinnerIds, players, dealerPosition);
+  return { high, low };
+}
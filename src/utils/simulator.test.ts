@@ -0,0 +1,62 @@
+/**
+ * Tests for the headless self-play simulator.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { runSimulation, DEFAULT_SIMULATION_CONFIG } from './simulator';
+
+describe('runSimulation', () => {
+  it('should report a result for every seat', () => {
+    const result = runSimulation({ ...DEFAULT_SIMULATION_CONFIG, hands: 50, seed: 1 });
+
+    expect(result.hands).toBe(50);
+    expect(result.seats.map(s => s.difficulty)).toEqual(['easy', 'medium', 'hard']);
+    result.seats.forEach(seat => {
+      expect(seat.handsPlayed).toBe(50);
+      expect(seat.vpip).toBeGreaterThanOrEqual(0);
+      expect(seat.vpip).toBeLessThanOrEqual(100);
+    });
+  });
+
+  it('should be zero-sum across seats', () => {
+    const result = runSimulation({ ...DEFAULT_SIMULATION_CONFIG, hands: 100, seed: 7 });
+    const total = result.seats.reduce((sum, seat) => sum + seat.netChips, 0);
+    expect(total).toBe(0);
+  });
+
+  it('should reproduce the same results from the same seed', () => {
+    const config = { ...DEFAULT_SIMULATION_CONFIG, hands: 100, seed: 99 };
+    expect(runSimulation(config)).toEqual(runSimulation(config));
+  });
+
+  it('should support heads-up and larger tables', () => {
+    const headsUp = runSimulation({
+      ...DEFAULT_SIMULATION_CONFIG,
+      seats: [
+        { name: 'A', difficulty: 'hard' },
+        { name: 'B', difficulty: 'easy' },
+      ],
+      hands: 20,
+      seed: 3,
+    });
+    expect(headsUp.seats).toHaveLength(2);
+  });
+
+  it('should reject tables with fewer than two seats', () => {
+    expect(() => runSimulation({
+      ...DEFAULT_SIMULATION_CONFIG,
+      seats: [{ name: 'Solo', difficulty: 'easy' }],
+    })).toThrow('at least 2 seats');
+  });
+
+  it('should reject blinds results cannot be measured in', () => {
+    expect(() => runSimulation({ ...DEFAULT_SIMULATION_CONFIG, smallBlind: 0, bigBlind: 0 })).toThrow('whole-number blinds');
+    expect(() => runSimulation({ ...DEFAULT_SIMULATION_CONFIG, smallBlind: 10, bigBlind: 5 })).toThrow('whole-number blinds');
+  });
+
+  it('should reject starting stacks that cannot post the big blind', () => {
+    for (const startingChips of [0, 5, 99.5]) {
+      expect(() => runSimulation({ ...DEFAULT_SIMULATION_CONFIG, startingChips })).toThrow('whole-number starting stack');
+    }
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Headless self-play simulator.
+ * Plays batches of AI-versus-AI hands through the poker engine and reports
+ * per-seat results, so difficulty settings can be checked against each other.
+ */
+
+import { GameState, Player } from '../types/game';
+import { DifficultyLevel } from '../constants/difficulty';
+import { PokerEngine } from '../engine/pokerEngine';
+import { createInitialState } from '../engine/gameReducer';
+import { makeAIDecision } from './ai';
+import { createSeededRandom, generateSeed } from './random';
+import { MIN_TABLE_SIZE, MAX_TABLE_SIZE } from '../constants/table';
+
+/**
+ * Configuration for one seat in a simulation.
+ */
+export interface SimulationSeat {
+  /** Display name for the seat */
+  name: string;
+  /** AI difficulty used for this seat's decisions */
+  difficulty: DifficultyLevel;
+}
+
+/**
+ * Configuration for a simulation run.
+ */
+export interface SimulationConfig {
+  /** Seats at the table (2 or more) */
+  seats: SimulationSeat[];
+  /** Number of hands to play */
+  hands: number;
+  /** Stack every seat starts each hand with */
+  startingChips: number;
+  /** Small blind amount */
+  smallBlind: number;
+  /** Big blind amount */
+  bigBlind: number;
+  /** Master seed; each hand's seed is derived from it (random if omitted) */
+  seed?: number;
+}
+
+/**
+ * Results for a single seat after a simulation.
+ */
+export interface SeatResult {
+  /** Seat name */
+  name: string;
+  /** Seat difficulty */
+  difficulty: DifficultyLevel;
+  /** Hands played */
+  handsPlayed: number;
+  /** Hands where the seat won at least part of a pot */
+  handsWon: number;
+  /** Win rate percentage (0-100) */
+  winRate: number;
+  /** Net chips won or lost across all hands */
+  netChips: number;
+  /** Big blinds won per 100 hands */
+  bbPer100: number;
+  /** Voluntarily put money in pot percentage (0-100) */
+  vpip: number;
+  /** Aggression factor: raises divided by calls */
+  aggression: number;
+  /** Standard deviation of results in big blinds per 100 hands */
+  stdDevBbPer100: number;
+}
+
+/**
+ * Complete result of a simulation run.
+ */
+export interface SimulationResult {
+  /** Master seed used (pass it back in to reproduce the run) */
+  seed: number;
+  /** Hands played */
+  hands: number;
+  /** Per-seat results, in seat order */
+  seats: SeatResult[];
+}
+
+/** Running totals tracked per seat while the simulation plays */
+interface SeatTally {
+  handsWon: number;
+  netChips: number;
+  sumSquaredBb: number;
+  vpipHands: number;
+  raises: number;
+  calls: number;
+}
+
+/**
+ * Default simulation settings (mirrors the app's default table).
+ */
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+  seats: [
+    { name: 'Easy', difficulty: 'easy' },
+    { name: 'Medium', difficulty: 'medium' },
+    { name: 'Hard', difficulty: 'hard' },
+  ],
+  hands: 1000,
+  startingChips: 100,
+  smallBlind: 5,
+  bigBlind: 10,
+};
+
+/**
+ * Builds the state for one simulated hand.
+ * Stacks are reset every hand so seats are compared on equal footing.
+ */
+function createHandState(config: SimulationConfig, dealerPosition: number): GameState {
+  const players: Player[] = config.seats.map((seat, index) => ({
+    id: `seat${index}`,
+    name: seat.name,
+    chips: config.startingChips,
+    holeCards: [],
+    isFolded: false,
+    isUser: false,
+    position: index,
+    currentBet: 0,
+    totalBet: 0,
+    hasActed: false,
+    isAllIn: false,
+  }));
+
+  return {
+    ...createInitialState(),
+    players,
+    dealerPosition,
+    smallBlind: config.smallBlind,
+    bigBlind: config.bigBlind,
+    minRaise: config.bigBlind,
+  };
+}
+
+/**
+ * Rounds a number to one decimal place.
+ */
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Runs a self-play simulation.
+ * @param config - Seats, hand count, stacks and blinds
+ * @param onProgress - Optional callback invoked after each hand with the count played so far
+ * @returns Per-seat results
+ * @throws Error if fewer than two or more than nine seats are configured, or the blinds are not
+ * whole numbers of at least 1 with the big blind no smaller than the small, or the starting stack
+ * is not a whole number covering the big blind
+ */
+export function runSimulation(
+  config: SimulationConfig,
+  onProgress?: (handsPlayed: number) => void
+): SimulationResult {
+  if (config.seats.length < MIN_TABLE_SIZE) {
+    throw new Error(`Simulation needs at least ${MIN_TABLE_SIZE} seats, got ${config.seats.length}`);
+  }
+  if (config.seats.length > MAX_TABLE_SIZE) {
+    throw new Error(`Simulation allows at most ${MAX_TABLE_SIZE} seats, got ${config.seats.length}`);
+  }
+  if (!Number.isInteger(config.smallBlind) || config.smallBlind < 1 ||
+      !Number.isInteger(config.bigBlind) || config.bigBlind < config.smallBlind) {
+    throw new Error(`Simulation needs whole-number blinds of at least 1, big no smaller than small, got ${config.smallBlind}/${config.bigBlind}`);
+  }
+  if (!Number.isInteger(config.startingChips) || config.startingChips < config.bigBlind) {
+    throw new Error(`Simulation needs a whole-number starting stack of at least the big blind, got ${config.startingChips} with blinds of ${config.smallBlind}/${config.bigBlind}`);
+  }
+
+  const seed = config.seed ?? generateSeed();
+  const seedStream = createSeededRandom(seed);
+  const seatCount = config.seats.length;
+
+  const tallies: SeatTally[] = config.seats.map(() => ({
+    handsWon: 0,
+    netChips: 0,
+    sumSquaredBb: 0,
+    vpipHands: 0,
+    raises: 0,
+    calls: 0,
+  }));
+
+  for (let hand = 0; hand < config.hands; hand++) {
+    const engine = new PokerEngine(createHandState(config, hand % seatCount));
+    const handSeed = Math.floor(seedStream() * 4294967296);
+
+    engine.playHand((player, state, rng) => {
+      const seatIndex = state.players.findIndex(p => p.id === player.id);
+      return makeAIDecision(player, state, config.seats[seatIndex].difficulty, rng);
+    }, handSeed);
+
+    const finalState = engine.getState();
+    const winnerIds = new Set(finalState.winners.map(w => w.id));
+
+    finalState.players.forEach((player, seatIndex) => {
+      const tally = tallies[seatIndex];
+      const result = player.chips - config.startingChips;
+      const resultBb = result / config.bigBlind;
+
+      tally.netChips += result;
+      tally.sumSquaredBb += resultBb * resultBb;
+      if (winnerIds.has(player.id)) {
+        tally.handsWon++;
+      }
+
+      const actions = finalState.actionHistory.filter(entry => entry.playerId === player.id);
+      if (actions.some(entry => entry.phase === 'pre-flop' &&
+          (entry.action === 'call' || entry.action === 'raise'))) {
+        tally.vpipHands++;
+      }
+      tally.raises += actions.filter(entry => entry.action === 'raise').length;
+      tally.calls += actions.filter(entry => entry.action === 'call').length;
+    });
+
+    onProgress?.(hand + 1);
+  }
+
+  const hands = config.hands;
+  const seats: SeatResult[] = config.seats.map((seat, seatIndex) => {
+    const tally = tallies[seatIndex];
+    const meanBb = hands > 0 ? tally.netChips / config.bigBlind / hands : 0;
+    const varianceBb = hands > 0 ? tally.sumSquaredBb / hands - meanBb * meanBb : 0;
+
+    return {
+      name: seat.name,
+      difficulty: seat.difficulty,
+      handsPlayed: hands,
+      handsWon: tally.handsWon,
+      winRate: hands > 0 ? round1((tally.handsWon / hands) * 100) : 0,
+      netChips: tally.netChips,
+      bbPer100: round1(meanBb * 100),
+      vpip: hands > 0 ? round1((tally.vpipHands / hands) * 100) : 0,
+      aggression: tally.calls > 0 ? round1(tally.raises / tally.calls) : tally.raises,
+      stdDevBbPer100: round1(Math.sqrt(Math.max(0, varianceBb)) * 10),
+    };
+  });
+
+  return { seed, hands, seats };
+}
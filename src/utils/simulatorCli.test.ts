@@ -0,0 +1,42 @@
+/**
+ * Unit tests for the simulator's command-line options.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSimulationArgs } from './simulatorCli';
+import { DEFAULT_SIMULATION_CONFIG } from './simulator';
+
+describe('parseSimulationArgs', () => {
+  it('should start from the defaults', () => {
+    expect(parseSimulationArgs([])).toEqual(DEFAULT_SIMULATION_CONFIG);
+  });
+
+  it('should read every option', () => {
+    const config = parseSimulationArgs(['--', '--hands', '50', '--seats', 'hard,hard,expert', '--stack', '200', '--blinds', '10/20', '--seed', '7']);
+
+    expect(config).toMatchObject({ hands: 50, startingChips: 200, smallBlind: 10, bigBlind: 20, seed: 7 });
+    expect(config.seats.map(seat => seat.name)).toEqual(['Hard 1', 'Hard 2', 'Expert']);
+  });
+
+  it('should accept equal blinds', () => {
+    expect(parseSimulationArgs(['--blinds', '10/10'])).toMatchObject({ smallBlind: 10, bigBlind: 10 });
+  });
+
+  it('should reject blinds that are zero, fractional, missing or backwards', () => {
+    for (const blinds of ['0/0', '5/0', '0/10', '2.5/5', '10', '10/5', 'five/ten']) {
+      expect(() => parseSimulationArgs(['--blinds', blinds])).toThrow('--blinds expects positive whole-number blinds');
+    }
+    expect(() => parseSimulationArgs(['--blinds'])).toThrow('--blinds');
+  });
+
+  it('should reject stacks that are empty, missing or short of the big blind', () => {
+    expect(() => parseSimulationArgs(['--stack', '0'])).toThrow('--stack expects a positive integer, got "0"');
+    expect(() => parseSimulationArgs(['--stack'])).toThrow('--stack');
+    expect(() => parseSimulationArgs(['--stack', '15', '--blinds', '10/20'])).toThrow('--stack must cover the big blind');
+  });
+
+  it('should reject unknown options and difficulties', () => {
+    expect(() => parseSimulationArgs(['--speed', 'fast'])).toThrow('Unknown option: --speed');
+    expect(() => parseSimulationArgs(['--seats', 'easy,pro'])).toThrow('Unknown difficulty "pro"');
+  });
+});
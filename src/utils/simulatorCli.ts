@@ -0,0 +1,131 @@
+/**
+ * Command-line options for the self-play simulator (scripts/simulate.ts).
+ */
+
+import { SimulationConfig, SimulationSeat, DEFAULT_SIMULATION_CONFIG } from './simulator';
+import { DifficultyLevel, DIFFICULTY_LABELS } from '../constants/difficulty';
+
+/** Usage text printed with any option error */
+export const SIMULATION_USAGE = [
+  'Usage: npm run simulate -- [options]',
+  '  --hands <n>        Number of hands to play (default 1000)',
+  '  --seats <list>     Comma-separated difficulties, one per seat (default easy,medium,hard)',
+  '  --stack <n>        Starting stack for every seat, reset each hand (default 100)',
+  '  --blinds <sb/bb>   Blind sizes (default 5/10)',
+  '  --seed <n>         Master seed to reproduce a run',
+].join('\n');
+
+/**
+ * Parses command-line arguments into a simulation config.
+ * @param argv - Arguments after the script name
+ * @throws Error on unknown options or invalid values
+ */
+export function parseSimulationArgs(argv: string[]): SimulationConfig {
+  const config: SimulationConfig = { ...DEFAULT_SIMULATION_CONFIG };
+
+  for (let i = 0; i < argv.length; i++) {
+    const option = argv[i];
+    const value = argv[i + 1];
+
+    switch (option) {
+      case '--hands':
+        config.hands = parseNonNegativeInt(option, value);
+        i++;
+        break;
+
+      case '--seats':
+        config.seats = parseSeats(value);
+        i++;
+        break;
+
+      case '--stack':
+        config.startingChips = parsePositiveInt(option, value);
+        i++;
+        break;
+
+      case '--blinds': {
+        const blinds = parseBlinds(value);
+        config.smallBlind = blinds.smallBlind;
+        config.bigBlind = blinds.bigBlind;
+        i++;
+        break;
+      }
+
+      case '--seed':
+        config.seed = parseNonNegativeInt(option, value);
+        i++;
+        break;
+
+      case '--':
+        break;
+
+      default:
+        throw new Error(`Unknown option: ${option}`);
+    }
+  }
+
+  if (config.startingChips < config.bigBlind) {
+    throw new Error(`--stack must cover the big blind, got ${config.startingChips} with blinds of ${config.smallBlind}/${config.bigBlind}`);
+  }
+
+  return config;
+}
+
+/**
+ * Parses a non-negative integer option value.
+ */
+function parseNonNegativeInt(option: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${option} expects a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Parses a positive integer option value. Seats need chips to post the blinds.
+ */
+function parsePositiveInt(option: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`${option} expects a positive integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Parses "small/big" blinds. Both must be whole numbers of at least 1 and
+ * the big blind no smaller than the small, as for tournament blind levels:
+ * results are reported in big blinds, and bets are sized from them.
+ */
+function parseBlinds(value: string | undefined): { smallBlind: number; bigBlind: number } {
+  const match = /^(\d+)\/(\d+)$/.exec(value ?? '');
+  const smallBlind = Number(match?.[1]);
+  const bigBlind = Number(match?.[2]);
+  if (!match || smallBlind < 1 || bigBlind < smallBlind) {
+    throw new Error(`--blinds expects positive whole-number blinds as small/big with big no smaller than small, got "${value}"`);
+  }
+  return { smallBlind, bigBlind };
+}
+
+/**
+ * Parses a comma-separated list of difficulties into seats.
+ * Seats sharing a difficulty are numbered ("Hard 1", "Hard 2").
+ */
+function parseSeats(value: string | undefined): SimulationSeat[] {
+  const levels = (value ?? '').split(',').map(level => level.trim().toLowerCase());
+
+  for (const level of levels) {
+    if (!(level in DIFFICULTY_LABELS)) {
+      throw new Error(`Unknown difficulty "${level}" (expected easy, medium, hard or expert)`);
+    }
+  }
+
+  return levels.map((level, index) => {
+    const difficulty = level as DifficultyLevel;
+    const label = DIFFICULTY_LABELS[difficulty];
+    const isShared = levels.filter(l => l === level).length > 1;
+    const number = levels.slice(0, index + 1).filter(l => l === level).length;
+    return { name: isShared ? `${label} ${number}` : label, difficulty };
+  });
+}
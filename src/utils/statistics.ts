@@ -1,12 +1,70 @@
 /**
  * Utility functions for tracking and persisting player statistics.
- * Statistics are stored in localStorage for continuity across sessions.
+ * Statistics are stored in localStorage for continuity across sessions,
+ * through the versioned store in storage.ts.
  */
 
 import { DifficultyLevel, GameMode } from '../types/game';
-import { PlayerStatistics, GameModeStats, HandResult } from '../types/statistics';
+import { PlayerStatistics, GameModeStats, HandResult, CashSessionResult } from '../types/statistics';
+import { FieldSchema, StoreDefinition } from '../types/storage';
+import { checkFields, isObject, readStore, writeStore } from './storage';
 
-const STORAGE_KEY = 'poker-pardner-stats';
+/** Fields of the statistics for one mode and difficulty */
+const MODE_STATS_SCHEMA: FieldSchema = {
+  handsPlayed: 'number',
+  handsWon: 'number',
+  biggestPot: 'number',
+  currentStreak: 'number',
+  bestStreak: 'number',
+  totalWinnings: 'number',
+  totalLosses: 'number',
+  allInsCount: 'number',
+  foldCount: 'number',
+  cashSessions: 'number?',
+  cashBuyIns: 'number?',
+  cashOuts: 'number?',
+};
+
+/**
+ * Checks stored statistics, including every mode and difficulty's counts.
+ */
+function validateStatistics(data: unknown): string[] {
+  const problems = checkFields(data, {
+    byModeAndDifficulty: 'object',
+    createdAt: 'number',
+    lastUpdated: 'number',
+    sessionsPlayed: 'number',
+  }, 'Statistics');
+  if (problems.length > 0) {
+    return problems;
+  }
+
+  const byMode = (data as PlayerStatistics).byModeAndDifficulty;
+  for (const [mode, byDifficulty] of Object.entries(byMode)) {
+    if (!isObject(byDifficulty)) {
+      problems.push(`Statistics for ${mode} are not an object`);
+      continue;
+    }
+    for (const [difficulty, stats] of Object.entries(byDifficulty)) {
+      problems.push(...checkFields(stats, MODE_STATS_SCHEMA, `Statistics for ${mode}/${difficulty}`));
+    }
+  }
+  return problems;
+}
+
+/**
+ * Statistics store.
+ * Version 1 only added the envelope: statistics saved before versioning
+ * already have the version 1 shape.
+ */
+export const STATISTICS_STORE: StoreDefinition<PlayerStatistics> = {
+  key: 'poker-pardner-stats',
+  version: 1,
+  migrations: {
+    0: data => data,
+  },
+  validate: validateStatistics,
+};
 
 /**
  * Creates a new empty statistics object for a specific mode/difficulty.
@@ -22,6 +80,9 @@ function createEmptyStats(): GameModeStats {
     totalLosses: 0,
     allInsCount: 0,
     foldCount: 0,
+    cashSessions: 0,
+    cashBuyIns: 0,
+    cashOuts: 0,
   };
 }
 
@@ -43,37 +104,15 @@ function createEmptyPlayerStats(): PlayerStatistics {
  * Returns empty statistics if none exist or if data is corrupted.
  */
 export function loadStatistics(): PlayerStatistics {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) {
-      return createEmptyPlayerStats();
-    }
-
-    const parsed = JSON.parse(stored) as PlayerStatistics;
-
-    // Validate that the stored data has the expected structure
-    if (!parsed.byModeAndDifficulty || typeof parsed.createdAt !== 'number') {
-      console.warn('Invalid statistics data in localStorage, resetting');
-      return createEmptyPlayerStats();
-    }
-
-    return parsed;
-  } catch (error) {
-    console.error('Error loading statistics from localStorage:', error);
-    return createEmptyPlayerStats();
-  }
+  return readStore(STATISTICS_STORE) ?? createEmptyPlayerStats();
 }
 
 /**
  * Saves player statistics to localStorage.
  */
 export function saveStatistics(stats: PlayerStatistics): void {
-  try {
-    stats.lastUpdated = Date.now();
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(stats));
-  } catch (error) {
-    console.error('Error saving statistics to localStorage:', error);
-  }
+  stats.lastUpdated = Date.now();
+  writeStore(STATISTICS_STORE, stats);
 }
 
 /**
@@ -138,6 +177,20 @@ export function updateHandStatistics(result: HandResult): void {
   saveStatistics(stats);
 }
 
+/**
+ * Records a finished cash-game session's buy-ins and cash-out.
+ */
+export function recordCashSession(result: CashSessionResult): void {
+  const stats = loadStatistics();
+  const modeStats = getOrCreateModeStats(stats, result.mode, result.difficulty);
+
+  modeStats.cashSessions = (modeStats.cashSessions ?? 0) + 1;
+  modeStats.cashBuyIns = (modeStats.cashBuyIns ?? 0) + result.totalBuyIn;
+  modeStats.cashOuts = (modeStats.cashOuts ?? 0) + result.cashOut;
+
+  saveStatistics(stats);
+}
+
 /**
  * Increments the session counter when a new game session starts.
  */
@@ -182,6 +235,14 @@ export function calculateNetProfit(mode: GameMode, difficulty: DifficultyLevel):
   return stats.totalWinnings - stats.totalLosses;
 }
 
+/**
+ * Calculates cash-game profit/loss net of buy-ins for a specific mode and difficulty.
+ */
+export function calculateCashGameProfit(mode: GameMode, difficulty: DifficultyLevel): number {
+  const stats = getStatistics(mode, difficulty);
+  return (stats.cashOuts ?? 0) - (stats.cashBuyIns ?? 0);
+}
+
 /**
  * Resets all statistics (useful for testing or starting fresh).
  */
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for versioned localStorage persistence.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { checkFields, migrateStoredData, readStore, writeStore, isQuotaExceededError } from './storage';
+import { StoreDefinition } from '../types/storage';
+
+interface Note {
+  text: string;
+  tags: string[];
+}
+
+// Version 1 stored bare strings; version 2 turned them into notes
+const store: StoreDefinition<Note[]> = {
+  key: 'test_notes',
+  version: 2,
+  migrations: {
+    0: data => data,
+    1: data => (data as string[]).map(text => ({ text, tags: [] })),
+  },
+  validate: data => (Array.isArray(data)
+    ? data.flatMap((note, i) => checkFields(note, { text: 'string', tags: 'array' }, `Note ${i + 1}`))
+    : ['Notes are not a list']),
+  shrink: notes => (notes.length > 1 ? notes.slice(1) : null),
+};
+
+describe('checkFields', () => {
+  it('should report missing and mistyped fields but allow absent optional ones', () => {
+    const schema = { id: 'string', count: 'number', seed: 'number?' } as const;
+
+    expect(checkFields({ id: 'a', count: 1 }, schema, 'Row')).toEqual([]);
+    expect(checkFields({ count: NaN, seed: 'x' }, schema, 'Row')).toEqual([
+      'Row is missing "id"',
+      'Row has "count" that is not a number',
+      'Row has "seed" that is not a number',
+    ]);
+    expect(checkFields(null, schema, 'Row')).toEqual(['Row is not an object']);
+  });
+});
+
+describe('migrateStoredData', () => {
+  it('should migrate data from before versioning one step at a time', () => {
+    expect(migrateStoredData(store, ['hi'])).toEqual([{ text: 'hi', tags: [] }]);
+    expect(migrateStoredData(store, { version: 1, data: ['hi'] })).toEqual([{ text: 'hi', tags: [] }]);
+  });
+
+  it('should reject data from a newer version or that fails validation', () => {
+    expect(() => migrateStoredData(store, { version: 3, data: [] })).toThrow('newer version');
+    expect(() => migrateStoredData(store, { version: 2, data: [{ text: 1, tags: [] }] }))
+      .toThrow('Note 1 has "text" that is not a string');
+  });
+});
+
+describe('readStore and writeStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should write migrated data back at the current version', () => {
+    localStorage.setItem('test_notes', JSON.stringify({ version: 1, data: ['hi'] }));
+
+    expect(readStore(store)).toEqual([{ text: 'hi', tags: [] }]);
+    expect(JSON.parse(localStorage.getItem('test_notes')!)).toEqual({ version: 2, data: [{ text: 'hi', tags: [] }] });
+  });
+
+  it('should read nothing from missing or corrupt storage', () => {
+    expect(readStore(store)).toBeNull();
+    localStorage.setItem('test_notes', '{not json');
+    expect(readStore(store)).toBeNull();
+  });
+
+  it('should shrink the data until it fits when storage is full', () => {
+    const setItem = Storage.prototype.setItem;
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(function (this: Storage, key: string, value: string) {
+      if (value.length > 60) {
+        throw new DOMException('Storage is full', 'QuotaExceededError');
+      }
+      setItem.call(this, key, value);
+    });
+    const notes = ['one', 'two', 'three'].map(text => ({ text, tags: [] }));
+
+    expect(writeStore(store, notes)).toBe(true);
+    expect(readStore(store)).toEqual([{ text: 'three', tags: [] }]);
+
+    expect(writeStore(store, [{ text: 'x'.repeat(100), tags: [] }])).toBe(false);
+  });
+
+  it('should recognize quota errors only', () => {
+    expect(isQuotaExceededError(new DOMException('full', 'QuotaExceededError'))).toBe(true);
+    expect(isQuotaExceededError(new Error('full'))).toBe(false);
+  });
+});
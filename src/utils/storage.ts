@@ -0,0 +1,172 @@
+/**
+ * Versioned localStorage persistence shared by statistics and hand history.
+ * Data is saved in a { version, data } envelope; reading migrates older
+ * versions forward one step at a time and validates the result, and writing
+ * shrinks the data when the browser's storage quota is full.
+ */
+
+import { FieldSchema, StoreDefinition, StoredEnvelope } from '../types/storage';
+import { Card } from '../types/game';
+import { RANKS, SUITS } from '../constants/cards';
+import { logger } from './logger';
+
+/**
+ * Whether a value is a plain object (not null or an array).
+ */
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a value is a card with a known rank and suit.
+ */
+export function isCard(value: unknown): value is Card {
+  return isObject(value) && RANKS.includes(value.rank as Card['rank']) && SUITS.includes(value.suit as Card['suit']);
+}
+
+/**
+ * Checks a record's fields against a schema.
+ *
+ * @param value - The record to check
+ * @param schema - Expected type of each field
+ * @param label - Names the record in messages, e.g. "Hand 3"
+ * @returns One message per missing or mistyped field
+ */
+export function checkFields(value: unknown, schema: FieldSchema, label: string): string[] {
+  if (!isObject(value)) {
+    return [`${label} is not an object`];
+  }
+
+  const problems: string[] = [];
+  for (const [field, expected] of Object.entries(schema)) {
+    const optional = expected.endsWith('?');
+    const type = optional ? expected.slice(0, -1) : expected;
+    const actual = value[field];
+
+    if (actual === undefined) {
+      if (!optional) problems.push(`${label} is missing "${field}"`);
+      continue;
+    }
+    const matches =
+      type === 'array' ? Array.isArray(actual) :
+      type === 'object' ? isObject(actual) :
+      type === 'number' ? typeof actual === 'number' && Number.isFinite(actual) :
+      typeof actual === type;
+    if (!matches) {
+      problems.push(`${label} has "${field}" that is not a${type === 'array' || type === 'object' ? 'n' : ''} ${type}`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Whether an error is the browser refusing a write because storage is full.
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  return error instanceof DOMException && (
+    error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    error.code === 22
+  );
+}
+
+/**
+ * Brings stored data up to the store's current version and validates it.
+ * Anything that is not a { version, data } envelope is treated as version 0.
+ *
+ * @param store - The store the data belongs to
+ * @param stored - Parsed data as it was saved (or imported)
+ * @returns The data at the current version
+ * @throws Error if the data is from a newer version, a migration is missing, or validation fails
+ */
+export function migrateStoredData<T>(store: StoreDefinition<T>, stored: unknown): T {
+  const isEnvelope = isObject(stored) && typeof stored.version === 'number' && 'data' in stored;
+  let version = isEnvelope ? (stored as unknown as StoredEnvelope).version : 0;
+  let data = isEnvelope ? (stored as unknown as StoredEnvelope).data : stored;
+
+  if (version > store.version) {
+    throw new Error(`${store.key} was saved by a newer version (${version}, expected at most ${store.version})`);
+  }
+  while (version < store.version) {
+    const migrate = store.migrations[version];
+    if (!migrate) {
+      throw new Error(`${store.key} has no migration from version ${version}`);
+    }
+    data = migrate(data);
+    version++;
+  }
+
+  const problems = store.validate(data);
+  if (problems.length > 0) {
+    throw new Error(`Invalid ${store.key}: ${problems.join('; ')}`);
+  }
+  return data as T;
+}
+
+/**
+ * Reads a store, migrating and validating what is saved.
+ * Data that needed migrating is written back at the current version.
+ *
+ * @param store - The store to read
+ * @returns The data, or null when nothing is saved or the saved data is unusable
+ */
+export function readStore<T>(store: StoreDefinition<T>): T | null {
+  try {
+    const raw = localStorage.getItem(store.key);
+    if (!raw) {
+      return null;
+    }
+
+    const stored: unknown = JSON.parse(raw);
+    const data = migrateStoredData(store, stored);
+    if (!isObject(stored) || stored.version !== store.version) {
+      writeStore(store, data);
+    }
+    return data;
+  } catch (error) {
+    logger.error(`Failed to read ${store.key}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Writes a store at its current version.
+ * When storage is full the data is shrunk (if the store allows it) and the
+ * write retried until it fits.
+ *
+ * @param store - The store to write
+ * @param data - The data to save
+ * @returns Whether the data (or a shrunk copy of it) was saved
+ */
+export function writeStore<T>(store: StoreDefinition<T>, data: T): boolean {
+  let current: T | null = data;
+  while (current !== null) {
+    const envelope: StoredEnvelope = { version: store.version, data: current };
+    try {
+      localStorage.setItem(store.key, JSON.stringify(envelope));
+      return true;
+    } catch (error) {
+      if (!isQuotaExceededError(error) || !store.shrink) {
+        logger.error(`Failed to write ${store.key}:`, error);
+        return false;
+      }
+      current = store.shrink(current);
+    }
+  }
+
+  logger.error(`Storage is full; could not make room for ${store.key}`);
+  return false;
+}
+
+/**
+ * Removes a store's data.
+ *
+ * @param store - The store to clear
+ */
+export function clearStore<T>(store: StoreDefinition<T>): void {
+  try {
+    localStorage.removeItem(store.key);
+  } catch (error) {
+    logger.error(`Failed to clear ${store.key}:`, error);
+  }
+}
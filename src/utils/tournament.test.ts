@@ -0,0 +1,134 @@
+/**
+ * Unit tests for tournament progress.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createTournamentState,
+  getCurrentLevel,
+  startTournamentHand,
+  describeLevelProgress,
+  recordEliminations,
+  getFinishingPlaces,
+  getTournamentConfigErrors,
+} from './tournament';
+import { BLIND_SCHEDULES, DEFAULT_TOURNAMENT_CONFIG } from '../constants/tournament';
+import { Player } from '../types/game';
+import { TournamentConfig } from '../types/tournament';
+
+const player = (id: string, chips: number, isUser = false): Player => ({
+  id,
+  name: id,
+  chips,
+  holeCards: [],
+  isFolded: false,
+  isUser,
+  position: 0,
+  currentBet: 0,
+  totalBet: 0,
+  hasActed: false,
+  isAllIn: false,
+});
+
+const byHands: TournamentConfig = { levels: BLIND_SCHEDULES.turbo, advanceBy: 'hands', levelLength: 2 };
+const byMinutes: TournamentConfig = { levels: BLIND_SCHEDULES.turbo, advanceBy: 'minutes', levelLength: 5 };
+
+describe('startTournamentHand', () => {
+  it('should start the clock on the first hand at level 1', () => {
+    const t = startTournamentHand(createTournamentState(byHands), 1000);
+
+    expect(t).toMatchObject({ level: 0, handsThisLevel: 1, levelStartedAt: 1000 });
+    expect(getCurrentLevel(t)).toEqual({ smallBlind: 2, bigBlind: 4, ante: 0 });
+  });
+
+  it('should raise the blinds once a level has been played for its hand count', () => {
+    let t = createTournamentState(byHands);
+    t = startTournamentHand(t, 0);
+    t = startTournamentHand(t, 0);
+    expect(t.level).toBe(0);
+
+    t = startTournamentHand(t, 0);
+    expect(t).toMatchObject({ level: 1, handsThisLevel: 1 });
+  });
+
+  it('should raise the blinds once a level has run for its minutes', () => {
+    let t = startTournamentHand(createTournamentState(byMinutes), 0);
+    t = startTournamentHand(t, 4 * 60000);
+    expect(t.level).toBe(0);
+
+    t = startTournamentHand(t, 5 * 60000);
+    expect(t).toMatchObject({ level: 1, levelStartedAt: 5 * 60000 });
+  });
+
+  it('should stay on the final level', () => {
+    let t = { ...createTournamentState(byHands), level: 4 };
+    for (let i = 0; i < 5; i++) {
+      t = startTournamentHand(t, 0);
+    }
+    expect(t.level).toBe(4);
+  });
+});
+
+describe('describeLevelProgress', () => {
+  it('should count hands left in the level', () => {
+    const t = startTournamentHand(createTournamentState(byHands), 0);
+    expect(describeLevelProgress(t, 0)).toBe('1 hand to next level');
+    expect(describeLevelProgress(startTournamentHand(t, 0), 0)).toBe('Blinds go up next hand');
+  });
+
+  it('should count down the clock in minutes and seconds', () => {
+    const t = startTournamentHand(createTournamentState(byMinutes), 0);
+    expect(describeLevelProgress(t, 55000)).toBe('4:05 to next level');
+  });
+
+  it('should say when the blinds have stopped rising', () => {
+    const t = { ...createTournamentState(byHands), level: 4 };
+    expect(describeLevelProgress(t, 0)).toBe('Final level');
+  });
+});
+
+describe('finishing places', () => {
+  it('should place players who bust together by their starting stacks', () => {
+    const t = recordEliminations(
+      createTournamentState(DEFAULT_TOURNAMENT_CONFIG),
+      [player('big', 0), player('small', 0)],
+      new Map([['big', 60], ['small', 20]])
+    );
+
+    expect(t.eliminated.map(p => p.id)).toEqual(['small', 'big']);
+  });
+
+  it('should rank survivors by chips, then the eliminated from last out', () => {
+    let t = createTournamentState(DEFAULT_TOURNAMENT_CONFIG);
+    t = recordEliminations(t, [player('first-out', 0)]);
+    t = recordEliminations(t, [player('you', 0, true)]);
+
+    const places = getFinishingPlaces(t, [player('short', 50), player('leader', 250)]);
+
+    expect(places.map(p => [p.place, p.id])).toEqual([
+      [1, 'leader'],
+      [2, 'short'],
+      [3, 'you'],
+      [4, 'first-out'],
+    ]);
+    expect(places[2].isUser).toBe(true);
+  });
+});
+
+describe('getTournamentConfigErrors', () => {
+  it('should accept the stock schedules', () => {
+    expect(getTournamentConfigErrors(DEFAULT_TOURNAMENT_CONFIG)).toEqual([]);
+    expect(getTournamentConfigErrors(byMinutes)).toEqual([]);
+  });
+
+  it('should reject empty schedules, bad levels and zero-length levels', () => {
+    expect(getTournamentConfigErrors({ levels: [], advanceBy: 'minutes', levelLength: 0 })).toEqual([
+      'A tournament needs at least one blind level',
+      'Levels must last at least 1 minute',
+    ]);
+    expect(getTournamentConfigErrors({
+      ...byHands,
+      levels: [{ smallBlind: 4, bigBlind: 2, ante: 0 }],
+    })).toEqual(['Level 1 needs whole-number blinds (big no smaller than small) and an ante of 0 or more']);
+  });
+});
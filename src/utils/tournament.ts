@@ -0,0 +1,168 @@
+/**
+ * Tournament progress: blind levels, eliminations and finishing places.
+ * Pure functions over TournamentState; the reducer calls them between hands.
+ */
+
+import { Player } from '../types/game';
+import {
+  BlindLevel,
+  FinishingPlace,
+  TournamentConfig,
+  TournamentState,
+} from '../types/tournament';
+
+/** Milliseconds in a minute */
+const MS_PER_MINUTE = 60000;
+
+/**
+ * Creates the state for a tournament that has not dealt its first hand.
+ *
+ * @param config - Tournament rules
+ */
+export function createTournamentState(config: TournamentConfig): TournamentState {
+  return {
+    config,
+    level: 0,
+    handsThisLevel: 0,
+    eliminated: [],
+  };
+}
+
+/**
+ * Gets the blinds and ante for the current level.
+ */
+export function getCurrentLevel(tournament: TournamentState): BlindLevel {
+  return tournament.config.levels[tournament.level];
+}
+
+/**
+ * Whether the current level has run its course.
+ */
+function isLevelOver(tournament: TournamentState, now: number): boolean {
+  const { advanceBy, levelLength } = tournament.config;
+  if (advanceBy === 'hands') {
+    return tournament.handsThisLevel >= levelLength;
+  }
+  return tournament.levelStartedAt !== undefined &&
+    now - tournament.levelStartedAt >= levelLength * MS_PER_MINUTE;
+}
+
+/**
+ * Moves the tournament on for a new hand: advances the level if it is due
+ * (never past the last level), then counts the hand.
+ *
+ * @param tournament - Progress so far
+ * @param now - Time the hand starts (ms since epoch)
+ * @returns Updated progress (the input is not modified)
+ */
+export function startTournamentHand(tournament: TournamentState, now: number): TournamentState {
+  const isLastLevel = tournament.level >= tournament.config.levels.length - 1;
+
+  if (tournament.levelStartedAt === undefined) {
+    return { ...tournament, handsThisLevel: 1, levelStartedAt: now };
+  }
+  if (!isLastLevel && isLevelOver(tournament, now)) {
+    return { ...tournament, level: tournament.level + 1, handsThisLevel: 1, levelStartedAt: now };
+  }
+  return { ...tournament, handsThisLevel: tournament.handsThisLevel + 1 };
+}
+
+/**
+ * Describes how long until the blinds go up, e.g. "3 hands to next level"
+ * or "4:05 to next level".
+ *
+ * @param tournament - Progress so far
+ * @param now - Current time (ms since epoch)
+ */
+export function describeLevelProgress(tournament: TournamentState, now: number): string {
+  if (tournament.level >= tournament.config.levels.length - 1) {
+    return 'Final level';
+  }
+
+  const { advanceBy, levelLength } = tournament.config;
+  if (advanceBy === 'hands') {
+    const handsLeft = Math.max(0, levelLength - tournament.handsThisLevel);
+    return handsLeft === 0
+      ? 'Blinds go up next hand'
+      : `${handsLeft} hand${handsLeft === 1 ? '' : 's'} to next level`;
+  }
+
+  const elapsed = tournament.levelStartedAt === undefined ? 0 : now - tournament.levelStartedAt;
+  const secondsLeft = Math.max(0, Math.ceil((levelLength * MS_PER_MINUTE - elapsed) / 1000));
+  if (secondsLeft === 0) {
+    return 'Blinds go up next hand';
+  }
+  const minutes = Math.floor(secondsLeft / 60);
+  const seconds = String(secondsLeft % 60).padStart(2, '0');
+  return `${minutes}:${seconds} to next level`;
+}
+
+/**
+ * Records players knocked out in the hand just played.
+ * When several bust in the same hand, the one who started it with fewer
+ * chips finishes lower.
+ *
+ * @param tournament - Progress so far
+ * @param busted - Players left with no chips
+ * @param startingChips - Chip counts at the start of the hand, by player ID
+ * @returns Updated progress (the input is not modified)
+ */
+export function recordEliminations(
+  tournament: TournamentState,
+  busted: Player[],
+  startingChips: Map<string, number> = new Map()
+): TournamentState {
+  if (busted.length === 0) return tournament;
+
+  const ordered = [...busted].sort(
+    (a, b) => (startingChips.get(a.id) ?? 0) - (startingChips.get(b.id) ?? 0)
+  );
+  return {
+    ...tournament,
+    eliminated: [...tournament.eliminated, ...ordered.map(p => ({ id: p.id, name: p.name, isUser: p.isUser }))],
+  };
+}
+
+/**
+ * Ranks every player: those still in by chip count, then the eliminated
+ * from last out to first out.
+ *
+ * @param tournament - Progress so far
+ * @param remaining - Players still holding chips
+ * @returns Places, best first
+ */
+export function getFinishingPlaces(tournament: TournamentState, remaining: Player[]): FinishingPlace[] {
+  const standing = [...remaining]
+    .sort((a, b) => b.chips - a.chips)
+    .map(p => ({ id: p.id, name: p.name, isUser: p.isUser }));
+  const knockedOut = [...tournament.eliminated].reverse();
+
+  return [...standing, ...knockedOut].map((player, index) => ({ ...player, place: index + 1 }));
+}
+
+/**
+ * Checks tournament rules for problems.
+ *
+ * @param config - The rules to check
+ * @returns Human-readable problems (empty if the rules are valid)
+ */
+export function getTournamentConfigErrors(config: TournamentConfig): string[] {
+  const errors: string[] = [];
+
+  if (config.levels.length === 0) {
+    errors.push('A tournament needs at least one blind level');
+  }
+  config.levels.forEach((level, index) => {
+    const valid = Number.isInteger(level.smallBlind) && level.smallBlind >= 1 &&
+      Number.isInteger(level.bigBlind) && level.bigBlind >= level.smallBlind &&
+      Number.isInteger(level.ante) && level.ante >= 0;
+    if (!valid) {
+      errors.push(`Level ${index + 1} needs whole-number blinds (big no smaller than small) and an ante of 0 or more`);
+    }
+  });
+  if (!Number.isInteger(config.levelLength) || config.levelLength < 1) {
+    errors.push(`Levels must last at least 1 ${config.advanceBy === 'hands' ? 'hand' : 'minute'}`);
+  }
+
+  return errors;
+}